@@ -1,8 +1,13 @@
 import { Tabs } from 'expo-router';
 import { Chrome as Home, Search, Calendar, User } from 'lucide-react-native';
 import { theme } from '@/constants/theme';
+import { useUnreadMessages } from '@/hooks/useUnreadMessages';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
 
 export default function ClientTabLayout() {
+  const { total: unreadMessages } = useUnreadMessages();
+  usePushNotifications();
+
   return (
     <Tabs
       screenOptions={{
@@ -37,6 +42,7 @@ export default function ClientTabLayout() {
         name="bookings"
         options={{
           title: 'Agendamentos',
+          tabBarBadge: unreadMessages > 0 ? unreadMessages : undefined,
           tabBarIcon: ({ size, color }) => (
             <Calendar size={size} color={color} />
           ),
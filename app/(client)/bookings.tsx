@@ -1,29 +1,143 @@
 import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, FlatList } from 'react-native';
-import { Text, Card, Button, Chip } from 'react-native-paper';
+import { View, StyleSheet, FlatList, Alert } from 'react-native';
+import {
+  Text,
+  Card,
+  Button,
+  Chip,
+  Portal,
+  Dialog,
+  TextInput,
+  Snackbar,
+} from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import {
+  BookingError,
+  canTransition,
+  describeStatusChange,
+} from '@/lib/bookings';
+import {
+  CancellationPolicy,
+  CancellationTier,
+  CANCELLATION_POLICY_LABELS,
+  cancelBooking,
+  describeCancellationPolicy,
+  estimateRefund,
+  fetchCancellationTiers,
+} from '@/lib/cancellation';
+import {
+  RescheduleRequest,
+  RESCHEDULE_REQUESTS_SELECT,
+  counterReschedule,
+  describeReschedule,
+  findOpenRescheduleRequest,
+  mergeRescheduleRequest,
+  requestReschedule,
+  respondToReschedule,
+} from '@/lib/reschedule';
+import {
+  Quote,
+  BOOKING_QUOTES_SELECT,
+  approveQuote,
+  declineQuote,
+  findLatestQuote,
+} from '@/lib/quotes';
+import { BookingLineItem, BOOKING_LINE_ITEMS_SELECT } from '@/lib/addons';
+import {
+  BookingCharge,
+  Payment,
+  CHARGE_KIND_LABELS,
+  PAYMENTS_SELECT,
+  nextOpenCharge,
+} from '@/lib/payments';
+import { canIssueReceipt } from '@/lib/receipts';
 import { spacing, theme } from '@/constants/theme';
-import { Calendar, Clock, MapPin, User } from 'lucide-react-native';
+import { BookingTimeline } from '@/components/BookingTimeline';
+import { ChatButton } from '@/components/ChatButton';
+import { useUnreadMessages } from '@/hooks/useUnreadMessages';
+import { useBookingChanges } from '@/hooks/useBookingChanges';
+import { useRescheduleChanges } from '@/hooks/useRescheduleChanges';
+import { useQuoteChanges } from '@/hooks/useQuoteChanges';
+import { usePaymentChanges } from '@/hooks/usePaymentChanges';
+import { RescheduleDialog } from '@/components/RescheduleDialog';
+import { RescheduleProposal } from '@/components/RescheduleProposal';
+import { QuoteSummary } from '@/components/QuoteSummary';
+import { BookingLineItems } from '@/components/BookingLineItems';
+import { BookingPayments } from '@/components/BookingPayments';
+import { PaymentDialog } from '@/components/PaymentDialog';
+import { ReceiptButton } from '@/components/ReceiptButton';
+import { StarRating } from '@/components/StarRating';
+import { Calendar, Clock, MapPin, User, UtensilsCrossed } from 'lucide-react-native';
 
 interface Booking {
   id: string;
+  professional_id: string;
+  service_id: string;
   event_date: string;
   event_time: string;
   guests_count: number;
+  children_count: number;
   location: string;
   status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
   total_price: number;
   notes?: string;
+  cancellation_reason?: string | null;
+  cancelled_by?: string | null;
+  refund_percent?: number | null;
+  refund_amount?: number | null;
   services?: {
     title: string;
     duration_hours: number;
+    cancellation_policy: CancellationPolicy | null;
   };
   profiles?: {
     full_name: string;
     phone?: string;
+    cancellation_policy: CancellationPolicy;
   };
+  reschedule_requests?: RescheduleRequest[];
+  booking_quotes?: Quote[];
+  booking_line_items?: BookingLineItem[];
+  booking_charges?: BookingCharge[];
+  payments?: Payment[];
+  service_menus?: {
+    name: string;
+  } | null;
+}
+
+const BOOKING_SELECT = `
+  *,
+  services (
+    title,
+    duration_hours,
+    cancellation_policy
+  ),
+  profiles!bookings_professional_id_fkey (
+    full_name,
+    phone,
+    cancellation_policy
+  ),
+  ${RESCHEDULE_REQUESTS_SELECT},
+  ${BOOKING_QUOTES_SELECT},
+  ${BOOKING_LINE_ITEMS_SELECT},
+  ${PAYMENTS_SELECT},
+  service_menus (
+    name
+  )
+`;
+
+// A service without its own policy follows the professional's
+const getCancellationPolicy = (booking: Booking): CancellationPolicy =>
+  booking.services?.cancellation_policy ||
+  booking.profiles?.cancellation_policy ||
+  'flexible';
+
+interface Review {
+  booking_id: string;
+  rating: number;
+  comment?: string;
 }
 
 export default function BookingsScreen() {
@@ -31,6 +145,28 @@ export default function BookingsScreen() {
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'upcoming' | 'past'>('upcoming');
+  const [openTimelines, setOpenTimelines] = useState<string[]>([]);
+  const { counts: unreadMessages } = useUnreadMessages();
+  const [reviews, setReviews] = useState<Record<string, Review>>({});
+  const [reviewTarget, setReviewTarget] = useState<Booking | null>(null);
+  const [reviewRating, setReviewRating] = useState(0);
+  const [reviewComment, setReviewComment] = useState('');
+  const [submittingReview, setSubmittingReview] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+  const [cancellationTiers, setCancellationTiers] = useState<
+    CancellationTier[]
+  >([]);
+  const [cancelTarget, setCancelTarget] = useState<Booking | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [cancelling, setCancelling] = useState(false);
+  const [rescheduleTarget, setRescheduleTarget] = useState<Booking | null>(
+    null
+  );
+  const [counterTo, setCounterTo] = useState<RescheduleRequest | null>(null);
+  const [submittingReschedule, setSubmittingReschedule] = useState(false);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+  const [answeringQuote, setAnsweringQuote] = useState<string | null>(null);
+  const [paymentTarget, setPaymentTarget] = useState<Booking | null>(null);
 
   useEffect(() => {
     if (profile) {
@@ -38,23 +174,21 @@ export default function BookingsScreen() {
     }
   }, [profile]);
 
+  useEffect(() => {
+    fetchCancellationTiers()
+      .then(setCancellationTiers)
+      .catch((error) =>
+        console.error('Error loading cancellation policies:', error)
+      );
+  }, []);
+
   const loadBookings = async () => {
     if (!profile) return;
 
     try {
       const { data, error } = await supabase
         .from('bookings')
-        .select(`
-          *,
-          services (
-            title,
-            duration_hours
-          ),
-          profiles!bookings_professional_id_fkey (
-            full_name,
-            phone
-          )
-        `)
+        .select(BOOKING_SELECT)
         .eq('client_id', profile.id)
         .order('event_date', { ascending: false });
 
@@ -62,6 +196,7 @@ export default function BookingsScreen() {
         console.error('Error loading bookings:', error);
       } else {
         setBookings(data || []);
+        await loadReviews();
       }
     } catch (error) {
       console.error('Error loading bookings:', error);
@@ -70,6 +205,297 @@ export default function BookingsScreen() {
     }
   };
 
+  useBookingChanges('client', async ({ booking }) => {
+    const existing = bookings.find((b) => b.id === booking.id);
+
+    if (!existing) {
+      // New rows arrive without services/profiles, so fetch them embedded
+      const { data, error } = await supabase
+        .from('bookings')
+        .select(BOOKING_SELECT)
+        .eq('id', booking.id)
+        .single();
+
+      if (error) {
+        console.error('Error loading booking:', error);
+        return;
+      }
+
+      setBookings((prev) =>
+        [data, ...prev.filter((b) => b.id !== data.id)].sort((a, b) =>
+          b.event_date.localeCompare(a.event_date)
+        )
+      );
+      return;
+    }
+
+    setBookings((prev) =>
+      prev.map((b) => (b.id === booking.id ? { ...b, ...booking } : b))
+    );
+
+    // Charges aren't broadcast: they're created, closed or moved along with
+    // the booking's status and date, so reload them
+    if (
+      existing.status !== booking.status ||
+      existing.event_date !== booking.event_date
+    ) {
+      loadBookings();
+    }
+
+    if (existing.status !== booking.status) {
+      setSnackbarMessage(
+        describeStatusChange(booking.status, existing.services?.title)
+      );
+    } else if (
+      existing.event_date !== booking.event_date ||
+      existing.event_time !== booking.event_time
+    ) {
+      setSnackbarMessage(describeReschedule(booking, existing.services?.title));
+    }
+  });
+
+  useRescheduleChanges((request) => {
+    setBookings((prev) =>
+      prev.map((b) =>
+        b.id === request.booking_id
+          ? {
+              ...b,
+              reschedule_requests: mergeRescheduleRequest(
+                b.reschedule_requests,
+                request
+              ),
+            }
+          : b
+      )
+    );
+  });
+
+  // Quote payloads carry no items, so reload to pick them up
+  useQuoteChanges(() => {
+    loadBookings();
+  });
+
+  // A settled payment also closes its charge, so reload both
+  usePaymentChanges(() => {
+    loadBookings();
+  });
+
+  const loadReviews = async () => {
+    if (!profile) return;
+
+    const { data, error } = await supabase
+      .from('reviews')
+      .select('booking_id, rating, comment')
+      .eq('client_id', profile.id);
+
+    if (error) {
+      console.error('Error loading reviews:', error);
+    } else {
+      const reviewsByBooking: Record<string, Review> = {};
+      (data || []).forEach((review) => {
+        reviewsByBooking[review.booking_id] = review;
+      });
+      setReviews(reviewsByBooking);
+    }
+  };
+
+  const openReviewDialog = (booking: Booking) => {
+    setReviewTarget(booking);
+    setReviewRating(0);
+    setReviewComment('');
+  };
+
+  const closeReviewDialog = () => {
+    setReviewTarget(null);
+  };
+
+  const submitReview = async () => {
+    if (!profile || !reviewTarget) return;
+
+    if (reviewRating < 1) {
+      Alert.alert('Atenção', 'Selecione de 1 a 5 estrelas.');
+      return;
+    }
+
+    setSubmittingReview(true);
+    try {
+      const review = {
+        booking_id: reviewTarget.id,
+        rating: reviewRating,
+        comment: reviewComment.trim() || undefined,
+      };
+
+      const { error } = await supabase.from('reviews').insert({
+        ...review,
+        client_id: profile.id,
+        professional_id: reviewTarget.professional_id,
+        service_id: reviewTarget.service_id,
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      setReviews((prev) => ({ ...prev, [review.booking_id]: review }));
+      closeReviewDialog();
+      Alert.alert('Obrigado!', 'Sua avaliação foi enviada.');
+    } catch (error: any) {
+      console.error('Error submitting review:', error);
+      Alert.alert(
+        'Erro',
+        error.message || 'Não foi possível enviar sua avaliação.'
+      );
+    } finally {
+      setSubmittingReview(false);
+    }
+  };
+
+  const openCancelDialog = (booking: Booking) => {
+    setCancelTarget(booking);
+    setCancelReason('');
+  };
+
+  const closeCancelDialog = () => {
+    setCancelTarget(null);
+  };
+
+  const submitCancellation = async () => {
+    if (!cancelTarget) return;
+
+    if (!cancelReason.trim()) {
+      Alert.alert('Atenção', 'Informe o motivo do cancelamento.');
+      return;
+    }
+
+    setCancelling(true);
+    try {
+      await cancelBooking(cancelTarget.id, cancelReason);
+      closeCancelDialog();
+      loadBookings();
+    } catch (error) {
+      console.error('Error cancelling booking:', error);
+      Alert.alert(
+        'Erro',
+        error instanceof BookingError
+          ? error.message
+          : 'Não foi possível cancelar o agendamento.'
+      );
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const paymentCharge =
+    paymentTarget && nextOpenCharge(paymentTarget.booking_charges);
+
+  const cancelEstimate =
+    cancelTarget &&
+    estimateRefund(
+      cancellationTiers,
+      cancelTarget,
+      getCancellationPolicy(cancelTarget)
+    );
+
+  const openRescheduleDialog = (
+    booking: Booking,
+    request: RescheduleRequest | null = null
+  ) => {
+    setRescheduleTarget(booking);
+    setCounterTo(request);
+  };
+
+  const closeRescheduleDialog = () => {
+    setRescheduleTarget(null);
+    setCounterTo(null);
+  };
+
+  const submitReschedule = async (eventDate: string, eventTime: string) => {
+    if (!rescheduleTarget) return;
+
+    setSubmittingReschedule(true);
+    try {
+      if (counterTo) {
+        await counterReschedule(counterTo.id, eventDate, eventTime);
+      } else {
+        await requestReschedule(rescheduleTarget.id, eventDate, eventTime);
+      }
+      closeRescheduleDialog();
+      loadBookings();
+    } catch (error) {
+      console.error('Error requesting reschedule:', error);
+      Alert.alert(
+        'Erro',
+        error instanceof BookingError
+          ? error.message
+          : 'Não foi possível propor a nova data.'
+      );
+    } finally {
+      setSubmittingReschedule(false);
+    }
+  };
+
+  const answerReschedule = async (
+    request: RescheduleRequest,
+    accept: boolean
+  ) => {
+    setRespondingTo(request.id);
+    try {
+      await respondToReschedule(request.id, accept);
+      loadBookings();
+    } catch (error) {
+      console.error('Error answering reschedule:', error);
+      Alert.alert(
+        'Erro',
+        error instanceof BookingError
+          ? error.message
+          : 'Não foi possível responder à proposta.'
+      );
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
+  const answerQuote = async (quote: Quote, approve: boolean) => {
+    setAnsweringQuote(quote.id);
+    try {
+      if (approve) {
+        await approveQuote(quote.id);
+      } else {
+        await declineQuote(quote.id);
+      }
+      loadBookings();
+    } catch (error) {
+      console.error('Error answering quote:', error);
+      Alert.alert(
+        'Erro',
+        error instanceof BookingError
+          ? error.message
+          : 'Não foi possível responder ao orçamento.'
+      );
+    } finally {
+      setAnsweringQuote(null);
+    }
+  };
+
+  const confirmQuoteApproval = (quote: Quote) => {
+    Alert.alert(
+      'Aprovar orçamento',
+      `O agendamento será confirmado por R$ ${quote.total}.`,
+      [
+        { text: 'Voltar', style: 'cancel' },
+        { text: 'Aprovar', onPress: () => answerQuote(quote, true) },
+      ]
+    );
+  };
+
+  const toggleTimeline = (bookingId: string) => {
+    setOpenTimelines((prev) =>
+      prev.includes(bookingId)
+        ? prev.filter((id) => id !== bookingId)
+        : [...prev, bookingId]
+    );
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed':
@@ -124,81 +550,221 @@ export default function BookingsScreen() {
     }
   });
 
-  const renderBookingCard = ({ item }: { item: Booking }) => (
-    <Card style={styles.bookingCard}>
-      <Card.Content>
-        <View style={styles.bookingHeader}>
-          <Text variant="titleMedium" style={styles.serviceTitle}>
-            {item.services?.title || 'Serviço de Churrasco'}
-          </Text>
-          <Chip
-            style={[styles.statusChip, { backgroundColor: getStatusColor(item.status) + '20' }]}
-            textStyle={{ color: getStatusColor(item.status) }}
-          >
-            {getStatusLabel(item.status)}
-          </Chip>
-        </View>
-
-        <View style={styles.bookingInfo}>
-          <View style={styles.infoRow}>
-            <Calendar size={16} color={theme.colors.onSurfaceVariant} />
-            <Text variant="bodyMedium" style={styles.infoText}>
-              {formatDate(item.event_date)}
-            </Text>
-          </View>
+  const renderBookingCard = ({ item }: { item: Booking }) => {
+    const openRequest = findOpenRescheduleRequest(item.reschedule_requests);
+    const latestQuote = findLatestQuote(item.booking_quotes);
+    const openCharge = nextOpenCharge(item.booking_charges);
+    const canReschedule =
+      (item.status === 'pending' || item.status === 'confirmed') &&
+      !openRequest &&
+      isUpcoming(item.event_date);
 
-          <View style={styles.infoRow}>
-            <Clock size={16} color={theme.colors.onSurfaceVariant} />
-            <Text variant="bodyMedium" style={styles.infoText}>
-              {formatTime(item.event_time)} • {item.services?.duration_hours || 4}h
+    return (
+      <Card style={styles.bookingCard}>
+        <Card.Content>
+          <View style={styles.bookingHeader}>
+            <Text variant="titleMedium" style={styles.serviceTitle}>
+              {item.services?.title || 'Serviço de Churrasco'}
             </Text>
+            <Chip
+              style={[styles.statusChip, { backgroundColor: getStatusColor(item.status) + '20' }]}
+              textStyle={{ color: getStatusColor(item.status) }}
+            >
+              {getStatusLabel(item.status)}
+            </Chip>
           </View>
 
-          <View style={styles.infoRow}>
-            <MapPin size={16} color={theme.colors.onSurfaceVariant} />
-            <Text variant="bodyMedium" style={styles.infoText}>
-              {item.location}
-            </Text>
-          </View>
+          <View style={styles.bookingInfo}>
+            <View style={styles.infoRow}>
+              <Calendar size={16} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {formatDate(item.event_date)}
+              </Text>
+            </View>
 
-          <View style={styles.infoRow}>
-            <User size={16} color={theme.colors.onSurfaceVariant} />
-            <Text variant="bodyMedium" style={styles.infoText}>
-              {item.guests_count} pessoas • {item.profiles?.full_name}
-            </Text>
+            <View style={styles.infoRow}>
+              <Clock size={16} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {formatTime(item.event_time)} • {item.services?.duration_hours || 4}h
+              </Text>
+            </View>
+
+            <View style={styles.infoRow}>
+              <MapPin size={16} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {item.location}
+              </Text>
+            </View>
+
+            <View style={styles.infoRow}>
+              <User size={16} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {item.guests_count} pessoas
+                {item.children_count > 0 && ` (${item.children_count} crianças)`} •{' '}
+                {item.profiles?.full_name}
+              </Text>
+            </View>
+
+            {item.service_menus && (
+              <View style={styles.infoRow}>
+                <UtensilsCrossed size={16} color={theme.colors.onSurfaceVariant} />
+                <Text variant="bodyMedium" style={styles.infoText}>
+                  {item.service_menus.name}
+                </Text>
+              </View>
+            )}
           </View>
-        </View>
 
-        {item.notes && (
-          <View style={styles.notesSection}>
-            <Text variant="bodySmall" style={styles.notesLabel}>
-              Observações:
-            </Text>
-            <Text variant="bodyMedium" style={styles.notes}>
-              {item.notes}
+          <BookingLineItems items={item.booking_line_items} />
+
+          <BookingPayments booking={item} />
+
+          {item.notes && (
+            <View style={styles.notesSection}>
+              <Text variant="bodySmall" style={styles.notesLabel}>
+                Observações:
+              </Text>
+              <Text variant="bodyMedium" style={styles.notes}>
+                {item.notes}
+              </Text>
+            </View>
+          )}
+
+          {item.status === 'pending' &&
+            (latestQuote?.status === 'pending' ||
+              latestQuote?.status === 'declined') && (
+              <QuoteSummary
+                quote={latestQuote}
+                canRespond
+                busy={answeringQuote === latestQuote.id}
+                onApprove={() => confirmQuoteApproval(latestQuote)}
+                onDecline={() => answerQuote(latestQuote, false)}
+              />
+            )}
+
+          {openRequest && (
+            <RescheduleProposal
+              request={openRequest}
+              isOwn={openRequest.proposed_by === profile?.id}
+              otherPartyName={item.profiles?.full_name}
+              busy={respondingTo === openRequest.id}
+              onAccept={() => answerReschedule(openRequest, true)}
+              onDecline={() => answerReschedule(openRequest, false)}
+              onCounter={() => openRescheduleDialog(item, openRequest)}
+            />
+          )}
+
+          {item.status === 'cancelled' && item.refund_amount != null && (
+            <View style={styles.notesSection}>
+              <Text variant="bodySmall" style={styles.notesLabel}>
+                {item.cancelled_by === profile?.id
+                  ? 'Cancelado por você'
+                  : 'Cancelado pelo churrasqueiro'}
+              </Text>
+              {item.cancellation_reason && (
+                <Text variant="bodyMedium" style={styles.notes}>
+                  {item.cancellation_reason}
+                </Text>
+              )}
+              <Text variant="bodyMedium" style={styles.notes}>
+                Reembolso: R$ {item.refund_amount} ({item.refund_percent}%)
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.bookingFooter}>
+            <Text variant="titleMedium" style={styles.totalPrice}>
+              Total: R$ {item.total_price}
             </Text>
+          
+            {(item.status === 'pending' || item.status === 'confirmed') && (
+              <View style={styles.actions}>
+                {canTransition(item.status, 'cancelled', 'client') && (
+                  <Button
+                    mode="outlined"
+                    style={styles.actionButton}
+                    onPress={() => openCancelDialog(item)}
+                  >
+                    Cancelar
+                  </Button>
+                )}
+                {item.status === 'pending' && (
+                  <ChatButton
+                    bookingId={item.id}
+                    unread={unreadMessages[item.id]}
+                    label="Contatar"
+                    mode="contained"
+                    style={styles.actionButton}
+                  />
+                )}
+                {item.status === 'confirmed' && openCharge && (
+                  <Button
+                    mode="contained"
+                    style={styles.actionButton}
+                    onPress={() => setPaymentTarget(item)}
+                  >
+                    Pagar {CHARGE_KIND_LABELS[openCharge.kind].toLowerCase()}
+                  </Button>
+                )}
+              </View>
+            )}
+
+            {item.status === 'completed' && (
+              <View style={styles.actions}>
+                {/* What wasn't paid by the event can still be paid here */}
+                {openCharge && (
+                  <Button
+                    mode="outlined"
+                    style={styles.actionButton}
+                    onPress={() => setPaymentTarget(item)}
+                  >
+                    Pagar {CHARGE_KIND_LABELS[openCharge.kind].toLowerCase()}
+                  </Button>
+                )}
+                {reviews[item.id] ? (
+                  <StarRating value={reviews[item.id].rating} size={16} />
+                ) : (
+                  <Button
+                    mode="contained"
+                    style={styles.actionButton}
+                    onPress={() => openReviewDialog(item)}
+                  >
+                    Avaliar
+                  </Button>
+                )}
+              </View>
+            )}
           </View>
-        )}
 
-        <View style={styles.bookingFooter}>
-          <Text variant="titleMedium" style={styles.totalPrice}>
-            Total: R$ {item.total_price}
-          </Text>
-          
-          {item.status === 'pending' && (
-            <View style={styles.actions}>
-              <Button mode="outlined" style={styles.actionButton}>
-                Cancelar
-              </Button>
-              <Button mode="contained" style={styles.actionButton}>
-                Contatar
+          <View style={styles.cardLinks}>
+            <Button
+              mode="text"
+              compact
+              onPress={() => toggleTimeline(item.id)}
+            >
+              {openTimelines.includes(item.id) ? 'Ocultar histórico' : 'Ver histórico'}
+            </Button>
+            {canReschedule && (
+              <Button
+                mode="text"
+                compact
+                onPress={() => openRescheduleDialog(item)}
+              >
+                Remarcar
               </Button>
-            </View>
+            )}
+            {canIssueReceipt(item) && <ReceiptButton bookingId={item.id} />}
+            {item.status !== 'pending' && (
+              <ChatButton bookingId={item.id} unread={unreadMessages[item.id]} />
+            )}
+          </View>
+          {openTimelines.includes(item.id) && (
+            <BookingTimeline bookingId={item.id} />
           )}
-        </View>
-      </Card.Content>
-    </Card>
-  );
+        </Card.Content>
+      </Card>
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -250,6 +816,133 @@ export default function BookingsScreen() {
           />
         )}
       </View>
+
+      <Portal>
+        <Dialog visible={!!reviewTarget} onDismiss={closeReviewDialog}>
+          <Dialog.Title>Avaliar serviço</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium" style={styles.reviewSubtitle}>
+              {reviewTarget?.services?.title} •{' '}
+              {reviewTarget?.profiles?.full_name}
+            </Text>
+            <View style={styles.reviewStars}>
+              <StarRating
+                value={reviewRating}
+                size={32}
+                onChange={setReviewRating}
+              />
+            </View>
+            <TextInput
+              label="Comentário (opcional)"
+              value={reviewComment}
+              onChangeText={setReviewComment}
+              mode="outlined"
+              multiline
+              numberOfLines={3}
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeReviewDialog}>Cancelar</Button>
+            <Button
+              onPress={submitReview}
+              loading={submittingReview}
+              disabled={submittingReview}
+            >
+              Enviar
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={!!cancelTarget} onDismiss={closeCancelDialog}>
+          <Dialog.Title>Cancelar agendamento</Dialog.Title>
+          <Dialog.Content>
+            {cancelTarget && (
+              <>
+                <Text variant="bodyMedium" style={styles.reviewSubtitle}>
+                  {cancelTarget.services?.title} •{' '}
+                  {formatDate(cancelTarget.event_date)} às{' '}
+                  {formatTime(cancelTarget.event_time)}
+                </Text>
+                <Text variant="bodySmall" style={styles.notesLabel}>
+                  Política{' '}
+                  {CANCELLATION_POLICY_LABELS[
+                    getCancellationPolicy(cancelTarget)
+                  ].toLowerCase()}
+                </Text>
+                {describeCancellationPolicy(
+                  cancellationTiers,
+                  getCancellationPolicy(cancelTarget)
+                ).map((line) => (
+                  <Text key={line} variant="bodySmall" style={styles.policyLine}>
+                    • {line}
+                  </Text>
+                ))}
+                {cancelTarget.status === 'pending' && (
+                  <Text variant="bodySmall" style={styles.policyLine}>
+                    Agendamentos ainda não confirmados são reembolsados
+                    integralmente.
+                  </Text>
+                )}
+                <Text variant="titleSmall" style={styles.refundEstimate}>
+                  {cancelEstimate
+                    ? `Reembolso estimado: R$ ${cancelEstimate.amount} (${cancelEstimate.percent}% do valor pago)`
+                    : 'O evento já começou e não pode mais ser cancelado.'}
+                </Text>
+              </>
+            )}
+            <TextInput
+              label="Motivo do cancelamento"
+              value={cancelReason}
+              onChangeText={setCancelReason}
+              mode="outlined"
+              multiline
+              numberOfLines={3}
+              disabled={!cancelEstimate}
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeCancelDialog}>Voltar</Button>
+            <Button
+              onPress={submitCancellation}
+              loading={cancelling}
+              disabled={cancelling || !cancelEstimate}
+              textColor={theme.colors.error}
+            >
+              Cancelar agendamento
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      <PaymentDialog
+        booking={
+          paymentTarget && paymentCharge
+            ? {
+                id: paymentTarget.id,
+                title: paymentTarget.services?.title,
+                charge: paymentCharge,
+              }
+            : null
+        }
+        onDismiss={() => setPaymentTarget(null)}
+        onPaid={() => setSnackbarMessage('Pagamento confirmado.')}
+      />
+
+      <RescheduleDialog
+        booking={rescheduleTarget}
+        title={counterTo ? 'Propor outra data' : 'Remarcar evento'}
+        submitting={submittingReschedule}
+        onDismiss={closeRescheduleDialog}
+        onSubmit={submitReschedule}
+      />
+
+      <Snackbar
+        visible={!!snackbarMessage}
+        onDismiss={() => setSnackbarMessage('')}
+        duration={4000}
+      >
+        {snackbarMessage}
+      </Snackbar>
     </SafeAreaView>
   );
 }
@@ -340,6 +1033,30 @@ const styles = StyleSheet.create({
   actionButton: {
     minWidth: 80,
   },
+  cardLinks: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  reviewSubtitle: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.md,
+  },
+  policyLine: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.xs,
+  },
+  refundEstimate: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginVertical: spacing.md,
+  },
+  reviewStars: {
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -5,17 +5,18 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { fetchServiceRatings, formatRating, RatingSummary } from '@/lib/reviews';
+import { PricingRules, formatServicePrice } from '@/lib/pricing';
+import { MenuTag, MENU_TAGS, MENU_TAG_LABELS, ServiceMenu, hasMenuTag } from '@/lib/menus';
+import { NotificationBell } from '@/components/NotificationBell';
 import { spacing, theme } from '@/constants/theme';
 import { MapPin, Star, Clock } from 'lucide-react-native';
 
-interface Service {
+interface Service extends PricingRules {
   id: string;
   title: string;
   description: string;
-  price_from: number;
-  price_to?: number;
   duration_hours: number;
-  max_guests: number;
   location: string;
   images: string[];
   professional_id: string;
@@ -23,20 +24,20 @@ interface Service {
     full_name: string;
     avatar_url?: string;
   };
+  service_menus?: Pick<ServiceMenu, 'tags' | 'archived_at'>[];
 }
 
 export default function ClientHomeScreen() {
   const { profile } = useAuth();
   const [services, setServices] = useState<Service[]>([]);
+  const [ratings, setRatings] = useState<Record<string, RatingSummary>>({});
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('all');
+  const [selectedCategory, setSelectedCategory] = useState<MenuTag | 'all'>('all');
 
-  const categories = [
+  const categories: Array<{ key: MenuTag | 'all'; label: string }> = [
     { key: 'all', label: 'Todos' },
-    { key: 'traditional', label: 'Tradicional' },
-    { key: 'premium', label: 'Premium' },
-    { key: 'vegetarian', label: 'Vegetariano' },
+    ...MENU_TAGS.map((tag) => ({ key: tag, label: MENU_TAG_LABELS[tag] })),
   ];
 
   useEffect(() => {
@@ -49,6 +50,14 @@ export default function ClientHomeScreen() {
         .from('services')
         .select(`
           *,
+          service_price_tiers (
+            min_guests,
+            price_per_guest
+          ),
+          service_menus (
+            tags,
+            archived_at
+          ),
           profiles (
             full_name,
             avatar_url
@@ -60,6 +69,7 @@ export default function ClientHomeScreen() {
         console.error('Error loading services:', error);
       } else {
         setServices(data || []);
+        setRatings(await fetchServiceRatings((data || []).map((s) => s.id)));
       }
     } catch (error) {
       console.error('Error loading services:', error);
@@ -68,12 +78,13 @@ export default function ClientHomeScreen() {
     }
   };
 
-  const formatPrice = (priceFrom: number, priceTo?: number) => {
-    if (priceTo && priceTo > priceFrom) {
-      return `R$ ${priceFrom} - ${priceTo}`;
-    }
-    return `A partir de R$ ${priceFrom}`;
-  };
+  // Categories come from the tags professionals put on their menus
+  const filteredServices =
+    selectedCategory === 'all'
+      ? services
+      : services.filter((service) =>
+          hasMenuTag(service.service_menus, selectedCategory)
+        );
 
   const renderServiceCard = ({ item }: { item: Service }) => (
     <Card style={styles.serviceCard} onPress={() => router.push(`/service/${item.id}`)}>
@@ -108,7 +119,7 @@ export default function ClientHomeScreen() {
 
         <View style={styles.serviceFooter}>
           <Text variant="titleMedium" style={styles.servicePrice}>
-            {formatPrice(item.price_from, item.price_to)}
+            {formatServicePrice(item)}
           </Text>
           <View style={styles.professionalInfo}>
             <Text variant="bodySmall" style={styles.professionalName}>
@@ -116,7 +127,9 @@ export default function ClientHomeScreen() {
             </Text>
             <View style={styles.rating}>
               <Star size={14} color={theme.colors.tertiary} />
-              <Text variant="bodySmall" style={styles.ratingText}>4.8</Text>
+              <Text variant="bodySmall" style={styles.ratingText}>
+                {formatRating(ratings[item.id])}
+              </Text>
             </View>
           </View>
         </View>
@@ -129,12 +142,15 @@ export default function ClientHomeScreen() {
       <ScrollView style={styles.content}>
         {/* Header */}
         <View style={styles.header}>
-          <Text variant="headlineMedium" style={styles.greeting}>
-            Olá, {profile?.full_name?.split(' ')[0]}! 👋
-          </Text>
-          <Text variant="bodyLarge" style={styles.subGreeting}>
-            Que tal um churrasco hoje?
-          </Text>
+          <View style={styles.headerText}>
+            <Text variant="headlineMedium" style={styles.greeting}>
+              Olá, {profile?.full_name?.split(' ')[0]}! 👋
+            </Text>
+            <Text variant="bodyLarge" style={styles.subGreeting}>
+              Que tal um churrasco hoje?
+            </Text>
+          </View>
+          <NotificationBell />
         </View>
 
         {/* Search */}
@@ -167,9 +183,13 @@ export default function ClientHomeScreen() {
           
           {loading ? (
             <Text>Carregando...</Text>
+          ) : filteredServices.length === 0 ? (
+            <Text variant="bodyMedium" style={styles.emptyText}>
+              Nenhum serviço com cardápio nesta categoria ainda.
+            </Text>
           ) : (
             <FlatList
-              data={services}
+              data={filteredServices}
               renderItem={renderServiceCard}
               keyExtractor={(item) => item.id}
               showsVerticalScrollIndicator={false}
@@ -191,9 +211,14 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
     padding: spacing.lg,
     paddingBottom: spacing.md,
   },
+  headerText: {
+    flex: 1,
+  },
   greeting: {
     fontWeight: 'bold',
     color: theme.colors.onBackground,
@@ -206,6 +231,9 @@ const styles = StyleSheet.create({
     marginHorizontal: spacing.lg,
     marginBottom: spacing.md,
   },
+  emptyText: {
+    color: theme.colors.onSurfaceVariant,
+  },
   categoriesContainer: {
     paddingHorizontal: spacing.lg,
     marginBottom: spacing.lg,
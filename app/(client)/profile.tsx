@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   StyleSheet,
@@ -19,6 +19,8 @@ import { router } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { fetchTaxId, formatTaxId } from '@/lib/receipts';
+import { TaxIdDialog } from '@/components/TaxIdDialog';
 import { spacing, theme } from '@/constants/theme';
 import {
   User,
@@ -30,11 +32,22 @@ import {
   CreditCard,
   CircleHelp as HelpCircle,
   Camera,
+  FileText,
 } from 'lucide-react-native';
 
 export default function ClientProfileScreen() {
   const { profile, signOut, session, refreshProfile } = useAuth();
   const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const [taxId, setTaxId] = useState<string | null>(null);
+  const [taxIdDialogVisible, setTaxIdDialogVisible] = useState(false);
+
+  useEffect(() => {
+    if (profile?.id) {
+      fetchTaxId(profile.id)
+        .then(setTaxId)
+        .catch((error) => console.error('Erro ao buscar CPF/CNPJ:', error));
+    }
+  }, [profile?.id]);
 
   const handleUpdateAvatar = async (source: 'camera' | 'gallery') => {
     let result;
@@ -291,6 +304,21 @@ export default function ClientProfileScreen() {
               </View>
             )}
 
+            <TouchableOpacity
+              style={styles.infoItem}
+              onPress={() => setTaxIdDialogVisible(true)}
+            >
+              <FileText size={20} color={theme.colors.onSurfaceVariant} />
+              <View style={styles.infoContent}>
+                <Text variant="bodySmall" style={styles.infoLabel}>
+                  CPF/CNPJ (para recibos)
+                </Text>
+                <Text variant="bodyMedium" style={styles.infoValue}>
+                  {taxId ? formatTaxId(taxId) : 'Toque para informar'}
+                </Text>
+              </View>
+            </TouchableOpacity>
+
             <Button
               mode="outlined"
               style={styles.editButton}
@@ -321,12 +349,12 @@ export default function ClientProfileScreen() {
 
             <List.Item
               title="Métodos de pagamento"
-              description="Gerenciar cartões e formas de pagamento"
+              description="PIX, cartão e histórico de pagamentos"
               left={(props) => (
                 <CreditCard {...props} color={theme.colors.onSurface} />
               )}
               right={(props) => <List.Icon {...props} icon="chevron-right" />}
-              onPress={() => {}}
+              onPress={() => router.push('/payments')}
               style={styles.menuItem}
             />
 
@@ -352,6 +380,18 @@ export default function ClientProfileScreen() {
           </Card.Content>
         </Card>
       </ScrollView>
+      {profile && (
+        <TaxIdDialog
+          visible={taxIdDialogVisible}
+          profileId={profile.id}
+          taxId={taxId}
+          onDismiss={() => setTaxIdDialogVisible(false)}
+          onSaved={(value) => {
+            setTaxId(value);
+            setTaxIdDialogVisible(false);
+          }}
+        />
+      )}
     </SafeAreaView>
   );
 }
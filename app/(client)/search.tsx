@@ -1,31 +1,69 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, FlatList } from 'react-native';
-import { Text, Searchbar, Card, Button, Chip } from 'react-native-paper';
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import {
+  Text,
+  Searchbar,
+  Card,
+  Button,
+  Chip,
+  Portal,
+  Dialog,
+  TextInput,
+} from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { supabase } from '@/lib/supabase';
+import { router } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatRating } from '@/lib/reviews';
+import { formatServicePrice } from '@/lib/pricing';
+import {
+  searchServices,
+  SearchCursor,
+  SearchSort,
+  SEARCH_SORT_LABELS,
+  ServiceSearchResult,
+} from '@/lib/search';
+import {
+  Coordinates,
+  describeCoordinates,
+  formatDistance,
+  geocodeAddress,
+  getDeviceCoordinates,
+  NEARBY_RADIUS_KM,
+  saveProfileLocation,
+} from '@/lib/location';
+import { addDays, toDateKey } from '@/lib/availability';
 import { spacing, theme } from '@/constants/theme';
 import { MapPin, Star, Filter } from 'lucide-react-native';
 
-interface Service {
-  id: string;
-  title: string;
-  description: string;
-  price_from: number;
-  price_to?: number;
-  location: string;
-  max_guests: number;
-  profiles?: {
-    full_name: string;
-    avatar_url?: string;
-  };
-}
+const SEARCH_DEBOUNCE_MS = 300;
+const DATE_PICKER_DAYS = 30;
 
 export default function SearchScreen() {
+  const { profile, refreshProfile } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
-  const [services, setServices] = useState<Service[]>([]);
-  const [filteredServices, setFilteredServices] = useState<Service[]>([]);
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [services, setServices] = useState<ServiceSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<SearchCursor | null>(null);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [selectedFilters, setSelectedFilters] = useState<string[]>([]);
+  const [sort, setSort] = useState<SearchSort>('relevance');
+  const [coordinates, setCoordinates] = useState<Coordinates | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [locationDialogVisible, setLocationDialogVisible] = useState(false);
+  const [manualLocation, setManualLocation] = useState('');
+  const [availableDate, setAvailableDate] = useState<Date | null>(null);
+  const [dateDialogVisible, setDateDialogVisible] = useState(false);
+  // Ignores responses from searches that were superseded while in flight
+  const requestId = useRef(0);
 
   const filters = [
     { key: 'budget', label: 'Até R$ 500' },
@@ -35,64 +73,181 @@ export default function SearchScreen() {
   ];
 
   useEffect(() => {
-    loadServices();
-  }, []);
+    const timeout = setTimeout(
+      () => setDebouncedQuery(searchQuery),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
 
   useEffect(() => {
-    filterServices();
-  }, [searchQuery, services, selectedFilters]);
+    if (profile?.latitude != null && profile?.longitude != null) {
+      setCoordinates({
+        latitude: profile.latitude,
+        longitude: profile.longitude,
+      });
+    }
+  }, [profile?.latitude, profile?.longitude]);
+
+  useEffect(() => {
+    loadServices();
+  }, [debouncedQuery, sort, selectedFilters, coordinates, availableDate]);
+
+  const getSearchParams = () => {
+    const now = new Date();
+    const availableToday = selectedFilters.includes('available');
+
+    return {
+      query: debouncedQuery,
+      sort,
+      minPrice: selectedFilters.includes('premium') ? 800 : undefined,
+      maxPrice: selectedFilters.includes('budget') ? 500 : undefined,
+      coordinates,
+      radiusKm:
+        selectedFilters.includes('nearby') && coordinates
+          ? NEARBY_RADIUS_KM
+          : undefined,
+      availableOn: availableToday ? now : availableDate,
+      availableAfter: availableToday
+        ? now.toTimeString().substring(0, 5)
+        : undefined,
+    };
+  };
 
   const loadServices = async () => {
+    const currentRequest = ++requestId.current;
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('services')
-        .select(`
-          *,
-          profiles (
-            full_name,
-            avatar_url
-          )
-        `);
-
-      if (error) {
-        console.error('Error loading services:', error);
-      } else {
-        setServices(data || []);
-      }
+      const page = await searchServices(getSearchParams());
+      if (currentRequest !== requestId.current) return;
+
+      setServices(page.services);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
     } catch (error) {
       console.error('Error loading services:', error);
     } finally {
-      setLoading(false);
+      if (currentRequest === requestId.current) {
+        setLoading(false);
+      }
     }
   };
 
-  const filterServices = () => {
-    let filtered = services;
+  const loadMoreServices = async () => {
+    if (!nextCursor || loading || loadingMore) return;
 
-    // Text search
-    if (searchQuery.trim()) {
-      filtered = filtered.filter(service =>
-        service.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        service.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        service.location.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        service.profiles?.full_name.toLowerCase().includes(searchQuery.toLowerCase())
-      );
+    const currentRequest = requestId.current;
+    setLoadingMore(true);
+    try {
+      const page = await searchServices({
+        ...getSearchParams(),
+        cursor: nextCursor,
+      });
+      if (currentRequest !== requestId.current) return;
+
+      setServices((prev) => [...prev, ...page.services]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more services:', error);
+    } finally {
+      setLoadingMore(false);
     }
+  };
 
-    // Apply filters
-    if (selectedFilters.includes('budget')) {
-      filtered = filtered.filter(service => service.price_from <= 500);
+  const selectNearby = (nextCoordinates: Coordinates) => {
+    setCoordinates(nextCoordinates);
+    setSelectedFilters((prev) =>
+      prev.includes('nearby') ? prev : [...prev, 'nearby']
+    );
+  };
+
+  const storeLocation = async (label: string, nextCoordinates: Coordinates) => {
+    if (profile) {
+      await saveProfileLocation(profile.id, label, nextCoordinates);
+      await refreshProfile();
+    }
+    selectNearby(nextCoordinates);
+  };
+
+  const enableNearby = async () => {
+    setLocating(true);
+    try {
+      const deviceCoordinates = await getDeviceCoordinates();
+      if (!deviceCoordinates) {
+        setLocationDialogVisible(true);
+        return;
+      }
+
+      const label =
+        (await describeCoordinates(deviceCoordinates)) ||
+        profile?.location ||
+        '';
+      await storeLocation(label, deviceCoordinates);
+    } catch (error) {
+      console.error('Error getting device location:', error);
+      setLocationDialogVisible(true);
+    } finally {
+      setLocating(false);
     }
+  };
 
-    if (selectedFilters.includes('premium')) {
-      filtered = filtered.filter(service => service.price_from >= 800);
+  const submitManualLocation = async () => {
+    setLocating(true);
+    try {
+      const manualCoordinates = await geocodeAddress(manualLocation);
+      if (!manualCoordinates) {
+        Alert.alert(
+          'Localização não encontrada',
+          'Confira o CEP ou a cidade informada.'
+        );
+        return;
+      }
+
+      await storeLocation(manualLocation.trim(), manualCoordinates);
+      setLocationDialogVisible(false);
+    } catch (error: any) {
+      console.error('Error saving location:', error);
+      Alert.alert(
+        'Erro',
+        error.message || 'Não foi possível definir sua localização.'
+      );
+    } finally {
+      setLocating(false);
     }
+  };
+
+  const openLocationDialog = () => {
+    setManualLocation(profile?.location || '');
+    setLocationDialogVisible(true);
+  };
 
-    setFilteredServices(filtered);
+  const selectAvailableDate = (date: Date) => {
+    setAvailableDate(date);
+    setSelectedFilters((prev) => prev.filter((f) => f !== 'available'));
+    setDateDialogVisible(false);
+  };
+
+  const formatShortDate = (date: Date) => {
+    return date.toLocaleDateString('pt-BR', {
+      day: '2-digit',
+      month: '2-digit',
+    });
   };
 
   const toggleFilter = (filterKey: string) => {
+    if (filterKey === 'available') {
+      setAvailableDate(null);
+    }
+
+    if (
+      filterKey === 'nearby' &&
+      !coordinates &&
+      !selectedFilters.includes('nearby')
+    ) {
+      enableNearby();
+      return;
+    }
+
     setSelectedFilters(prev => {
       if (prev.includes(filterKey)) {
         return prev.filter(f => f !== filterKey);
@@ -102,14 +257,7 @@ export default function SearchScreen() {
     });
   };
 
-  const formatPrice = (priceFrom: number, priceTo?: number) => {
-    if (priceTo && priceTo > priceFrom) {
-      return `R$ ${priceFrom} - ${priceTo}`;
-    }
-    return `A partir de R$ ${priceFrom}`;
-  };
-
-  const renderServiceCard = ({ item }: { item: Service }) => (
+  const renderServiceCard = ({ item }: { item: ServiceSearchResult }) => (
     <Card style={styles.serviceCard}>
       <Card.Content>
         <Text variant="titleMedium" style={styles.serviceTitle}>
@@ -124,6 +272,7 @@ export default function SearchScreen() {
             <MapPin size={16} color={theme.colors.onSurfaceVariant} />
             <Text variant="bodySmall" style={styles.infoText}>
               {item.location}
+              {item.distance_km != null && ` • ${formatDistance(item.distance_km)}`}
             </Text>
           </View>
           <Text variant="bodySmall" style={styles.guestInfo}>
@@ -133,7 +282,7 @@ export default function SearchScreen() {
 
         <View style={styles.serviceFooter}>
           <Text variant="titleMedium" style={styles.servicePrice}>
-            {formatPrice(item.price_from, item.price_to)}
+            {formatServicePrice(item.pricing)}
           </Text>
           <View style={styles.professionalInfo}>
             <Text variant="bodySmall" style={styles.professionalName}>
@@ -141,7 +290,9 @@ export default function SearchScreen() {
             </Text>
             <View style={styles.rating}>
               <Star size={14} color={theme.colors.tertiary} />
-              <Text variant="bodySmall" style={styles.ratingText}>4.8</Text>
+              <Text variant="bodySmall" style={styles.ratingText}>
+                {formatRating(item.rating)}
+              </Text>
             </View>
           </View>
         </View>
@@ -149,7 +300,7 @@ export default function SearchScreen() {
         <Button
           mode="contained"
           style={styles.contactButton}
-          onPress={() => {}}
+          onPress={() => router.push(`/service/${item.id}`)}
         >
           Ver detalhes
         </Button>
@@ -187,29 +338,143 @@ export default function SearchScreen() {
                 key={filter.key}
                 selected={selectedFilters.includes(filter.key)}
                 onPress={() => toggleFilter(filter.key)}
+                disabled={filter.key === 'nearby' && locating}
                 style={styles.filterChip}
               >
                 {filter.label}
               </Chip>
             ))}
+            <Chip
+              selected={!!availableDate}
+              onPress={() => setDateDialogVisible(true)}
+              onClose={availableDate ? () => setAvailableDate(null) : undefined}
+              style={styles.filterChip}
+            >
+              {availableDate
+                ? `Disponível em ${formatShortDate(availableDate)}`
+                : 'Outra data'}
+            </Chip>
+          </View>
+          {selectedFilters.includes('nearby') && coordinates && (
+            <View style={styles.nearbyRow}>
+              <MapPin size={16} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodySmall" style={styles.nearbyText}>
+                Até {NEARBY_RADIUS_KM} km de {profile?.location || 'você'}
+              </Text>
+              <Button mode="text" compact onPress={openLocationDialog}>
+                Alterar
+              </Button>
+            </View>
+          )}
+          <Text variant="titleSmall" style={styles.sortTitle}>
+            Ordenar por
+          </Text>
+          <View style={styles.filtersRow}>
+            {(Object.keys(SEARCH_SORT_LABELS) as SearchSort[]).map((key) => (
+              <Chip
+                key={key}
+                selected={sort === key}
+                onPress={() => setSort(key)}
+                style={styles.filterChip}
+              >
+                {SEARCH_SORT_LABELS[key]}
+              </Chip>
+            ))}
           </View>
         </View>
       </View>
 
       <View style={styles.resultsContainer}>
         <Text variant="titleMedium" style={styles.resultsTitle}>
-          {filteredServices.length} churrasqueiro(s) encontrado(s)
+          {total} churrasqueiro(s) encontrado(s)
         </Text>
 
         <FlatList
-          data={filteredServices}
+          data={services}
           renderItem={renderServiceCard}
           keyExtractor={(item) => item.id}
           showsVerticalScrollIndicator={false}
           refreshing={loading}
           onRefresh={loadServices}
+          onEndReached={loadMoreServices}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? (
+              <ActivityIndicator
+                style={styles.listFooter}
+                color={theme.colors.primary}
+              />
+            ) : null
+          }
         />
       </View>
+
+      <Portal>
+        <Dialog
+          visible={locationDialogVisible}
+          onDismiss={() => setLocationDialogVisible(false)}
+        >
+          <Dialog.Title>Onde será o evento?</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium" style={styles.dialogText}>
+              Informe seu CEP ou cidade para encontrar churrasqueiros próximos.
+            </Text>
+            <TextInput
+              label="CEP ou cidade"
+              value={manualLocation}
+              onChangeText={setManualLocation}
+              mode="outlined"
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setLocationDialogVisible(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onPress={submitManualLocation}
+              loading={locating}
+              disabled={locating || !manualLocation.trim()}
+            >
+              Buscar
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog
+          visible={dateDialogVisible}
+          onDismiss={() => setDateDialogVisible(false)}
+        >
+          <Dialog.Title>Disponível em</Dialog.Title>
+          <Dialog.ScrollArea>
+            <ScrollView contentContainerStyle={styles.dateOptions}>
+              {Array.from({ length: DATE_PICKER_DAYS }, (_, index) =>
+                addDays(new Date(), index + 1)
+              ).map((date) => (
+                <Chip
+                  key={toDateKey(date)}
+                  selected={
+                    !!availableDate &&
+                    toDateKey(availableDate) === toDateKey(date)
+                  }
+                  onPress={() => selectAvailableDate(date)}
+                  style={styles.filterChip}
+                >
+                  {date.toLocaleDateString('pt-BR', {
+                    weekday: 'short',
+                    day: '2-digit',
+                    month: '2-digit',
+                  })}
+                </Chip>
+              ))}
+            </ScrollView>
+          </Dialog.ScrollArea>
+          <Dialog.Actions>
+            <Button onPress={() => setDateDialogVisible(false)}>
+              Cancelar
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
     </SafeAreaView>
   );
 }
@@ -252,6 +517,21 @@ const styles = StyleSheet.create({
     flexWrap: 'wrap',
     gap: spacing.sm,
   },
+  nearbyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  nearbyText: {
+    flex: 1,
+    marginLeft: spacing.xs,
+    color: theme.colors.onSurfaceVariant,
+  },
+  sortTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginTop: spacing.sm,
+    marginBottom: spacing.sm,
+  },
   filterChip: {
     marginRight: spacing.sm,
     marginBottom: spacing.sm,
@@ -321,4 +601,15 @@ const styles = StyleSheet.create({
   contactButton: {
     marginTop: spacing.sm,
   },
+  dateOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingVertical: spacing.md,
+  },
+  dialogText: {
+    marginBottom: spacing.md,
+  },
+  listFooter: {
+    paddingVertical: spacing.md,
+  },
 });
\ No newline at end of file
@@ -2,13 +2,20 @@ import { Tabs } from 'expo-router';
 import {
   Chrome as Home,
   Calendar,
+  CalendarClock,
   ChartBar as BarChart3,
   User,
   HomeIcon,
+  Wallet,
 } from 'lucide-react-native';
 import { theme } from '@/constants/theme';
+import { useUnreadMessages } from '@/hooks/useUnreadMessages';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
 
 export default function ProfessionalTabLayout() {
+  const { total: unreadMessages } = useUnreadMessages();
+  usePushNotifications();
+
   return (
     <Tabs
       screenOptions={{
@@ -34,11 +41,21 @@ export default function ProfessionalTabLayout() {
         name="bookings"
         options={{
           title: 'Agendamentos',
+          tabBarBadge: unreadMessages > 0 ? unreadMessages : undefined,
           tabBarIcon: ({ size, color }) => (
             <Calendar size={size} color={color} />
           ),
         }}
       />
+      <Tabs.Screen
+        name="availability"
+        options={{
+          title: 'Agenda',
+          tabBarIcon: ({ size, color }) => (
+            <CalendarClock size={size} color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="analytics"
         options={{
@@ -48,6 +65,13 @@ export default function ProfessionalTabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="finance"
+        options={{
+          title: 'Financeiro',
+          tabBarIcon: ({ size, color }) => <Wallet size={size} color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
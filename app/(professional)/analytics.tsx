@@ -4,19 +4,30 @@ import { Text, Card, Button } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import {
+  fetchProfessionalRating,
+  formatRating,
+  formatReviewCount,
+  EMPTY_RATING,
+  RatingSummary,
+} from '@/lib/reviews';
+import { bookingRevenue, revenueEntries } from '@/lib/finance';
 import { spacing, theme } from '@/constants/theme';
 import { ChartBar as BarChart3, DollarSign, Calendar, TrendingUp, Star, Users } from 'lucide-react-native';
 
 interface AnalyticsData {
   totalRevenue: number;
   totalBookings: number;
-  averageRating: number;
+  rating: RatingSummary;
   completionRate: number;
   monthlyRevenue: number[];
   topServices: Array<{
     title: string;
     bookings: number;
     revenue: number;
+    // Part of revenue that came from add-ons, and how often each one sold
+    addonRevenue: number;
+    addons: Array<{ name: string; quantity: number }>;
   }>;
 }
 
@@ -25,7 +36,7 @@ export default function AnalyticsScreen() {
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData>({
     totalRevenue: 0,
     totalBookings: 0,
-    averageRating: 4.8,
+    rating: EMPTY_RATING,
     completionRate: 0,
     monthlyRevenue: [],
     topServices: [],
@@ -51,6 +62,16 @@ export default function AnalyticsScreen() {
           *,
           services (
             title
+          ),
+          booking_line_items (
+            name,
+            quantity,
+            amount
+          ),
+          payments (
+            amount,
+            status,
+            paid_at
           )
         `)
         .eq('professional_id', profile.id);
@@ -61,43 +82,75 @@ export default function AnalyticsScreen() {
         // Calculate analytics
         const totalBookings = bookings?.length || 0;
         const completedBookings = bookings?.filter(b => b.status === 'completed') || [];
-        const totalRevenue = completedBookings.reduce((sum, b) => sum + b.total_price, 0);
+        // Revenue is money actually received, deposits included, not the
+        // price of completed bookings; refunds come off it as in the ledger
+        const totalRevenue = (bookings || []).reduce((sum, b) => sum + bookingRevenue(b), 0);
         const completionRate = totalBookings > 0 ? (completedBookings.length / totalBookings) * 100 : 0;
 
         // Calculate monthly revenue for chart (last 6 months)
         const monthlyRevenue = Array(6).fill(0);
         const currentDate = new Date();
         
-        completedBookings.forEach(booking => {
-          const bookingDate = new Date(booking.event_date);
-          const monthDiff = (currentDate.getFullYear() - bookingDate.getFullYear()) * 12 + 
-                           (currentDate.getMonth() - bookingDate.getMonth());
-          
-          if (monthDiff >= 0 && monthDiff < 6) {
-            monthlyRevenue[5 - monthDiff] += booking.total_price;
-          }
+        (bookings || []).forEach(booking => {
+          revenueEntries(booking).forEach((entry) => {
+            const entryDate = new Date(entry.at);
+            const monthDiff = (currentDate.getFullYear() - entryDate.getFullYear()) * 12 +
+                             (currentDate.getMonth() - entryDate.getMonth());
+
+            if (monthDiff >= 0 && monthDiff < 6) {
+              monthlyRevenue[5 - monthDiff] += entry.amount;
+            }
+          });
         });
 
         // Calculate top services
-        const serviceStats: { [key: string]: { bookings: number; revenue: number } } = {};
-        completedBookings.forEach(booking => {
+        const serviceStats: {
+          [key: string]: {
+            bookings: number;
+            revenue: number;
+            addonRevenue: number;
+            addons: { [name: string]: number };
+          };
+        } = {};
+        (bookings || []).forEach(booking => {
+          const received = bookingRevenue(booking);
+          if (booking.status !== 'completed' && received === 0) return;
+
           const serviceTitle = booking.services?.title || 'Serviço de Churrasco';
           if (!serviceStats[serviceTitle]) {
-            serviceStats[serviceTitle] = { bookings: 0, revenue: 0 };
+            serviceStats[serviceTitle] = { bookings: 0, revenue: 0, addonRevenue: 0, addons: {} };
           }
-          serviceStats[serviceTitle].bookings++;
-          serviceStats[serviceTitle].revenue += booking.total_price;
+          const stats = serviceStats[serviceTitle];
+          stats.revenue += received;
+          if (booking.status !== 'completed') return;
+
+          stats.bookings++;
+          (booking.booking_line_items || []).forEach(
+            (item: { name: string; quantity: number; amount: number }) => {
+              stats.addonRevenue += item.amount;
+              stats.addons[item.name] = (stats.addons[item.name] || 0) + item.quantity;
+            }
+          );
         });
 
         const topServices = Object.entries(serviceStats)
-          .map(([title, stats]) => ({ title, ...stats }))
+          .map(([title, stats]) => ({
+            title,
+            ...stats,
+            addons: Object.entries(stats.addons)
+              .map(([name, quantity]) => ({ name, quantity }))
+              .sort((a, b) => b.quantity - a.quantity)
+              .slice(0, 3),
+          }))
           .sort((a, b) => b.revenue - a.revenue)
           .slice(0, 5);
 
+        const rating = await fetchProfessionalRating(profile.id);
+
         setAnalyticsData({
           totalRevenue,
           totalBookings,
-          averageRating: 4.8, // Mock rating
+          rating,
           completionRate,
           monthlyRevenue,
           topServices,
@@ -201,7 +254,10 @@ export default function AnalyticsScreen() {
                   </Text>
                 </View>
                 <Text variant="headlineSmall" style={styles.metricValue}>
-                  {analyticsData.averageRating.toFixed(1)}
+                  {formatRating(analyticsData.rating)}
+                </Text>
+                <Text variant="bodySmall" style={styles.metricCaption}>
+                  {formatReviewCount(analyticsData.rating.count)}
                 </Text>
               </Card.Content>
             </Card>
@@ -287,6 +343,14 @@ export default function AnalyticsScreen() {
                     <Text variant="bodySmall" style={styles.serviceStats}>
                       {service.bookings} agendamentos • {formatCurrency(service.revenue)}
                     </Text>
+                    {service.addons.length > 0 && (
+                      <Text variant="bodySmall" style={styles.serviceStats}>
+                        Adicionais ({formatCurrency(service.addonRevenue)}):{' '}
+                        {service.addons
+                          .map((addon) => `${addon.name} (${addon.quantity})`)
+                          .join(', ')}
+                      </Text>
+                    )}
                   </View>
                   <View style={styles.serviceRank}>
                     <Text variant="titleMedium" style={styles.rankNumber}>
@@ -384,6 +448,9 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: theme.colors.onSurface,
   },
+  metricCaption: {
+    color: theme.colors.onSurfaceVariant,
+  },
   chartCard: {
     marginHorizontal: spacing.lg,
     marginBottom: spacing.lg,
@@ -0,0 +1,649 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  TouchableOpacity,
+} from 'react-native';
+import {
+  Text,
+  Card,
+  Button,
+  Switch,
+  TextInput,
+  IconButton,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { WEEKDAY_LABELS, toDateKey } from '@/lib/availability';
+import { borderRadius, spacing, theme } from '@/constants/theme';
+import { ChevronLeft, ChevronRight } from 'lucide-react-native';
+
+interface DayHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+const DEFAULT_HOURS: DayHours = { enabled: true, start: '10:00', end: '22:00' };
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Matches the column default in profiles.travel_buffer_minutes.
+const DEFAULT_TRAVEL_BUFFER = 60;
+const TRAVEL_BUFFER_STEP = 15;
+
+const MONTH_NAMES = [
+  'Janeiro',
+  'Fevereiro',
+  'Março',
+  'Abril',
+  'Maio',
+  'Junho',
+  'Julho',
+  'Agosto',
+  'Setembro',
+  'Outubro',
+  'Novembro',
+  'Dezembro',
+];
+
+export default function AvailabilityScreen() {
+  const { profile, refreshProfile } = useAuth();
+  const [hours, setHours] = useState<DayHours[]>(
+    WEEKDAY_LABELS.map(() => ({ ...DEFAULT_HOURS }))
+  );
+  const [maxEventsPerDay, setMaxEventsPerDay] = useState(
+    profile?.max_events_per_day || 1
+  );
+  const [travelBufferMinutes, setTravelBufferMinutes] = useState(
+    profile?.travel_buffer_minutes ?? DEFAULT_TRAVEL_BUFFER
+  );
+  const [blackoutDates, setBlackoutDates] = useState<string[]>([]);
+  const [bookedDates, setBookedDates] = useState<Record<string, number>>({});
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (profile) {
+      setMaxEventsPerDay(profile.max_events_per_day || 1);
+      setTravelBufferMinutes(
+        profile.travel_buffer_minutes ?? DEFAULT_TRAVEL_BUFFER
+      );
+      loadWorkingHours();
+      loadBlackoutDates();
+    }
+  }, [profile?.id]);
+
+  useEffect(() => {
+    if (profile) {
+      loadBookedDates();
+    }
+  }, [profile?.id, visibleMonth]);
+
+  const loadWorkingHours = async () => {
+    if (!profile) return;
+
+    const { data, error } = await supabase
+      .from('professional_working_hours')
+      .select('*')
+      .eq('professional_id', profile.id);
+
+    if (error) {
+      console.error('Error loading working hours:', error);
+      return;
+    }
+
+    // No rows means the professional never configured a schedule, which
+    // the database treats as the default hours every day.
+    if (!data || data.length === 0) {
+      return;
+    }
+
+    setHours(
+      WEEKDAY_LABELS.map((_, weekday) => {
+        const row = data.find((h) => h.weekday === weekday);
+        return row
+          ? {
+              enabled: true,
+              start: row.start_time.substring(0, 5),
+              end: row.end_time.substring(0, 5),
+            }
+          : { ...DEFAULT_HOURS, enabled: false };
+      })
+    );
+  };
+
+  const loadBlackoutDates = async () => {
+    if (!profile) return;
+
+    const { data, error } = await supabase
+      .from('professional_blackout_dates')
+      .select('blackout_date')
+      .eq('professional_id', profile.id);
+
+    if (error) {
+      console.error('Error loading blackout dates:', error);
+    } else {
+      setBlackoutDates((data || []).map((d) => d.blackout_date));
+    }
+  };
+
+  const loadBookedDates = async () => {
+    if (!profile) return;
+
+    const monthEnd = new Date(
+      visibleMonth.getFullYear(),
+      visibleMonth.getMonth() + 1,
+      0
+    );
+
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('event_date')
+      .eq('professional_id', profile.id)
+      .eq('status', 'confirmed')
+      .gte('event_date', toDateKey(visibleMonth))
+      .lte('event_date', toDateKey(monthEnd));
+
+    if (error) {
+      console.error('Error loading bookings:', error);
+    } else {
+      const counts: Record<string, number> = {};
+      (data || []).forEach((b) => {
+        counts[b.event_date] = (counts[b.event_date] || 0) + 1;
+      });
+      setBookedDates(counts);
+    }
+  };
+
+  const updateDay = (weekday: number, changes: Partial<DayHours>) => {
+    setHours((prev) =>
+      prev.map((day, index) => (index === weekday ? { ...day, ...changes } : day))
+    );
+  };
+
+  const handleSave = async () => {
+    if (!profile) return;
+
+    const invalidDay = hours.findIndex(
+      (day) =>
+        day.enabled &&
+        (!TIME_PATTERN.test(day.start) ||
+          !TIME_PATTERN.test(day.end) ||
+          day.end <= day.start)
+    );
+
+    if (invalidDay >= 0) {
+      Alert.alert(
+        'Horário inválido',
+        `Verifique o horário de ${WEEKDAY_LABELS[invalidDay]}: use HH:MM e termine depois do início.`
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const enabledRows = hours
+        .map((day, weekday) => ({ ...day, weekday }))
+        .filter((day) => day.enabled)
+        .map((day) => ({
+          professional_id: profile.id,
+          weekday: day.weekday,
+          start_time: day.start,
+          end_time: day.end,
+          updated_at: new Date().toISOString(),
+        }));
+      const disabledWeekdays = hours
+        .map((day, weekday) => ({ ...day, weekday }))
+        .filter((day) => !day.enabled)
+        .map((day) => day.weekday);
+
+      if (enabledRows.length > 0) {
+        const { error } = await supabase
+          .from('professional_working_hours')
+          .upsert(enabledRows, { onConflict: 'professional_id,weekday' });
+
+        if (error) {
+          throw error;
+        }
+      }
+
+      if (disabledWeekdays.length > 0) {
+        const { error } = await supabase
+          .from('professional_working_hours')
+          .delete()
+          .eq('professional_id', profile.id)
+          .in('weekday', disabledWeekdays);
+
+        if (error) {
+          throw error;
+        }
+      }
+
+      const { error: profileError } = await supabase
+        .from('profiles')
+        .update({
+          max_events_per_day: maxEventsPerDay,
+          travel_buffer_minutes: travelBufferMinutes,
+        })
+        .eq('id', profile.id);
+
+      if (profileError) {
+        throw profileError;
+      }
+
+      await refreshProfile();
+      Alert.alert('Sucesso', 'Disponibilidade atualizada!');
+    } catch (error: any) {
+      console.error('Erro ao salvar disponibilidade:', error);
+      Alert.alert(
+        'Erro',
+        error.message || 'Não foi possível salvar a disponibilidade.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleBlackoutDate = async (dateKey: string) => {
+    if (!profile) return;
+
+    const isBlackout = blackoutDates.includes(dateKey);
+
+    try {
+      if (isBlackout) {
+        const { error } = await supabase
+          .from('professional_blackout_dates')
+          .delete()
+          .eq('professional_id', profile.id)
+          .eq('blackout_date', dateKey);
+
+        if (error) {
+          throw error;
+        }
+
+        setBlackoutDates((prev) => prev.filter((d) => d !== dateKey));
+      } else {
+        const { error } = await supabase
+          .from('professional_blackout_dates')
+          .insert({ professional_id: profile.id, blackout_date: dateKey });
+
+        if (error) {
+          throw error;
+        }
+
+        setBlackoutDates((prev) => [...prev, dateKey]);
+      }
+    } catch (error: any) {
+      console.error('Erro ao atualizar bloqueio:', error);
+      Alert.alert('Erro', error.message || 'Não foi possível atualizar a data.');
+    }
+  };
+
+  const changeMonth = (offset: number) => {
+    setVisibleMonth(
+      new Date(visibleMonth.getFullYear(), visibleMonth.getMonth() + offset, 1)
+    );
+  };
+
+  const renderCalendar = () => {
+    const year = visibleMonth.getFullYear();
+    const month = visibleMonth.getMonth();
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const leadingBlanks = visibleMonth.getDay();
+    const todayKey = toDateKey(new Date());
+
+    const cells: Array<Date | null> = [
+      ...Array(leadingBlanks).fill(null),
+      ...Array.from(
+        { length: daysInMonth },
+        (_, index) => new Date(year, month, index + 1)
+      ),
+    ];
+
+    return (
+      <View style={styles.calendarGrid}>
+        {WEEKDAY_LABELS.map((label) => (
+          <Text key={label} variant="bodySmall" style={styles.calendarWeekday}>
+            {label.substring(0, 3)}
+          </Text>
+        ))}
+        {cells.map((date, index) => {
+          if (!date) {
+            return <View key={`blank-${index}`} style={styles.calendarCell} />;
+          }
+
+          const key = toDateKey(date);
+          const isPast = key < todayKey;
+          const isBlackout = blackoutDates.includes(key);
+          const booked = bookedDates[key] || 0;
+          const isFull = booked >= maxEventsPerDay;
+          const isClosed = !hours[date.getDay()].enabled;
+
+          return (
+            <TouchableOpacity
+              key={key}
+              style={styles.calendarCell}
+              disabled={isPast}
+              onPress={() => toggleBlackoutDate(key)}
+            >
+              <View
+                style={[
+                  styles.calendarDay,
+                  isClosed && styles.calendarDayClosed,
+                  isFull && styles.calendarDayFull,
+                  isBlackout && styles.calendarDayBlackout,
+                  isPast && styles.calendarDayPast,
+                ]}
+              >
+                <Text
+                  variant="bodyMedium"
+                  style={[
+                    styles.calendarDayText,
+                    isBlackout && styles.calendarDayBlackoutText,
+                  ]}
+                >
+                  {date.getDate()}
+                </Text>
+                {booked > 0 && <View style={styles.bookedDot} />}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content}>
+        <View style={styles.header}>
+          <Text variant="headlineMedium" style={styles.title}>
+            Agenda
+          </Text>
+        </View>
+
+        {/* Calendar */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.monthHeader}>
+              <IconButton
+                icon={() => (
+                  <ChevronLeft size={20} color={theme.colors.onSurface} />
+                )}
+                onPress={() => changeMonth(-1)}
+              />
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                {MONTH_NAMES[visibleMonth.getMonth()]}{' '}
+                {visibleMonth.getFullYear()}
+              </Text>
+              <IconButton
+                icon={() => (
+                  <ChevronRight size={20} color={theme.colors.onSurface} />
+                )}
+                onPress={() => changeMonth(1)}
+              />
+            </View>
+
+            {renderCalendar()}
+
+            <Text variant="bodySmall" style={styles.helperText}>
+              Toque em uma data para bloquear ou liberar. Datas em vermelho
+              estão bloqueadas; o ponto indica eventos confirmados.
+            </Text>
+          </Card.Content>
+        </Card>
+
+        {/* Daily capacity */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Eventos por dia
+            </Text>
+            <View style={styles.capacityRow}>
+              <IconButton
+                icon="minus"
+                mode="outlined"
+                onPress={() => setMaxEventsPerDay(Math.max(1, maxEventsPerDay - 1))}
+                disabled={maxEventsPerDay <= 1}
+              />
+              <Text variant="headlineSmall" style={styles.capacityValue}>
+                {maxEventsPerDay}
+              </Text>
+              <IconButton
+                icon="plus"
+                mode="outlined"
+                onPress={() => setMaxEventsPerDay(maxEventsPerDay + 1)}
+              />
+            </View>
+
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Intervalo entre eventos
+            </Text>
+            <View style={styles.capacityRow}>
+              <IconButton
+                icon="minus"
+                mode="outlined"
+                onPress={() =>
+                  setTravelBufferMinutes(
+                    Math.max(0, travelBufferMinutes - TRAVEL_BUFFER_STEP)
+                  )
+                }
+                disabled={travelBufferMinutes <= 0}
+              />
+              <Text variant="headlineSmall" style={styles.capacityValue}>
+                {travelBufferMinutes} min
+              </Text>
+              <IconButton
+                icon="plus"
+                mode="outlined"
+                onPress={() =>
+                  setTravelBufferMinutes(travelBufferMinutes + TRAVEL_BUFFER_STEP)
+                }
+              />
+            </View>
+            <Text variant="bodySmall" style={styles.helperText}>
+              Tempo reservado após cada evento para deslocamento e montagem.
+            </Text>
+          </Card.Content>
+        </Card>
+
+        {/* Weekly hours */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Horário de atendimento
+            </Text>
+
+            {hours.map((day, weekday) => (
+              <View key={WEEKDAY_LABELS[weekday]} style={styles.dayRow}>
+                <View style={styles.dayLabel}>
+                  <Switch
+                    value={day.enabled}
+                    onValueChange={(enabled) => updateDay(weekday, { enabled })}
+                    color={theme.colors.primary}
+                  />
+                  <Text variant="bodyMedium" style={styles.dayName}>
+                    {WEEKDAY_LABELS[weekday]}
+                  </Text>
+                </View>
+                {day.enabled ? (
+                  <View style={styles.dayTimes}>
+                    <TextInput
+                      value={day.start}
+                      onChangeText={(start) => updateDay(weekday, { start })}
+                      mode="outlined"
+                      dense
+                      keyboardType="numbers-and-punctuation"
+                      style={styles.timeInput}
+                    />
+                    <Text variant="bodyMedium" style={styles.timeSeparator}>
+                      às
+                    </Text>
+                    <TextInput
+                      value={day.end}
+                      onChangeText={(end) => updateDay(weekday, { end })}
+                      mode="outlined"
+                      dense
+                      keyboardType="numbers-and-punctuation"
+                      style={styles.timeInput}
+                    />
+                  </View>
+                ) : (
+                  <Text variant="bodyMedium" style={styles.closedText}>
+                    Fechado
+                  </Text>
+                )}
+              </View>
+            ))}
+
+            <Button
+              mode="contained"
+              style={styles.saveButton}
+              onPress={handleSave}
+              loading={saving}
+              disabled={saving}
+            >
+              Salvar disponibilidade
+            </Button>
+          </Card.Content>
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  header: {
+    padding: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: theme.colors.onBackground,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.lg,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  calendarGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  calendarWeekday: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.xs,
+  },
+  calendarCell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    padding: 2,
+  },
+  calendarDay: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: borderRadius.md,
+  },
+  calendarDayClosed: {
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  calendarDayFull: {
+    backgroundColor: theme.colors.secondaryContainer,
+  },
+  calendarDayBlackout: {
+    backgroundColor: theme.colors.primary,
+  },
+  calendarDayPast: {
+    opacity: 0.4,
+  },
+  calendarDayText: {
+    color: theme.colors.onSurface,
+  },
+  calendarDayBlackoutText: {
+    color: theme.colors.onPrimary,
+    fontWeight: 'bold',
+  },
+  bookedDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginTop: 2,
+    backgroundColor: theme.colors.tertiary,
+  },
+  helperText: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: spacing.md,
+  },
+  capacityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: spacing.sm,
+  },
+  capacityValue: {
+    fontWeight: 'bold',
+    marginHorizontal: spacing.lg,
+    color: theme.colors.onSurface,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.surfaceVariant,
+  },
+  dayLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dayName: {
+    marginLeft: spacing.sm,
+    color: theme.colors.onSurface,
+  },
+  dayTimes: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  timeInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  timeSeparator: {
+    marginHorizontal: spacing.xs,
+    color: theme.colors.onSurfaceVariant,
+  },
+  closedText: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  saveButton: {
+    marginTop: spacing.lg,
+  },
+});
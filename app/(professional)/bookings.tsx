@@ -1,21 +1,98 @@
 import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, FlatList } from 'react-native';
-import { Text, Card, Button, Chip, FAB } from 'react-native-paper';
+import { View, StyleSheet, FlatList, Alert } from 'react-native';
+import { Text, Card, Button, Chip, FAB, Snackbar } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import {
+  BookingError,
+  BookingStatus,
+  canTransition,
+  describeStatusChange,
+  updateBookingStatus,
+} from '@/lib/bookings';
+import {
+  RescheduleRequest,
+  RESCHEDULE_REQUESTS_SELECT,
+  counterReschedule,
+  describeReschedule,
+  findOpenRescheduleRequest,
+  mergeRescheduleRequest,
+  requestReschedule,
+  respondToReschedule,
+} from '@/lib/reschedule';
+import {
+  Quote,
+  BOOKING_QUOTES_SELECT,
+  findLatestQuote,
+  isQuoteExpired,
+} from '@/lib/quotes';
+import { BookingLineItem, BOOKING_LINE_ITEMS_SELECT } from '@/lib/addons';
+import {
+  BookingCharge,
+  CHARGE_KIND_LABELS,
+  Payment,
+  PAYMENTS_SELECT,
+  nextOpenCharge,
+  settleChargeOffApp,
+} from '@/lib/payments';
+import { formatCurrency } from '@/lib/pricing';
+import { canIssueReceipt } from '@/lib/receipts';
+import { MenuItem } from '@/lib/menus';
+import { estimateSupplies } from '@/lib/supplies';
 import { spacing, theme } from '@/constants/theme';
-import { Calendar, Clock, MapPin, User, Phone, Plus } from 'lucide-react-native';
+import { BookingTimeline } from '@/components/BookingTimeline';
+import { ChatButton } from '@/components/ChatButton';
+import { useUnreadMessages } from '@/hooks/useUnreadMessages';
+import { useBookingChanges } from '@/hooks/useBookingChanges';
+import { useRescheduleChanges } from '@/hooks/useRescheduleChanges';
+import { useQuoteChanges } from '@/hooks/useQuoteChanges';
+import { usePaymentChanges } from '@/hooks/usePaymentChanges';
+import { RescheduleDialog } from '@/components/RescheduleDialog';
+import { RescheduleProposal } from '@/components/RescheduleProposal';
+import { QuoteDialog } from '@/components/QuoteDialog';
+import { QuoteSummary } from '@/components/QuoteSummary';
+import { BookingLineItems } from '@/components/BookingLineItems';
+import { BookingPayments } from '@/components/BookingPayments';
+import { ReceiptButton } from '@/components/ReceiptButton';
+import { SuppliesEstimate } from '@/components/SuppliesEstimate';
+import { Calendar, Clock, MapPin, User, Phone, Plus, UtensilsCrossed } from 'lucide-react-native';
+
+const BOOKING_SELECT = `
+  *,
+  services (
+    title,
+    duration_hours
+  ),
+  profiles!bookings_client_id_fkey (
+    full_name,
+    phone,
+    email
+  ),
+  ${RESCHEDULE_REQUESTS_SELECT},
+  ${BOOKING_QUOTES_SELECT},
+  ${BOOKING_LINE_ITEMS_SELECT},
+  ${PAYMENTS_SELECT},
+  service_menus (
+    name,
+    menu_items (*)
+  )
+`;
 
 interface Booking {
   id: string;
+  service_id: string;
   event_date: string;
   event_time: string;
   guests_count: number;
   location: string;
-  status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
+  status: BookingStatus;
   total_price: number;
   notes?: string;
+  cancellation_reason?: string | null;
+  cancelled_by?: string | null;
+  refund_percent?: number | null;
+  refund_amount?: number | null;
   services?: {
     title: string;
     duration_hours: number;
@@ -25,6 +102,16 @@ interface Booking {
     phone?: string;
     email: string;
   };
+  reschedule_requests?: RescheduleRequest[];
+  booking_quotes?: Quote[];
+  booking_line_items?: BookingLineItem[];
+  booking_charges?: BookingCharge[];
+  payments?: Payment[];
+  service_menus?: {
+    name: string;
+    menu_items?: MenuItem[];
+  } | null;
+  children_count: number;
 }
 
 export default function ProfessionalBookingsScreen() {
@@ -32,6 +119,17 @@ export default function ProfessionalBookingsScreen() {
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'pending' | 'confirmed' | 'all'>('pending');
+  const [openTimelines, setOpenTimelines] = useState<string[]>([]);
+  const [openSupplies, setOpenSupplies] = useState<string[]>([]);
+  const { counts: unreadMessages } = useUnreadMessages();
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+  const [rescheduleTarget, setRescheduleTarget] = useState<Booking | null>(
+    null
+  );
+  const [counterTo, setCounterTo] = useState<RescheduleRequest | null>(null);
+  const [submittingReschedule, setSubmittingReschedule] = useState(false);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+  const [quoteTarget, setQuoteTarget] = useState<Booking | null>(null);
 
   useEffect(() => {
     if (profile) {
@@ -45,18 +143,7 @@ export default function ProfessionalBookingsScreen() {
     try {
       const { data, error } = await supabase
         .from('bookings')
-        .select(`
-          *,
-          services (
-            title,
-            duration_hours
-          ),
-          profiles!bookings_client_id_fkey (
-            full_name,
-            phone,
-            email
-          )
-        `)
+        .select(BOOKING_SELECT)
         .eq('professional_id', profile.id)
         .order('event_date', { ascending: true });
 
@@ -72,24 +159,234 @@ export default function ProfessionalBookingsScreen() {
     }
   };
 
-  const updateBookingStatus = async (bookingId: string, status: string) => {
-    try {
-      const { error } = await supabase
+  useBookingChanges('professional', async ({ eventType, booking }) => {
+    const existing = bookings.find((b) => b.id === booking.id);
+
+    if (!existing) {
+      // New rows arrive without services/profiles, so fetch them embedded
+      const { data, error } = await supabase
         .from('bookings')
-        .update({ status, updated_at: new Date().toISOString() })
-        .eq('id', bookingId);
+        .select(BOOKING_SELECT)
+        .eq('id', booking.id)
+        .single();
 
       if (error) {
-        console.error('Error updating booking:', error);
-      } else {
-        // Refresh bookings
-        loadBookings();
+        console.error('Error loading booking:', error);
+        return;
+      }
+
+      setBookings((prev) =>
+        [...prev.filter((b) => b.id !== data.id), data].sort((a, b) =>
+          a.event_date.localeCompare(b.event_date)
+        )
+      );
+      if (eventType === 'INSERT') {
+        setSnackbarMessage(
+          `Nova solicitação de ${data.profiles?.full_name || 'um cliente'}.`
+        );
       }
+      return;
+    }
+
+    setBookings((prev) =>
+      prev.map((b) => (b.id === booking.id ? { ...b, ...booking } : b))
+    );
+
+    // Charges aren't broadcast: they're created, closed or moved along with
+    // the booking's status and date, so reload them
+    if (
+      existing.status !== booking.status ||
+      existing.event_date !== booking.event_date
+    ) {
+      loadBookings();
+    }
+
+    if (existing.status !== booking.status) {
+      setSnackbarMessage(
+        describeStatusChange(booking.status, existing.profiles?.full_name)
+      );
+    } else if (
+      existing.event_date !== booking.event_date ||
+      existing.event_time !== booking.event_time
+    ) {
+      setSnackbarMessage(describeReschedule(booking, existing.profiles?.full_name));
+    }
+  });
+
+  useRescheduleChanges((request) => {
+    setBookings((prev) =>
+      prev.map((b) =>
+        b.id === request.booking_id
+          ? {
+              ...b,
+              reschedule_requests: mergeRescheduleRequest(
+                b.reschedule_requests,
+                request
+              ),
+            }
+          : b
+      )
+    );
+  });
+
+  // Quote payloads carry no items, so reload to pick them up
+  useQuoteChanges(() => {
+    loadBookings();
+  });
+
+  // A settled payment also closes its charge, so reload both
+  usePaymentChanges(() => {
+    loadBookings();
+  });
+
+  const changeBookingStatus = async (
+    bookingId: string,
+    status: BookingStatus
+  ) => {
+    try {
+      await updateBookingStatus(bookingId, status);
+      // Refresh bookings
+      loadBookings();
     } catch (error) {
       console.error('Error updating booking:', error);
+      if (error instanceof BookingError && error.code === 'booking_conflict') {
+        Alert.alert('Conflito de agenda', describeConflict(error.details));
+        return;
+      }
+      Alert.alert(
+        'Erro',
+        error instanceof BookingError
+          ? error.message
+          : 'Não foi possível atualizar o agendamento.'
+      );
+    }
+  };
+
+  const settleOffApp = async (charge: BookingCharge) => {
+    try {
+      await settleChargeOffApp(charge.id);
+      loadBookings();
+    } catch (error) {
+      console.error('Error settling charge:', error);
+      Alert.alert(
+        'Erro',
+        error instanceof BookingError
+          ? error.message
+          : 'Não foi possível registrar o pagamento.'
+      );
     }
   };
 
+  const handleSettleOffApp = (charge: BookingCharge) => {
+    Alert.alert(
+      'Recebido fora do app',
+      `Confirma que o cliente pagou o ${CHARGE_KIND_LABELS[
+        charge.kind
+      ].toLowerCase()} de ${formatCurrency(
+        Number(charge.amount)
+      )} diretamente a você? Ele não poderá mais ser pago pelo app.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Confirmar', onPress: () => settleOffApp(charge) },
+      ]
+    );
+  };
+
+  // The database reports the id of the confirmed booking that overlaps
+  const describeConflict = (conflictingId?: string) => {
+    const conflicting = bookings.find((booking) => booking.id === conflictingId);
+    if (!conflicting) {
+      return 'Este horário conflita com outro agendamento confirmado.';
+    }
+
+    return `Este horário conflita com o evento de ${
+      conflicting.profiles?.full_name || 'outro cliente'
+    }${conflicting.services ? ` (${conflicting.services.title})` : ''} em ${formatDate(
+      conflicting.event_date
+    )} às ${formatTime(
+      conflicting.event_time
+    )}, já confirmado. Considere o tempo de deslocamento entre os eventos.`;
+  };
+
+  const openRescheduleDialog = (
+    booking: Booking,
+    request: RescheduleRequest | null = null
+  ) => {
+    setRescheduleTarget(booking);
+    setCounterTo(request);
+  };
+
+  const closeRescheduleDialog = () => {
+    setRescheduleTarget(null);
+    setCounterTo(null);
+  };
+
+  const submitReschedule = async (eventDate: string, eventTime: string) => {
+    if (!rescheduleTarget) return;
+
+    setSubmittingReschedule(true);
+    try {
+      if (counterTo) {
+        await counterReschedule(counterTo.id, eventDate, eventTime);
+      } else {
+        await requestReschedule(rescheduleTarget.id, eventDate, eventTime);
+      }
+      closeRescheduleDialog();
+      loadBookings();
+    } catch (error) {
+      console.error('Error requesting reschedule:', error);
+      Alert.alert(
+        'Erro',
+        error instanceof BookingError
+          ? error.message
+          : 'Não foi possível propor a nova data.'
+      );
+    } finally {
+      setSubmittingReschedule(false);
+    }
+  };
+
+  const answerReschedule = async (
+    request: RescheduleRequest,
+    accept: boolean
+  ) => {
+    setRespondingTo(request.id);
+    try {
+      await respondToReschedule(request.id, accept);
+      loadBookings();
+    } catch (error) {
+      console.error('Error answering reschedule:', error);
+      if (error instanceof BookingError && error.code === 'booking_conflict') {
+        Alert.alert('Conflito de agenda', describeConflict(error.details));
+        return;
+      }
+      Alert.alert(
+        'Erro',
+        error instanceof BookingError
+          ? error.message
+          : 'Não foi possível responder à proposta.'
+      );
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
+  const toggleTimeline = (bookingId: string) => {
+    setOpenTimelines((prev) =>
+      prev.includes(bookingId)
+        ? prev.filter((id) => id !== bookingId)
+        : [...prev, bookingId]
+    );
+  };
+
+  const toggleSupplies = (bookingId: string) => {
+    setOpenSupplies((prev) =>
+      prev.includes(bookingId)
+        ? prev.filter((id) => id !== bookingId)
+        : [...prev, bookingId]
+    );
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed':
@@ -137,114 +434,243 @@ export default function ProfessionalBookingsScreen() {
     return booking.status === activeTab;
   });
 
-  const renderBookingCard = ({ item }: { item: Booking }) => (
-    <Card style={styles.bookingCard}>
-      <Card.Content>
-        <View style={styles.bookingHeader}>
-          <Text variant="titleMedium" style={styles.clientName}>
-            {item.profiles?.full_name}
-          </Text>
-          <Chip
-            style={[styles.statusChip, { backgroundColor: getStatusColor(item.status) + '20' }]}
-            textStyle={{ color: getStatusColor(item.status) }}
-          >
-            {getStatusLabel(item.status)}
-          </Chip>
-        </View>
-
-        <Text variant="titleSmall" style={styles.serviceTitle}>
-          {item.services?.title || 'Serviço de Churrasco'}
-        </Text>
+  const renderBookingCard = ({ item }: { item: Booking }) => {
+    const openRequest = findOpenRescheduleRequest(item.reschedule_requests);
+    const latestQuote = findLatestQuote(item.booking_quotes);
+    const openCharge = nextOpenCharge(item.booking_charges);
+    const awaitingQuote =
+      latestQuote?.status === 'pending' && !isQuoteExpired(latestQuote);
+    const canReschedule =
+      (item.status === 'pending' || item.status === 'confirmed') &&
+      !openRequest &&
+      new Date(`${item.event_date}T${item.event_time}`) > new Date();
 
-        <View style={styles.bookingInfo}>
-          <View style={styles.infoRow}>
-            <Calendar size={16} color={theme.colors.onSurfaceVariant} />
-            <Text variant="bodyMedium" style={styles.infoText}>
-              {formatDate(item.event_date)}
+    return (
+      <Card style={styles.bookingCard}>
+        <Card.Content>
+          <View style={styles.bookingHeader}>
+            <Text variant="titleMedium" style={styles.clientName}>
+              {item.profiles?.full_name}
             </Text>
+            <Chip
+              style={[styles.statusChip, { backgroundColor: getStatusColor(item.status) + '20' }]}
+              textStyle={{ color: getStatusColor(item.status) }}
+            >
+              {getStatusLabel(item.status)}
+            </Chip>
           </View>
 
-          <View style={styles.infoRow}>
-            <Clock size={16} color={theme.colors.onSurfaceVariant} />
-            <Text variant="bodyMedium" style={styles.infoText}>
-              {formatTime(item.event_time)} • {item.services?.duration_hours || 4}h
-            </Text>
-          </View>
+          <Text variant="titleSmall" style={styles.serviceTitle}>
+            {item.services?.title || 'Serviço de Churrasco'}
+          </Text>
 
-          <View style={styles.infoRow}>
-            <MapPin size={16} color={theme.colors.onSurfaceVariant} />
-            <Text variant="bodyMedium" style={styles.infoText}>
-              {item.location}
-            </Text>
-          </View>
+          <View style={styles.bookingInfo}>
+            <View style={styles.infoRow}>
+              <Calendar size={16} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {formatDate(item.event_date)}
+              </Text>
+            </View>
 
-          <View style={styles.infoRow}>
-            <User size={16} color={theme.colors.onSurfaceVariant} />
-            <Text variant="bodyMedium" style={styles.infoText}>
-              {item.guests_count} pessoas
-            </Text>
-          </View>
+            <View style={styles.infoRow}>
+              <Clock size={16} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {formatTime(item.event_time)} • {item.services?.duration_hours || 4}h
+              </Text>
+            </View>
+
+            <View style={styles.infoRow}>
+              <MapPin size={16} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {item.location}
+              </Text>
+            </View>
 
-          {item.profiles?.phone && (
             <View style={styles.infoRow}>
-              <Phone size={16} color={theme.colors.onSurfaceVariant} />
+              <User size={16} color={theme.colors.onSurfaceVariant} />
               <Text variant="bodyMedium" style={styles.infoText}>
-                {item.profiles.phone}
+                {item.guests_count} pessoas
+                {item.children_count > 0 && ` (${item.children_count} crianças)`}
+              </Text>
+            </View>
+
+            {item.service_menus && (
+              <View style={styles.infoRow}>
+                <UtensilsCrossed size={16} color={theme.colors.onSurfaceVariant} />
+                <Text variant="bodyMedium" style={styles.infoText}>
+                  {item.service_menus.name}
+                </Text>
+              </View>
+            )}
+
+            {item.profiles?.phone && (
+              <View style={styles.infoRow}>
+                <Phone size={16} color={theme.colors.onSurfaceVariant} />
+                <Text variant="bodyMedium" style={styles.infoText}>
+                  {item.profiles.phone}
+                </Text>
+              </View>
+            )}
+          </View>
+
+          <BookingLineItems items={item.booking_line_items} />
+
+          <BookingPayments booking={item} />
+
+          {item.notes && (
+            <View style={styles.notesSection}>
+              <Text variant="bodySmall" style={styles.notesLabel}>
+                Observações do cliente:
+              </Text>
+              <Text variant="bodyMedium" style={styles.notes}>
+                {item.notes}
               </Text>
             </View>
           )}
-        </View>
 
-        {item.notes && (
-          <View style={styles.notesSection}>
-            <Text variant="bodySmall" style={styles.notesLabel}>
-              Observações do cliente:
-            </Text>
-            <Text variant="bodyMedium" style={styles.notes}>
-              {item.notes}
+          {item.status === 'pending' &&
+            (latestQuote?.status === 'pending' ||
+              latestQuote?.status === 'declined') && (
+              <QuoteSummary quote={latestQuote} canRespond={false} />
+            )}
+
+          {openRequest && (
+            <RescheduleProposal
+              request={openRequest}
+              isOwn={openRequest.proposed_by === profile?.id}
+              otherPartyName={item.profiles?.full_name}
+              busy={respondingTo === openRequest.id}
+              onAccept={() => answerReschedule(openRequest, true)}
+              onDecline={() => answerReschedule(openRequest, false)}
+              onCounter={() => openRescheduleDialog(item, openRequest)}
+            />
+          )}
+
+          {item.status === 'cancelled' && item.refund_amount != null && (
+            <View style={styles.notesSection}>
+              <Text variant="bodySmall" style={styles.notesLabel}>
+                {item.cancelled_by === profile?.id
+                  ? 'Cancelado por você'
+                  : 'Cancelado pelo cliente'}
+              </Text>
+              {item.cancellation_reason && (
+                <Text variant="bodyMedium" style={styles.notes}>
+                  {item.cancellation_reason}
+                </Text>
+              )}
+              <Text variant="bodyMedium" style={styles.notes}>
+                Reembolso ao cliente: R$ {item.refund_amount} ({item.refund_percent}%)
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.bookingFooter}>
+            <Text variant="titleMedium" style={styles.totalPrice}>
+              Total: R$ {item.total_price}
             </Text>
+          
+            {item.status === 'pending' && (
+              <View style={styles.actions}>
+                {canTransition(item.status, 'cancelled', 'professional') && (
+                  <Button 
+                    mode="outlined" 
+                    style={styles.actionButton}
+                    onPress={() => changeBookingStatus(item.id, 'cancelled')}
+                  >
+                    Recusar
+                  </Button>
+                )}
+                <Button
+                  mode="outlined"
+                  style={styles.actionButton}
+                  onPress={() => setQuoteTarget(item)}
+                >
+                  {awaitingQuote ? 'Novo orçamento' : 'Orçamento'}
+                </Button>
+                {canTransition(item.status, 'confirmed', 'professional') &&
+                  !awaitingQuote && (
+                    <Button
+                      mode="contained"
+                      style={styles.actionButton}
+                      onPress={() => changeBookingStatus(item.id, 'confirmed')}
+                    >
+                      Aceitar
+                    </Button>
+                  )}
+              </View>
+            )}
+
+            {item.status === 'confirmed' && (
+              <View style={styles.actions}>
+                {canTransition(item.status, 'completed', 'professional') && (
+                  <Button 
+                    mode="contained" 
+                    style={styles.actionButton}
+                    onPress={() => changeBookingStatus(item.id, 'completed')}
+                  >
+                    Finalizar
+                  </Button>
+                )}
+              </View>
+            )}
           </View>
-        )}
 
-        <View style={styles.bookingFooter}>
-          <Text variant="titleMedium" style={styles.totalPrice}>
-            Total: R$ {item.total_price}
-          </Text>
-          
-          {item.status === 'pending' && (
-            <View style={styles.actions}>
-              <Button 
-                mode="outlined" 
-                style={styles.actionButton}
-                onPress={() => updateBookingStatus(item.id, 'cancelled')}
+          <View style={styles.cardLinks}>
+            <Button
+              mode="text"
+              compact
+              onPress={() => toggleTimeline(item.id)}
+            >
+              {openTimelines.includes(item.id) ? 'Ocultar histórico' : 'Ver histórico'}
+            </Button>
+            {item.status !== 'cancelled' && (
+              <Button
+                mode="text"
+                compact
+                onPress={() => toggleSupplies(item.id)}
               >
-                Recusar
+                {openSupplies.includes(item.id) ? 'Ocultar compras' : 'Lista de compras'}
               </Button>
-              <Button 
-                mode="contained" 
-                style={styles.actionButton}
-                onPress={() => updateBookingStatus(item.id, 'confirmed')}
+            )}
+            {canReschedule && (
+              <Button
+                mode="text"
+                compact
+                onPress={() => openRescheduleDialog(item)}
               >
-                Aceitar
+                Remarcar
               </Button>
-            </View>
-          )}
-
-          {item.status === 'confirmed' && (
-            <View style={styles.actions}>
-              <Button 
-                mode="contained" 
-                style={styles.actionButton}
-                onPress={() => updateBookingStatus(item.id, 'completed')}
+            )}
+            {openCharge && (
+              <Button
+                mode="text"
+                compact
+                onPress={() => handleSettleOffApp(openCharge)}
               >
-                Finalizar
+                Recebido fora do app
               </Button>
-            </View>
+            )}
+            {canIssueReceipt(item) && <ReceiptButton bookingId={item.id} />}
+            <ChatButton bookingId={item.id} unread={unreadMessages[item.id]} />
+          </View>
+          {openSupplies.includes(item.id) && (
+            <SuppliesEstimate
+              estimate={estimateSupplies({
+                guests: item.guests_count,
+                children: item.children_count,
+                durationHours: item.services?.duration_hours || 4,
+                menuItems: item.service_menus?.menu_items,
+              })}
+              title={`${item.services?.title || 'Churrasco'} • ${formatDate(item.event_date)} • ${item.profiles?.full_name}`}
+            />
           )}
-        </View>
-      </Card.Content>
-    </Card>
-  );
+          {openTimelines.includes(item.id) && (
+            <BookingTimeline bookingId={item.id} />
+          )}
+        </Card.Content>
+      </Card>
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -309,6 +735,31 @@ export default function ProfessionalBookingsScreen() {
         style={styles.fab}
         onPress={() => {}}
       />
+
+      <QuoteDialog
+        booking={quoteTarget}
+        onDismiss={() => setQuoteTarget(null)}
+        onSent={() => {
+          setQuoteTarget(null);
+          loadBookings();
+        }}
+      />
+
+      <RescheduleDialog
+        booking={rescheduleTarget}
+        title={counterTo ? 'Propor outra data' : 'Remarcar evento'}
+        submitting={submittingReschedule}
+        onDismiss={closeRescheduleDialog}
+        onSubmit={submitReschedule}
+      />
+
+      <Snackbar
+        visible={!!snackbarMessage}
+        onDismiss={() => setSnackbarMessage('')}
+        duration={4000}
+      >
+        {snackbarMessage}
+      </Snackbar>
     </SafeAreaView>
   );
 }
@@ -398,11 +849,21 @@ const styles = StyleSheet.create({
   },
   actions: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+    flexShrink: 1,
+    justifyContent: 'flex-end',
     gap: spacing.sm,
   },
   actionButton: {
     minWidth: 80,
   },
+  cardLinks: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,359 @@
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { Text, Card, Button, ActivityIndicator } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  Balance,
+  EMPTY_BALANCE,
+  FinancePeriod,
+  FINANCE_PERIODS,
+  FINANCE_PERIOD_LABELS,
+  LedgerEntry,
+  LEDGER_ENTRY_LABELS,
+  PAYOUT_STATUS_LABELS,
+  fetchBalance,
+  fetchLedger,
+  periodStart,
+  summarizeLedger,
+} from '@/lib/finance';
+import { formatPaymentTime } from '@/lib/payments';
+import { formatCurrency } from '@/lib/pricing';
+import { spacing, theme, borderRadius } from '@/constants/theme';
+import { Wallet, Clock, ArrowRightLeft, Receipt } from 'lucide-react-native';
+
+export default function FinanceScreen() {
+  const { profile } = useAuth();
+  const [balance, setBalance] = useState<Balance>(EMPTY_BALANCE);
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [selectedPeriod, setSelectedPeriod] = useState<FinancePeriod>('month');
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadFinance();
+    }, [profile?.id, selectedPeriod])
+  );
+
+  const loadFinance = async () => {
+    if (!profile) return;
+
+    setLoading(true);
+    try {
+      const [currentBalance, ledger] = await Promise.all([
+        fetchBalance(),
+        fetchLedger(periodStart(selectedPeriod)),
+      ]);
+      setBalance(currentBalance);
+      setEntries(ledger);
+    } catch (error) {
+      console.error('Error loading finance data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totals = summarizeLedger(entries);
+
+  const renderEntry = (entry: LedgerEntry, index: number) => {
+    const amount = Number(entry.amount);
+    const details =
+      entry.entry_type === 'payout'
+        ? [
+            entry.payout_status && PAYOUT_STATUS_LABELS[entry.payout_status],
+            entry.description,
+          ]
+        : [entry.description];
+
+    return (
+      <View
+        key={`${entry.entry_type}-${entry.booking_id || entry.payout_id}-${index}`}
+        style={styles.entry}
+      >
+        <View style={styles.entryContent}>
+          <Text variant="titleSmall" style={styles.entryTitle}>
+            {LEDGER_ENTRY_LABELS[entry.entry_type]}
+          </Text>
+          {details.some(Boolean) && (
+            <Text variant="bodySmall" style={styles.entryDescription}>
+              {details.filter(Boolean).join(' • ')}
+            </Text>
+          )}
+          <Text variant="bodySmall" style={styles.entryTime}>
+            {formatPaymentTime(entry.occurred_at)}
+          </Text>
+        </View>
+        <Text
+          variant="titleSmall"
+          style={[styles.entryAmount, amount < 0 ? styles.debit : styles.credit]}
+        >
+          {amount > 0 ? '+' : ''}
+          {formatCurrency(amount)}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={loadFinance} />
+        }
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <Text variant="headlineMedium" style={styles.title}>
+            Financeiro
+          </Text>
+        </View>
+
+        {/* Balance */}
+        <Card style={styles.balanceCard}>
+          <Card.Content>
+            <View style={styles.balanceHeader}>
+              <Wallet size={24} color={theme.colors.primary} />
+              <Text variant="bodyMedium" style={styles.balanceLabel}>
+                Saldo disponível
+              </Text>
+            </View>
+            <Text variant="headlineLarge" style={styles.balanceValue}>
+              {formatCurrency(balance.available)}
+            </Text>
+
+            <View style={styles.pendingRow}>
+              <View style={styles.pendingItem}>
+                <View style={styles.balanceHeader}>
+                  <Clock size={16} color={theme.colors.onSurfaceVariant} />
+                  <Text variant="bodySmall" style={styles.pendingLabel}>
+                    A receber
+                  </Text>
+                </View>
+                <Text variant="titleMedium" style={styles.pendingValue}>
+                  {formatCurrency(balance.receivable)}
+                </Text>
+              </View>
+              <View style={styles.pendingItem}>
+                <View style={styles.balanceHeader}>
+                  <ArrowRightLeft size={16} color={theme.colors.onSurfaceVariant} />
+                  <Text variant="bodySmall" style={styles.pendingLabel}>
+                    Em transferência
+                  </Text>
+                </View>
+                <Text variant="titleMedium" style={styles.pendingValue}>
+                  {formatCurrency(balance.in_transit)}
+                </Text>
+              </View>
+            </View>
+
+            <Text variant="bodySmall" style={styles.hint}>
+              A receber: sinais e saldos ainda não pagos de agendamentos
+              confirmados ou concluídos, já descontada a taxa da plataforma.
+            </Text>
+          </Card.Content>
+        </Card>
+
+        {/* Period Selector */}
+        <View style={styles.periodSelector}>
+          {FINANCE_PERIODS.map((period) => (
+            <Button
+              key={period}
+              mode={selectedPeriod === period ? 'contained' : 'outlined'}
+              onPress={() => setSelectedPeriod(period)}
+              style={styles.periodButton}
+              compact
+            >
+              {FINANCE_PERIOD_LABELS[period]}
+            </Button>
+          ))}
+        </View>
+
+        {/* Period Summary */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Resumo do período
+            </Text>
+            {(['earning', 'fee', 'refund', 'payout'] as const).map((type) => (
+              <View key={type} style={styles.summaryRow}>
+                <Text variant="bodyMedium" style={styles.summaryLabel}>
+                  {LEDGER_ENTRY_LABELS[type]}
+                </Text>
+                <Text variant="bodyMedium" style={styles.summaryValue}>
+                  {formatCurrency(totals[type])}
+                </Text>
+              </View>
+            ))}
+            <View style={[styles.summaryRow, styles.summaryTotal]}>
+              <Text variant="titleSmall" style={styles.summaryLabel}>
+                Líquido (antes dos repasses)
+              </Text>
+              <Text variant="titleSmall" style={styles.summaryValue}>
+                {formatCurrency(totals.earning + totals.fee + totals.refund)}
+              </Text>
+            </View>
+          </Card.Content>
+        </Card>
+
+        {/* History */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Extrato
+            </Text>
+            {loading && entries.length === 0 ? (
+              <ActivityIndicator color={theme.colors.primary} />
+            ) : entries.length > 0 ? (
+              entries.map(renderEntry)
+            ) : (
+              <View style={styles.emptyState}>
+                <Receipt size={48} color={theme.colors.onSurfaceVariant} />
+                <Text variant="bodyMedium" style={styles.emptyText}>
+                  Nenhuma movimentação neste período.
+                </Text>
+              </View>
+            )}
+          </Card.Content>
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  header: {
+    padding: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: theme.colors.onBackground,
+  },
+  balanceCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.lg,
+    elevation: 2,
+  },
+  balanceHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  balanceLabel: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  balanceValue: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginTop: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  pendingRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginBottom: spacing.md,
+  },
+  pendingItem: {
+    flex: 1,
+    padding: spacing.sm,
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: borderRadius.md,
+  },
+  pendingLabel: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  pendingValue: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginTop: spacing.xs,
+  },
+  hint: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  periodSelector: {
+    flexDirection: 'row',
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.lg,
+    gap: spacing.sm,
+  },
+  periodButton: {
+    flex: 1,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.lg,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginBottom: spacing.md,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.sm,
+  },
+  summaryTotal: {
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.surfaceVariant,
+    paddingTop: spacing.sm,
+    marginBottom: 0,
+  },
+  summaryLabel: {
+    color: theme.colors.onSurface,
+  },
+  summaryValue: {
+    color: theme.colors.onSurface,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.surfaceVariant,
+  },
+  entryContent: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+  },
+  entryDescription: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: spacing.xs,
+  },
+  entryTime: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: spacing.xs,
+  },
+  entryAmount: {
+    marginLeft: spacing.sm,
+    fontWeight: 'bold',
+  },
+  credit: {
+    color: theme.colors.tertiary,
+  },
+  debit: {
+    color: theme.colors.onSurface,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: spacing.lg,
+  },
+  emptyText: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: spacing.sm,
+    textAlign: 'center',
+  },
+});
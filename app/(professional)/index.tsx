@@ -1,9 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, ScrollView, FlatList } from 'react-native';
-import { Text, Card, Button, FAB } from 'react-native-paper';
+import { Text, Card, Button, FAB, Snackbar } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { BookingStatus, describeStatusChange } from '@/lib/bookings';
+import { useBookingChanges } from '@/hooks/useBookingChanges';
+import {
+  fetchProfessionalRating,
+  formatRating,
+  EMPTY_RATING,
+  RatingSummary,
+} from '@/lib/reviews';
+import { NotificationBell } from '@/components/NotificationBell';
 import { spacing, theme } from '@/constants/theme';
 import { Calendar, DollarSign, Star, TrendingUp, Plus } from 'lucide-react-native';
 
@@ -11,7 +21,7 @@ interface DashboardStats {
   totalBookings: number;
   pendingBookings: number;
   monthlyRevenue: number;
-  averageRating: number;
+  rating: RatingSummary;
 }
 
 interface RecentBooking {
@@ -19,7 +29,7 @@ interface RecentBooking {
   event_date: string;
   event_time: string;
   location: string;
-  status: string;
+  status: BookingStatus;
   total_price: number;
   profiles?: {
     full_name: string;
@@ -32,10 +42,11 @@ export default function ProfessionalHomeScreen() {
     totalBookings: 0,
     pendingBookings: 0,
     monthlyRevenue: 0,
-    averageRating: 4.8,
+    rating: EMPTY_RATING,
   });
   const [recentBookings, setRecentBookings] = useState<RecentBooking[]>([]);
   const [loading, setLoading] = useState(true);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
 
   useEffect(() => {
     if (profile) {
@@ -79,11 +90,13 @@ export default function ProfessionalHomeScreen() {
                  (b.status === 'confirmed' || b.status === 'completed');
         }).reduce((sum, b) => sum + b.total_price, 0) || 0;
 
+        const rating = await fetchProfessionalRating(profile.id);
+
         setStats({
           totalBookings,
           pendingBookings,
           monthlyRevenue,
-          averageRating: 4.8, // Mock rating for now
+          rating,
         });
       }
     } catch (error) {
@@ -93,6 +106,21 @@ export default function ProfessionalHomeScreen() {
     }
   };
 
+  // Stats are derived from the recent bookings, so reload them on any change
+  useBookingChanges('professional', ({ eventType, booking }) => {
+    const existing = recentBookings.find((b) => b.id === booking.id);
+
+    if (eventType === 'INSERT') {
+      setSnackbarMessage('Nova solicitação de agendamento recebida.');
+    } else if (existing && existing.status !== booking.status) {
+      setSnackbarMessage(
+        describeStatusChange(booking.status, existing.profiles?.full_name)
+      );
+    }
+
+    loadDashboardData();
+  });
+
   const formatDate = (date: string) => {
     return new Date(date).toLocaleDateString('pt-BR', {
       day: '2-digit',
@@ -151,12 +179,15 @@ export default function ProfessionalHomeScreen() {
       <ScrollView style={styles.content}>
         {/* Header */}
         <View style={styles.header}>
-          <Text variant="headlineMedium" style={styles.greeting}>
-            Olá, {profile?.full_name?.split(' ')[0]}! 👨‍🍳
-          </Text>
-          <Text variant="bodyLarge" style={styles.subGreeting}>
-            Como estão seus churrascos hoje?
-          </Text>
+          <View style={styles.headerText}>
+            <Text variant="headlineMedium" style={styles.greeting}>
+              Olá, {profile?.full_name?.split(' ')[0]}! 👨‍🍳
+            </Text>
+            <Text variant="bodyLarge" style={styles.subGreeting}>
+              Como estão seus churrascos hoje?
+            </Text>
+          </View>
+          <NotificationBell />
         </View>
 
         {/* Stats Cards */}
@@ -204,7 +235,7 @@ export default function ProfessionalHomeScreen() {
               <Card.Content style={styles.statContent}>
                 <Star size={24} color={theme.colors.tertiary} />
                 <Text variant="headlineSmall" style={styles.statNumber}>
-                  {stats.averageRating}
+                  {formatRating(stats.rating)}
                 </Text>
                 <Text variant="bodySmall" style={styles.statLabel}>
                   Avaliação Média
@@ -258,7 +289,7 @@ export default function ProfessionalHomeScreen() {
             <Button
               mode="contained"
               style={styles.actionButton}
-              onPress={() => {}}
+              onPress={() => router.push('/services/form')}
             >
               Criar Novo Serviço
             </Button>
@@ -276,8 +307,20 @@ export default function ProfessionalHomeScreen() {
       <FAB
         icon={() => <Plus size={24} color="white" />}
         style={styles.fab}
-        onPress={() => {}}
+        onPress={() => router.push('/services/form')}
       />
+
+      <Snackbar
+        visible={!!snackbarMessage}
+        onDismiss={() => setSnackbarMessage('')}
+        duration={4000}
+        action={{
+          label: 'Ver',
+          onPress: () => router.push('/(professional)/bookings'),
+        }}
+      >
+        {snackbarMessage}
+      </Snackbar>
     </SafeAreaView>
   );
 }
@@ -291,9 +334,14 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
     padding: spacing.lg,
     paddingBottom: spacing.md,
   },
+  headerText: {
+    flex: 1,
+  },
   greeting: {
     fontWeight: 'bold',
     color: theme.colors.onBackground,
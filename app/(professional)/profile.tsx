@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   StyleSheet,
@@ -18,10 +18,27 @@ import {
   ActivityIndicator,
 } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { router } from 'expo-router';
+import { router, useFocusEffect } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import {
+  fetchProfessionalRating,
+  formatRating,
+  formatReviewCount,
+  EMPTY_RATING,
+  RatingSummary,
+} from '@/lib/reviews';
+import {
+  CancellationPolicy,
+  CancellationTier,
+  CANCELLATION_POLICIES,
+  CANCELLATION_POLICY_LABELS,
+  describeCancellationPolicy,
+  fetchCancellationTiers,
+} from '@/lib/cancellation';
+import { fetchTaxId, formatTaxId } from '@/lib/receipts';
+import { TaxIdDialog } from '@/components/TaxIdDialog';
 import { spacing, theme } from '@/constants/theme';
 import {
   ChefHat,
@@ -34,6 +51,7 @@ import {
   Plus,
   Star,
   Trash2,
+  FileText,
 } from 'lucide-react-native';
 
 interface Photo {
@@ -42,18 +60,105 @@ interface Photo {
   path: string;
 }
 
+interface ServiceSummary {
+  id: string;
+  title: string;
+}
+
 export default function ProfessionalProfileScreen() {
   const { profile, signOut, session, refreshProfile } = useAuth();
   const [photos, setPhotos] = useState<Photo[]>([]);
+  const [services, setServices] = useState<ServiceSummary[]>([]);
+  const [rating, setRating] = useState<RatingSummary>(EMPTY_RATING);
   const [uploading, setUploading] = useState(false);
   const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const [cancellationTiers, setCancellationTiers] = useState<
+    CancellationTier[]
+  >([]);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+  const [taxId, setTaxId] = useState<string | null>(null);
+  const [taxIdDialogVisible, setTaxIdDialogVisible] = useState(false);
 
   useEffect(() => {
     if (profile?.id) {
       fetchPhotos();
+      fetchRating();
+      fetchTaxId(profile.id)
+        .then(setTaxId)
+        .catch((error) => console.error('Erro ao buscar CPF/CNPJ:', error));
     }
   }, [profile?.id]);
 
+  useEffect(() => {
+    fetchCancellationTiers()
+      .then(setCancellationTiers)
+      .catch((error) =>
+        console.error('Erro ao buscar políticas de cancelamento:', error)
+      );
+  }, []);
+
+  const handleCancellationPolicyChange = async (policy: CancellationPolicy) => {
+    if (!profile?.id || policy === profile.cancellation_policy) return;
+
+    setSavingPolicy(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ cancellation_policy: policy })
+        .eq('id', profile.id);
+
+      if (error) {
+        throw error;
+      }
+
+      await refreshProfile();
+    } catch (error: any) {
+      console.error('Erro ao salvar política de cancelamento:', error);
+      Alert.alert(
+        'Erro',
+        error.message || 'Não foi possível salvar a política de cancelamento.'
+      );
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  const currentPolicy = profile?.cancellation_policy || 'flexible';
+
+  const fetchRating = async () => {
+    if (!profile?.id) return;
+
+    try {
+      setRating(await fetchProfessionalRating(profile.id));
+    } catch (error) {
+      console.error('Erro ao buscar avaliações:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      if (profile?.id) {
+        fetchServices();
+      }
+    }, [profile?.id])
+  );
+
+  const fetchServices = async () => {
+    if (!profile?.id) return;
+
+    const { data, error } = await supabase
+      .from('services')
+      .select('id, title')
+      .eq('professional_id', profile.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Erro ao buscar serviços:', error);
+    } else {
+      setServices(data || []);
+    }
+  };
+
   const fetchPhotos = async () => {
     if (!profile?.id) return;
 
@@ -465,7 +570,7 @@ export default function ProfessionalProfileScreen() {
               <View style={styles.ratingContainer}>
                 <Star size={16} color={theme.colors.tertiary} />
                 <Text variant="bodyMedium" style={styles.rating}>
-                  4.8 • 124 avaliações
+                  {formatRating(rating)} • {formatReviewCount(rating.count)}
                 </Text>
               </View>
             </View>
@@ -581,28 +686,79 @@ export default function ProfessionalProfileScreen() {
               <Button
                 mode="text"
                 icon={() => <Plus size={16} color={theme.colors.primary} />}
-                onPress={() => {}}
+                onPress={() => router.push('/services/form')}
               >
                 Adicionar
               </Button>
             </View>
 
-            <View style={styles.servicesGrid}>
-              <Chip style={styles.serviceChip}>Churrasco Tradicional</Chip>
-              <Chip style={styles.serviceChip}>Churrasco Premium</Chip>
-              <Chip style={styles.serviceChip}>Espetinhos</Chip>
-            </View>
+            {services.length > 0 ? (
+              <View style={styles.servicesGrid}>
+                {services.map((service) => (
+                  <Chip
+                    key={service.id}
+                    style={styles.serviceChip}
+                    onPress={() =>
+                      router.push({
+                        pathname: '/services/form',
+                        params: { id: service.id },
+                      })
+                    }
+                  >
+                    {service.title}
+                  </Chip>
+                ))}
+              </View>
+            ) : (
+              <Text variant="bodySmall" style={styles.emptyServicesText}>
+                Nenhum serviço cadastrado ainda.
+              </Text>
+            )}
 
             <Button
               mode="outlined"
               style={styles.manageButton}
-              onPress={() => {}}
+              onPress={() => router.push('/services')}
             >
               Gerenciar Serviços
             </Button>
           </Card.Content>
         </Card>
 
+        {/* Cancellation Policy */}
+        <Card style={styles.policyCard}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Política de cancelamento
+            </Text>
+            <Text variant="bodySmall" style={styles.policyHint}>
+              Vale para todos os serviços, exceto os que tiverem uma política
+              própria.
+            </Text>
+
+            <View style={styles.servicesGrid}>
+              {CANCELLATION_POLICIES.map((policy) => (
+                <Chip
+                  key={policy}
+                  selected={currentPolicy === policy}
+                  disabled={savingPolicy}
+                  onPress={() => handleCancellationPolicyChange(policy)}
+                >
+                  {CANCELLATION_POLICY_LABELS[policy]}
+                </Chip>
+              ))}
+            </View>
+
+            {describeCancellationPolicy(cancellationTiers, currentPolicy).map(
+              (line) => (
+                <Text key={line} variant="bodySmall" style={styles.policyLine}>
+                  • {line}
+                </Text>
+              )
+            )}
+          </Card.Content>
+        </Card>
+
         {/* Personal Information */}
         <Card style={styles.infoCard}>
           <Card.Content>
@@ -650,6 +806,21 @@ export default function ProfessionalProfileScreen() {
               </View>
             )}
 
+            <TouchableOpacity
+              style={styles.infoItem}
+              onPress={() => setTaxIdDialogVisible(true)}
+            >
+              <FileText size={20} color={theme.colors.onSurfaceVariant} />
+              <View style={styles.infoContent}>
+                <Text variant="bodySmall" style={styles.infoLabel}>
+                  CPF/CNPJ (para recibos)
+                </Text>
+                <Text variant="bodyMedium" style={styles.infoValue}>
+                  {taxId ? formatTaxId(taxId) : 'Toque para informar'}
+                </Text>
+              </View>
+            </TouchableOpacity>
+
             <View style={styles.profileButtons}>
               <Button
                 mode="outlined"
@@ -701,6 +872,18 @@ export default function ProfessionalProfileScreen() {
           </Card.Content>
         </Card>
       </ScrollView>
+      {profile && (
+        <TaxIdDialog
+          visible={taxIdDialogVisible}
+          profileId={profile.id}
+          taxId={taxId}
+          onDismiss={() => setTaxIdDialogVisible(false)}
+          onSaved={(value) => {
+            setTaxId(value);
+            setTaxIdDialogVisible(false);
+          }}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -864,9 +1047,27 @@ const styles = StyleSheet.create({
   serviceChip: {
     backgroundColor: theme.colors.primaryContainer,
   },
+  emptyServicesText: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.md,
+  },
   manageButton: {
     marginTop: spacing.sm,
   },
+  policyCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.lg,
+    elevation: 2,
+  },
+  policyHint: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  policyLine: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.xs,
+  },
   infoCard: {
     marginHorizontal: spacing.lg,
     marginBottom: spacing.lg,
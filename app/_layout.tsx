@@ -17,6 +17,13 @@ export default function RootLayout() {
           <Stack.Screen name="auth" />
           <Stack.Screen name="(client)" />
           <Stack.Screen name="(professional)" />
+          <Stack.Screen name="service/[id]" />
+          <Stack.Screen name="booking/new" />
+          <Stack.Screen name="services/index" />
+          <Stack.Screen name="services/form" />
+          <Stack.Screen name="chat/[bookingId]" />
+          <Stack.Screen name="notifications" />
+          <Stack.Screen name="payments" />
           <Stack.Screen name="+not-found" />
         </Stack>
         <StatusBar style="auto" />
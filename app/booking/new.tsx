@@ -0,0 +1,1080 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import {
+  Text,
+  Card,
+  Button,
+  Chip,
+  TextInput,
+  IconButton,
+  ProgressBar,
+  ActivityIndicator,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import {
+  AvailableSlots,
+  BOOKING_WINDOW_DAYS,
+  addDays,
+  fetchAvailableSlots,
+} from '@/lib/availability';
+import {
+  PricingRules,
+  SURCHARGE_LABELS,
+  calculatePrice,
+  formatCurrency,
+  formatServicePrice,
+  fetchHolidays,
+} from '@/lib/pricing';
+import {
+  AddonSelection,
+  ServiceAddon,
+  addonAmount,
+  addonsTotal,
+  fetchServiceAddons,
+  formatAddonPrice,
+  selectedAddons,
+} from '@/lib/addons';
+import {
+  SERVICE_MENUS_SELECT,
+  ServiceMenu,
+  activeMenus,
+  formatMenuItem,
+  menuItemsByKind,
+  MENU_ITEM_KIND_LABELS,
+  MENU_TAG_LABELS,
+} from '@/lib/menus';
+import { BookingError, createBooking } from '@/lib/bookings';
+import { estimateSupplies } from '@/lib/supplies';
+import { splitDeposit } from '@/lib/payments';
+import { SuppliesEstimate } from '@/components/SuppliesEstimate';
+import { spacing, theme } from '@/constants/theme';
+import {
+  ArrowLeft,
+  Calendar,
+  Clock,
+  MapPin,
+  Users,
+  Check,
+  UtensilsCrossed,
+} from 'lucide-react-native';
+
+interface Service extends PricingRules {
+  id: string;
+  title: string;
+  description: string;
+  duration_hours: number;
+  location: string;
+  professional_id: string;
+  deposit_percent: number;
+  profiles?: {
+    full_name: string;
+  };
+  service_menus?: ServiceMenu[];
+}
+
+type Step = 'service' | 'datetime' | 'menu' | 'guests' | 'location' | 'review';
+
+const STEPS: Array<{ key: Step; label: string }> = [
+  { key: 'service', label: 'Serviço' },
+  { key: 'datetime', label: 'Data e horário' },
+  { key: 'menu', label: 'Cardápio' },
+  { key: 'guests', label: 'Convidados' },
+  { key: 'location', label: 'Local' },
+  { key: 'review', label: 'Revisão' },
+];
+
+export default function NewBookingScreen() {
+  const { serviceId } = useLocalSearchParams<{ serviceId?: string }>();
+  const { profile } = useAuth();
+  const [services, setServices] = useState<Service[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [stepIndex, setStepIndex] = useState(0);
+
+  const [selectedService, setSelectedService] = useState<Service | null>(null);
+  const [eventDate, setEventDate] = useState<string | null>(null);
+  const [eventTime, setEventTime] = useState<string | null>(null);
+  const [guestsCount, setGuestsCount] = useState(10);
+  const [childrenCount, setChildrenCount] = useState(0);
+  const [location, setLocation] = useState(profile?.location || '');
+  const [notes, setNotes] = useState('');
+  const [slots, setSlots] = useState<AvailableSlots>({});
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [holidays, setHolidays] = useState<Set<string>>(new Set());
+  const [addons, setAddons] = useState<ServiceAddon[]>([]);
+  const [addonSelection, setAddonSelection] = useState<AddonSelection>({});
+  const [menuId, setMenuId] = useState<string | null>(null);
+
+  const step = STEPS[stepIndex].key;
+
+  useEffect(() => {
+    loadServices();
+  }, [serviceId]);
+
+  useEffect(() => {
+    loadHolidays();
+  }, []);
+
+  useEffect(() => {
+    if (selectedService) {
+      loadSlots(selectedService.id);
+      loadAddons(selectedService.id);
+    }
+  }, [selectedService?.id]);
+
+  const loadSlots = async (id: string) => {
+    setLoadingSlots(true);
+    setEventDate(null);
+    setEventTime(null);
+    try {
+      const today = new Date();
+      setSlots(
+        await fetchAvailableSlots(
+          id,
+          addDays(today, 1),
+          addDays(today, BOOKING_WINDOW_DAYS)
+        )
+      );
+    } catch (error) {
+      console.error('Error loading available slots:', error);
+      setSlots({});
+    } finally {
+      setLoadingSlots(false);
+    }
+  };
+
+  const loadAddons = async (id: string) => {
+    setAddonSelection({});
+    try {
+      setAddons(await fetchServiceAddons(id));
+    } catch (error) {
+      console.error('Error loading add-ons:', error);
+      setAddons([]);
+    }
+  };
+
+  const loadHolidays = async () => {
+    try {
+      const today = new Date();
+      setHolidays(await fetchHolidays(today, addDays(today, BOOKING_WINDOW_DAYS)));
+    } catch (error) {
+      console.error('Error loading holidays:', error);
+    }
+  };
+
+  const loadServices = async () => {
+    setLoading(true);
+    try {
+      let professionalId: string | null = null;
+
+      if (serviceId) {
+        const { data, error } = await supabase
+          .from('services')
+          .select('professional_id')
+          .eq('id', serviceId)
+          .single();
+
+        if (error) {
+          console.error('Error loading service:', error);
+        } else {
+          professionalId = data.professional_id;
+        }
+      }
+
+      let query = supabase
+        .from('services')
+        .select(`
+          *,
+          service_price_tiers (
+            min_guests,
+            price_per_guest
+          ),
+          profiles (
+            full_name
+          ),
+          ${SERVICE_MENUS_SELECT}
+        `)
+        .order('created_at', { ascending: false });
+
+      if (professionalId) {
+        query = query.eq('professional_id', professionalId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error loading services:', error);
+      } else {
+        setServices(data || []);
+        const preselected = data?.find((s: Service) => s.id === serviceId);
+        if (preselected) {
+          selectService(preselected);
+          setStepIndex(1);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading services:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectService = (service: Service) => {
+    setSelectedService(service);
+    // A single menu needs no choosing
+    const menus = activeMenus(service.service_menus);
+    setMenuId(menus.length === 1 ? menus[0].id : null);
+    setGuestsCount((prev) => Math.min(Math.max(prev, 1), service.max_guests));
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('pt-BR', {
+      weekday: 'long',
+      day: '2-digit',
+      month: 'long',
+      year: 'numeric',
+    });
+  };
+
+  const price = selectedService
+    ? calculatePrice(selectedService, guestsCount, eventDate || undefined, holidays)
+    : null;
+  const menus = activeMenus(selectedService?.service_menus);
+  const selectedMenu = menus.find((menu) => menu.id === menuId);
+  const extrasTotal = addonsTotal(addons, addonSelection, guestsCount);
+  const totalPrice = (price?.total ?? 0) + extrasTotal;
+
+  const updateAddonQuantity = (addon: ServiceAddon, quantity: number) => {
+    setAddonSelection((prev) => ({
+      ...prev,
+      [addon.id]: Math.min(Math.max(quantity, 0), addon.max_quantity),
+    }));
+  };
+
+  const updateGuestsCount = (value: number) => {
+    if (!selectedService) return;
+    const clamped = Math.min(Math.max(value, 1), selectedService.max_guests);
+    setGuestsCount(clamped);
+    setChildrenCount((prev) => Math.min(prev, clamped));
+  };
+
+  const updateChildrenCount = (value: number) => {
+    setChildrenCount(Math.min(Math.max(value, 0), guestsCount));
+  };
+
+  const canAdvance = () => {
+    switch (step) {
+      case 'service':
+        return !!selectedService;
+      case 'datetime':
+        return !!eventDate && !!eventTime;
+      case 'menu':
+        return menus.length === 0 || !!selectedMenu;
+      case 'guests':
+        return guestsCount > 0;
+      case 'location':
+        return location.trim().length > 0;
+      default:
+        return true;
+    }
+  };
+
+  const handleBack = () => {
+    if (stepIndex === 0) {
+      router.back();
+    } else {
+      setStepIndex(stepIndex - 1);
+    }
+  };
+
+  const handleNext = () => {
+    if (!canAdvance()) {
+      Alert.alert('Atenção', 'Preencha as informações desta etapa para continuar.');
+      return;
+    }
+    setStepIndex(stepIndex + 1);
+  };
+
+  const handleSubmit = async () => {
+    if (!profile || !selectedService || !eventDate || !eventTime) return;
+
+    if (profile.user_type !== 'client') {
+      Alert.alert('Erro', 'Apenas clientes podem solicitar agendamentos.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await createBooking(
+        {
+          p_service_id: selectedService.id,
+          p_event_date: eventDate,
+          p_event_time: eventTime,
+          p_guests_count: guestsCount,
+          p_children_count: childrenCount,
+          p_location: location.trim(),
+          p_notes: notes.trim() || null,
+          p_menu_id: selectedMenu?.id ?? null,
+        },
+        selectedAddons(addonSelection)
+      );
+
+      Alert.alert(
+        'Solicitação enviada',
+        'O churrasqueiro receberá seu pedido e responderá em breve.',
+        [{ text: 'OK', onPress: () => router.replace('/(client)/bookings') }]
+      );
+    } catch (error) {
+      console.error('Error creating booking:', error);
+      Alert.alert(
+        'Erro',
+        error instanceof BookingError && error.code !== 'unknown'
+          ? error.message
+          : 'Não foi possível enviar a solicitação.'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderServiceStep = () => (
+    <View>
+      <Text variant="titleMedium" style={styles.stepTitle}>
+        Escolha o serviço
+      </Text>
+      {services.map((service) => {
+        const selected = selectedService?.id === service.id;
+        return (
+          <Card
+            key={service.id}
+            style={[styles.optionCard, selected && styles.optionCardSelected]}
+            onPress={() => selectService(service)}
+          >
+            <Card.Content>
+              <View style={styles.optionHeader}>
+                <Text variant="titleMedium" style={styles.optionTitle}>
+                  {service.title}
+                </Text>
+                {selected && <Check size={20} color={theme.colors.primary} />}
+              </View>
+              <Text variant="bodySmall" style={styles.optionSubtitle}>
+                {service.profiles?.full_name} • {service.duration_hours}h • até{' '}
+                {service.max_guests} pessoas
+              </Text>
+              <Text variant="titleSmall" style={styles.optionPrice}>
+                {formatServicePrice(service)}
+              </Text>
+            </Card.Content>
+          </Card>
+        );
+      })}
+    </View>
+  );
+
+  const renderDateTimeStep = () => {
+    if (loadingSlots) {
+      return <ActivityIndicator color={theme.colors.primary} />;
+    }
+
+    const openDates = Object.keys(slots);
+
+    if (openDates.length === 0) {
+      return (
+        <Text variant="bodyMedium" style={styles.helperText}>
+          Este churrasqueiro não tem horários disponíveis nos próximos{' '}
+          {BOOKING_WINDOW_DAYS} dias.
+        </Text>
+      );
+    }
+
+    return (
+      <View>
+        <Text variant="titleMedium" style={styles.stepTitle}>
+          Quando será o evento?
+        </Text>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.chipsScroll}
+        >
+          {openDates.map((key) => (
+            <Chip
+              key={key}
+              selected={eventDate === key}
+              onPress={() => {
+                setEventDate(key);
+                setEventTime(null);
+              }}
+              style={styles.dateChip}
+            >
+              {new Date(`${key}T00:00:00`).toLocaleDateString('pt-BR', {
+                weekday: 'short',
+                day: '2-digit',
+                month: '2-digit',
+              })}
+            </Chip>
+          ))}
+        </ScrollView>
+
+        {eventDate && (
+          <>
+            <Text variant="titleMedium" style={styles.stepTitle}>
+              Horário de início
+            </Text>
+            <View style={styles.chipsWrap}>
+              {slots[eventDate].map((slot) => (
+                <Chip
+                  key={slot}
+                  selected={eventTime === slot}
+                  onPress={() => setEventTime(slot)}
+                  style={styles.timeChip}
+                >
+                  {slot}
+                </Chip>
+              ))}
+            </View>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  const renderMenuStep = () => {
+    if (menus.length === 0) {
+      return (
+        <Text variant="bodyMedium" style={styles.helperText}>
+          Este serviço não tem cardápios cadastrados. Combine o cardápio com o
+          churrasqueiro nas observações ou pelo chat.
+        </Text>
+      );
+    }
+
+    return (
+      <View>
+        <Text variant="titleMedium" style={styles.stepTitle}>
+          Escolha o cardápio
+        </Text>
+        {menus.map((menu) => {
+          const selected = menu.id === menuId;
+          return (
+            <Card
+              key={menu.id}
+              style={[styles.optionCard, selected && styles.optionCardSelected]}
+              onPress={() => setMenuId(menu.id)}
+            >
+              <Card.Content>
+                <View style={styles.optionHeader}>
+                  <Text variant="titleMedium" style={styles.optionTitle}>
+                    {menu.name}
+                  </Text>
+                  {selected && <Check size={20} color={theme.colors.primary} />}
+                </View>
+                {menu.tags.length > 0 && (
+                  <Text variant="bodySmall" style={styles.optionSubtitle}>
+                    {menu.tags.map((tag) => MENU_TAG_LABELS[tag]).join(' • ')}
+                  </Text>
+                )}
+                {menu.description && (
+                  <Text variant="bodySmall" style={styles.optionSubtitle}>
+                    {menu.description}
+                  </Text>
+                )}
+                {menuItemsByKind(menu).map((group) => (
+                  <Text key={group.kind} variant="bodySmall" style={styles.menuGroup}>
+                    <Text style={styles.menuGroupLabel}>
+                      {MENU_ITEM_KIND_LABELS[group.kind]}:{' '}
+                    </Text>
+                    {group.items.map(formatMenuItem).join(', ')}
+                  </Text>
+                ))}
+              </Card.Content>
+            </Card>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderGuestsStep = () => (
+    <View>
+      <Text variant="titleMedium" style={styles.stepTitle}>
+        Quantas pessoas?
+      </Text>
+      <View style={styles.guestsRow}>
+        <IconButton
+          icon="minus"
+          mode="outlined"
+          onPress={() => updateGuestsCount(guestsCount - 1)}
+          disabled={guestsCount <= 1}
+        />
+        <TextInput
+          value={String(guestsCount)}
+          onChangeText={(text) => updateGuestsCount(parseInt(text, 10) || 1)}
+          keyboardType="number-pad"
+          mode="outlined"
+          style={styles.guestsInput}
+        />
+        <IconButton
+          icon="plus"
+          mode="outlined"
+          onPress={() => updateGuestsCount(guestsCount + 1)}
+          disabled={guestsCount >= (selectedService?.max_guests || 0)}
+        />
+      </View>
+      <Text variant="bodySmall" style={styles.helperText}>
+        Este serviço atende até {selectedService?.max_guests} pessoas.
+      </Text>
+
+      <Text variant="titleSmall" style={[styles.helperText, styles.childrenTitle]}>
+        Quantas são crianças?
+      </Text>
+      <View style={styles.guestsRow}>
+        <IconButton
+          icon="minus"
+          mode="outlined"
+          onPress={() => updateChildrenCount(childrenCount - 1)}
+          disabled={childrenCount <= 0}
+        />
+        <TextInput
+          value={String(childrenCount)}
+          onChangeText={(text) => updateChildrenCount(parseInt(text, 10) || 0)}
+          keyboardType="number-pad"
+          mode="outlined"
+          style={styles.guestsInput}
+        />
+        <IconButton
+          icon="plus"
+          mode="outlined"
+          onPress={() => updateChildrenCount(childrenCount + 1)}
+          disabled={childrenCount >= guestsCount}
+        />
+      </View>
+
+      {price && (
+        <Text variant="titleMedium" style={styles.guestsPrice}>
+          {formatCurrency(price.total)} para {guestsCount}{' '}
+          {guestsCount === 1 ? 'pessoa' : 'pessoas'}
+        </Text>
+      )}
+
+      {addons.length > 0 && (
+        <>
+          <Text variant="titleMedium" style={[styles.stepTitle, styles.addonsTitle]}>
+            Adicionais
+          </Text>
+          {addons.map((addon) => {
+            const quantity = addonSelection[addon.id] || 0;
+            return (
+              <Card key={addon.id} style={styles.optionCard}>
+                <Card.Content style={styles.addonRow}>
+                  <View style={styles.addonInfo}>
+                    <Text variant="titleSmall" style={styles.optionTitle}>
+                      {addon.name}
+                    </Text>
+                    {addon.description && (
+                      <Text variant="bodySmall" style={styles.optionSubtitle}>
+                        {addon.description}
+                      </Text>
+                    )}
+                    <Text variant="bodySmall" style={styles.optionPrice}>
+                      {formatAddonPrice(addon)}
+                    </Text>
+                  </View>
+                  {addon.max_quantity > 1 ? (
+                    <View style={styles.addonStepper}>
+                      <IconButton
+                        icon="minus"
+                        size={16}
+                        mode="outlined"
+                        onPress={() => updateAddonQuantity(addon, quantity - 1)}
+                        disabled={quantity <= 0}
+                      />
+                      <Text variant="titleMedium">{quantity}</Text>
+                      <IconButton
+                        icon="plus"
+                        size={16}
+                        mode="outlined"
+                        onPress={() => updateAddonQuantity(addon, quantity + 1)}
+                        disabled={quantity >= addon.max_quantity}
+                      />
+                    </View>
+                  ) : (
+                    <Chip
+                      selected={quantity > 0}
+                      onPress={() => updateAddonQuantity(addon, quantity > 0 ? 0 : 1)}
+                    >
+                      {quantity > 0 ? 'Incluído' : 'Incluir'}
+                    </Chip>
+                  )}
+                </Card.Content>
+              </Card>
+            );
+          })}
+          {extrasTotal > 0 && (
+            <Text variant="bodyMedium" style={styles.helperText}>
+              Adicionais: {formatCurrency(extrasTotal)} • Total:{' '}
+              {formatCurrency(totalPrice)}
+            </Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+
+  const renderLocationStep = () => (
+    <View>
+      <Text variant="titleMedium" style={styles.stepTitle}>
+        Onde será o evento?
+      </Text>
+      <TextInput
+        label="Endereço do evento"
+        value={location}
+        onChangeText={setLocation}
+        mode="outlined"
+        style={styles.input}
+      />
+      <TextInput
+        label="Observações (opcional)"
+        value={notes}
+        onChangeText={setNotes}
+        mode="outlined"
+        multiline
+        numberOfLines={4}
+        style={styles.input}
+        placeholder="Ex.: restrições alimentares, churrasqueira no local..."
+      />
+    </View>
+  );
+
+  const renderReviewStep = () => (
+    <View>
+      <Card style={styles.reviewCard}>
+        <Card.Content>
+          <Text variant="titleMedium" style={styles.reviewTitle}>
+            {selectedService?.title}
+          </Text>
+          <Text variant="bodySmall" style={styles.optionSubtitle}>
+            {selectedService?.profiles?.full_name}
+          </Text>
+
+          <View style={styles.reviewInfo}>
+            <View style={styles.infoRow}>
+              <Calendar size={16} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {eventDate && formatDate(eventDate)}
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Clock size={16} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {eventTime} • {selectedService?.duration_hours}h
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Users size={16} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {guestsCount} pessoas
+                {childrenCount > 0 && ` (${childrenCount} crianças)`}
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <MapPin size={16} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {location}
+              </Text>
+            </View>
+            {selectedMenu && (
+              <View style={styles.infoRow}>
+                <UtensilsCrossed size={16} color={theme.colors.onSurfaceVariant} />
+                <Text variant="bodyMedium" style={styles.infoText}>
+                  {selectedMenu.name}
+                </Text>
+              </View>
+            )}
+          </View>
+
+          {notes.trim().length > 0 && (
+            <View style={styles.notesSection}>
+              <Text variant="bodySmall" style={styles.notesLabel}>
+                Observações:
+              </Text>
+              <Text variant="bodyMedium" style={styles.notes}>
+                {notes}
+              </Text>
+            </View>
+          )}
+
+          {price && price.baseFee > 0 && (
+            <View style={styles.priceRow}>
+              <Text variant="bodyMedium" style={styles.priceLabel}>
+                Taxa base
+              </Text>
+              <Text variant="bodyMedium">{formatCurrency(price.baseFee)}</Text>
+            </View>
+          )}
+          {price && price.perGuest > 0 && (
+            <View style={styles.priceRow}>
+              <Text variant="bodyMedium" style={styles.priceLabel}>
+                {guestsCount} × {formatCurrency(price.perGuest)}
+              </Text>
+              <Text variant="bodyMedium">{formatCurrency(price.guestsAmount)}</Text>
+            </View>
+          )}
+          {price?.minimumApplied && (
+            <View style={styles.priceRow}>
+              <Text variant="bodyMedium" style={styles.priceLabel}>
+                Valor mínimo do serviço
+              </Text>
+              <Text variant="bodyMedium">{formatCurrency(price.subtotal)}</Text>
+            </View>
+          )}
+          {price?.surcharge && (
+            <View style={styles.priceRow}>
+              <Text variant="bodyMedium" style={styles.priceLabel}>
+                {SURCHARGE_LABELS[price.surcharge]} ({price.surchargePercent}%)
+              </Text>
+              <Text variant="bodyMedium">{formatCurrency(price.surchargeAmount)}</Text>
+            </View>
+          )}
+
+          {extrasTotal > 0 && (
+            <View style={styles.priceRow}>
+              <Text variant="bodyMedium" style={styles.priceLabel}>
+                Serviço
+              </Text>
+              <Text variant="bodyMedium">{formatCurrency(price?.total ?? 0)}</Text>
+            </View>
+          )}
+          {addons
+            .filter((addon) => (addonSelection[addon.id] || 0) > 0)
+            .map((addon) => {
+              const quantity = addonSelection[addon.id];
+              return (
+                <View key={addon.id} style={styles.priceRow}>
+                  <Text variant="bodyMedium" style={styles.priceLabel}>
+                    {quantity > 1 ? `${quantity}× ${addon.name}` : addon.name}
+                  </Text>
+                  <Text variant="bodyMedium">
+                    {formatCurrency(addonAmount(addon, quantity, guestsCount))}
+                  </Text>
+                </View>
+              );
+            })}
+
+          <View style={styles.totalRow}>
+            <Text variant="titleMedium">Total estimado</Text>
+            <Text variant="titleLarge" style={styles.totalPrice}>
+              {formatCurrency(totalPrice)}
+            </Text>
+          </View>
+          <Text variant="bodySmall" style={styles.helperText}>
+            O valor final será confirmado pelo churrasqueiro.
+          </Text>
+          {selectedService && selectedService.deposit_percent > 0 && (
+            <Text variant="bodySmall" style={styles.helperText}>
+              {`Sinal de ${selectedService.deposit_percent}% (${formatCurrency(
+                splitDeposit(totalPrice, selectedService.deposit_percent).deposit
+              )}) na confirmação para reservar a data; o saldo vence ${
+                eventDate ? `em ${formatDate(eventDate)}` : 'no dia do evento'
+              }.`}
+            </Text>
+          )}
+        </Card.Content>
+      </Card>
+
+      {selectedService && (
+        <>
+          <Text variant="titleMedium" style={[styles.stepTitle, styles.suppliesTitle]}>
+            Quanto comprar?
+          </Text>
+          <SuppliesEstimate
+            estimate={estimateSupplies({
+              guests: guestsCount,
+              children: childrenCount,
+              durationHours: selectedService.duration_hours,
+              menuItems: selectedMenu?.menu_items,
+            })}
+            title={`${selectedService.title}${eventDate ? ` • ${formatDate(eventDate)}` : ''}`}
+          />
+        </>
+      )}
+    </View>
+  );
+
+  const renderStep = () => {
+    switch (step) {
+      case 'service':
+        return renderServiceStep();
+      case 'datetime':
+        return renderDateTimeStep();
+      case 'menu':
+        return renderMenuStep();
+      case 'guests':
+        return renderGuestsStep();
+      case 'location':
+        return renderLocationStep();
+      case 'review':
+        return renderReviewStep();
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <ActivityIndicator color={theme.colors.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Button
+          mode="text"
+          onPress={handleBack}
+          style={styles.backButton}
+          icon={({ size, color }) => <ArrowLeft size={size} color={color} />}
+        >
+          Voltar
+        </Button>
+        <Text variant="headlineSmall" style={styles.title}>
+          Novo Agendamento
+        </Text>
+        <Text variant="bodyMedium" style={styles.stepLabel}>
+          Etapa {stepIndex + 1} de {STEPS.length} • {STEPS[stepIndex].label}
+        </Text>
+        <ProgressBar
+          progress={(stepIndex + 1) / STEPS.length}
+          color={theme.colors.primary}
+          style={styles.progress}
+        />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+        {renderStep()}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        {step === 'review' ? (
+          <Button
+            mode="contained"
+            onPress={handleSubmit}
+            loading={submitting}
+            disabled={submitting}
+          >
+            Enviar solicitação
+          </Button>
+        ) : (
+          <Button mode="contained" onPress={handleNext} disabled={!canAdvance()}>
+            Continuar
+          </Button>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginLeft: -spacing.sm,
+    marginTop: spacing.xs,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: theme.colors.onBackground,
+    marginBottom: spacing.xs,
+  },
+  stepLabel: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.sm,
+  },
+  progress: {
+    height: 6,
+    borderRadius: 3,
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: spacing.lg,
+  },
+  stepTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onBackground,
+    marginBottom: spacing.md,
+  },
+  optionCard: {
+    marginBottom: spacing.md,
+    elevation: 2,
+  },
+  optionCardSelected: {
+    borderWidth: 2,
+    borderColor: theme.colors.primary,
+  },
+  optionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  optionTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    flex: 1,
+  },
+  optionSubtitle: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.sm,
+  },
+  optionPrice: {
+    fontWeight: 'bold',
+    color: theme.colors.primary,
+  },
+  menuGroup: {
+    color: theme.colors.onSurface,
+    marginBottom: spacing.xs,
+  },
+  menuGroupLabel: {
+    fontWeight: 'bold',
+  },
+  childrenTitle: {
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  suppliesTitle: {
+    marginTop: spacing.lg,
+  },
+  addonsTitle: {
+    marginTop: spacing.lg,
+  },
+  addonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  addonInfo: {
+    flex: 1,
+  },
+  addonStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  chipsScroll: {
+    marginBottom: spacing.lg,
+  },
+  dateChip: {
+    marginRight: spacing.sm,
+  },
+  chipsWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  timeChip: {
+    marginBottom: spacing.xs,
+  },
+  guestsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: spacing.sm,
+  },
+  guestsInput: {
+    width: 100,
+    textAlign: 'center',
+    marginHorizontal: spacing.sm,
+  },
+  helperText: {
+    color: theme.colors.onSurfaceVariant,
+    textAlign: 'center',
+  },
+  guestsPrice: {
+    fontWeight: 'bold',
+    color: theme.colors.primary,
+    textAlign: 'center',
+    marginTop: spacing.md,
+  },
+  input: {
+    marginBottom: spacing.md,
+  },
+  reviewCard: {
+    elevation: 2,
+  },
+  reviewTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginBottom: spacing.xs,
+  },
+  reviewInfo: {
+    marginVertical: spacing.md,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  infoText: {
+    marginLeft: spacing.sm,
+    color: theme.colors.onSurface,
+  },
+  notesSection: {
+    marginBottom: spacing.md,
+    padding: spacing.sm,
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: spacing.sm,
+  },
+  notesLabel: {
+    fontWeight: 'bold',
+    marginBottom: spacing.xs,
+    color: theme.colors.onSurfaceVariant,
+  },
+  notes: {
+    color: theme.colors.onSurface,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs,
+  },
+  priceLabel: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: spacing.md,
+    marginBottom: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.surfaceVariant,
+  },
+  totalPrice: {
+    fontWeight: 'bold',
+    color: theme.colors.primary,
+  },
+  footer: {
+    padding: spacing.md,
+    paddingHorizontal: spacing.lg,
+    backgroundColor: theme.colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.surfaceVariant,
+  },
+});
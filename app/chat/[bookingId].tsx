@@ -0,0 +1,439 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Alert,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import {
+  Text,
+  Button,
+  IconButton,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import {
+  fetchMessages,
+  markMessagesRead,
+  Message,
+  sendMessage,
+  uploadMessageImage,
+  withImageUrls,
+} from '@/lib/messages';
+import { spacing, theme, borderRadius } from '@/constants/theme';
+import {
+  ArrowLeft,
+  Check,
+  CheckCheck,
+  ImagePlus,
+  Send,
+} from 'lucide-react-native';
+
+interface ChatBooking {
+  id: string;
+  client_id: string;
+  professional_id: string;
+  event_date: string;
+  services?: {
+    title: string;
+  };
+  client?: {
+    full_name: string;
+  };
+  professional?: {
+    full_name: string;
+  };
+}
+
+export default function ChatScreen() {
+  const { bookingId } = useLocalSearchParams<{ bookingId: string }>();
+  const { profile } = useAuth();
+  const [booking, setBooking] = useState<ChatBooking | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!bookingId || !profile) return;
+
+    loadChat();
+
+    const channel = supabase
+      .channel(`chat-${bookingId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `booking_id=eq.${bookingId}`,
+        },
+        async (payload) => {
+          const [message] = await withImageUrls([payload.new as Message]);
+          addMessage(message);
+          if (message.sender_id !== profile.id) {
+            markMessagesRead(bookingId).catch((error) =>
+              console.error('Error marking messages as read:', error)
+            );
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `booking_id=eq.${bookingId}`,
+        },
+        (payload) => {
+          const updated = payload.new as Message;
+          setMessages((prev) =>
+            prev.map((message) =>
+              message.id === updated.id
+                ? { ...message, read_at: updated.read_at }
+                : message
+            )
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [bookingId, profile?.id]);
+
+  const loadChat = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select(`
+          id,
+          client_id,
+          professional_id,
+          event_date,
+          services (
+            title
+          ),
+          client:profiles!bookings_client_id_fkey (
+            full_name
+          ),
+          professional:profiles!bookings_professional_id_fkey (
+            full_name
+          )
+        `)
+        .eq('id', bookingId)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      setBooking(data as unknown as ChatBooking);
+      setMessages(await fetchMessages(bookingId));
+      await markMessagesRead(bookingId);
+    } catch (error) {
+      console.error('Error loading chat:', error);
+      Alert.alert('Erro', 'Não foi possível carregar a conversa.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The realtime echo of our own insert can arrive before or after the
+  // insert response, so messages are de-duplicated by id.
+  const addMessage = (message: Message) => {
+    setMessages((prev) =>
+      prev.some((existing) => existing.id === message.id)
+        ? prev
+        : [...prev, message]
+    );
+  };
+
+  const handleSend = async (imagePath?: string) => {
+    if (!profile) return;
+    if (!imagePath && !draft.trim()) return;
+
+    setSending(true);
+    try {
+      const message = await sendMessage(
+        bookingId,
+        profile.id,
+        imagePath ? { imagePath } : { body: draft }
+      );
+      addMessage(message);
+      if (!imagePath) {
+        setDraft('');
+      }
+    } catch (error: any) {
+      console.error('Error sending message:', error);
+      Alert.alert('Erro', error.message || 'Não foi possível enviar a mensagem.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleAttachImage = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert(
+          'Permissão necessária',
+          'É necessário permitir o acesso à galeria para enviar uma foto.'
+        );
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 0.7,
+      });
+
+      if (result.canceled || !result.assets?.length) {
+        return;
+      }
+
+      setSending(true);
+      const imagePath = await uploadMessageImage(
+        bookingId,
+        result.assets[0].uri
+      );
+      await handleSend(imagePath);
+    } catch (error: any) {
+      console.error('Error sending image:', error);
+      Alert.alert('Erro', error.message || 'Não foi possível enviar a imagem.');
+      setSending(false);
+    }
+  };
+
+  const formatMessageTime = (date: string) => {
+    return new Date(date).toLocaleTimeString('pt-BR', {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const counterpart =
+    booking && profile?.id === booking.client_id
+      ? booking.professional
+      : booking?.client;
+
+  const renderMessage = ({ item }: { item: Message }) => {
+    const isOwn = item.sender_id === profile?.id;
+
+    return (
+      <View
+        style={[
+          styles.bubble,
+          isOwn ? styles.ownBubble : styles.otherBubble,
+        ]}
+      >
+        {item.image_url && (
+          <Image source={{ uri: item.image_url }} style={styles.attachment} />
+        )}
+        {item.body && (
+          <Text
+            variant="bodyMedium"
+            style={isOwn ? styles.ownText : styles.otherText}
+          >
+            {item.body}
+          </Text>
+        )}
+        <View style={styles.meta}>
+          <Text
+            variant="labelSmall"
+            style={isOwn ? styles.ownMeta : styles.otherMeta}
+          >
+            {formatMessageTime(item.created_at)}
+          </Text>
+          {isOwn &&
+            (item.read_at ? (
+              <CheckCheck size={14} color={theme.colors.secondaryContainer} />
+            ) : (
+              <Check size={14} color={theme.colors.primaryContainer} />
+            ))}
+        </View>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <ActivityIndicator color={theme.colors.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <Button
+          mode="text"
+          onPress={() => router.back()}
+          icon={({ size, color }) => <ArrowLeft size={size} color={color} />}
+        >
+          Voltar
+        </Button>
+        <View style={styles.headerInfo}>
+          <Text variant="titleMedium" style={styles.title} numberOfLines={1}>
+            {counterpart?.full_name || 'Conversa'}
+          </Text>
+          <Text variant="bodySmall" style={styles.subtitle} numberOfLines={1}>
+            {booking?.services?.title}
+            {booking &&
+              ` • ${new Date(`${booking.event_date}T00:00:00`).toLocaleDateString('pt-BR')}`}
+          </Text>
+        </View>
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.content}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <FlatList
+          data={[...messages].reverse()}
+          renderItem={renderMessage}
+          keyExtractor={(item) => item.id}
+          inverted
+          contentContainerStyle={styles.messages}
+          ListEmptyComponent={
+            <Text variant="bodyMedium" style={styles.emptyText}>
+              Nenhuma mensagem ainda. Combine os detalhes do evento por aqui.
+            </Text>
+          }
+        />
+
+        <View style={styles.composer}>
+          <IconButton
+            icon={({ size, color }) => <ImagePlus size={size} color={color} />}
+            onPress={handleAttachImage}
+            disabled={sending}
+          />
+          <TextInput
+            value={draft}
+            onChangeText={setDraft}
+            placeholder="Escreva uma mensagem"
+            mode="outlined"
+            dense
+            multiline
+            style={styles.input}
+          />
+          <IconButton
+            icon={({ size, color }) => <Send size={size} color={color} />}
+            iconColor={theme.colors.primary}
+            onPress={() => handleSend()}
+            disabled={sending || !draft.trim()}
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.surfaceVariant,
+    backgroundColor: theme.colors.surface,
+  },
+  headerInfo: {
+    flex: 1,
+    marginLeft: spacing.sm,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+  },
+  subtitle: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  content: {
+    flex: 1,
+  },
+  messages: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: theme.colors.onSurfaceVariant,
+    // The list is inverted, so flip the placeholder back upright
+    transform: [{ scaleY: -1 }],
+  },
+  bubble: {
+    maxWidth: '80%',
+    borderRadius: borderRadius.lg,
+    padding: spacing.sm,
+    marginVertical: spacing.xs,
+  },
+  ownBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: theme.colors.primary,
+  },
+  otherBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: theme.colors.surface,
+  },
+  ownText: {
+    color: theme.colors.onPrimary,
+  },
+  otherText: {
+    color: theme.colors.onSurface,
+  },
+  attachment: {
+    width: 200,
+    height: 150,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.xs,
+  },
+  meta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: spacing.xs,
+    marginTop: spacing.xs,
+  },
+  ownMeta: {
+    color: theme.colors.primaryContainer,
+  },
+  otherMeta: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xs,
+    paddingVertical: spacing.xs,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.surfaceVariant,
+    backgroundColor: theme.colors.surface,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+  },
+});
@@ -0,0 +1,216 @@
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, FlatList, TouchableOpacity } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  AppNotification,
+  fetchNotifications,
+  markNotificationsRead,
+} from '@/lib/notifications';
+import { spacing, theme, borderRadius } from '@/constants/theme';
+import { ArrowLeft, Bell } from 'lucide-react-native';
+
+export default function NotificationsScreen() {
+  const { profile } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadNotifications();
+    }, [])
+  );
+
+  const loadNotifications = async () => {
+    setLoading(true);
+    try {
+      setNotifications(await fetchNotifications());
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await markNotificationsRead(ids);
+      const readAt = new Date().toISOString();
+      setNotifications((prev) =>
+        prev.map((notification) =>
+          !ids || ids.includes(notification.id)
+            ? { ...notification, read_at: notification.read_at || readAt }
+            : notification
+        )
+      );
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.read_at) {
+      markRead([notification.id]);
+    }
+
+    if (notification.booking_id) {
+      router.push(
+        profile?.user_type === 'professional'
+          ? '/(professional)/bookings'
+          : '/(client)/bookings'
+      );
+    }
+  };
+
+  const formatTimestamp = (date: string) => {
+    return new Date(date).toLocaleString('pt-BR', {
+      day: '2-digit',
+      month: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const hasUnread = notifications.some((notification) => !notification.read_at);
+
+  const renderNotification = ({ item }: { item: AppNotification }) => (
+    <TouchableOpacity
+      style={[styles.item, !item.read_at && styles.unreadItem]}
+      onPress={() => openNotification(item)}
+    >
+      {!item.read_at && <View style={styles.unreadDot} />}
+      <View style={styles.itemContent}>
+        <Text variant="titleSmall" style={styles.itemTitle}>
+          {item.title}
+        </Text>
+        <Text variant="bodyMedium" style={styles.itemBody}>
+          {item.body}
+        </Text>
+        <Text variant="bodySmall" style={styles.itemTime}>
+          {formatTimestamp(item.created_at)}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Button
+          mode="text"
+          onPress={() => router.back()}
+          icon={({ size, color }) => <ArrowLeft size={size} color={color} />}
+        >
+          Voltar
+        </Button>
+        {hasUnread && (
+          <Button mode="text" onPress={() => markRead()}>
+            Marcar todas como lidas
+          </Button>
+        )}
+      </View>
+
+      <Text variant="headlineMedium" style={styles.title}>
+        Notificações
+      </Text>
+
+      <FlatList
+        data={notifications}
+        renderItem={renderNotification}
+        keyExtractor={(item) => item.id}
+        refreshing={loading}
+        onRefresh={loadNotifications}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          !loading ? (
+            <View style={styles.emptyState}>
+              <Bell size={64} color={theme.colors.onSurfaceVariant} />
+              <Text variant="titleMedium" style={styles.emptyTitle}>
+                Nenhuma notificação
+              </Text>
+              <Text variant="bodyMedium" style={styles.emptyDescription}>
+                Avisos sobre seus agendamentos aparecerão aqui.
+              </Text>
+            </View>
+          ) : null
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: theme.colors.onBackground,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  list: {
+    paddingHorizontal: spacing.lg,
+    flexGrow: 1,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: theme.colors.surface,
+  },
+  unreadItem: {
+    backgroundColor: theme.colors.primaryContainer,
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: theme.colors.primary,
+    marginTop: 6,
+    marginRight: spacing.sm,
+  },
+  itemContent: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+  },
+  itemBody: {
+    color: theme.colors.onSurface,
+    marginTop: spacing.xs,
+  },
+  itemTime: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: spacing.xs,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+  emptyTitle: {
+    fontWeight: 'bold',
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+    textAlign: 'center',
+  },
+  emptyDescription: {
+    color: theme.colors.onSurfaceVariant,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,226 @@
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, FlatList } from 'react-native';
+import { Text, Button, Card } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  PaymentHistoryEntry,
+  PAYMENT_STATUS_LABELS,
+  describePayment,
+  fetchPaymentHistory,
+  formatPaymentTime,
+} from '@/lib/payments';
+import { spacing, theme, borderRadius } from '@/constants/theme';
+import { ArrowLeft, CreditCard, QrCode, Receipt } from 'lucide-react-native';
+
+export default function PaymentsScreen() {
+  const { profile } = useAuth();
+  const [payments, setPayments] = useState<PaymentHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPayments();
+    }, [profile?.id])
+  );
+
+  const loadPayments = async () => {
+    if (!profile) return;
+
+    setLoading(true);
+    try {
+      setPayments(await fetchPaymentHistory(profile.id));
+    } catch (error) {
+      console.error('Error loading payments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderPayment = ({ item }: { item: PaymentHistoryEntry }) => (
+    <View style={styles.item}>
+      <View style={styles.itemContent}>
+        <Text variant="titleSmall" style={styles.itemTitle}>
+          {item.bookings?.services?.title || 'Serviço de Churrasco'}
+        </Text>
+        <Text variant="bodyMedium" style={styles.itemBody}>
+          {describePayment(item)}
+        </Text>
+        <Text variant="bodySmall" style={styles.itemTime}>
+          {formatPaymentTime(item.paid_at || item.created_at)}
+        </Text>
+      </View>
+      <Text
+        variant="bodySmall"
+        style={[
+          styles.status,
+          item.status === 'paid' && styles.paid,
+          item.status === 'failed' && styles.failed,
+        ]}
+      >
+        {PAYMENT_STATUS_LABELS[item.status]}
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Button
+          mode="text"
+          onPress={() => router.back()}
+          icon={({ size, color }) => <ArrowLeft size={size} color={color} />}
+        >
+          Voltar
+        </Button>
+      </View>
+
+      <Text variant="headlineMedium" style={styles.title}>
+        Pagamentos
+      </Text>
+
+      <FlatList
+        data={payments}
+        renderItem={renderPayment}
+        keyExtractor={(item) => item.id}
+        refreshing={loading}
+        onRefresh={loadPayments}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          <Card style={styles.methodsCard}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Formas de pagamento
+              </Text>
+              <View style={styles.method}>
+                <QrCode size={20} color={theme.colors.onSurface} />
+                <Text variant="bodyMedium" style={styles.methodText}>
+                  PIX: pague com o QR Code ou o código copia e cola no app
+                  do seu banco. A confirmação é automática.
+                </Text>
+              </View>
+              <View style={styles.method}>
+                <CreditCard size={20} color={theme.colors.onSurface} />
+                <Text variant="bodyMedium" style={styles.methodText}>
+                  Cartão de crédito: os dados do cartão vão direto para o
+                  processador de pagamentos e não ficam salvos no app.
+                </Text>
+              </View>
+              <Text variant="bodySmall" style={styles.hint}>
+                Agendamentos confirmados podem ser pagos em Meus Agendamentos.
+              </Text>
+            </Card.Content>
+          </Card>
+        }
+        ListEmptyComponent={
+          !loading ? (
+            <View style={styles.emptyState}>
+              <Receipt size={64} color={theme.colors.onSurfaceVariant} />
+              <Text variant="titleMedium" style={styles.emptyTitle}>
+                Nenhum pagamento
+              </Text>
+              <Text variant="bodyMedium" style={styles.emptyDescription}>
+                Os pagamentos dos seus agendamentos aparecerão aqui.
+              </Text>
+            </View>
+          ) : null
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: theme.colors.onBackground,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  list: {
+    paddingHorizontal: spacing.lg,
+    flexGrow: 1,
+  },
+  methodsCard: {
+    marginBottom: spacing.lg,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginBottom: spacing.md,
+  },
+  method: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: spacing.md,
+  },
+  methodText: {
+    flex: 1,
+    marginLeft: spacing.md,
+    color: theme.colors.onSurface,
+  },
+  hint: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: theme.colors.surface,
+  },
+  itemContent: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+  },
+  itemBody: {
+    color: theme.colors.onSurface,
+    marginTop: spacing.xs,
+  },
+  itemTime: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: spacing.xs,
+  },
+  status: {
+    marginLeft: spacing.sm,
+    color: theme.colors.onSurfaceVariant,
+  },
+  paid: {
+    color: theme.colors.tertiary,
+  },
+  failed: {
+    color: theme.colors.error,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+  emptyTitle: {
+    fontWeight: 'bold',
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+    textAlign: 'center',
+  },
+  emptyDescription: {
+    color: theme.colors.onSurfaceVariant,
+    textAlign: 'center',
+  },
+});
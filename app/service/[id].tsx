@@ -0,0 +1,603 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Image,
+  FlatList,
+  Alert,
+  Linking,
+} from 'react-native';
+import { Text, Card, Button, Avatar, ActivityIndicator } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { supabase } from '@/lib/supabase';
+import {
+  fetchServiceRatings,
+  formatRating,
+  formatReviewCount,
+  EMPTY_RATING,
+  RatingSummary,
+} from '@/lib/reviews';
+import {
+  PricingRules,
+  describePricingRules,
+  formatServicePrice,
+} from '@/lib/pricing';
+import {
+  SERVICE_MENUS_SELECT,
+  ServiceMenu,
+  activeMenus,
+  formatMenuItem,
+  menuItemsByKind,
+  MENU_ITEM_KIND_LABELS,
+  MENU_TAG_LABELS,
+} from '@/lib/menus';
+import { StarRating } from '@/components/StarRating';
+import { spacing, theme } from '@/constants/theme';
+import {
+  ArrowLeft,
+  MapPin,
+  Clock,
+  Users,
+  ChefHat,
+  Star,
+} from 'lucide-react-native';
+
+interface ServiceDetail extends PricingRules {
+  id: string;
+  title: string;
+  description: string;
+  duration_hours: number;
+  location: string;
+  images: string[];
+  professional_id: string;
+  deposit_percent: number;
+  profiles?: {
+    full_name: string;
+    avatar_url?: string;
+    phone?: string;
+    location?: string;
+    professional_photos?: Array<{
+      id: string;
+      photo_url: string;
+    }>;
+  };
+  service_menus?: ServiceMenu[];
+}
+
+interface Review {
+  id: string;
+  rating: number;
+  comment?: string;
+  created_at: string;
+  profiles?: {
+    full_name: string;
+  };
+}
+
+const FALLBACK_IMAGE =
+  'https://images.pexels.com/photos/1459339/pexels-photo-1459339.jpeg?auto=compress&cs=tinysrgb&w=800';
+
+export default function ServiceDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [service, setService] = useState<ServiceDetail | null>(null);
+  const [rating, setRating] = useState<RatingSummary>(EMPTY_RATING);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (id) {
+      loadService();
+    }
+  }, [id]);
+
+  const loadService = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('services')
+        .select(`
+          *,
+          service_price_tiers (
+            min_guests,
+            price_per_guest
+          ),
+          ${SERVICE_MENUS_SELECT},
+          profiles (
+            full_name,
+            avatar_url,
+            phone,
+            location,
+            professional_photos (
+              id,
+              photo_url
+            )
+          )
+        `)
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        console.error('Error loading service:', error);
+        setService(null);
+      } else {
+        setService(data);
+        await loadReviews();
+      }
+    } catch (error) {
+      console.error('Error loading service:', error);
+      setService(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadReviews = async () => {
+    const ratings = await fetchServiceRatings([id]);
+    setRating(ratings[id] || EMPTY_RATING);
+
+    const { data, error } = await supabase
+      .from('reviews')
+      .select(`
+        *,
+        profiles!reviews_client_id_fkey (
+          full_name
+        )
+      `)
+      .eq('service_id', id)
+      .order('created_at', { ascending: false })
+      .limit(5);
+
+    if (error) {
+      console.error('Error loading reviews:', error);
+    } else {
+      setReviews(data || []);
+    }
+  };
+
+  const handleContact = () => {
+    const phone = service?.profiles?.phone?.replace(/\D/g, '');
+
+    if (!phone) {
+      Alert.alert(
+        'Contato indisponível',
+        'Este churrasqueiro ainda não informou um telefone para contato.'
+      );
+      return;
+    }
+
+    const message = encodeURIComponent(
+      `Olá! Vi o serviço "${service?.title}" no ChurrasJa e gostaria de um orçamento.`
+    );
+
+    Alert.alert('Contatar', 'Como você prefere entrar em contato?', [
+      {
+        text: 'WhatsApp',
+        onPress: () => Linking.openURL(`https://wa.me/55${phone}?text=${message}`),
+      },
+      {
+        text: 'Ligar',
+        onPress: () => Linking.openURL(`tel:${phone}`),
+      },
+      {
+        text: 'Cancelar',
+        style: 'cancel',
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <ActivityIndicator color={theme.colors.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  if (!service) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <Text variant="titleMedium" style={styles.emptyTitle}>
+          Serviço não encontrado
+        </Text>
+        <Button mode="contained" onPress={() => router.back()}>
+          Voltar
+        </Button>
+      </SafeAreaView>
+    );
+  }
+
+  const gallery = [
+    ...(service.images || []),
+    ...(service.profiles?.professional_photos || []).map((p) => p.photo_url),
+  ];
+  const pricingLines = describePricingRules(service);
+  if (service.deposit_percent > 0) {
+    pricingLines.push(
+      `Sinal de ${service.deposit_percent}% na confirmação; o saldo vence no dia do evento`
+    );
+  }
+  const menus = activeMenus(service.service_menus);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content}>
+        <Button
+          mode="text"
+          onPress={() => router.back()}
+          style={styles.backButton}
+          icon={({ size, color }) => <ArrowLeft size={size} color={color} />}
+        >
+          Voltar
+        </Button>
+
+        <Image
+          source={{ uri: gallery[0] || FALLBACK_IMAGE }}
+          style={styles.heroImage}
+        />
+
+        <View style={styles.header}>
+          <Text variant="headlineSmall" style={styles.title}>
+            {service.title}
+          </Text>
+          <Text variant="titleLarge" style={styles.price}>
+            {formatServicePrice(service)}
+          </Text>
+          <View style={styles.ratingRow}>
+            <Star size={16} color={theme.colors.tertiary} />
+            <Text variant="bodyMedium" style={styles.ratingText}>
+              {formatRating(rating)} • {formatReviewCount(rating.count)}
+            </Text>
+          </View>
+        </View>
+
+        {/* Details */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.infoRow}>
+              <Clock size={20} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {service.duration_hours}h de duração
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Users size={20} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                Até {service.max_guests} pessoas
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <MapPin size={20} color={theme.colors.onSurfaceVariant} />
+              <Text variant="bodyMedium" style={styles.infoText}>
+                {service.location}
+              </Text>
+            </View>
+          </Card.Content>
+        </Card>
+
+        {/* Description */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Sobre o serviço
+            </Text>
+            <Text variant="bodyMedium" style={styles.description}>
+              {service.description}
+            </Text>
+          </Card.Content>
+        </Card>
+
+        {/* Menus */}
+        {menus.length > 0 && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Cardápios
+              </Text>
+              {menus.map((menu) => (
+                <View key={menu.id} style={styles.menu}>
+                  <Text variant="titleSmall" style={styles.menuName}>
+                    {menu.name}
+                    {menu.tags.length > 0 &&
+                      ` • ${menu.tags.map((tag) => MENU_TAG_LABELS[tag]).join(', ')}`}
+                  </Text>
+                  {menu.description && (
+                    <Text variant="bodySmall" style={styles.pricingLine}>
+                      {menu.description}
+                    </Text>
+                  )}
+                  {menuItemsByKind(menu).map((group) => (
+                    <Text key={group.kind} variant="bodySmall" style={styles.pricingLine}>
+                      {MENU_ITEM_KIND_LABELS[group.kind]}:{' '}
+                      {group.items.map(formatMenuItem).join(', ')}
+                    </Text>
+                  ))}
+                </View>
+              ))}
+            </Card.Content>
+          </Card>
+        )}
+
+        {/* Pricing */}
+        {pricingLines.length > 0 && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Como o preço é calculado
+              </Text>
+              {pricingLines.map((line) => (
+                <Text key={line} variant="bodyMedium" style={styles.pricingLine}>
+                  • {line}
+                </Text>
+              ))}
+            </Card.Content>
+          </Card>
+        )}
+
+        {/* Professional */}
+        <Card style={styles.card}>
+          <Card.Content style={styles.professionalContent}>
+            {service.profiles?.avatar_url ? (
+              <Avatar.Image
+                size={56}
+                source={{ uri: service.profiles.avatar_url }}
+                style={styles.avatar}
+              />
+            ) : (
+              <Avatar.Text
+                size={56}
+                label={service.profiles?.full_name?.charAt(0).toUpperCase() || 'C'}
+                style={styles.avatar}
+              />
+            )}
+            <View style={styles.professionalInfo}>
+              <Text variant="titleMedium" style={styles.professionalName}>
+                {service.profiles?.full_name || 'Churrasqueiro'}
+              </Text>
+              <View style={styles.professionalType}>
+                <ChefHat size={16} color={theme.colors.primary} />
+                <Text variant="bodySmall" style={styles.professionalTypeText}>
+                  Churrasqueiro Profissional
+                </Text>
+              </View>
+              {service.profiles?.location && (
+                <Text variant="bodySmall" style={styles.professionalLocation}>
+                  {service.profiles.location}
+                </Text>
+              )}
+            </View>
+          </Card.Content>
+        </Card>
+
+        {/* Reviews */}
+        {reviews.length > 0 && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Avaliações
+              </Text>
+              {reviews.map((review) => (
+                <View key={review.id} style={styles.reviewItem}>
+                  <View style={styles.reviewHeader}>
+                    <Text variant="titleSmall" style={styles.reviewAuthor}>
+                      {review.profiles?.full_name || 'Cliente'}
+                    </Text>
+                    <StarRating value={review.rating} size={14} />
+                  </View>
+                  {review.comment && (
+                    <Text variant="bodyMedium" style={styles.reviewComment}>
+                      {review.comment}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </Card.Content>
+          </Card>
+        )}
+
+        {/* Gallery */}
+        {gallery.length > 1 && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Galeria
+              </Text>
+              <FlatList
+                data={gallery.slice(1)}
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                keyExtractor={(item, index) => `${item}-${index}`}
+                renderItem={({ item }) => (
+                  <Image source={{ uri: item }} style={styles.galleryPhoto} />
+                )}
+                contentContainerStyle={styles.galleryList}
+              />
+            </Card.Content>
+          </Card>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Button
+          mode="outlined"
+          style={styles.contactButton}
+          onPress={handleContact}
+        >
+          Contatar
+        </Button>
+        <Button
+          mode="contained"
+          style={styles.ctaButton}
+          onPress={() =>
+            router.push({
+              pathname: '/booking/new',
+              params: { serviceId: service.id },
+            })
+          }
+        >
+          Solicitar orçamento / Agendar
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.colors.background,
+    padding: spacing.lg,
+  },
+  emptyTitle: {
+    marginBottom: spacing.md,
+    color: theme.colors.onSurface,
+  },
+  content: {
+    flex: 1,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginHorizontal: spacing.sm,
+    marginVertical: spacing.xs,
+  },
+  heroImage: {
+    width: '100%',
+    height: 240,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  header: {
+    padding: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: theme.colors.onBackground,
+    marginBottom: spacing.xs,
+  },
+  price: {
+    fontWeight: 'bold',
+    color: theme.colors.primary,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.xs,
+  },
+  ratingText: {
+    marginLeft: spacing.xs,
+    color: theme.colors.onSurfaceVariant,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+    elevation: 2,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  infoText: {
+    marginLeft: spacing.sm,
+    color: theme.colors.onSurface,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginBottom: spacing.sm,
+  },
+  description: {
+    color: theme.colors.onSurface,
+    lineHeight: 20,
+  },
+  menu: {
+    marginBottom: spacing.sm,
+  },
+  menuName: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginBottom: spacing.xs,
+  },
+  pricingLine: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.xs,
+  },
+  professionalContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    backgroundColor: theme.colors.primary,
+  },
+  professionalInfo: {
+    marginLeft: spacing.md,
+    flex: 1,
+  },
+  professionalName: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginBottom: spacing.xs,
+  },
+  professionalType: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  professionalTypeText: {
+    marginLeft: spacing.xs,
+    color: theme.colors.primary,
+  },
+  professionalLocation: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  reviewItem: {
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.surfaceVariant,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  reviewAuthor: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+  },
+  reviewComment: {
+    color: theme.colors.onSurface,
+  },
+  galleryList: {
+    gap: spacing.sm,
+  },
+  galleryPhoto: {
+    width: 140,
+    height: 105,
+    borderRadius: theme.roundness,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    padding: spacing.md,
+    paddingHorizontal: spacing.lg,
+    backgroundColor: theme.colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.surfaceVariant,
+  },
+  contactButton: {
+    paddingVertical: spacing.xs,
+  },
+  ctaButton: {
+    flex: 1,
+    paddingVertical: spacing.xs,
+  },
+});
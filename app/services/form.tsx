@@ -0,0 +1,1313 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  Image,
+  TouchableOpacity,
+} from 'react-native';
+import {
+  Text,
+  Card,
+  Button,
+  TextInput,
+  HelperText,
+  Chip,
+  ActivityIndicator,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase, Database } from '@/lib/supabase';
+import { geocodeAddress } from '@/lib/location';
+import {
+  CancellationPolicy,
+  CancellationTier,
+  CANCELLATION_POLICIES,
+  CANCELLATION_POLICY_LABELS,
+  describeCancellationPolicy,
+  fetchCancellationTiers,
+} from '@/lib/cancellation';
+import {
+  PriceTier,
+  PricingRules,
+  calculatePriceRange,
+  describePricingRules,
+  formatCurrency,
+  hasPricingRules,
+} from '@/lib/pricing';
+import {
+  AddonPricing,
+  ADDON_PRICINGS,
+  ADDON_PRICING_LABELS,
+  ServiceAddon,
+} from '@/lib/addons';
+import {
+  MenuDraft,
+  SERVICE_MENUS_SELECT,
+  ServiceMenu,
+  activeMenus,
+  saveServiceMenus,
+  toMenuDraft,
+} from '@/lib/menus';
+import { MenuEditor } from '@/components/MenuEditor';
+import { spacing, theme } from '@/constants/theme';
+import { ArrowLeft, Camera, Plus, Trash2 } from 'lucide-react-native';
+
+type ServiceInsert = Database['public']['Tables']['services']['Insert'];
+
+interface ServiceForm {
+  title: string;
+  description: string;
+  price_from: string;
+  price_to: string;
+  duration_hours: string;
+  max_guests: string;
+  location: string;
+  images: string[];
+  // null follows the policy set on the professional's profile
+  cancellation_policy: CancellationPolicy | null;
+  base_fee: string;
+  price_per_guest: string;
+  minimum_charge: string;
+  weekend_surcharge_percent: string;
+  holiday_surcharge_percent: string;
+  // Share of the price paid to reserve the date
+  deposit_percent: string;
+  price_tiers: Array<{ min_guests: string; price_per_guest: string }>;
+  // id is set for add-ons already saved, so bookings keep pointing at them
+  addons: Array<{
+    id?: string;
+    name: string;
+    description: string;
+    price: string;
+    pricing: AddonPricing;
+    max_quantity: string;
+  }>;
+  menus: MenuDraft[];
+}
+
+type FormErrors = Partial<Record<keyof ServiceForm, string>>;
+
+const EMPTY_FORM: ServiceForm = {
+  title: '',
+  description: '',
+  price_from: '',
+  price_to: '',
+  duration_hours: '',
+  max_guests: '',
+  location: '',
+  images: [],
+  cancellation_policy: null,
+  base_fee: '',
+  price_per_guest: '',
+  minimum_charge: '',
+  weekend_surcharge_percent: '',
+  holiday_surcharge_percent: '',
+  deposit_percent: '',
+  price_tiers: [],
+  addons: [],
+  menus: [],
+};
+
+// Quick picks for the deposit; 30–50% is the usual range
+const DEPOSIT_PERCENT_OPTIONS = [0, 30, 50];
+
+const parseNumber = (value: string) => {
+  const normalized = value.replace(',', '.').trim();
+  return normalized ? Number(normalized) : NaN;
+};
+
+// Pricing rule fields are optional and default to zero
+const parseOptional = (value: string) => (value.trim() ? parseNumber(value) : 0);
+
+const formatOptional = (value: number) => (value ? String(value) : '');
+
+const toPricingRules = (form: ServiceForm): PricingRules => ({
+  price_from: parseNumber(form.price_from) || 0,
+  price_to: form.price_to.trim() ? parseNumber(form.price_to) : undefined,
+  max_guests: parseNumber(form.max_guests) || 0,
+  base_fee: parseOptional(form.base_fee),
+  price_per_guest: parseOptional(form.price_per_guest),
+  minimum_charge: parseOptional(form.minimum_charge),
+  weekend_surcharge_percent: parseOptional(form.weekend_surcharge_percent),
+  holiday_surcharge_percent: parseOptional(form.holiday_surcharge_percent),
+  service_price_tiers: form.price_tiers.map((tier) => ({
+    min_guests: parseNumber(tier.min_guests),
+    price_per_guest: parseNumber(tier.price_per_guest),
+  })),
+});
+
+export default function ServiceFormScreen() {
+  const { id, copyFrom } = useLocalSearchParams<{
+    id?: string;
+    copyFrom?: string;
+  }>();
+  const { profile, session } = useAuth();
+  const [form, setForm] = useState<ServiceForm>({
+    ...EMPTY_FORM,
+    location: profile?.location || '',
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [loading, setLoading] = useState(!!(id || copyFrom));
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [cancellationTiers, setCancellationTiers] = useState<
+    CancellationTier[]
+  >([]);
+  // Set once a new service's row is inserted, so that saving again after a
+  // failed tier, add-on or menu save updates it instead of creating another
+  const [createdId, setCreatedId] = useState<string | null>(null);
+
+  const serviceId = id || createdId;
+  const isEditing = !!serviceId;
+  const profilePolicy = profile?.cancellation_policy || 'flexible';
+
+  useEffect(() => {
+    fetchCancellationTiers()
+      .then(setCancellationTiers)
+      .catch((error) =>
+        console.error('Erro ao buscar políticas de cancelamento:', error)
+      );
+  }, []);
+
+  useEffect(() => {
+    const sourceId = id || copyFrom;
+    if (sourceId) {
+      loadService(sourceId);
+    }
+  }, [id, copyFrom]);
+
+  const loadService = async (serviceId: string) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('services')
+        .select(`
+          *,
+          service_price_tiers (
+            min_guests,
+            price_per_guest
+          ),
+          service_addons (*),
+          ${SERVICE_MENUS_SELECT}
+        `)
+        .eq('id', serviceId)
+        .single();
+
+      if (error) {
+        console.error('Error loading service:', error);
+        Alert.alert('Erro', 'Não foi possível carregar o serviço.');
+      } else {
+        setForm({
+          title: copyFrom ? `${data.title} (cópia)` : data.title,
+          description: data.description,
+          price_from: String(data.price_from),
+          price_to: data.price_to != null ? String(data.price_to) : '',
+          duration_hours: String(data.duration_hours),
+          max_guests: String(data.max_guests),
+          location: data.location,
+          images: data.images || [],
+          cancellation_policy: data.cancellation_policy,
+          base_fee: formatOptional(data.base_fee),
+          price_per_guest: formatOptional(data.price_per_guest),
+          minimum_charge: formatOptional(data.minimum_charge),
+          weekend_surcharge_percent: formatOptional(data.weekend_surcharge_percent),
+          holiday_surcharge_percent: formatOptional(data.holiday_surcharge_percent),
+          deposit_percent: formatOptional(data.deposit_percent),
+          price_tiers: [...(data.service_price_tiers || [])]
+            .sort((a, b) => a.min_guests - b.min_guests)
+            .map((tier) => ({
+              min_guests: String(tier.min_guests),
+              price_per_guest: String(tier.price_per_guest),
+            })),
+          addons: [...(data.service_addons || [])]
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+            .map((addon: ServiceAddon) => ({
+              // A copy gets its own add-ons
+              id: copyFrom ? undefined : addon.id,
+              name: addon.name,
+              description: addon.description || '',
+              price: String(addon.price),
+              pricing: addon.pricing,
+              max_quantity: String(addon.max_quantity),
+            })),
+          menus: activeMenus(data.service_menus).map((menu: ServiceMenu) =>
+            toMenuDraft(menu, !!copyFrom)
+          ),
+        });
+      }
+    } catch (error) {
+      console.error('Error loading service:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateField = <K extends keyof ServiceForm>(
+    field: K,
+    value: ServiceForm[K]
+  ) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const validate = (): FormErrors => {
+    const nextErrors: FormErrors = {};
+    const priceFrom = parseNumber(form.price_from);
+    const priceTo = parseNumber(form.price_to);
+    const durationHours = parseNumber(form.duration_hours);
+    const maxGuests = parseNumber(form.max_guests);
+    const rules = toPricingRules(form);
+
+    if (!form.title.trim()) {
+      nextErrors.title = 'Informe o título do serviço.';
+    }
+    if (!form.description.trim()) {
+      nextErrors.description = 'Informe a descrição do serviço.';
+    }
+    if (!form.location.trim()) {
+      nextErrors.location = 'Informe a região de atendimento.';
+    }
+    // With pricing rules the range is derived from them on save
+    if (!hasPricingRules(rules)) {
+      if (isNaN(priceFrom) || priceFrom < 0) {
+        nextErrors.price_from = 'Informe um preço inicial válido.';
+      }
+      if (form.price_to.trim()) {
+        if (isNaN(priceTo)) {
+          nextErrors.price_to = 'Informe um preço máximo válido.';
+        } else if (!isNaN(priceFrom) && priceTo < priceFrom) {
+          nextErrors.price_to =
+            'O preço máximo deve ser maior ou igual ao preço inicial.';
+        }
+      }
+    }
+    (['base_fee', 'price_per_guest', 'minimum_charge'] as const).forEach(
+      (field) => {
+        if (isNaN(rules[field]) || rules[field] < 0) {
+          nextErrors[field] = 'Informe um valor válido.';
+        }
+      }
+    );
+    (['weekend_surcharge_percent', 'holiday_surcharge_percent'] as const).forEach(
+      (field) => {
+        const percent = rules[field];
+        if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+          nextErrors[field] = 'Informe um percentual entre 0 e 100.';
+        }
+      }
+    );
+    const depositPercent = parseOptional(form.deposit_percent);
+    if (!Number.isInteger(depositPercent) || depositPercent < 0 || depositPercent > 100) {
+      nextErrors.deposit_percent = 'Informe um percentual entre 0 e 100.';
+    }
+    const tierGuests = (rules.service_price_tiers || []).map(
+      (tier) => tier.min_guests
+    );
+    if (
+      (rules.service_price_tiers || []).some(
+        (tier) =>
+          !Number.isInteger(tier.min_guests) ||
+          tier.min_guests < 2 ||
+          isNaN(tier.price_per_guest) ||
+          tier.price_per_guest < 0
+      )
+    ) {
+      nextErrors.price_tiers =
+        'Cada faixa precisa de no mínimo 2 pessoas e um preço válido.';
+    } else if (new Set(tierGuests).size !== tierGuests.length) {
+      nextErrors.price_tiers = 'Cada faixa deve começar em um número diferente de pessoas.';
+    }
+    if (
+      form.addons.some((addon) => {
+        const price = parseNumber(addon.price);
+        const maxQuantity = parseNumber(addon.max_quantity);
+        return (
+          !addon.name.trim() ||
+          isNaN(price) ||
+          price < 0 ||
+          !Number.isInteger(maxQuantity) ||
+          maxQuantity < 1
+        );
+      })
+    ) {
+      nextErrors.addons =
+        'Cada adicional precisa de nome, preço e quantidade máxima de pelo menos 1.';
+    }
+    if (
+      form.menus.some(
+        (menu) =>
+          !menu.name.trim() ||
+          menu.items.some((item) => {
+            const grams = parseNumber(item.grams_per_person);
+            return !item.name.trim() || !Number.isInteger(grams) || grams <= 0;
+          })
+      )
+    ) {
+      nextErrors.menus =
+        'Dê um nome a cada cardápio e informe os gramas por pessoa de cada item.';
+    }
+    if (!Number.isInteger(durationHours) || durationHours <= 0) {
+      nextErrors.duration_hours = 'A duração deve ser maior que zero.';
+    }
+    if (!Number.isInteger(maxGuests) || maxGuests <= 0) {
+      nextErrors.max_guests = 'O número de convidados deve ser maior que zero.';
+    }
+
+    return nextErrors;
+  };
+
+  const handleSave = async () => {
+    if (!profile) return;
+
+    const nextErrors = validate();
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) {
+      return;
+    }
+
+    setSaving(true);
+
+    // Coordinates power the "Próximo" search filter. A failed lookup still
+    // saves the service; it just won't show up in nearby results.
+    const coordinates = await geocodeAddress(form.location).catch((error) => {
+      console.error('Erro ao localizar região:', error);
+      return null;
+    });
+
+    const rules = toPricingRules(form);
+    const range = hasPricingRules(rules) ? calculatePriceRange(rules) : null;
+
+    const payload: ServiceInsert = {
+      professional_id: profile.id,
+      title: form.title.trim(),
+      description: form.description.trim(),
+      price_from: range ? range.min : rules.price_from,
+      price_to: range ? range.max : rules.price_to,
+      duration_hours: parseNumber(form.duration_hours),
+      max_guests: parseNumber(form.max_guests),
+      location: form.location.trim(),
+      images: form.images,
+      latitude: coordinates?.latitude ?? null,
+      longitude: coordinates?.longitude ?? null,
+      cancellation_policy: form.cancellation_policy,
+      base_fee: rules.base_fee,
+      price_per_guest: rules.price_per_guest,
+      minimum_charge: rules.minimum_charge,
+      weekend_surcharge_percent: rules.weekend_surcharge_percent,
+      holiday_surcharge_percent: rules.holiday_surcharge_percent,
+      deposit_percent: parseOptional(form.deposit_percent),
+    };
+
+    try {
+      const { data, error } = isEditing
+        ? await supabase
+            .from('services')
+            .update({
+              ...payload,
+              price_to: payload.price_to ?? null,
+              updated_at: new Date().toISOString(),
+            })
+            .eq('id', serviceId)
+            .select('id')
+            .single()
+        : await supabase.from('services').insert(payload).select('id').single();
+
+      if (error) {
+        throw error;
+      }
+
+      if (!isEditing) {
+        setCreatedId(data.id);
+      }
+
+      await saveTiers(data.id, rules.service_price_tiers || []);
+      await saveAddons(data.id);
+      await saveServiceMenus(data.id, form.menus);
+
+      Alert.alert(
+        'Sucesso',
+        isEditing ? 'Serviço atualizado!' : 'Serviço criado!',
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error: any) {
+      console.error('Erro ao salvar serviço:', error);
+      Alert.alert('Erro', error.message || 'Não foi possível salvar o serviço.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Tiers are replaced as a whole; there are only ever a handful per service
+  const saveTiers = async (serviceId: string, tiers: PriceTier[]) => {
+    const { error: deleteError } = await supabase
+      .from('service_price_tiers')
+      .delete()
+      .eq('service_id', serviceId);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    if (tiers.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase.from('service_price_tiers').insert(
+      tiers.map((tier) => ({ service_id: serviceId, ...tier }))
+    );
+
+    if (error) {
+      throw error;
+    }
+  };
+
+  // Removed add-ons are deleted; booked line items keep their own copy
+  const saveAddons = async (serviceId: string) => {
+    const keptIds = form.addons
+      .map((addon) => addon.id)
+      .filter((addonId): addonId is string => !!addonId);
+
+    let removal = supabase
+      .from('service_addons')
+      .delete()
+      .eq('service_id', serviceId);
+    if (keptIds.length > 0) {
+      removal = removal.not('id', 'in', `(${keptIds.join(',')})`);
+    }
+    const { error: deleteError } = await removal;
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    for (const addon of form.addons) {
+      const values = {
+        name: addon.name.trim(),
+        description: addon.description.trim() || null,
+        price: parseNumber(addon.price),
+        pricing: addon.pricing,
+        max_quantity: parseNumber(addon.max_quantity),
+      };
+      const { error } = addon.id
+        ? await supabase.from('service_addons').update(values).eq('id', addon.id)
+        : await supabase
+            .from('service_addons')
+            .insert({ service_id: serviceId, ...values });
+
+      if (error) {
+        throw error;
+      }
+    }
+  };
+
+  const updateAddon = <K extends keyof ServiceForm['addons'][number]>(
+    index: number,
+    field: K,
+    value: ServiceForm['addons'][number][K]
+  ) => {
+    updateField(
+      'addons',
+      form.addons.map((addon, i) =>
+        i === index ? { ...addon, [field]: value } : addon
+      )
+    );
+  };
+
+  const addAddon = () => {
+    updateField('addons', [
+      ...form.addons,
+      { name: '', description: '', price: '', pricing: 'flat', max_quantity: '1' },
+    ]);
+  };
+
+  const removeAddon = (index: number) => {
+    updateField(
+      'addons',
+      form.addons.filter((_, i) => i !== index)
+    );
+  };
+
+  const updateTier = (
+    index: number,
+    field: 'min_guests' | 'price_per_guest',
+    value: string
+  ) => {
+    updateField(
+      'price_tiers',
+      form.price_tiers.map((tier, i) =>
+        i === index ? { ...tier, [field]: value } : tier
+      )
+    );
+  };
+
+  const addTier = () => {
+    updateField('price_tiers', [
+      ...form.price_tiers,
+      { min_guests: '', price_per_guest: '' },
+    ]);
+  };
+
+  const removeTier = (index: number) => {
+    updateField(
+      'price_tiers',
+      form.price_tiers.filter((_, i) => i !== index)
+    );
+  };
+
+  const handleAddImage = async (source: 'camera' | 'gallery') => {
+    let result;
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [4, 3],
+      quality: 0.8,
+    };
+
+    try {
+      if (source === 'camera') {
+        const { status } = await ImagePicker.requestCameraPermissionsAsync();
+        if (status !== 'granted') {
+          Alert.alert(
+            'Permissão necessária',
+            'É necessário permitir o acesso à câmera para tirar uma foto.'
+          );
+          return;
+        }
+        result = await ImagePicker.launchCameraAsync(options);
+      } else {
+        const { status } =
+          await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (status !== 'granted') {
+          Alert.alert(
+            'Permissão necessária',
+            'É necessário permitir o acesso à galeria para escolher uma foto.'
+          );
+          return;
+        }
+        result = await ImagePicker.launchImageLibraryAsync(options);
+      }
+
+      if (result.canceled) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      const fileSize = asset.fileSize || 0;
+
+      if (fileSize > 50 * 1024 * 1024) {
+        Alert.alert(
+          'Arquivo muito grande',
+          'O tamanho da imagem não pode exceder 50MB.'
+        );
+        return;
+      }
+
+      await uploadImage(asset.uri);
+    } catch (error) {
+      console.error('Erro ao selecionar imagem:', error);
+      Alert.alert('Erro', 'Não foi possível selecionar a imagem.');
+    }
+  };
+
+  const uploadImage = async (uri: string) => {
+    if (!session?.user) return;
+    setUploading(true);
+
+    try {
+      const fileExt = uri.split('.').pop()?.toLowerCase() || 'jpg';
+      const fileName = `${session.user.id}/${new Date().getTime()}.${fileExt}`;
+
+      const formData = new FormData();
+      formData.append('file', {
+        uri,
+        name: fileName,
+        type: `image/${fileExt}`,
+      } as any);
+
+      const { error: uploadError } = await supabase.storage
+        .from('service_images')
+        .upload(fileName, formData, {
+          cacheControl: '3600',
+          upsert: false,
+        });
+
+      if (uploadError) {
+        throw uploadError;
+      }
+
+      const { data: publicUrlData } = supabase.storage
+        .from('service_images')
+        .getPublicUrl(fileName);
+
+      if (!publicUrlData) {
+        throw new Error('Não foi possível obter a URL da imagem.');
+      }
+
+      updateField('images', [...form.images, publicUrlData.publicUrl]);
+    } catch (error: any) {
+      console.error('Erro ao enviar imagem:', error);
+      Alert.alert('Erro', error.message || 'Não foi possível enviar a imagem.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const showAddImageOptions = () => {
+    Alert.alert(
+      'Adicionar Imagem',
+      'Escolha uma opção para adicionar uma nova imagem:',
+      [
+        {
+          text: 'Tirar foto',
+          onPress: () => handleAddImage('camera'),
+        },
+        {
+          text: 'Escolher da Galeria',
+          onPress: () => handleAddImage('gallery'),
+        },
+        {
+          text: 'Cancelar',
+          style: 'cancel',
+        },
+      ]
+    );
+  };
+
+  const handleRemoveImage = (url: string) => {
+    updateField(
+      'images',
+      form.images.filter((image) => image !== url)
+    );
+  };
+
+  const rules = toPricingRules(form);
+  const usesPricingRules = hasPricingRules(rules);
+  // Preview only once every rule parses; validate() reports the rest on save
+  const previewRange =
+    usesPricingRules &&
+    rules.max_guests > 0 &&
+    [
+      rules.base_fee,
+      rules.price_per_guest,
+      rules.minimum_charge,
+      rules.weekend_surcharge_percent,
+      rules.holiday_surcharge_percent,
+      ...(rules.service_price_tiers || []).flatMap((tier) => [
+        tier.min_guests,
+        tier.price_per_guest,
+      ]),
+    ].every(Number.isFinite)
+      ? calculatePriceRange(rules)
+      : null;
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.centered}>
+        <ActivityIndicator color={theme.colors.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Button
+          mode="text"
+          onPress={() => router.back()}
+          style={styles.backButton}
+          icon={({ size, color }) => <ArrowLeft size={size} color={color} />}
+        >
+          Voltar
+        </Button>
+        <Text variant="headlineSmall" style={styles.title}>
+          {isEditing ? 'Editar Serviço' : 'Novo Serviço'}
+        </Text>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Informações
+            </Text>
+
+            <TextInput
+              label="Título"
+              value={form.title}
+              onChangeText={(text) => updateField('title', text)}
+              mode="outlined"
+              error={!!errors.title}
+            />
+            <HelperText type="error" visible={!!errors.title}>
+              {errors.title}
+            </HelperText>
+
+            <TextInput
+              label="Descrição"
+              value={form.description}
+              onChangeText={(text) => updateField('description', text)}
+              mode="outlined"
+              multiline
+              numberOfLines={4}
+              error={!!errors.description}
+            />
+            <HelperText type="error" visible={!!errors.description}>
+              {errors.description}
+            </HelperText>
+
+            <TextInput
+              label="Região de atendimento"
+              value={form.location}
+              onChangeText={(text) => updateField('location', text)}
+              mode="outlined"
+              error={!!errors.location}
+            />
+            <HelperText
+              type={errors.location ? 'error' : 'info'}
+              visible
+            >
+              {errors.location ||
+                'Informe cidade ou bairro para aparecer nas buscas por proximidade.'}
+            </HelperText>
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Preço e capacidade
+            </Text>
+
+            {usesPricingRules ? (
+              <Text variant="bodySmall" style={styles.policyLine}>
+                {previewRange
+                  ? `Faixa de preço calculada pelas regras: ${formatCurrency(previewRange.min)} a ${formatCurrency(previewRange.max)}`
+                  : 'A faixa de preço é calculada pelas regras de preço por convidado.'}
+              </Text>
+            ) : (
+              <View style={styles.row}>
+                <View style={styles.rowItem}>
+                  <TextInput
+                    label="Preço a partir de (R$)"
+                    value={form.price_from}
+                    onChangeText={(text) => updateField('price_from', text)}
+                    mode="outlined"
+                    keyboardType="decimal-pad"
+                    error={!!errors.price_from}
+                  />
+                  <HelperText type="error" visible={!!errors.price_from}>
+                    {errors.price_from}
+                  </HelperText>
+                </View>
+                <View style={styles.rowItem}>
+                  <TextInput
+                    label="Preço até (R$)"
+                    value={form.price_to}
+                    onChangeText={(text) => updateField('price_to', text)}
+                    mode="outlined"
+                    keyboardType="decimal-pad"
+                    error={!!errors.price_to}
+                  />
+                  <HelperText type="error" visible={!!errors.price_to}>
+                    {errors.price_to}
+                  </HelperText>
+                </View>
+              </View>
+            )}
+
+            <View style={styles.row}>
+              <View style={styles.rowItem}>
+                <TextInput
+                  label="Duração (horas)"
+                  value={form.duration_hours}
+                  onChangeText={(text) => updateField('duration_hours', text)}
+                  mode="outlined"
+                  keyboardType="number-pad"
+                  error={!!errors.duration_hours}
+                />
+                <HelperText type="error" visible={!!errors.duration_hours}>
+                  {errors.duration_hours}
+                </HelperText>
+              </View>
+              <View style={styles.rowItem}>
+                <TextInput
+                  label="Máx. convidados"
+                  value={form.max_guests}
+                  onChangeText={(text) => updateField('max_guests', text)}
+                  mode="outlined"
+                  keyboardType="number-pad"
+                  error={!!errors.max_guests}
+                />
+                <HelperText type="error" visible={!!errors.max_guests}>
+                  {errors.max_guests}
+                </HelperText>
+              </View>
+            </View>
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Preço por convidado
+            </Text>
+            <Text variant="bodySmall" style={styles.policyLine}>
+              Opcional. Sem estas regras, o valor é estimado pela faixa de preço
+              acima.
+            </Text>
+
+            <View style={styles.row}>
+              <View style={styles.rowItem}>
+                <TextInput
+                  label="Taxa base (R$)"
+                  value={form.base_fee}
+                  onChangeText={(text) => updateField('base_fee', text)}
+                  mode="outlined"
+                  keyboardType="decimal-pad"
+                  error={!!errors.base_fee}
+                />
+                <HelperText type="error" visible={!!errors.base_fee}>
+                  {errors.base_fee}
+                </HelperText>
+              </View>
+              <View style={styles.rowItem}>
+                <TextInput
+                  label="Por pessoa (R$)"
+                  value={form.price_per_guest}
+                  onChangeText={(text) => updateField('price_per_guest', text)}
+                  mode="outlined"
+                  keyboardType="decimal-pad"
+                  error={!!errors.price_per_guest}
+                />
+                <HelperText type="error" visible={!!errors.price_per_guest}>
+                  {errors.price_per_guest}
+                </HelperText>
+              </View>
+            </View>
+
+            <TextInput
+              label="Valor mínimo (R$)"
+              value={form.minimum_charge}
+              onChangeText={(text) => updateField('minimum_charge', text)}
+              mode="outlined"
+              keyboardType="decimal-pad"
+              error={!!errors.minimum_charge}
+            />
+            <HelperText type="error" visible={!!errors.minimum_charge}>
+              {errors.minimum_charge}
+            </HelperText>
+
+            <View style={styles.row}>
+              <View style={styles.rowItem}>
+                <TextInput
+                  label="Fim de semana (%)"
+                  value={form.weekend_surcharge_percent}
+                  onChangeText={(text) =>
+                    updateField('weekend_surcharge_percent', text)
+                  }
+                  mode="outlined"
+                  keyboardType="number-pad"
+                  error={!!errors.weekend_surcharge_percent}
+                />
+                <HelperText
+                  type="error"
+                  visible={!!errors.weekend_surcharge_percent}
+                >
+                  {errors.weekend_surcharge_percent}
+                </HelperText>
+              </View>
+              <View style={styles.rowItem}>
+                <TextInput
+                  label="Feriados (%)"
+                  value={form.holiday_surcharge_percent}
+                  onChangeText={(text) =>
+                    updateField('holiday_surcharge_percent', text)
+                  }
+                  mode="outlined"
+                  keyboardType="number-pad"
+                  error={!!errors.holiday_surcharge_percent}
+                />
+                <HelperText
+                  type="error"
+                  visible={!!errors.holiday_surcharge_percent}
+                >
+                  {errors.holiday_surcharge_percent}
+                </HelperText>
+              </View>
+            </View>
+
+            <View style={styles.sectionHeader}>
+              <Text variant="titleSmall" style={styles.sectionTitle}>
+                Faixas por quantidade
+              </Text>
+              <Button
+                mode="text"
+                icon={() => <Plus size={16} color={theme.colors.primary} />}
+                onPress={addTier}
+              >
+                Adicionar
+              </Button>
+            </View>
+            {form.price_tiers.map((tier, index) => (
+              <View key={index} style={styles.tierRow}>
+                <TextInput
+                  label="A partir de (pessoas)"
+                  value={tier.min_guests}
+                  onChangeText={(text) => updateTier(index, 'min_guests', text)}
+                  mode="outlined"
+                  keyboardType="number-pad"
+                  dense
+                  style={styles.rowItem}
+                />
+                <TextInput
+                  label="Por pessoa (R$)"
+                  value={tier.price_per_guest}
+                  onChangeText={(text) =>
+                    updateTier(index, 'price_per_guest', text)
+                  }
+                  mode="outlined"
+                  keyboardType="decimal-pad"
+                  dense
+                  style={styles.rowItem}
+                />
+                <TouchableOpacity onPress={() => removeTier(index)}>
+                  <Trash2 size={20} color={theme.colors.error} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <HelperText
+              type={errors.price_tiers ? 'error' : 'info'}
+              visible
+            >
+              {errors.price_tiers ||
+                'Ao atingir a faixa, todos os convidados pagam o preço dela.'}
+            </HelperText>
+
+            {previewRange &&
+              describePricingRules(rules).map((line) => (
+                <Text key={line} variant="bodySmall" style={styles.policyLine}>
+                  • {line}
+                </Text>
+              ))}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.sectionHeader}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Adicionais
+              </Text>
+              <Button
+                mode="text"
+                icon={() => <Plus size={16} color={theme.colors.primary} />}
+                onPress={addAddon}
+              >
+                Adicionar
+              </Button>
+            </View>
+
+            {form.addons.map((addon, index) => (
+              <View key={addon.id || index} style={styles.addonItem}>
+                <View style={styles.tierRow}>
+                  <TextInput
+                    label="Nome"
+                    value={addon.name}
+                    onChangeText={(text) => updateAddon(index, 'name', text)}
+                    mode="outlined"
+                    dense
+                    style={styles.rowItem}
+                  />
+                  <TouchableOpacity onPress={() => removeAddon(index)}>
+                    <Trash2 size={20} color={theme.colors.error} />
+                  </TouchableOpacity>
+                </View>
+                <TextInput
+                  label="Descrição (opcional)"
+                  value={addon.description}
+                  onChangeText={(text) => updateAddon(index, 'description', text)}
+                  mode="outlined"
+                  dense
+                  style={styles.addonInput}
+                />
+                <View style={styles.tierRow}>
+                  <TextInput
+                    label="Preço (R$)"
+                    value={addon.price}
+                    onChangeText={(text) => updateAddon(index, 'price', text)}
+                    mode="outlined"
+                    keyboardType="decimal-pad"
+                    dense
+                    style={styles.rowItem}
+                  />
+                  <TextInput
+                    label="Qtd. máxima"
+                    value={addon.max_quantity}
+                    onChangeText={(text) => updateAddon(index, 'max_quantity', text)}
+                    mode="outlined"
+                    keyboardType="number-pad"
+                    dense
+                    style={styles.rowItem}
+                  />
+                </View>
+                <View style={styles.chips}>
+                  {ADDON_PRICINGS.map((pricing) => (
+                    <Chip
+                      key={pricing}
+                      selected={addon.pricing === pricing}
+                      onPress={() => updateAddon(index, 'pricing', pricing)}
+                    >
+                      {ADDON_PRICING_LABELS[pricing]}
+                    </Chip>
+                  ))}
+                </View>
+              </View>
+            ))}
+            <HelperText type={errors.addons ? 'error' : 'info'} visible>
+              {errors.addons ||
+                'Extras que o cliente pode incluir na reserva, como bar de drinks ou equipe de limpeza.'}
+            </HelperText>
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Cardápios
+            </Text>
+            <MenuEditor
+              menus={form.menus}
+              onChange={(menus) => updateField('menus', menus)}
+              error={errors.menus}
+            />
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Sinal
+            </Text>
+
+            <View style={styles.chips}>
+              {DEPOSIT_PERCENT_OPTIONS.map((percent) => (
+                <Chip
+                  key={percent}
+                  selected={parseOptional(form.deposit_percent) === percent}
+                  onPress={() => updateField('deposit_percent', formatOptional(percent))}
+                >
+                  {percent ? `${percent}%` : 'Sem sinal'}
+                </Chip>
+              ))}
+            </View>
+            <TextInput
+              label="Sinal (%)"
+              value={form.deposit_percent}
+              onChangeText={(text) => updateField('deposit_percent', text)}
+              mode="outlined"
+              keyboardType="number-pad"
+              error={!!errors.deposit_percent}
+            />
+            <HelperText type={errors.deposit_percent ? 'error' : 'info'} visible>
+              {errors.deposit_percent ||
+                'Cobrado quando você confirma o agendamento; o saldo vence na data do evento.'}
+            </HelperText>
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Política de cancelamento
+            </Text>
+
+            <View style={styles.chips}>
+              <Chip
+                selected={form.cancellation_policy === null}
+                onPress={() => updateField('cancellation_policy', null)}
+              >
+                {`Padrão do perfil (${CANCELLATION_POLICY_LABELS[profilePolicy]})`}
+              </Chip>
+              {CANCELLATION_POLICIES.map((policy) => (
+                <Chip
+                  key={policy}
+                  selected={form.cancellation_policy === policy}
+                  onPress={() => updateField('cancellation_policy', policy)}
+                >
+                  {CANCELLATION_POLICY_LABELS[policy]}
+                </Chip>
+              ))}
+            </View>
+
+            {describeCancellationPolicy(
+              cancellationTiers,
+              form.cancellation_policy || profilePolicy
+            ).map((line) => (
+              <Text key={line} variant="bodySmall" style={styles.policyLine}>
+                • {line}
+              </Text>
+            ))}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.sectionHeader}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Imagens
+              </Text>
+              <Button
+                mode="text"
+                icon={() => <Camera size={16} color={theme.colors.primary} />}
+                onPress={showAddImageOptions}
+                loading={uploading}
+                disabled={uploading}
+              >
+                Adicionar
+              </Button>
+            </View>
+
+            {form.images.length > 0 ? (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {form.images.map((url) => (
+                  <View key={url} style={styles.imageContainer}>
+                    <Image source={{ uri: url }} style={styles.image} />
+                    <TouchableOpacity
+                      style={styles.deleteButton}
+                      onPress={() => handleRemoveImage(url)}
+                    >
+                      <Trash2 size={18} color={theme.colors.onError} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </ScrollView>
+            ) : (
+              <Text variant="bodySmall" style={styles.emptyImagesText}>
+                A primeira imagem será usada como capa do serviço.
+              </Text>
+            )}
+          </Card.Content>
+        </Card>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Button
+          mode="contained"
+          onPress={handleSave}
+          loading={saving}
+          disabled={saving || uploading}
+        >
+          {isEditing ? 'Salvar alterações' : 'Criar serviço'}
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginLeft: -spacing.sm,
+    marginTop: spacing.xs,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: theme.colors.onBackground,
+  },
+  content: {
+    flex: 1,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+    elevation: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginBottom: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  rowItem: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  tierRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  addonItem: {
+    paddingBottom: spacing.sm,
+    marginBottom: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.surfaceVariant,
+  },
+  addonInput: {
+    marginBottom: spacing.sm,
+  },
+  policyLine: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.xs,
+  },
+  imageContainer: {
+    position: 'relative',
+    marginRight: spacing.sm,
+  },
+  image: {
+    width: 120,
+    height: 90,
+    borderRadius: theme.roundness,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  deleteButton: {
+    position: 'absolute',
+    top: spacing.xs,
+    right: spacing.xs,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    padding: spacing.xs,
+    borderRadius: 20,
+  },
+  emptyImagesText: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  footer: {
+    padding: spacing.md,
+    paddingHorizontal: spacing.lg,
+    backgroundColor: theme.colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.surfaceVariant,
+  },
+});
@@ -0,0 +1,372 @@
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, FlatList, Image, Alert } from 'react-native';
+import { Text, Card, Button, FAB } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { spacing, theme } from '@/constants/theme';
+import {
+  ArrowLeft,
+  Clock,
+  MapPin,
+  Plus,
+  ChefHat,
+} from 'lucide-react-native';
+
+interface Service {
+  id: string;
+  title: string;
+  description: string;
+  price_from: number;
+  price_to?: number;
+  duration_hours: number;
+  max_guests: number;
+  location: string;
+  images: string[];
+}
+
+const FALLBACK_IMAGE =
+  'https://images.pexels.com/photos/1459339/pexels-photo-1459339.jpeg?auto=compress&cs=tinysrgb&w=400';
+
+export default function ManageServicesScreen() {
+  const { profile } = useAuth();
+  const [services, setServices] = useState<Service[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (profile) {
+        loadServices();
+      }
+    }, [profile])
+  );
+
+  const loadServices = async () => {
+    if (!profile) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('services')
+        .select('*')
+        .eq('professional_id', profile.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading services:', error);
+      } else {
+        setServices(data || []);
+      }
+    } catch (error) {
+      console.error('Error loading services:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatPrice = (priceFrom: number, priceTo?: number) => {
+    if (priceTo && priceTo > priceFrom) {
+      return `R$ ${priceFrom} - ${priceTo}`;
+    }
+    return `A partir de R$ ${priceFrom}`;
+  };
+
+  const deleteService = async (service: Service) => {
+    try {
+      const { data: bookings, error: bookingsError } = await supabase
+        .from('bookings')
+        .select('status, payments (id), receipts (id)')
+        .eq('service_id', service.id);
+
+      if (bookingsError) {
+        throw bookingsError;
+      }
+
+      if (
+        bookings.some((booking) =>
+          ['pending', 'confirmed'].includes(booking.status)
+        )
+      ) {
+        Alert.alert(
+          'Não é possível excluir',
+          'Este serviço possui agendamentos pendentes ou confirmados.'
+        );
+        return;
+      }
+
+      // Deleting the service deletes its bookings, but their payments and
+      // receipts have to stay on record (the database refuses it too)
+      if (
+        bookings.some(
+          // One receipt per booking, so it's embedded as an object
+          (booking) => booking.receipts || booking.payments?.length
+        )
+      ) {
+        Alert.alert(
+          'Não é possível excluir',
+          'Este serviço possui agendamentos com pagamentos ou recibos, que precisam ser mantidos no histórico.'
+        );
+        return;
+      }
+
+      // Duplicated services share image files, so only remove the ones no
+      // other service still points to.
+      const sharedImages = services
+        .filter((s) => s.id !== service.id)
+        .flatMap((s) => s.images || []);
+      const imagePaths = (service.images || [])
+        .filter(
+          (url) =>
+            url.includes('/service_images/') && !sharedImages.includes(url)
+        )
+        .map((url) => url.split('/service_images/')[1].split('?')[0]);
+
+      if (imagePaths.length > 0) {
+        const { error: storageError } = await supabase.storage
+          .from('service_images')
+          .remove(imagePaths);
+
+        if (storageError) {
+          console.error('Erro ao excluir imagens:', storageError);
+        }
+      }
+
+      const { error } = await supabase
+        .from('services')
+        .delete()
+        .eq('id', service.id);
+
+      if (error) {
+        throw error;
+      }
+
+      setServices(services.filter((s) => s.id !== service.id));
+    } catch (error: any) {
+      console.error('Erro ao excluir serviço:', error);
+      Alert.alert(
+        'Erro',
+        error.message || 'Não foi possível excluir o serviço.'
+      );
+    }
+  };
+
+  const handleDeleteService = (service: Service) => {
+    Alert.alert(
+      'Excluir Serviço',
+      `Tem certeza que deseja excluir "${service.title}"? Esta ação não pode ser desfeita.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Excluir',
+          style: 'destructive',
+          onPress: () => deleteService(service),
+        },
+      ]
+    );
+  };
+
+  const renderServiceCard = ({ item }: { item: Service }) => (
+    <Card style={styles.serviceCard}>
+      <Image
+        source={{ uri: item.images?.[0] || FALLBACK_IMAGE }}
+        style={styles.serviceImage}
+      />
+      <Card.Content style={styles.serviceContent}>
+        <Text variant="titleMedium" style={styles.serviceTitle}>
+          {item.title}
+        </Text>
+        <Text
+          variant="bodySmall"
+          style={styles.serviceDescription}
+          numberOfLines={2}
+        >
+          {item.description}
+        </Text>
+
+        <View style={styles.infoRow}>
+          <MapPin size={16} color={theme.colors.onSurfaceVariant} />
+          <Text variant="bodySmall" style={styles.infoText}>
+            {item.location}
+          </Text>
+        </View>
+        <View style={styles.infoRow}>
+          <Clock size={16} color={theme.colors.onSurfaceVariant} />
+          <Text variant="bodySmall" style={styles.infoText}>
+            {item.duration_hours}h • até {item.max_guests} pessoas
+          </Text>
+        </View>
+
+        <Text variant="titleMedium" style={styles.servicePrice}>
+          {formatPrice(item.price_from, item.price_to)}
+        </Text>
+
+        <View style={styles.actions}>
+          <Button
+            mode="text"
+            textColor={theme.colors.error}
+            onPress={() => handleDeleteService(item)}
+          >
+            Excluir
+          </Button>
+          <Button
+            mode="outlined"
+            onPress={() =>
+              router.push({
+                pathname: '/services/form',
+                params: { copyFrom: item.id },
+              })
+            }
+          >
+            Duplicar
+          </Button>
+          <Button
+            mode="contained"
+            onPress={() =>
+              router.push({
+                pathname: '/services/form',
+                params: { id: item.id },
+              })
+            }
+          >
+            Editar
+          </Button>
+        </View>
+      </Card.Content>
+    </Card>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Button
+          mode="text"
+          onPress={() => router.back()}
+          style={styles.backButton}
+          icon={({ size, color }) => <ArrowLeft size={size} color={color} />}
+        >
+          Voltar
+        </Button>
+        <Text variant="headlineMedium" style={styles.title}>
+          Meus Serviços
+        </Text>
+      </View>
+
+      <View style={styles.content}>
+        {!loading && services.length === 0 ? (
+          <View style={styles.emptyState}>
+            <ChefHat size={64} color={theme.colors.onSurfaceVariant} />
+            <Text variant="titleMedium" style={styles.emptyTitle}>
+              Nenhum serviço cadastrado
+            </Text>
+            <Text variant="bodyMedium" style={styles.emptyDescription}>
+              Crie seu primeiro serviço para começar a receber agendamentos.
+            </Text>
+          </View>
+        ) : (
+          <FlatList
+            data={services}
+            renderItem={renderServiceCard}
+            keyExtractor={(item) => item.id}
+            showsVerticalScrollIndicator={false}
+            refreshing={loading}
+            onRefresh={loadServices}
+          />
+        )}
+      </View>
+
+      <FAB
+        icon={() => <Plus size={24} color="white" />}
+        style={styles.fab}
+        onPress={() => router.push('/services/form')}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginLeft: -spacing.sm,
+    marginTop: spacing.xs,
+  },
+  title: {
+    fontWeight: 'bold',
+    color: theme.colors.onBackground,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  serviceCard: {
+    marginBottom: spacing.md,
+    elevation: 2,
+  },
+  serviceImage: {
+    width: '100%',
+    height: 160,
+  },
+  serviceContent: {
+    padding: spacing.md,
+  },
+  serviceTitle: {
+    fontWeight: 'bold',
+    marginBottom: spacing.xs,
+    color: theme.colors.onSurface,
+  },
+  serviceDescription: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.md,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  infoText: {
+    marginLeft: spacing.xs,
+    color: theme.colors.onSurfaceVariant,
+  },
+  servicePrice: {
+    fontWeight: 'bold',
+    color: theme.colors.primary,
+    marginTop: spacing.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+  emptyTitle: {
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+    textAlign: 'center',
+    color: theme.colors.onSurface,
+  },
+  emptyDescription: {
+    textAlign: 'center',
+    color: theme.colors.onSurfaceVariant,
+  },
+  fab: {
+    position: 'absolute',
+    margin: spacing.lg,
+    right: 0,
+    bottom: 0,
+    backgroundColor: theme.colors.primary,
+  },
+});
@@ -0,0 +1,60 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { BookingLineItem, formatLineItem } from '@/lib/addons';
+import { formatCurrency } from '@/lib/pricing';
+import { spacing, theme, borderRadius } from '@/constants/theme';
+
+interface BookingLineItemsProps {
+  items?: BookingLineItem[];
+}
+
+export function BookingLineItems({ items }: BookingLineItemsProps) {
+  if (!items || items.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text variant="bodySmall" style={styles.label}>
+        Adicionais
+      </Text>
+      {items.map((item) => (
+        <View key={item.id} style={styles.itemRow}>
+          <Text variant="bodyMedium" style={styles.itemName}>
+            {formatLineItem(item)}
+          </Text>
+          <Text variant="bodyMedium" style={styles.itemAmount}>
+            {formatCurrency(item.amount)}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.md,
+    padding: spacing.sm,
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: borderRadius.md,
+  },
+  label: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.xs,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs,
+  },
+  itemName: {
+    flex: 1,
+    color: theme.colors.onSurface,
+  },
+  itemAmount: {
+    color: theme.colors.onSurface,
+  },
+});
@@ -0,0 +1,137 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import {
+  BookingCharge,
+  Payment,
+  PAYMENT_STATUS_LABELS,
+  describeCharge,
+  describePayment,
+  isPixExpired,
+} from '@/lib/payments';
+import { formatCurrency } from '@/lib/pricing';
+import { spacing, theme, borderRadius } from '@/constants/theme';
+
+interface BookingPaymentsProps {
+  booking: {
+    booking_charges?: BookingCharge[];
+    payments?: Payment[];
+  };
+}
+
+const formatDueDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+  });
+
+// Payment attempts worth showing; abandoned PIX codes and expired charges
+// are left out
+const visiblePayments = (payments?: Payment[]) =>
+  (payments || [])
+    .filter(
+      (payment) =>
+        payment.status !== 'expired' &&
+        !(payment.status === 'pending' && isPixExpired(payment))
+    )
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+export function BookingPayments({ booking }: BookingPaymentsProps) {
+  const charges = [...(booking.booking_charges || [])].sort((a, b) =>
+    a.kind === b.kind ? 0 : a.kind === 'deposit' ? -1 : 1
+  );
+  const payments = visiblePayments(booking.payments);
+  if (charges.length === 0 && payments.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text variant="bodySmall" style={styles.label}>
+        Pagamentos
+      </Text>
+      {charges.map((charge) => (
+        <View key={charge.id} style={styles.row}>
+          <Text
+            variant="bodyMedium"
+            style={[
+              styles.charge,
+              charge.status === 'paid' && styles.paid,
+              charge.status === 'cancelled' && styles.cancelled,
+            ]}
+          >
+            {describeCharge(charge)}
+            {charge.status === 'open' && charge.kind === 'balance'
+              ? ` • até ${formatDueDate(charge.due_date)}`
+              : ''}
+          </Text>
+          <Text variant="bodyMedium" style={styles.amount}>
+            {formatCurrency(Number(charge.amount))}
+          </Text>
+        </View>
+      ))}
+      {payments.map((payment) => (
+        <View key={payment.id} style={styles.row}>
+          <Text variant="bodyMedium" style={styles.description}>
+            {describePayment(payment)}
+          </Text>
+          <Text
+            variant="bodySmall"
+            style={[
+              styles.status,
+              payment.status === 'paid' && styles.paid,
+              payment.status === 'failed' && styles.failed,
+            ]}
+          >
+            {PAYMENT_STATUS_LABELS[payment.status]}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.md,
+    padding: spacing.sm,
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: borderRadius.md,
+  },
+  label: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  charge: {
+    flex: 1,
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+  },
+  amount: {
+    color: theme.colors.onSurface,
+  },
+  description: {
+    flex: 1,
+    color: theme.colors.onSurfaceVariant,
+  },
+  status: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  paid: {
+    color: theme.colors.tertiary,
+  },
+  failed: {
+    color: theme.colors.error,
+  },
+  cancelled: {
+    color: theme.colors.onSurfaceVariant,
+    textDecorationLine: 'line-through',
+  },
+});
@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, ActivityIndicator } from 'react-native-paper';
+import {
+  BookingEvent,
+  describeBookingEvent,
+  fetchBookingEvents,
+} from '@/lib/bookings';
+import { spacing, theme } from '@/constants/theme';
+
+interface BookingTimelineProps {
+  bookingId: string;
+}
+
+export function BookingTimeline({ bookingId }: BookingTimelineProps) {
+  const [events, setEvents] = useState<BookingEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadEvents();
+  }, [bookingId]);
+
+  const loadEvents = async () => {
+    setLoading(true);
+    try {
+      setEvents(await fetchBookingEvents(bookingId));
+    } catch (error) {
+      console.error('Error loading booking events:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatTimestamp = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('pt-BR', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  if (loading) {
+    return <ActivityIndicator style={styles.loading} />;
+  }
+
+  if (events.length === 0) {
+    return (
+      <Text variant="bodySmall" style={styles.empty}>
+        Nenhum registro de alterações.
+      </Text>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {events.map((event, index) => (
+        <View key={event.id} style={styles.item}>
+          <View style={styles.markerColumn}>
+            <View style={styles.dot} />
+            {index < events.length - 1 && <View style={styles.line} />}
+          </View>
+          <View style={styles.itemContent}>
+            <Text variant="bodyMedium" style={styles.description}>
+              {describeBookingEvent(event)}
+            </Text>
+            <Text variant="bodySmall" style={styles.meta}>
+              {formatTimestamp(event.created_at)} •{' '}
+              {event.profiles?.full_name || 'Sistema'}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingTop: spacing.sm,
+  },
+  loading: {
+    marginVertical: spacing.sm,
+  },
+  empty: {
+    color: theme.colors.onSurfaceVariant,
+    marginVertical: spacing.sm,
+  },
+  item: {
+    flexDirection: 'row',
+  },
+  markerColumn: {
+    width: 16,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: spacing.xs,
+    backgroundColor: theme.colors.primary,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: theme.colors.surfaceVariant,
+  },
+  itemContent: {
+    flex: 1,
+    marginLeft: spacing.sm,
+    paddingBottom: spacing.md,
+  },
+  description: {
+    color: theme.colors.onSurface,
+  },
+  meta: {
+    color: theme.colors.onSurfaceVariant,
+  },
+});
@@ -0,0 +1,50 @@
+import React from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { Button, Badge } from 'react-native-paper';
+import { router } from 'expo-router';
+import { theme } from '@/constants/theme';
+
+interface ChatButtonProps {
+  bookingId: string;
+  unread?: number;
+  label?: string;
+  mode?: 'text' | 'outlined' | 'contained';
+  style?: StyleProp<ViewStyle>;
+}
+
+export function ChatButton({
+  bookingId,
+  unread = 0,
+  label = 'Mensagens',
+  mode = 'text',
+  style,
+}: ChatButtonProps) {
+  return (
+    <View style={[styles.container, style]}>
+      <Button
+        mode={mode}
+        compact={mode === 'text'}
+        onPress={() => router.push(`/chat/${bookingId}`)}
+      >
+        {label}
+      </Button>
+      {unread > 0 && (
+        <Badge size={18} style={styles.badge}>
+          {unread}
+        </Badge>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'relative',
+  },
+  badge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    backgroundColor: theme.colors.secondary,
+  },
+});
@@ -0,0 +1,240 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text, Button, Chip, TextInput, HelperText } from 'react-native-paper';
+import {
+  MenuDraft,
+  MenuItemKind,
+  MENU_ITEM_KINDS,
+  MENU_ITEM_KIND_LABELS,
+  MENU_ITEM_SUGGESTIONS,
+  MENU_TAGS,
+  MENU_TAG_LABELS,
+} from '@/lib/menus';
+import { spacing, theme } from '@/constants/theme';
+import { Plus, Trash2 } from 'lucide-react-native';
+
+interface MenuEditorProps {
+  menus: MenuDraft[];
+  onChange: (menus: MenuDraft[]) => void;
+  error?: string;
+}
+
+const EMPTY_MENU: MenuDraft = {
+  name: '',
+  description: '',
+  tags: [],
+  items: [],
+};
+
+export function MenuEditor({ menus, onChange, error }: MenuEditorProps) {
+  const updateMenu = (index: number, changes: Partial<MenuDraft>) => {
+    onChange(
+      menus.map((menu, i) => (i === index ? { ...menu, ...changes } : menu))
+    );
+  };
+
+  const addItem = (
+    index: number,
+    kind: MenuItemKind,
+    name = '',
+    grams = ''
+  ) => {
+    updateMenu(index, {
+      items: [
+        ...menus[index].items,
+        { kind, name, grams_per_person: grams },
+      ],
+    });
+  };
+
+  const updateItem = (
+    menuIndex: number,
+    itemIndex: number,
+    field: 'name' | 'grams_per_person',
+    value: string
+  ) => {
+    updateMenu(menuIndex, {
+      items: menus[menuIndex].items.map((item, i) =>
+        i === itemIndex ? { ...item, [field]: value } : item
+      ),
+    });
+  };
+
+  const removeItem = (menuIndex: number, itemIndex: number) => {
+    updateMenu(menuIndex, {
+      items: menus[menuIndex].items.filter((_, i) => i !== itemIndex),
+    });
+  };
+
+  const toggleTag = (index: number, tag: MenuDraft['tags'][number]) => {
+    const tags = menus[index].tags;
+    updateMenu(index, {
+      tags: tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag],
+    });
+  };
+
+  return (
+    <View>
+      {menus.map((menu, menuIndex) => (
+        <View key={menu.id || menuIndex} style={styles.menu}>
+          <View style={styles.row}>
+            <TextInput
+              label="Nome do cardápio"
+              value={menu.name}
+              onChangeText={(text) => updateMenu(menuIndex, { name: text })}
+              mode="outlined"
+              dense
+              style={styles.grow}
+            />
+            <TouchableOpacity
+              onPress={() => onChange(menus.filter((_, i) => i !== menuIndex))}
+            >
+              <Trash2 size={20} color={theme.colors.error} />
+            </TouchableOpacity>
+          </View>
+          <TextInput
+            label="Descrição (opcional)"
+            value={menu.description}
+            onChangeText={(text) => updateMenu(menuIndex, { description: text })}
+            mode="outlined"
+            dense
+            style={styles.input}
+          />
+
+          <View style={styles.chips}>
+            {MENU_TAGS.map((tag) => (
+              <Chip
+                key={tag}
+                selected={menu.tags.includes(tag)}
+                onPress={() => toggleTag(menuIndex, tag)}
+              >
+                {MENU_TAG_LABELS[tag]}
+              </Chip>
+            ))}
+          </View>
+
+          {MENU_ITEM_KINDS.map((kind) => {
+            const names = menu.items
+              .filter((item) => item.kind === kind)
+              .map((item) => item.name.trim().toLowerCase());
+            const suggestions = MENU_ITEM_SUGGESTIONS[kind].filter(
+              (suggestion) => !names.includes(suggestion.name.toLowerCase())
+            );
+
+            return (
+              <View key={kind} style={styles.kind}>
+                <Text variant="titleSmall" style={styles.kindTitle}>
+                  {MENU_ITEM_KIND_LABELS[kind]}
+                </Text>
+                {menu.items.map((item, itemIndex) =>
+                  item.kind === kind ? (
+                    <View key={itemIndex} style={styles.row}>
+                      <TextInput
+                        label="Item"
+                        value={item.name}
+                        onChangeText={(text) =>
+                          updateItem(menuIndex, itemIndex, 'name', text)
+                        }
+                        mode="outlined"
+                        dense
+                        style={styles.grow}
+                      />
+                      <TextInput
+                        label="g/pessoa"
+                        value={item.grams_per_person}
+                        onChangeText={(text) =>
+                          updateItem(menuIndex, itemIndex, 'grams_per_person', text)
+                        }
+                        mode="outlined"
+                        keyboardType="number-pad"
+                        dense
+                        style={styles.grams}
+                      />
+                      <TouchableOpacity
+                        onPress={() => removeItem(menuIndex, itemIndex)}
+                      >
+                        <Trash2 size={18} color={theme.colors.error} />
+                      </TouchableOpacity>
+                    </View>
+                  ) : null
+                )}
+                <View style={styles.chips}>
+                  {suggestions.map((suggestion) => (
+                    <Chip
+                      key={suggestion.name}
+                      compact
+                      icon="plus"
+                      onPress={() =>
+                        addItem(
+                          menuIndex,
+                          kind,
+                          suggestion.name,
+                          String(suggestion.grams_per_person)
+                        )
+                      }
+                    >
+                      {suggestion.name}
+                    </Chip>
+                  ))}
+                  <Chip compact icon="plus" onPress={() => addItem(menuIndex, kind)}>
+                    Outro
+                  </Chip>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      ))}
+
+      <Button
+        mode="outlined"
+        icon={() => <Plus size={16} color={theme.colors.primary} />}
+        onPress={() => onChange([...menus, EMPTY_MENU])}
+      >
+        Novo cardápio
+      </Button>
+      <HelperText type={error ? 'error' : 'info'} visible>
+        {error ||
+          'Cada cardápio é uma opção que o cliente escolhe ao agendar. As categorias ajudam clientes a encontrar seu serviço.'}
+      </HelperText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  menu: {
+    paddingBottom: spacing.sm,
+    marginBottom: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.surfaceVariant,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  grow: {
+    flex: 1,
+  },
+  grams: {
+    width: 96,
+  },
+  input: {
+    marginBottom: spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  kind: {
+    marginTop: spacing.xs,
+  },
+  kindTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.xs,
+  },
+});
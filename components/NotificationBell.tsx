@@ -0,0 +1,35 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { IconButton, Badge } from 'react-native-paper';
+import { router } from 'expo-router';
+import { Bell } from 'lucide-react-native';
+import { useUnreadNotifications } from '@/hooks/useUnreadNotifications';
+import { theme } from '@/constants/theme';
+
+export function NotificationBell() {
+  const { unread } = useUnreadNotifications();
+
+  return (
+    <View>
+      <IconButton
+        icon={({ size }) => <Bell size={size} color={theme.colors.onSurface} />}
+        onPress={() => router.push('/notifications')}
+        accessibilityLabel="Notificações"
+      />
+      {unread > 0 && (
+        <Badge size={18} style={styles.badge}>
+          {unread}
+        </Badge>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    backgroundColor: theme.colors.primary,
+  },
+});
@@ -0,0 +1,387 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Alert, ScrollView } from 'react-native';
+import {
+  Text,
+  Button,
+  Chip,
+  Portal,
+  Dialog,
+  TextInput,
+  HelperText,
+} from 'react-native-paper';
+import QRCode from 'react-native-qrcode-svg';
+import * as Clipboard from 'expo-clipboard';
+import { BookingError } from '@/lib/bookings';
+import {
+  BookingCharge,
+  CardDetails,
+  CHARGE_KIND_LABELS,
+  Payment,
+  PaymentMethod,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+  MOCK_DECLINED_CARD,
+  detectCardBrand,
+  formatPaymentTime,
+  isPixExpired,
+  payWithCard,
+  payWithPix,
+  simulatePayment,
+  validateCard,
+} from '@/lib/payments';
+import { formatCurrency } from '@/lib/pricing';
+import { usePaymentChanges } from '@/hooks/usePaymentChanges';
+import { spacing, theme, borderRadius } from '@/constants/theme';
+import { CircleCheck, Copy } from 'lucide-react-native';
+
+interface PaymentDialogProps {
+  booking: {
+    id: string;
+    title?: string;
+    // The charge being paid; the server charges the same one
+    charge: BookingCharge;
+  } | null;
+  onDismiss: () => void;
+  onPaid: () => void;
+}
+
+const EMPTY_CARD: CardDetails = { number: '', holder: '', expiry: '', cvc: '' };
+
+// 1234123412341234 -> 1234 1234 1234 1234
+const formatCardNumber = (text: string) =>
+  text
+    .replace(/\D/g, '')
+    .substring(0, 19)
+    .replace(/(\d{4})(?=\d)/g, '$1 ');
+
+// 1228 -> 12/28
+const formatExpiry = (text: string) => {
+  const digits = text.replace(/\D/g, '').substring(0, 4);
+  return digits.length > 2 ? `${digits.slice(0, 2)}/${digits.slice(2)}` : digits;
+};
+
+export function PaymentDialog({ booking, onDismiss, onPaid }: PaymentDialogProps) {
+  const [method, setMethod] = useState<PaymentMethod>('pix');
+  const [card, setCard] = useState<CardDetails>(EMPTY_CARD);
+  const [showCardErrors, setShowCardErrors] = useState(false);
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setMethod('pix');
+    setCard(EMPTY_CARD);
+    setShowCardErrors(false);
+    setPayment(null);
+  }, [booking?.charge.id]);
+
+  // The webhook settles PIX charges while the dialog is open
+  usePaymentChanges((change) => {
+    if (change.id === payment?.id) {
+      setPayment(change);
+      if (change.status === 'paid') {
+        onPaid();
+      }
+    }
+  });
+
+  const cardErrors = validateCard(card);
+  const cardInvalid = showCardErrors && Object.keys(cardErrors).length > 0;
+  const cardBrand = detectCardBrand(card.number);
+
+  const handleError = (error: unknown) => {
+    console.error('Error paying booking:', error);
+    Alert.alert(
+      'Erro',
+      error instanceof BookingError && error.code !== 'unknown'
+        ? error.message
+        : 'Não foi possível processar o pagamento.'
+    );
+  };
+
+  const handlePix = async () => {
+    if (!booking) return;
+
+    setSubmitting(true);
+    try {
+      setPayment(await payWithPix(booking.id));
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCard = async () => {
+    if (!booking) return;
+
+    if (Object.keys(cardErrors).length > 0) {
+      setShowCardErrors(true);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await payWithCard(booking.id, card);
+      setPayment(result);
+      if (result.status === 'paid') {
+        onPaid();
+      } else if (result.status === 'failed') {
+        Alert.alert(
+          'Pagamento não aprovado',
+          'O cartão foi recusado. Confira os dados ou tente outro cartão.'
+        );
+      }
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!payment?.pix_code) return;
+    await Clipboard.setStringAsync(payment.pix_code);
+    Alert.alert('Código copiado', 'Cole o código no app do seu banco.');
+  };
+
+  const handleSimulate = async () => {
+    if (!payment) return;
+
+    setSubmitting(true);
+    try {
+      setPayment(await simulatePayment(payment.id));
+      onPaid();
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const pixOpen =
+    payment?.method === 'pix' &&
+    payment.status === 'pending' &&
+    !!payment.pix_code &&
+    !isPixExpired(payment);
+
+  const renderPix = () => {
+    if (!pixOpen || !payment?.pix_code) {
+      return (
+        <Text variant="bodySmall" style={styles.hint}>
+          Geramos um código PIX válido por 30 minutos. O pagamento é
+          confirmado automaticamente assim que o banco aprovar.
+        </Text>
+      );
+    }
+
+    return (
+      <View style={styles.pix}>
+        <View style={styles.qrCode}>
+          <QRCode value={payment.pix_code} size={180} />
+        </View>
+        <Text variant="bodySmall" style={styles.hint}>
+          Escaneie o QR Code ou use o PIX copia e cola. Válido até{' '}
+          {formatPaymentTime(payment.pix_expires_at!)}.
+        </Text>
+        <Text variant="bodySmall" selectable style={styles.pixCode}>
+          {payment.pix_code}
+        </Text>
+        <Button
+          mode="outlined"
+          icon={({ size, color }) => <Copy size={size} color={color} />}
+          onPress={handleCopy}
+        >
+          Copiar código
+        </Button>
+        {__DEV__ && (
+          <Button
+            mode="text"
+            compact
+            onPress={handleSimulate}
+            disabled={submitting}
+            style={styles.simulate}
+          >
+            Simular pagamento (desenvolvimento)
+          </Button>
+        )}
+      </View>
+    );
+  };
+
+  const renderCard = () => (
+    <View>
+      <TextInput
+        label={cardBrand ? `Número do cartão • ${cardBrand}` : 'Número do cartão'}
+        value={card.number}
+        onChangeText={(text) =>
+          setCard((prev) => ({ ...prev, number: formatCardNumber(text) }))
+        }
+        mode="outlined"
+        keyboardType="number-pad"
+        dense
+        error={showCardErrors && !!cardErrors.number}
+        style={styles.input}
+      />
+      <TextInput
+        label="Nome impresso no cartão"
+        value={card.holder}
+        onChangeText={(text) => setCard((prev) => ({ ...prev, holder: text }))}
+        mode="outlined"
+        autoCapitalize="characters"
+        dense
+        error={showCardErrors && !!cardErrors.holder}
+        style={styles.input}
+      />
+      <View style={styles.row}>
+        <TextInput
+          label="Validade (MM/AA)"
+          value={card.expiry}
+          onChangeText={(text) =>
+            setCard((prev) => ({ ...prev, expiry: formatExpiry(text) }))
+          }
+          mode="outlined"
+          keyboardType="number-pad"
+          dense
+          error={showCardErrors && !!cardErrors.expiry}
+          style={styles.grow}
+        />
+        <TextInput
+          label="CVV"
+          value={card.cvc}
+          onChangeText={(text) =>
+            setCard((prev) => ({ ...prev, cvc: text.replace(/\D/g, '').substring(0, 4) }))
+          }
+          mode="outlined"
+          keyboardType="number-pad"
+          secureTextEntry
+          dense
+          error={showCardErrors && !!cardErrors.cvc}
+          style={styles.grow}
+        />
+      </View>
+      <HelperText type={cardInvalid ? 'error' : 'info'} visible>
+        {cardInvalid
+          ? Object.values(cardErrors).join(' • ')
+          : __DEV__
+            ? `Gateway de teste: o cartão ${formatCardNumber(MOCK_DECLINED_CARD)} é recusado.`
+            : 'Os dados do cartão vão direto para o processador de pagamentos.'}
+      </HelperText>
+    </View>
+  );
+
+  const paid = payment?.status === 'paid';
+
+  return (
+    <Portal>
+      <Dialog visible={!!booking} onDismiss={onDismiss}>
+        <Dialog.Title>Pagamento</Dialog.Title>
+        <Dialog.ScrollArea>
+          <ScrollView contentContainerStyle={styles.content}>
+            {booking && (
+              <Text variant="titleMedium" style={styles.total}>
+                {CHARGE_KIND_LABELS[booking.charge.kind]}
+                {booking.title ? ` • ${booking.title}` : ''} •{' '}
+                {formatCurrency(Number(booking.charge.amount))}
+              </Text>
+            )}
+
+            {paid ? (
+              <View style={styles.paid}>
+                <CircleCheck size={48} color={theme.colors.tertiary} />
+                <Text variant="titleMedium" style={styles.paidText}>
+                  {PAYMENT_STATUS_LABELS.paid}!
+                </Text>
+              </View>
+            ) : (
+              <>
+                <View style={styles.chips}>
+                  {(['pix', 'card'] as PaymentMethod[]).map((option) => (
+                    <Chip
+                      key={option}
+                      selected={method === option}
+                      onPress={() => setMethod(option)}
+                      disabled={submitting || pixOpen}
+                    >
+                      {PAYMENT_METHOD_LABELS[option]}
+                    </Chip>
+                  ))}
+                </View>
+                {method === 'pix' ? renderPix() : renderCard()}
+              </>
+            )}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={onDismiss}>{paid ? 'Fechar' : 'Cancelar'}</Button>
+          {!paid && !(method === 'pix' && pixOpen) && (
+            <Button
+              onPress={method === 'pix' ? handlePix : handleCard}
+              loading={submitting}
+              disabled={submitting}
+            >
+              {method === 'pix' ? 'Gerar código PIX' : 'Pagar'}
+            </Button>
+          )}
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingVertical: spacing.md,
+  },
+  hint: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.sm,
+  },
+  total: {
+    fontWeight: 'bold',
+    color: theme.colors.primary,
+    marginBottom: spacing.md,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  pix: {
+    alignItems: 'center',
+  },
+  qrCode: {
+    padding: spacing.sm,
+    backgroundColor: '#FFFFFF',
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.sm,
+  },
+  pixCode: {
+    color: theme.colors.onSurface,
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  simulate: {
+    marginTop: spacing.xs,
+  },
+  input: {
+    marginBottom: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  grow: {
+    flex: 1,
+  },
+  paid: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+  },
+  paidText: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginTop: spacing.sm,
+  },
+});
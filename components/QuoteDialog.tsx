@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Alert, ScrollView } from 'react-native';
+import { Text, Button, Chip, Portal, Dialog, TextInput } from 'react-native-paper';
+import { BookingError } from '@/lib/bookings';
+import {
+  QuoteItemCategory,
+  QUOTE_ITEM_CATEGORIES,
+  QUOTE_ITEM_CATEGORY_LABELS,
+  QUOTE_VALIDITY_DAYS,
+  formatQuoteExpiry,
+  quoteExpiry,
+  sendQuote,
+} from '@/lib/quotes';
+import { spacing, theme } from '@/constants/theme';
+
+interface QuoteDialogProps {
+  booking: {
+    id: string;
+    event_date: string;
+    event_time: string;
+    total_price: number;
+  } | null;
+  onDismiss: () => void;
+  onSent: () => void;
+}
+
+type Amounts = Record<QuoteItemCategory, string>;
+
+const EMPTY_AMOUNTS: Amounts = { meat: '', labor: '', travel: '', extras: '' };
+
+const parseAmount = (value: string) => {
+  const normalized = value.replace(',', '.').trim();
+  return normalized ? Number(normalized) : 0;
+};
+
+export function QuoteDialog({ booking, onDismiss, onSent }: QuoteDialogProps) {
+  const [amounts, setAmounts] = useState<Amounts>(EMPTY_AMOUNTS);
+  const [extrasDescription, setExtrasDescription] = useState('');
+  const [validityDays, setValidityDays] = useState(QUOTE_VALIDITY_DAYS[1]);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    setAmounts(EMPTY_AMOUNTS);
+    setExtrasDescription('');
+    setValidityDays(QUOTE_VALIDITY_DAYS[1]);
+  }, [booking?.id]);
+
+  const total = QUOTE_ITEM_CATEGORIES.reduce(
+    (sum, category) => sum + (parseAmount(amounts[category]) || 0),
+    0
+  );
+  const invalid = QUOTE_ITEM_CATEGORIES.some((category) => {
+    const amount = parseAmount(amounts[category]);
+    return isNaN(amount) || amount < 0;
+  });
+  const expiresAt = booking ? quoteExpiry(validityDays, booking) : null;
+
+  const handleSend = async () => {
+    if (!booking || !expiresAt) return;
+
+    if (invalid || total <= 0) {
+      Alert.alert('Atenção', 'Informe valores válidos para o orçamento.');
+      return;
+    }
+
+    setSending(true);
+    try {
+      await sendQuote(
+        booking.id,
+        QUOTE_ITEM_CATEGORIES.filter(
+          (category) => parseAmount(amounts[category]) > 0
+        ).map((category) => ({
+          category,
+          description:
+            category === 'extras' ? extrasDescription.trim() || undefined : undefined,
+          amount: parseAmount(amounts[category]),
+        })),
+        expiresAt
+      );
+      onSent();
+    } catch (error) {
+      console.error('Error sending quote:', error);
+      Alert.alert(
+        'Erro',
+        error instanceof BookingError
+          ? error.message
+          : 'Não foi possível enviar o orçamento.'
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={!!booking} onDismiss={onDismiss}>
+        <Dialog.Title>Enviar orçamento</Dialog.Title>
+        <Dialog.ScrollArea>
+          <ScrollView contentContainerStyle={styles.content}>
+            {booking && (
+              <Text variant="bodySmall" style={styles.hint}>
+                Valor atual da solicitação: R$ {booking.total_price}. O
+                agendamento é confirmado quando o cliente aprovar.
+              </Text>
+            )}
+
+            {QUOTE_ITEM_CATEGORIES.map((category) => (
+              <TextInput
+                key={category}
+                label={`${QUOTE_ITEM_CATEGORY_LABELS[category]} (R$)`}
+                value={amounts[category]}
+                onChangeText={(text) =>
+                  setAmounts((prev) => ({ ...prev, [category]: text }))
+                }
+                mode="outlined"
+                keyboardType="decimal-pad"
+                dense
+                style={styles.input}
+              />
+            ))}
+
+            {parseAmount(amounts.extras) > 0 && (
+              <TextInput
+                label="Descrição dos extras"
+                value={extrasDescription}
+                onChangeText={setExtrasDescription}
+                mode="outlined"
+                dense
+                style={styles.input}
+              />
+            )}
+
+            <Text variant="titleMedium" style={styles.total}>
+              Total: R$ {invalid ? '—' : total}
+            </Text>
+
+            <Text variant="bodySmall" style={styles.hint}>
+              Validade
+            </Text>
+            <View style={styles.chips}>
+              {QUOTE_VALIDITY_DAYS.map((days) => (
+                <Chip
+                  key={days}
+                  selected={validityDays === days}
+                  onPress={() => setValidityDays(days)}
+                >
+                  {days === 1 ? '1 dia' : `${days} dias`}
+                </Chip>
+              ))}
+            </View>
+            {expiresAt && (
+              <Text variant="bodySmall" style={styles.hint}>
+                Expira em {formatQuoteExpiry(expiresAt)}
+              </Text>
+            )}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={onDismiss}>Cancelar</Button>
+          <Button
+            onPress={handleSend}
+            loading={sending}
+            disabled={sending || invalid || total <= 0}
+          >
+            Enviar
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingVertical: spacing.md,
+  },
+  hint: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.sm,
+  },
+  input: {
+    marginBottom: spacing.sm,
+  },
+  total: {
+    fontWeight: 'bold',
+    color: theme.colors.primary,
+    marginVertical: spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+});
@@ -0,0 +1,133 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import {
+  Quote,
+  QUOTE_ITEM_CATEGORY_LABELS,
+  formatQuoteExpiry,
+  isQuoteExpired,
+} from '@/lib/quotes';
+import { spacing, theme, borderRadius } from '@/constants/theme';
+
+interface QuoteSummaryProps {
+  quote: Quote;
+  // Only the client answers; the professional sees the status
+  canRespond: boolean;
+  busy?: boolean;
+  onApprove?: () => void;
+  onDecline?: () => void;
+}
+
+export function QuoteSummary({
+  quote,
+  canRespond,
+  busy = false,
+  onApprove,
+  onDecline,
+}: QuoteSummaryProps) {
+  const expired = quote.status === 'pending' && isQuoteExpired(quote);
+
+  const statusText = () => {
+    if (quote.status === 'declined') {
+      return canRespond
+        ? 'Você recusou este orçamento.'
+        : 'O cliente recusou este orçamento.';
+    }
+    if (expired) {
+      return 'Orçamento expirado.';
+    }
+    return `Válido até ${formatQuoteExpiry(quote.expires_at)}`;
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text variant="bodySmall" style={styles.label}>
+        Orçamento
+      </Text>
+
+      {(quote.booking_quote_items || []).map((item) => (
+        <View key={item.id} style={styles.itemRow}>
+          <Text variant="bodyMedium" style={styles.itemLabel}>
+            {QUOTE_ITEM_CATEGORY_LABELS[item.category]}
+            {item.description ? ` • ${item.description}` : ''}
+          </Text>
+          <Text variant="bodyMedium" style={styles.itemAmount}>
+            R$ {item.amount}
+          </Text>
+        </View>
+      ))}
+
+      <View style={styles.itemRow}>
+        <Text variant="titleSmall" style={styles.total}>
+          Total
+        </Text>
+        <Text variant="titleSmall" style={styles.total}>
+          R$ {quote.total}
+        </Text>
+      </View>
+
+      <Text
+        variant="bodySmall"
+        style={[styles.status, expired && { color: theme.colors.error }]}
+      >
+        {statusText()}
+      </Text>
+
+      {canRespond && quote.status === 'pending' && !expired && (
+        <View style={styles.actions}>
+          <Button mode="text" compact onPress={onDecline} disabled={busy}>
+            Recusar
+          </Button>
+          <Button
+            mode="contained"
+            compact
+            onPress={onApprove}
+            loading={busy}
+            disabled={busy}
+          >
+            Aprovar
+          </Button>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.md,
+    padding: spacing.sm,
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: borderRadius.md,
+  },
+  label: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.xs,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs,
+  },
+  itemLabel: {
+    flex: 1,
+    color: theme.colors.onSurface,
+  },
+  itemAmount: {
+    color: theme.colors.onSurface,
+  },
+  total: {
+    fontWeight: 'bold',
+    color: theme.colors.primary,
+  },
+  status: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+});
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { Alert } from 'react-native';
+import { Button } from 'react-native-paper';
+import { BookingError } from '@/lib/bookings';
+import { shareReceipt } from '@/lib/receipts';
+
+interface ReceiptButtonProps {
+  bookingId: string;
+}
+
+export function ReceiptButton({ bookingId }: ReceiptButtonProps) {
+  const [generating, setGenerating] = useState(false);
+
+  const handlePress = async () => {
+    setGenerating(true);
+    try {
+      await shareReceipt(bookingId);
+    } catch (error) {
+      console.error('Error generating receipt:', error);
+      Alert.alert(
+        'Erro',
+        error instanceof BookingError && error.code !== 'unknown'
+          ? error.message
+          : 'Não foi possível gerar o recibo.'
+      );
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Button
+      mode="text"
+      compact
+      onPress={handlePress}
+      loading={generating}
+      disabled={generating}
+    >
+      Recibo
+    </Button>
+  );
+}
@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Text,
+  Button,
+  Chip,
+  Portal,
+  Dialog,
+  ActivityIndicator,
+} from 'react-native-paper';
+import {
+  AvailableSlots,
+  BOOKING_WINDOW_DAYS,
+  addDays,
+  fetchAvailableSlots,
+} from '@/lib/availability';
+import { formatRescheduleDate } from '@/lib/reschedule';
+import { spacing, theme } from '@/constants/theme';
+
+interface RescheduleDialogProps {
+  booking: {
+    id: string;
+    service_id: string;
+    event_date: string;
+    event_time: string;
+  } | null;
+  title: string;
+  submitting?: boolean;
+  onDismiss: () => void;
+  onSubmit: (eventDate: string, eventTime: string) => void;
+}
+
+// Picks a new start from the professional's open slots; the booking being
+// moved does not block its own slot.
+export function RescheduleDialog({
+  booking,
+  title,
+  submitting = false,
+  onDismiss,
+  onSubmit,
+}: RescheduleDialogProps) {
+  const [slots, setSlots] = useState<AvailableSlots>({});
+  const [loading, setLoading] = useState(false);
+  const [eventDate, setEventDate] = useState<string | null>(null);
+  const [eventTime, setEventTime] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEventDate(null);
+    setEventTime(null);
+    if (booking) {
+      loadSlots();
+    }
+  }, [booking?.id]);
+
+  const loadSlots = async () => {
+    if (!booking) return;
+
+    setLoading(true);
+    try {
+      const today = new Date();
+      const available = await fetchAvailableSlots(
+        booking.service_id,
+        addDays(today, 1),
+        addDays(today, BOOKING_WINDOW_DAYS),
+        booking.id
+      );
+
+      // Proposing the current date would change nothing
+      const current = booking.event_time.substring(0, 5);
+      const currentDaySlots = available[booking.event_date]?.filter(
+        (slot) => slot !== current
+      );
+      if (currentDaySlots?.length) {
+        available[booking.event_date] = currentDaySlots;
+      } else {
+        delete available[booking.event_date];
+      }
+
+      setSlots(available);
+    } catch (error) {
+      console.error('Error loading available slots:', error);
+      setSlots({});
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDates = Object.keys(slots);
+
+  return (
+    <Portal>
+      <Dialog visible={!!booking} onDismiss={onDismiss}>
+        <Dialog.Title>{title}</Dialog.Title>
+        <Dialog.Content>
+          {booking && (
+            <Text variant="bodyMedium" style={styles.current}>
+              Data atual: {formatRescheduleDate(booking)}
+            </Text>
+          )}
+
+          {loading ? (
+            <ActivityIndicator color={theme.colors.primary} />
+          ) : openDates.length === 0 ? (
+            <Text variant="bodyMedium" style={styles.empty}>
+              Não há outros horários disponíveis nos próximos{' '}
+              {BOOKING_WINDOW_DAYS} dias.
+            </Text>
+          ) : (
+            <>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.dates}
+              >
+                {openDates.map((key) => (
+                  <Chip
+                    key={key}
+                    selected={eventDate === key}
+                    onPress={() => {
+                      setEventDate(key);
+                      setEventTime(null);
+                    }}
+                    style={styles.dateChip}
+                  >
+                    {new Date(`${key}T00:00:00`).toLocaleDateString('pt-BR', {
+                      weekday: 'short',
+                      day: '2-digit',
+                      month: '2-digit',
+                    })}
+                  </Chip>
+                ))}
+              </ScrollView>
+
+              {eventDate && (
+                <View style={styles.times}>
+                  {slots[eventDate].map((slot) => (
+                    <Chip
+                      key={slot}
+                      selected={eventTime === slot}
+                      onPress={() => setEventTime(slot)}
+                    >
+                      {slot}
+                    </Chip>
+                  ))}
+                </View>
+              )}
+            </>
+          )}
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss}>Voltar</Button>
+          <Button
+            onPress={() => eventDate && eventTime && onSubmit(eventDate, eventTime)}
+            loading={submitting}
+            disabled={submitting || !eventDate || !eventTime}
+          >
+            Propor
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  current: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.md,
+  },
+  empty: {
+    color: theme.colors.onSurfaceVariant,
+  },
+  dates: {
+    marginBottom: spacing.md,
+  },
+  dateChip: {
+    marginRight: spacing.sm,
+  },
+  times: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+});
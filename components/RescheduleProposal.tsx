@@ -0,0 +1,91 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import { RescheduleRequest, formatRescheduleDate } from '@/lib/reschedule';
+import { spacing, theme, borderRadius } from '@/constants/theme';
+
+interface RescheduleProposalProps {
+  request: RescheduleRequest;
+  isOwn: boolean;
+  otherPartyName?: string;
+  busy?: boolean;
+  onAccept: () => void;
+  onDecline: () => void;
+  onCounter: () => void;
+}
+
+// The open proposal on a booking card: a waiting note for whoever sent it,
+// or the answer buttons for the other party.
+export function RescheduleProposal({
+  request,
+  isOwn,
+  otherPartyName,
+  busy = false,
+  onAccept,
+  onDecline,
+  onCounter,
+}: RescheduleProposalProps) {
+  return (
+    <View style={styles.container}>
+      <Text variant="bodySmall" style={styles.label}>
+        {isOwn
+          ? 'Você propôs uma nova data'
+          : `${otherPartyName || 'A outra parte'} propôs uma nova data`}
+      </Text>
+      <Text variant="bodyMedium" style={styles.date}>
+        {formatRescheduleDate(request)}
+      </Text>
+
+      {isOwn ? (
+        <Text variant="bodySmall" style={styles.waiting}>
+          Aguardando resposta.
+        </Text>
+      ) : (
+        <View style={styles.actions}>
+          <Button mode="text" compact onPress={onDecline} disabled={busy}>
+            Recusar
+          </Button>
+          <Button mode="text" compact onPress={onCounter} disabled={busy}>
+            Outra data
+          </Button>
+          <Button
+            mode="contained"
+            compact
+            onPress={onAccept}
+            loading={busy}
+            disabled={busy}
+          >
+            Aceitar
+          </Button>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.md,
+    padding: spacing.sm,
+    backgroundColor: theme.colors.primaryContainer,
+    borderRadius: borderRadius.md,
+  },
+  label: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.xs,
+  },
+  date: {
+    color: theme.colors.onSurface,
+  },
+  waiting: {
+    color: theme.colors.onSurfaceVariant,
+    marginTop: spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+});
@@ -0,0 +1,56 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Star } from 'lucide-react-native';
+import { spacing, theme } from '@/constants/theme';
+
+interface StarRatingProps {
+  value: number;
+  size?: number;
+  onChange?: (value: number) => void;
+}
+
+export function StarRating({ value, size = 20, onChange }: StarRatingProps) {
+  return (
+    <View style={styles.container}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const filled = star <= Math.round(value);
+        const icon = (
+          <Star
+            size={size}
+            color={theme.colors.secondary}
+            fill={filled ? theme.colors.secondary : 'transparent'}
+          />
+        );
+
+        if (!onChange) {
+          return (
+            <View key={star} style={styles.star}>
+              {icon}
+            </View>
+          );
+        }
+
+        return (
+          <TouchableOpacity
+            key={star}
+            style={styles.star}
+            onPress={() => onChange(star)}
+            accessibilityLabel={`${star} estrela${star > 1 ? 's' : ''}`}
+          >
+            {icon}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  star: {
+    marginRight: spacing.xs,
+  },
+});
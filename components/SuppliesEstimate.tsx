@@ -0,0 +1,129 @@
+import React from 'react';
+import { View, StyleSheet, Share } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import { MenuItemKind, MENU_ITEM_KIND_LABELS } from '@/lib/menus';
+import {
+  SuppliesEstimate as Estimate,
+  CHARCOAL_BAG_KG,
+  formatKg,
+  formatShoppingList,
+} from '@/lib/supplies';
+import { spacing, theme, borderRadius } from '@/constants/theme';
+import { Share2 } from 'lucide-react-native';
+
+interface SuppliesEstimateProps {
+  estimate: Estimate;
+  // First line of the shared list, e.g. the service and date
+  title?: string;
+}
+
+const KIND_ORDER: MenuItemKind[] = ['cut', 'vegetarian', 'side'];
+
+export function SuppliesEstimate({ estimate, title }: SuppliesEstimateProps) {
+  const handleShare = () => {
+    Share.share({ message: formatShoppingList(estimate, title) }).catch(
+      (error) => console.error('Error sharing shopping list:', error)
+    );
+  };
+
+  const renderRow = (label: string, value: string) => (
+    <View key={label} style={styles.row}>
+      <Text variant="bodyMedium" style={styles.rowLabel}>
+        {label}
+      </Text>
+      <Text variant="bodyMedium" style={styles.rowValue}>
+        {value}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text variant="bodySmall" style={styles.label}>
+        Quantidades estimadas • {estimate.adults} adultos
+        {estimate.children > 0 ? `, ${estimate.children} crianças` : ''}
+      </Text>
+
+      {KIND_ORDER.map((kind) => {
+        const group = estimate.lines.filter((line) => line.kind === kind);
+        if (group.length === 0) return null;
+        return (
+          <View key={kind} style={styles.group}>
+            <Text variant="titleSmall" style={styles.groupTitle}>
+              {MENU_ITEM_KIND_LABELS[kind]}
+            </Text>
+            {group.map((line) => renderRow(line.name, formatKg(line.kg)))}
+          </View>
+        );
+      })}
+
+      <View style={styles.group}>
+        <Text variant="titleSmall" style={styles.groupTitle}>
+          Churrasqueira
+        </Text>
+        {renderRow(
+          'Carvão',
+          `${formatKg(estimate.charcoalKg)} • ${estimate.charcoalBags}×${CHARCOAL_BAG_KG} kg`
+        )}
+        {renderRow('Sal grosso', formatKg(estimate.saltKg))}
+      </View>
+
+      <View style={styles.group}>
+        <Text variant="titleSmall" style={styles.groupTitle}>
+          Bebidas
+        </Text>
+        {estimate.beerLiters > 0 && renderRow('Cerveja', `${estimate.beerLiters} L`)}
+        {renderRow('Refrigerante', `${estimate.softDrinkLiters} L`)}
+        {renderRow('Água', `${estimate.waterLiters} L`)}
+      </View>
+
+      <Button
+        mode="text"
+        compact
+        onPress={handleShare}
+        icon={({ size, color }) => <Share2 size={size} color={color} />}
+        style={styles.shareButton}
+      >
+        Compartilhar lista de compras
+      </Button>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.md,
+    padding: spacing.sm,
+    backgroundColor: theme.colors.surfaceVariant,
+    borderRadius: borderRadius.md,
+  },
+  label: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.xs,
+  },
+  group: {
+    marginTop: spacing.xs,
+  },
+  groupTitle: {
+    fontWeight: 'bold',
+    color: theme.colors.onSurface,
+    marginBottom: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  rowLabel: {
+    flex: 1,
+    color: theme.colors.onSurfaceVariant,
+  },
+  rowValue: {
+    color: theme.colors.onSurface,
+  },
+  shareButton: {
+    alignSelf: 'flex-start',
+    marginTop: spacing.xs,
+  },
+});
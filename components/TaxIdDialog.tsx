@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, Alert } from 'react-native';
+import {
+  Text,
+  Button,
+  Portal,
+  Dialog,
+  TextInput,
+  HelperText,
+} from 'react-native-paper';
+import { formatTaxId, saveTaxId, validateTaxId } from '@/lib/receipts';
+import { spacing, theme } from '@/constants/theme';
+
+interface TaxIdDialogProps {
+  visible: boolean;
+  profileId: string;
+  taxId: string | null;
+  onDismiss: () => void;
+  onSaved: (taxId: string) => void;
+}
+
+// Edits the CPF or CNPJ printed on receipts
+export function TaxIdDialog({
+  visible,
+  profileId,
+  taxId,
+  onDismiss,
+  onSaved,
+}: TaxIdDialogProps) {
+  const [value, setValue] = useState('');
+  const [showError, setShowError] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setValue(taxId ? formatTaxId(taxId) : '');
+      setShowError(false);
+    }
+  }, [visible]);
+
+  const error = validateTaxId(value);
+
+  const handleSave = async () => {
+    if (error) {
+      setShowError(true);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveTaxId(profileId, value);
+      onSaved(value);
+    } catch (saveError: any) {
+      console.error('Erro ao salvar CPF/CNPJ:', saveError);
+      Alert.alert('Erro', saveError.message || 'Não foi possível salvar o CPF/CNPJ.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>CPF/CNPJ</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.hint}>
+            Aparece nos recibos dos seus agendamentos. Só a outra parte do
+            agendamento vê o documento, e apenas no recibo.
+          </Text>
+          <TextInput
+            label="CPF ou CNPJ"
+            value={value}
+            onChangeText={(text) => setValue(formatTaxId(text))}
+            mode="outlined"
+            keyboardType="number-pad"
+            error={showError && !!error}
+          />
+          <HelperText type="error" visible={showError && !!error}>
+            {error}
+          </HelperText>
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss}>Cancelar</Button>
+          <Button onPress={handleSave} loading={saving} disabled={saving}>
+            Salvar
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    color: theme.colors.onSurfaceVariant,
+    marginBottom: spacing.md,
+  },
+});
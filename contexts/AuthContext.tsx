@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { unregisterPushToken } from '@/lib/notifications';
 
 interface Profile {
   id: string;
@@ -10,6 +11,11 @@ interface Profile {
   phone?: string;
   avatar_url?: string;
   location?: string;
+  max_events_per_day?: number;
+  travel_buffer_minutes?: number;
+  latitude?: number;
+  longitude?: number;
+  cancellation_policy?: 'flexible' | 'moderate' | 'strict';
 }
 
 interface AuthContextType {
@@ -134,6 +140,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const signOut = async () => {
+    // Needs the session, so it has to happen before signing out
+    await unregisterPushToken().catch((error) =>
+      console.error('Error unregistering push token:', error)
+    );
+
     const { error } = await supabase.auth.signOut();
     if (error) {
       throw error;
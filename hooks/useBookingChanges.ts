@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase, Database } from '@/lib/supabase';
+import { BookingActor } from '@/lib/bookings';
+
+type BookingRow = Database['public']['Tables']['bookings']['Row'];
+
+// Realtime payloads carry only the bookings row, without embedded services
+// or profiles.
+export interface BookingChange {
+  eventType: 'INSERT' | 'UPDATE';
+  booking: BookingRow;
+}
+
+let channelCount = 0;
+
+// Calls onChange for every booking inserted or updated where the current
+// user is the given party. onChange may change between renders without
+// resubscribing.
+export function useBookingChanges(
+  role: BookingActor,
+  onChange: (change: BookingChange) => void
+) {
+  const { profile } = useAuth();
+  const handler = useRef(onChange);
+  handler.current = onChange;
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const filter = `${role === 'client' ? 'client_id' : 'professional_id'}=eq.${profile.id}`;
+    const channel = supabase
+      .channel(`bookings-${role}-${++channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'bookings', filter },
+        (payload) =>
+          handler.current({
+            eventType: 'INSERT',
+            booking: payload.new as BookingRow,
+          })
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'bookings', filter },
+        (payload) =>
+          handler.current({
+            eventType: 'UPDATE',
+            booking: payload.new as BookingRow,
+          })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile?.id, role]);
+}
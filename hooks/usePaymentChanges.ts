@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { Payment } from '@/lib/payments';
+
+let channelCount = 0;
+
+// Calls onChange whenever a charge on the current user's bookings starts or
+// settles; RLS keeps other bookings' payments out. onChange may change
+// between renders without resubscribing.
+export function usePaymentChanges(onChange: (payment: Payment) => void) {
+  const { profile } = useAuth();
+  const handler = useRef(onChange);
+  handler.current = onChange;
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const channel = supabase
+      .channel(`payments-${++channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'payments' },
+        (payload) => {
+          if (payload.eventType !== 'DELETE') {
+            handler.current(payload.new as Payment);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile?.id]);
+}
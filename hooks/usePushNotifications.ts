@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  configureNotificationHandler,
+  markNotificationsRead,
+  registerForPushNotifications,
+} from '@/lib/notifications';
+
+// Registers this device for pushes and opens the bookings tab when one is
+// tapped.
+export function usePushNotifications() {
+  const { profile } = useAuth();
+
+  useEffect(() => {
+    if (!profile) return;
+
+    configureNotificationHandler();
+    registerForPushNotifications().catch((error) =>
+      console.error('Error registering for push notifications:', error)
+    );
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(
+      (response) => {
+        const { notificationId } = response.notification.request.content.data as {
+          notificationId?: string;
+        };
+
+        if (notificationId) {
+          markNotificationsRead([notificationId]).catch((error) =>
+            console.error('Error marking notification as read:', error)
+          );
+        }
+
+        router.push(
+          profile.user_type === 'professional'
+            ? '/(professional)/bookings'
+            : '/(client)/bookings'
+        );
+      }
+    );
+
+    return () => subscription.remove();
+  }, [profile?.id]);
+}
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase, Database } from '@/lib/supabase';
+
+type QuoteRow = Database['public']['Tables']['booking_quotes']['Row'];
+
+let channelCount = 0;
+
+// Calls onChange for every quote sent or answered on the current user's
+// bookings; RLS keeps other bookings' quotes out. Payloads carry no items.
+// onChange may change between renders without resubscribing.
+export function useQuoteChanges(onChange: (quote: QuoteRow) => void) {
+  const { profile } = useAuth();
+  const handler = useRef(onChange);
+  handler.current = onChange;
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const channel = supabase
+      .channel(`booking-quotes-${++channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'booking_quotes' },
+        (payload) => {
+          if (payload.eventType !== 'DELETE') {
+            handler.current(payload.new as QuoteRow);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile?.id]);
+}
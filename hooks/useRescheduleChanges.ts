@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { RescheduleRequest } from '@/lib/reschedule';
+
+let channelCount = 0;
+
+// Calls onChange for every reschedule proposal created or answered on the
+// current user's bookings; RLS keeps other bookings' proposals out.
+// onChange may change between renders without resubscribing.
+export function useRescheduleChanges(
+  onChange: (request: RescheduleRequest) => void
+) {
+  const { profile } = useAuth();
+  const handler = useRef(onChange);
+  handler.current = onChange;
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const channel = supabase
+      .channel(`reschedule-requests-${++channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'reschedule_requests' },
+        (payload) => {
+          if (payload.eventType !== 'DELETE') {
+            handler.current(payload.new as RescheduleRequest);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile?.id]);
+}
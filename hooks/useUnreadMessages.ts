@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { fetchUnreadMessageCounts } from '@/lib/messages';
+
+// Each caller gets its own channel; Supabase rejects a second subscription
+// on a topic that is already joined.
+let channelCount = 0;
+
+export function useUnreadMessages() {
+  const { profile } = useAuth();
+  const [counts, setCounts] = useState<Record<string, number>>({});
+
+  const refresh = useCallback(async () => {
+    try {
+      setCounts(await fetchUnreadMessageCounts());
+    } catch (error) {
+      console.error('Error loading unread messages:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!profile) {
+      setCounts({});
+      return;
+    }
+
+    refresh();
+
+    // RLS limits the feed to messages from the user's own bookings
+    const channel = supabase
+      .channel(`unread-messages-${++channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'messages' },
+        () => refresh()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile?.id]);
+
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  return { counts, total, refresh };
+}
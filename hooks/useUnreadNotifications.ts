@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { fetchUnreadNotificationCount } from '@/lib/notifications';
+
+let channelCount = 0;
+
+export function useUnreadNotifications() {
+  const { profile } = useAuth();
+  const [unread, setUnread] = useState(0);
+
+  const refresh = useCallback(async () => {
+    try {
+      setUnread(await fetchUnreadNotificationCount());
+    } catch (error) {
+      console.error('Error loading unread notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!profile) {
+      setUnread(0);
+      return;
+    }
+
+    refresh();
+
+    const channel = supabase
+      .channel(`unread-notifications-${++channelCount}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `profile_id=eq.${profile.id}`,
+        },
+        () => refresh()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile?.id]);
+
+  return { unread, refresh };
+}
@@ -0,0 +1,76 @@
+import { supabase, Database } from '@/lib/supabase';
+import { formatCurrency } from '@/lib/pricing';
+
+export type ServiceAddon = Database['public']['Tables']['service_addons']['Row'];
+
+export type BookingLineItem =
+  Database['public']['Tables']['booking_line_items']['Row'];
+
+export type AddonPricing = ServiceAddon['pricing'];
+
+export const ADDON_PRICINGS: AddonPricing[] = ['flat', 'per_guest'];
+
+export const ADDON_PRICING_LABELS: Record<AddonPricing, string> = {
+  flat: 'Valor fixo',
+  per_guest: 'Por pessoa',
+};
+
+// Select fragment for embedding a booking's add-ons next to it
+export const BOOKING_LINE_ITEMS_SELECT = `
+  booking_line_items (*)
+`;
+
+// Quantity chosen per add-on id; add-ons left out aren't booked
+export type AddonSelection = Record<string, number>;
+
+// Mirrors public.price_booking_line_item, which has the final say
+export function addonAmount(
+  addon: Pick<ServiceAddon, 'price' | 'pricing'>,
+  quantity: number,
+  guests: number
+) {
+  return addon.price * quantity * (addon.pricing === 'per_guest' ? guests : 1);
+}
+
+export function addonsTotal(
+  addons: ServiceAddon[],
+  selection: AddonSelection,
+  guests: number
+) {
+  return addons.reduce(
+    (sum, addon) => sum + addonAmount(addon, selection[addon.id] || 0, guests),
+    0
+  );
+}
+
+export function formatAddonPrice(addon: Pick<ServiceAddon, 'price' | 'pricing'>) {
+  return addon.pricing === 'per_guest'
+    ? `${formatCurrency(addon.price)} por pessoa`
+    : formatCurrency(addon.price);
+}
+
+export function formatLineItem(item: BookingLineItem) {
+  return item.quantity > 1 ? `${item.quantity}× ${item.name}` : item.name;
+}
+
+export async function fetchServiceAddons(serviceId: string) {
+  const { data, error } = await supabase
+    .from('service_addons')
+    .select('*')
+    .eq('service_id', serviceId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+// Add-ons to book with create_booking, which prices each one from the
+// add-on and the booking's guests
+export function selectedAddons(selection: AddonSelection) {
+  return Object.entries(selection)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([addon_id, quantity]) => ({ addon_id, quantity }));
+}
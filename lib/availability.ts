@@ -0,0 +1,58 @@
+import { supabase } from '@/lib/supabase';
+
+export const WEEKDAY_LABELS = [
+  'Domingo',
+  'Segunda',
+  'Terça',
+  'Quarta',
+  'Quinta',
+  'Sexta',
+  'Sábado',
+];
+
+export const BOOKING_WINDOW_DAYS = 60;
+
+export function toDateKey(date: Date) {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+export function addDays(date: Date, days: number) {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// Open start times ("HH:MM") grouped by date key, in chronological order.
+export type AvailableSlots = Record<string, string[]>;
+
+// Pass excludeBookingId when moving a booking, so its current slot does not
+// count as taken.
+export async function fetchAvailableSlots(
+  serviceId: string,
+  from: Date,
+  to: Date,
+  excludeBookingId?: string
+): Promise<AvailableSlots> {
+  const { data, error } = await supabase.rpc('get_available_slots', {
+    p_service_id: serviceId,
+    p_from: toDateKey(from),
+    p_to: toDateKey(to),
+    p_exclude_booking_id: excludeBookingId ?? null,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const slots: AvailableSlots = {};
+  (data || []).forEach((slot: { slot_date: string; slot_time: string }) => {
+    if (!slots[slot.slot_date]) {
+      slots[slot.slot_date] = [];
+    }
+    slots[slot.slot_date].push(slot.slot_time.substring(0, 5));
+  });
+  return slots;
+}
@@ -0,0 +1,268 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase, Database } from '@/lib/supabase';
+
+export type BookingStatus =
+  Database['public']['Tables']['bookings']['Row']['status'];
+
+export type BookingActor = 'client' | 'professional';
+
+// Mirrors public.booking_status_transitions. The database is the source of
+// truth; this copy only decides which actions the UI offers.
+export const BOOKING_TRANSITIONS: Record<
+  BookingStatus,
+  Partial<Record<BookingStatus, BookingActor[]>>
+> = {
+  pending: {
+    confirmed: ['professional'],
+    cancelled: ['client', 'professional'],
+  },
+  confirmed: {
+    completed: ['professional'],
+    cancelled: ['client', 'professional'],
+  },
+  cancelled: {},
+  completed: {},
+};
+
+export function canTransition(
+  from: BookingStatus,
+  to: BookingStatus,
+  actor: BookingActor
+) {
+  return BOOKING_TRANSITIONS[from][to]?.includes(actor) ?? false;
+}
+
+export type BookingErrorCode =
+  | 'booking_locked'
+  | 'invalid_transition'
+  | 'transition_not_allowed'
+  | 'column_not_editable'
+  | 'not_a_party'
+  | 'booking_conflict'
+  | 'event_started'
+  | 'reason_required'
+  | 'slot_unavailable'
+  | 'reschedule_pending'
+  | 'reschedule_closed'
+  | 'quote_expired'
+  | 'invalid_quote'
+  | 'quote_closed'
+  | 'invalid_addon'
+  | 'invalid_menu'
+  | 'payment_not_due'
+  | 'receipt_not_available'
+  | 'payment_in_progress'
+  | 'too_many_guests'
+  | 'unknown';
+
+const SQLSTATE_CODES: Record<string, BookingErrorCode> = {
+  BK001: 'booking_locked',
+  BK002: 'invalid_transition',
+  BK003: 'transition_not_allowed',
+  BK004: 'column_not_editable',
+  BK005: 'not_a_party',
+  BK006: 'booking_conflict',
+  BK007: 'event_started',
+  BK008: 'reason_required',
+  BK009: 'slot_unavailable',
+  BK010: 'reschedule_pending',
+  BK011: 'reschedule_closed',
+  BK012: 'quote_expired',
+  BK013: 'invalid_quote',
+  BK014: 'quote_closed',
+  BK015: 'invalid_addon',
+  BK016: 'invalid_menu',
+  BK017: 'payment_not_due',
+  BK018: 'receipt_not_available',
+  BK019: 'payment_in_progress',
+  BK020: 'too_many_guests',
+  // exclusion_violation from bookings_no_overlap, hit when two confirmations race
+  '23P01': 'booking_conflict',
+};
+
+const ERROR_MESSAGES: Record<BookingErrorCode, string> = {
+  booking_locked: 'Este agendamento já foi finalizado ou cancelado.',
+  invalid_transition: 'Esta mudança de status não é permitida.',
+  transition_not_allowed: 'Você não tem permissão para esta ação.',
+  column_not_editable: 'Você não pode alterar estas informações.',
+  not_a_party: 'Você não participa deste agendamento.',
+  booking_conflict: 'Este horário conflita com outro agendamento confirmado.',
+  event_started: 'O evento já começou e não pode mais ser cancelado.',
+  reason_required: 'Informe o motivo do cancelamento.',
+  slot_unavailable: 'O churrasqueiro não está disponível neste horário.',
+  reschedule_pending: 'Já existe uma proposta de nova data aguardando resposta.',
+  reschedule_closed: 'Esta proposta de nova data já foi respondida.',
+  quote_expired: 'Este orçamento expirou. Peça um novo ao churrasqueiro.',
+  invalid_quote: 'Confira os valores e a validade do orçamento.',
+  quote_closed: 'Este orçamento já foi respondido ou substituído.',
+  invalid_addon: 'Um dos adicionais escolhidos não está mais disponível.',
+  invalid_menu: 'O cardápio escolhido não está mais disponível.',
+  payment_not_due: 'Não há valor a pagar neste agendamento.',
+  receipt_not_available: 'O recibo fica disponível após o primeiro pagamento ou a conclusão do serviço.',
+  payment_in_progress: 'Já existe um pagamento em andamento para este agendamento. Aguarde a confirmação.',
+  too_many_guests: 'O número de convidados passa do limite atendido por este serviço.',
+  unknown: 'Não foi possível atualizar o agendamento.',
+};
+
+export class BookingError extends Error {
+  code: BookingErrorCode;
+  details?: string;
+
+  constructor(code: BookingErrorCode, details?: string) {
+    super(ERROR_MESSAGES[code]);
+    this.name = 'BookingError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export function toBookingError(
+  error: Pick<PostgrestError, 'code' | 'details' | 'message'>
+) {
+  return new BookingError(
+    SQLSTATE_CODES[error.code] ?? 'unknown',
+    error.details || error.message
+  );
+}
+
+export type BookingRequest = Omit<
+  Database['public']['Functions']['create_booking']['Args'],
+  'p_addons'
+>;
+
+// Creates the booking and its add-ons in one transaction
+export async function createBooking(
+  request: BookingRequest,
+  addons: Array<{ addon_id: string; quantity: number }>
+) {
+  const { data, error } = await supabase.rpc('create_booking', {
+    ...request,
+    p_addons: addons,
+  });
+
+  if (error) {
+    throw toBookingError(error);
+  }
+
+  return data as Database['public']['Tables']['bookings']['Row'];
+}
+
+export async function updateBookingStatus(
+  bookingId: string,
+  status: BookingStatus
+) {
+  const { error } = await supabase
+    .from('bookings')
+    .update({ status })
+    .eq('id', bookingId);
+
+  if (error) {
+    throw toBookingError(error);
+  }
+}
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: 'Pendente',
+  confirmed: 'Confirmado',
+  cancelled: 'Cancelado',
+  completed: 'Concluído',
+};
+
+const STATUS_CHANGE_MESSAGES: Record<BookingStatus, string> = {
+  pending: 'está pendente',
+  confirmed: 'foi confirmado',
+  cancelled: 'foi cancelado',
+  completed: 'foi concluído',
+};
+
+export function describeStatusChange(status: BookingStatus, title?: string) {
+  return `Agendamento${title ? ` de ${title}` : ''} ${STATUS_CHANGE_MESSAGES[status]}.`;
+}
+
+export type BookingEventType =
+  Database['public']['Tables']['booking_events']['Row']['event_type'];
+
+export interface BookingEvent {
+  id: string;
+  booking_id: string;
+  actor_id?: string;
+  event_type: BookingEventType;
+  old_value?: Record<string, any>;
+  new_value?: Record<string, any>;
+  created_at: string;
+  profiles?: {
+    full_name: string;
+  };
+}
+
+export async function fetchBookingEvents(
+  bookingId: string
+): Promise<BookingEvent[]> {
+  const { data, error } = await supabase
+    .from('booking_events')
+    .select(`
+      *,
+      profiles (
+        full_name
+      )
+    `)
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+const formatEventDate = (date?: string, time?: string) => {
+  if (!date) return '—';
+  const formatted = new Date(`${date}T00:00:00`).toLocaleDateString('pt-BR');
+  return time ? `${formatted} ${time.substring(0, 5)}` : formatted;
+};
+
+const formatEventPrice = (value?: number) =>
+  value == null ? '—' : `R$ ${value}`;
+
+export function describeBookingEvent(event: BookingEvent) {
+  const before = event.old_value || {};
+  const after = event.new_value || {};
+
+  switch (event.event_type) {
+    case 'created':
+      return 'Solicitação criada';
+    case 'status_changed':
+      return `Status: ${BOOKING_STATUS_LABELS[before.status as BookingStatus]} → ${
+        BOOKING_STATUS_LABELS[after.status as BookingStatus]
+      }`;
+    case 'price_changed':
+      return `Valor: ${formatEventPrice(before.total_price)} → ${formatEventPrice(
+        after.total_price
+      )}`;
+    case 'rescheduled':
+      return `Data: ${formatEventDate(before.event_date, before.event_time)} → ${formatEventDate(
+        after.event_date,
+        after.event_time
+      )}`;
+    case 'reschedule_requested':
+      return `Nova data proposta: ${formatEventDate(after.event_date, after.event_time)}`;
+    case 'reschedule_declined':
+      return `Nova data recusada: ${formatEventDate(after.event_date, after.event_time)}`;
+    case 'quote_sent':
+      return `Orçamento enviado: ${formatEventPrice(after.total_price)}`;
+    case 'quote_declined':
+      return `Orçamento recusado: ${formatEventPrice(after.total_price)}`;
+    case 'payment_received':
+      return `Pagamento recebido${after.off_app ? ' fora do app' : ''}: ${formatEventPrice(
+        after.amount
+      )}`;
+    case 'notes_changed':
+      return after.notes ? 'Observações editadas' : 'Observações removidas';
+    case 'details_changed':
+      if (before.guests_count !== after.guests_count) {
+        return `Convidados: ${before.guests_count} → ${after.guests_count} pessoas`;
+      }
+      return `Local: ${after.location}`;
+  }
+}
@@ -0,0 +1,115 @@
+import { supabase, Database } from '@/lib/supabase';
+import { BookingStatus, toBookingError } from '@/lib/bookings';
+import { amountPaid, Payment } from '@/lib/payments';
+
+export type CancellationPolicy =
+  Database['public']['Tables']['cancellation_policy_tiers']['Row']['policy'];
+
+export type CancellationTier =
+  Database['public']['Tables']['cancellation_policy_tiers']['Row'];
+
+export const CANCELLATION_POLICIES: CancellationPolicy[] = [
+  'flexible',
+  'moderate',
+  'strict',
+];
+
+export const CANCELLATION_POLICY_LABELS: Record<CancellationPolicy, string> = {
+  flexible: 'Flexível',
+  moderate: 'Moderada',
+  strict: 'Rígida',
+};
+
+// Sorted from the earliest cancellation window to the latest.
+export async function fetchCancellationTiers(): Promise<CancellationTier[]> {
+  const { data, error } = await supabase
+    .from('cancellation_policy_tiers')
+    .select('*')
+    .order('min_hours_before', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+const formatHours = (hours: number) => {
+  if (hours >= 48 && hours % 24 === 0) {
+    return `${hours / 24} dias`;
+  }
+  return `${hours} horas`;
+};
+
+export function describeCancellationPolicy(
+  tiers: CancellationTier[],
+  policy: CancellationPolicy
+) {
+  const policyTiers = tiers.filter((tier) => tier.policy === policy);
+
+  return policyTiers.map((tier, index) => {
+    if (tier.min_hours_before > 0) {
+      return `${tier.refund_percent}% de reembolso cancelando com ${formatHours(
+        tier.min_hours_before
+      )} ou mais de antecedência`;
+    }
+
+    const previous = policyTiers[index - 1];
+    const window = previous
+      ? `com menos de ${formatHours(previous.min_hours_before)}`
+      : 'a qualquer momento';
+    return tier.refund_percent > 0
+      ? `${tier.refund_percent}% de reembolso cancelando ${window}`
+      : `Sem reembolso cancelando ${window}`;
+  });
+}
+
+export interface RefundEstimate {
+  percent: number;
+  amount: number;
+}
+
+// Mirrors public.enforce_cancellation_policy for a client cancelling; the
+// database computes the amount that is actually recorded. Returns null once
+// the event has started.
+export function estimateRefund(
+  tiers: CancellationTier[],
+  booking: {
+    status: BookingStatus;
+    event_date: string;
+    event_time: string;
+    payments?: Pick<Payment, 'status' | 'amount'>[];
+  },
+  policy: CancellationPolicy,
+  now = new Date()
+): RefundEstimate | null {
+  const start = new Date(`${booking.event_date}T${booking.event_time}`);
+  const hoursBefore = (start.getTime() - now.getTime()) / (60 * 60 * 1000);
+
+  if (hoursBefore <= 0) {
+    return null;
+  }
+
+  const percent =
+    booking.status === 'pending'
+      ? 100
+      : tiers.find(
+          (tier) => tier.policy === policy && tier.min_hours_before <= hoursBefore
+        )?.refund_percent ?? 0;
+
+  return {
+    percent,
+    amount: Math.round(amountPaid(booking.payments) * percent) / 100,
+  };
+}
+
+export async function cancelBooking(bookingId: string, reason: string) {
+  const { error } = await supabase
+    .from('bookings')
+    .update({ status: 'cancelled', cancellation_reason: reason.trim() })
+    .eq('id', bookingId);
+
+  if (error) {
+    throw toBookingError(error);
+  }
+}
@@ -0,0 +1,130 @@
+import { supabase, Database } from '@/lib/supabase';
+import { Payment } from '@/lib/payments';
+
+type Functions = Database['public']['Functions'];
+
+export type LedgerEntry = Functions['get_professional_ledger']['Returns'][number];
+
+export type LedgerEntryType = LedgerEntry['entry_type'];
+
+export type Balance = Functions['get_professional_balance']['Returns'][number];
+
+export type PayoutStatus = Database['public']['Tables']['payouts']['Row']['status'];
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  earning: 'Recebimento',
+  fee: 'Taxa da plataforma',
+  refund: 'Reembolso',
+  payout: 'Repasse',
+};
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  pending: 'Em transferência',
+  paid: 'Transferido',
+  failed: 'Falhou',
+};
+
+export const EMPTY_BALANCE: Balance = {
+  available: 0,
+  receivable: 0,
+  in_transit: 0,
+};
+
+export type FinancePeriod = 'month' | 'quarter' | 'year' | 'all';
+
+export const FINANCE_PERIODS: FinancePeriod[] = ['month', 'quarter', 'year', 'all'];
+
+export const FINANCE_PERIOD_LABELS: Record<FinancePeriod, string> = {
+  month: 'Este mês',
+  quarter: '3 meses',
+  year: '12 meses',
+  all: 'Tudo',
+};
+
+// Start of the period, counted in whole months back from the current one;
+// null for no limit
+export function periodStart(period: FinancePeriod, now = new Date()) {
+  const months = { month: 0, quarter: 2, year: 11, all: null }[period];
+  if (months === null) {
+    return null;
+  }
+  return new Date(now.getFullYear(), now.getMonth() - months, 1);
+}
+
+export type LedgerTotals = Record<LedgerEntryType, number>;
+
+export function summarizeLedger(entries: LedgerEntry[]): LedgerTotals {
+  const totals: LedgerTotals = { earning: 0, fee: 0, refund: 0, payout: 0 };
+  entries.forEach((entry) => {
+    totals[entry.entry_type] += Number(entry.amount);
+  });
+  return totals;
+}
+
+export interface RevenueBooking {
+  status: string;
+  cancelled_at?: string | null;
+  refund_amount?: number | null;
+  payments?: Pick<Payment, 'amount' | 'status' | 'paid_at'>[];
+}
+
+// What a booking adds to the professional's revenue, dated the way
+// get_professional_ledger dates it: every payment received, less what a
+// cancelled booking refunds (its refund_amount, capped at what was paid)
+export function revenueEntries(booking: RevenueBooking) {
+  const cancelled = booking.status === 'cancelled';
+  const entries = (booking.payments || [])
+    .filter(
+      (payment) =>
+        payment.paid_at &&
+        (payment.status === 'paid' || (cancelled && payment.status === 'refunded'))
+    )
+    .map((payment) => ({ amount: Number(payment.amount), at: payment.paid_at! }));
+
+  const received = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const refund = cancelled ? Math.min(Number(booking.refund_amount || 0), received) : 0;
+  if (refund > 0) {
+    // A payment that arrived after the cancellation is refunded when it does
+    const lastPaid = entries.map((entry) => entry.at).sort().pop()!;
+    const at =
+      booking.cancelled_at && booking.cancelled_at > lastPaid
+        ? booking.cancelled_at
+        : lastPaid;
+    entries.push({ amount: -refund, at });
+  }
+
+  return entries;
+}
+
+export function bookingRevenue(booking: RevenueBooking) {
+  return revenueEntries(booking).reduce((sum, entry) => sum + entry.amount, 0);
+}
+
+export async function fetchLedger(from: Date | null) {
+  const { data, error } = await supabase.rpc('get_professional_ledger', {
+    p_from: from?.toISOString() ?? null,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as LedgerEntry[];
+}
+
+export async function fetchBalance(): Promise<Balance> {
+  const { data, error } = await supabase.rpc('get_professional_balance');
+
+  if (error) {
+    throw error;
+  }
+
+  const [balance] = (data || []) as Balance[];
+  return balance
+    ? {
+        available: Number(balance.available),
+        receivable: Number(balance.receivable),
+        in_transit: Number(balance.in_transit),
+      }
+    : EMPTY_BALANCE;
+}
@@ -0,0 +1,83 @@
+import * as Location from 'expo-location';
+import { supabase } from '@/lib/supabase';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export const NEARBY_RADIUS_KM = 30;
+
+// Returns null when the user denies the permission, so callers can fall back
+// to asking for a CEP or city.
+export async function getDeviceCoordinates(): Promise<Coordinates | null> {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') {
+    return null;
+  }
+
+  const position = await Location.getCurrentPositionAsync({
+    accuracy: Location.Accuracy.Balanced,
+  });
+  return {
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+  };
+}
+
+// Accepts a street address, a CEP or a city name. Returns null when nothing
+// matches.
+export async function geocodeAddress(
+  address: string
+): Promise<Coordinates | null> {
+  const query = address.trim();
+  if (!query) {
+    return null;
+  }
+
+  const [result] = await Location.geocodeAsync(`${query}, Brasil`);
+  if (!result) {
+    return null;
+  }
+
+  return { latitude: result.latitude, longitude: result.longitude };
+}
+
+// "São Paulo, SP"-style label for coordinates, or null when unknown.
+export async function describeCoordinates(
+  coordinates: Coordinates
+): Promise<string | null> {
+  const [place] = await Location.reverseGeocodeAsync(coordinates);
+  if (!place) {
+    return null;
+  }
+
+  const city = place.city || place.subregion;
+  return [city, place.region].filter(Boolean).join(', ') || null;
+}
+
+export async function saveProfileLocation(
+  profileId: string,
+  location: string,
+  coordinates: Coordinates
+) {
+  const { error } = await supabase
+    .from('profiles')
+    .update({
+      location,
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+    })
+    .eq('id', profileId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+export function formatDistance(distanceKm: number) {
+  if (distanceKm < 1) {
+    return 'a menos de 1 km';
+  }
+  return `a ${Math.round(distanceKm).toLocaleString('pt-BR')} km`;
+}
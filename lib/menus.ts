@@ -0,0 +1,195 @@
+import { supabase, Database } from '@/lib/supabase';
+
+type MenuRow = Database['public']['Tables']['service_menus']['Row'];
+
+export type MenuItem = Database['public']['Tables']['menu_items']['Row'];
+
+export type MenuItemKind = MenuItem['kind'];
+
+export type MenuTag = MenuRow['tags'][number];
+
+export interface ServiceMenu extends MenuRow {
+  menu_items?: MenuItem[];
+}
+
+export const MENU_ITEM_KINDS: MenuItemKind[] = ['cut', 'side', 'vegetarian'];
+
+export const MENU_ITEM_KIND_LABELS: Record<MenuItemKind, string> = {
+  cut: 'Carnes',
+  side: 'Acompanhamentos',
+  vegetarian: 'Opções vegetarianas',
+};
+
+// Quick picks offered in the menu builder, with a typical serving
+export const MENU_ITEM_SUGGESTIONS: Record<
+  MenuItemKind,
+  Array<{ name: string; grams_per_person: number }>
+> = {
+  cut: [
+    { name: 'Picanha', grams_per_person: 150 },
+    { name: 'Fraldinha', grams_per_person: 120 },
+    { name: 'Linguiça', grams_per_person: 80 },
+    { name: 'Coração de frango', grams_per_person: 60 },
+    { name: 'Maminha', grams_per_person: 120 },
+    { name: 'Costela', grams_per_person: 150 },
+  ],
+  side: [
+    { name: 'Arroz', grams_per_person: 100 },
+    { name: 'Farofa', grams_per_person: 50 },
+    { name: 'Vinagrete', grams_per_person: 60 },
+    { name: 'Pão de alho', grams_per_person: 60 },
+  ],
+  vegetarian: [
+    { name: 'Queijo coalho', grams_per_person: 80 },
+    { name: 'Legumes grelhados', grams_per_person: 120 },
+    { name: 'Abacaxi com canela', grams_per_person: 100 },
+    { name: 'Cogumelos', grams_per_person: 80 },
+  ],
+};
+
+export const MENU_TAGS: MenuTag[] = ['traditional', 'premium', 'vegetarian'];
+
+export const MENU_TAG_LABELS: Record<MenuTag, string> = {
+  traditional: 'Tradicional',
+  premium: 'Premium',
+  vegetarian: 'Vegetariano',
+};
+
+// Select fragment for embedding a service's menus with their items
+export const SERVICE_MENUS_SELECT = `
+  service_menus (
+    *,
+    menu_items (*)
+  )
+`;
+
+// Archived menus stay attached to old bookings but aren't offered anymore
+export function activeMenus(menus?: ServiceMenu[]) {
+  return (menus || [])
+    .filter((menu) => !menu.archived_at)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export function menuItemsByKind(menu: ServiceMenu) {
+  const items = [...(menu.menu_items || [])].sort(
+    (a, b) => a.position - b.position
+  );
+  return MENU_ITEM_KINDS.map((kind) => ({
+    kind,
+    items: items.filter((item) => item.kind === kind),
+  })).filter((group) => group.items.length > 0);
+}
+
+export function formatMenuItem(item: Pick<MenuItem, 'name' | 'grams_per_person'>) {
+  return `${item.name} (${item.grams_per_person} g/pessoa)`;
+}
+
+export function hasMenuTag(
+  menus: Pick<ServiceMenu, 'tags' | 'archived_at'>[] | undefined,
+  tag: MenuTag
+) {
+  return (menus || []).some(
+    (menu) => !menu.archived_at && menu.tags.includes(tag)
+  );
+}
+
+export interface MenuDraft {
+  id?: string;
+  name: string;
+  description: string;
+  tags: MenuTag[];
+  items: Array<{
+    kind: MenuItemKind;
+    name: string;
+    grams_per_person: string;
+  }>;
+}
+
+export function toMenuDraft(menu: ServiceMenu, copy = false): MenuDraft {
+  return {
+    id: copy ? undefined : menu.id,
+    name: menu.name,
+    description: menu.description || '',
+    tags: menu.tags,
+    items: [...(menu.menu_items || [])]
+      .sort((a, b) => a.position - b.position)
+      .map((item) => ({
+        kind: item.kind,
+        name: item.name,
+        grams_per_person: String(item.grams_per_person),
+      })),
+  };
+}
+
+// Menus left out of drafts are archived; each saved menu's items are
+// replaced as a whole.
+export async function saveServiceMenus(serviceId: string, drafts: MenuDraft[]) {
+  const keptIds = drafts
+    .map((draft) => draft.id)
+    .filter((menuId): menuId is string => !!menuId);
+
+  let archival = supabase
+    .from('service_menus')
+    .update({ archived_at: new Date().toISOString() })
+    .eq('service_id', serviceId)
+    .is('archived_at', null);
+  if (keptIds.length > 0) {
+    archival = archival.not('id', 'in', `(${keptIds.join(',')})`);
+  }
+  const { error: archiveError } = await archival;
+
+  if (archiveError) {
+    throw archiveError;
+  }
+
+  for (const draft of drafts) {
+    const values = {
+      name: draft.name.trim(),
+      description: draft.description.trim() || null,
+      tags: draft.tags,
+    };
+    const { data, error } = draft.id
+      ? await supabase
+          .from('service_menus')
+          .update(values)
+          .eq('id', draft.id)
+          .select('id')
+          .single()
+      : await supabase
+          .from('service_menus')
+          .insert({ service_id: serviceId, ...values })
+          .select('id')
+          .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const { error: deleteError } = await supabase
+      .from('menu_items')
+      .delete()
+      .eq('menu_id', data.id);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    if (draft.items.length === 0) {
+      continue;
+    }
+
+    const { error: itemsError } = await supabase.from('menu_items').insert(
+      draft.items.map((item, position) => ({
+        menu_id: data.id,
+        kind: item.kind,
+        name: item.name.trim(),
+        grams_per_person: Number(item.grams_per_person),
+        position,
+      }))
+    );
+
+    if (itemsError) {
+      throw itemsError;
+    }
+  }
+}
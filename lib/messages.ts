@@ -0,0 +1,131 @@
+import { supabase, Database } from '@/lib/supabase';
+
+const ATTACHMENTS_BUCKET = 'message_attachments';
+const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+export type Message = Database['public']['Tables']['messages']['Row'] & {
+  // Signed URL for image_path; the bucket is private.
+  image_url?: string;
+};
+
+export async function withImageUrls(messages: Message[]): Promise<Message[]> {
+  const paths = messages
+    .map((message) => message.image_path)
+    .filter((path): path is string => !!path);
+
+  if (paths.length === 0) {
+    return messages;
+  }
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(paths, ATTACHMENT_URL_TTL_SECONDS);
+
+  if (error) {
+    throw error;
+  }
+
+  const urls: Record<string, string> = {};
+  (data || []).forEach((item) => {
+    if (item.path && item.signedUrl) {
+      urls[item.path] = item.signedUrl;
+    }
+  });
+
+  return messages.map((message) =>
+    message.image_path
+      ? { ...message, image_url: urls[message.image_path] }
+      : message
+  );
+}
+
+export async function fetchMessages(bookingId: string): Promise<Message[]> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return withImageUrls(data || []);
+}
+
+// Returns the storage path to pass to sendMessage.
+export async function uploadMessageImage(bookingId: string, uri: string) {
+  const fileExt = uri.split('.').pop()?.toLowerCase() || 'jpg';
+  const fileName = `${bookingId}/${new Date().getTime()}.${fileExt}`;
+
+  const formData = new FormData();
+  formData.append('file', {
+    uri,
+    name: fileName,
+    type: `image/${fileExt}`,
+  } as any);
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(fileName, formData, {
+      cacheControl: '3600',
+      upsert: false,
+    });
+
+  if (error) {
+    throw error;
+  }
+
+  return fileName;
+}
+
+export async function sendMessage(
+  bookingId: string,
+  senderId: string,
+  content: { body?: string; imagePath?: string }
+): Promise<Message> {
+  const { data, error } = await supabase
+    .from('messages')
+    .insert({
+      booking_id: bookingId,
+      sender_id: senderId,
+      body: content.body?.trim() || null,
+      image_path: content.imagePath || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const [message] = await withImageUrls([data]);
+  return message;
+}
+
+export async function markMessagesRead(bookingId: string) {
+  const { error } = await supabase.rpc('mark_messages_read', {
+    p_booking_id: bookingId,
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Unread messages addressed to the current user, keyed by booking id.
+export async function fetchUnreadMessageCounts(): Promise<
+  Record<string, number>
+> {
+  const { data, error } = await supabase.rpc('get_unread_message_counts');
+
+  if (error) {
+    throw error;
+  }
+
+  const counts: Record<string, number> = {};
+  (data || []).forEach((row: { booking_id: string; unread_count: number }) => {
+    counts[row.booking_id] = Number(row.unread_count);
+  });
+  return counts;
+}
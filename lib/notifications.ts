@@ -0,0 +1,125 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import Constants from 'expo-constants';
+import { supabase, Database } from '@/lib/supabase';
+
+export type AppNotification =
+  Database['public']['Tables']['notifications']['Row'];
+
+export const NOTIFICATIONS_PAGE_SIZE = 50;
+
+// Show pushes that arrive while the app is open, too
+export function configureNotificationHandler() {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+// Expo push token for this device, or null where pushes are unavailable
+// (web, simulators) or the user denied the permission.
+async function getPushToken(requestPermission: boolean) {
+  if (Platform.OS === 'web' || !Device.isDevice) {
+    return null;
+  }
+
+  let { status } = await Notifications.getPermissionsAsync();
+  if (status !== 'granted' && requestPermission) {
+    ({ status } = await Notifications.requestPermissionsAsync());
+  }
+  if (status !== 'granted') {
+    return null;
+  }
+
+  const projectId =
+    Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+  const { data } = await Notifications.getExpoPushTokenAsync(
+    projectId ? { projectId } : undefined
+  );
+  return data;
+}
+
+export async function registerForPushNotifications() {
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync('default', {
+      name: 'Agendamentos',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+
+  const token = await getPushToken(true);
+  if (!token) {
+    return null;
+  }
+
+  const { error } = await supabase.rpc('register_push_token', {
+    p_token: token,
+    p_platform: Platform.OS as 'ios' | 'android',
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return token;
+}
+
+// Stops pushes to this device for the signed-in user. Call before signing out.
+export async function unregisterPushToken() {
+  const token = await getPushToken(false);
+  if (!token) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('push_tokens')
+    .delete()
+    .eq('token', token);
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function fetchNotifications(): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATIONS_PAGE_SIZE);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+export async function fetchUnreadNotificationCount() {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .is('read_at', null);
+
+  if (error) {
+    throw error;
+  }
+
+  return count || 0;
+}
+
+// Marks the given notifications as read; all of them when ids is omitted.
+export async function markNotificationsRead(ids?: string[]) {
+  const { error } = await supabase.rpc('mark_notifications_read', {
+    p_ids: ids ?? null,
+  });
+
+  if (error) {
+    throw error;
+  }
+}
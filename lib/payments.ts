@@ -0,0 +1,281 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase, Database } from '@/lib/supabase';
+import { BookingError, toBookingError } from '@/lib/bookings';
+import { formatCurrency } from '@/lib/pricing';
+
+export type Payment = Database['public']['Tables']['payments']['Row'];
+
+export type PaymentMethod = Payment['method'];
+
+export type PaymentStatus = Payment['status'];
+
+export type BookingCharge =
+  Database['public']['Tables']['booking_charges']['Row'];
+
+export type ChargeKind = BookingCharge['kind'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: 'PIX',
+  card: 'Cartão de crédito',
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Aguardando pagamento',
+  paid: 'Pago',
+  failed: 'Não aprovado',
+  expired: 'Expirado',
+  refunded: 'Reembolsado',
+};
+
+export const CHARGE_KIND_LABELS: Record<ChargeKind, string> = {
+  deposit: 'Sinal',
+  balance: 'Saldo',
+};
+
+const CHARGE_STATUS_LABELS: Record<BookingCharge['status'], string> = {
+  open: 'pendente',
+  paid: 'pago',
+  cancelled: 'cancelado',
+};
+
+// Select fragment for embedding a booking's charges and payments next to it
+export const PAYMENTS_SELECT = `
+  booking_charges (*),
+  payments (*)
+`;
+
+// Money actually received: paid payments that weren't refunded
+export function amountPaid(payments?: Pick<Payment, 'status' | 'amount'>[]) {
+  return (payments || [])
+    .filter((payment) => payment.status === 'paid')
+    .reduce((sum, payment) => sum + Number(payment.amount), 0);
+}
+
+// What start_payment charges next: the deposit before the balance
+export function nextOpenCharge(charges?: BookingCharge[]) {
+  return (charges || [])
+    .filter((charge) => charge.status === 'open')
+    .sort((a, b) =>
+      a.kind === b.kind ? a.due_date.localeCompare(b.due_date) : a.kind === 'deposit' ? -1 : 1
+    )[0];
+}
+
+// "Sinal pago", "Saldo pendente", "Saldo pago fora do app"
+export function describeCharge(charge: BookingCharge) {
+  return `${CHARGE_KIND_LABELS[charge.kind]} ${CHARGE_STATUS_LABELS[charge.status]}${
+    charge.settled_off_app ? ' fora do app' : ''
+  }`;
+}
+
+// Mirrors create_booking_charges
+export function splitDeposit(total: number, depositPercent: number) {
+  const deposit = Math.round(total * depositPercent) / 100;
+  return { deposit, balance: Math.round((total - deposit) * 100) / 100 };
+}
+
+export function isPixExpired(payment: Payment, now = new Date()) {
+  return !!payment.pix_expires_at && new Date(payment.pix_expires_at) <= now;
+}
+
+export function formatPaymentTime(date: string) {
+  return new Date(date).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function describePayment(payment: Payment) {
+  const method =
+    payment.method === 'card' && payment.card_last4
+      ? `${payment.card_brand || 'Cartão'} •••• ${payment.card_last4}`
+      : PAYMENT_METHOD_LABELS[payment.method];
+  return `${method} • ${formatCurrency(Number(payment.amount))}`;
+}
+
+export interface CardDetails {
+  number: string;
+  holder: string;
+  // MM/AA
+  expiry: string;
+  cvc: string;
+}
+
+export interface CardToken {
+  token: string;
+  brand: string;
+  last4: string;
+}
+
+// Turns card details into a single-use gateway token on the device, so the
+// number and CVC never reach our servers.
+export interface CardTokenizer {
+  tokenize(card: CardDetails): Promise<CardToken>;
+}
+
+const CARD_BRANDS: Array<{ brand: string; pattern: RegExp }> = [
+  { brand: 'Elo', pattern: /^(4011|4312|4389|4514|4576|5041|5066|5067|509|6277|6362|6363|650|6516|6550)/ },
+  { brand: 'Amex', pattern: /^3[47]/ },
+  { brand: 'Hipercard', pattern: /^(606282|3841)/ },
+  { brand: 'Visa', pattern: /^4/ },
+  { brand: 'Mastercard', pattern: /^(5[1-5]|2[2-7])/ },
+];
+
+export function cardDigits(number: string) {
+  return number.replace(/\D/g, '');
+}
+
+export function detectCardBrand(number: string) {
+  const digits = cardDigits(number);
+  return CARD_BRANDS.find(({ pattern }) => pattern.test(digits))?.brand || null;
+}
+
+function passesLuhn(digits: string) {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Problems with the card details, keyed by field; empty when it looks valid
+export function validateCard(card: CardDetails, now = new Date()) {
+  const errors: Partial<Record<keyof CardDetails, string>> = {};
+  const digits = cardDigits(card.number);
+
+  if (digits.length < 13 || digits.length > 19 || !passesLuhn(digits)) {
+    errors.number = 'Número de cartão inválido';
+  }
+  if (!card.holder.trim()) {
+    errors.holder = 'Informe o nome impresso no cartão';
+  }
+
+  const [month, year] = card.expiry.split('/').map(Number);
+  const expiresAt = new Date(2000 + year, month, 1);
+  if (!month || month > 12 || !year || expiresAt <= now) {
+    errors.expiry = 'Validade inválida';
+  }
+  if (!/^\d{3,4}$/.test(card.cvc)) {
+    errors.cvc = 'CVV inválido';
+  }
+
+  return errors;
+}
+
+// Test cards for the mock gateway: any valid number is approved except
+// this one, which is declined.
+export const MOCK_DECLINED_CARD = '4000000000000002';
+
+// Stands in for the gateway's SDK until a real gateway is configured
+const mockCardTokenizer: CardTokenizer = {
+  async tokenize(card) {
+    const digits = cardDigits(card.number);
+    const last4 = digits.slice(-4);
+    const brand = detectCardBrand(digits) || 'Cartão';
+    const nonce = Math.random().toString(36).substring(2, 10);
+    return {
+      token: `tok_mock_${nonce}${digits === MOCK_DECLINED_CARD ? '_declined' : ''}`,
+      brand,
+      last4,
+    };
+  },
+};
+
+export const cardTokenizer: CardTokenizer = mockCardTokenizer;
+
+// The payments function answers errors as { error: { code, message, details } },
+// keeping the database's SQLSTATE when there is one
+async function invokePayments<T>(route: string, body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke(`payments/${route}`, {
+    body,
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response = await error.context.json().catch(() => null);
+      if (response?.error?.code) {
+        throw toBookingError(response.error);
+      }
+    }
+    throw new BookingError('unknown', error.message);
+  }
+
+  return data as T;
+}
+
+export function payWithPix(bookingId: string) {
+  return invokePayments<Payment>('charge', {
+    booking_id: bookingId,
+    method: 'pix',
+  });
+}
+
+export async function payWithCard(bookingId: string, card: CardDetails) {
+  const token = await cardTokenizer.tokenize(card);
+  return invokePayments<Payment>('charge', {
+    booking_id: bookingId,
+    method: 'card',
+    card: token,
+  });
+}
+
+// The professional records a charge the client paid them directly
+export async function settleChargeOffApp(chargeId: string) {
+  const { data, error } = await supabase.rpc('settle_charge_off_app', {
+    p_charge_id: chargeId,
+  });
+
+  if (error) {
+    throw toBookingError(error);
+  }
+
+  return data as BookingCharge;
+}
+
+// Development only: settles a charge as if the payer's bank had confirmed it
+export function simulatePayment(paymentId: string, status: PaymentStatus = 'paid') {
+  return invokePayments<Payment>('simulate', {
+    payment_id: paymentId,
+    status,
+  });
+}
+
+export interface PaymentHistoryEntry extends Payment {
+  bookings?: {
+    event_date: string;
+    services?: {
+      title: string;
+    };
+  };
+}
+
+export async function fetchPaymentHistory(
+  payerId: string
+): Promise<PaymentHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('payments')
+    .select(`
+      *,
+      bookings (
+        event_date,
+        services (
+          title
+        )
+      )
+    `)
+    .eq('payer_id', payerId)
+    .neq('status', 'expired')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
@@ -0,0 +1,261 @@
+import { supabase } from '@/lib/supabase';
+import { toDateKey } from '@/lib/availability';
+
+export interface PriceTier {
+  min_guests: number;
+  price_per_guest: number;
+}
+
+// The service columns the pricing engine reads
+export interface PricingRules {
+  price_from: number;
+  price_to?: number;
+  max_guests: number;
+  base_fee: number;
+  price_per_guest: number;
+  minimum_charge: number;
+  weekend_surcharge_percent: number;
+  holiday_surcharge_percent: number;
+  service_price_tiers?: PriceTier[];
+}
+
+// Select fragment for the pricing columns of a service
+export const PRICING_SELECT = `
+  price_from,
+  price_to,
+  max_guests,
+  base_fee,
+  price_per_guest,
+  minimum_charge,
+  weekend_surcharge_percent,
+  holiday_surcharge_percent,
+  service_price_tiers (
+    min_guests,
+    price_per_guest
+  )
+`;
+
+// Guest count the service cards quote a price for
+export const DEFAULT_GUEST_COUNT = 30;
+
+export type Surcharge = 'weekend' | 'holiday';
+
+export interface PriceBreakdown {
+  guests: number;
+  baseFee: number;
+  perGuest: number;
+  guestsAmount: number;
+  // Set when the minimum charge raised the subtotal
+  minimumApplied: boolean;
+  subtotal: number;
+  surcharge: Surcharge | null;
+  surchargePercent: number;
+  surchargeAmount: number;
+  total: number;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function hasPricingRules(rules: PricingRules) {
+  return (
+    rules.base_fee > 0 ||
+    rules.price_per_guest > 0 ||
+    (rules.service_price_tiers?.length ?? 0) > 0
+  );
+}
+
+// Tiers apply to every guest once the event reaches their min_guests
+export function pricePerGuest(rules: PricingRules, guests: number) {
+  const tier = [...(rules.service_price_tiers || [])]
+    .sort((a, b) => b.min_guests - a.min_guests)
+    .find((candidate) => guests >= candidate.min_guests);
+  return tier ? tier.price_per_guest : rules.price_per_guest;
+}
+
+// Holidays take precedence over weekends; the two never add up.
+export function getSurcharge(
+  rules: PricingRules,
+  date?: string,
+  holidays?: Set<string>
+): { surcharge: Surcharge | null; percent: number } {
+  if (!date) {
+    return { surcharge: null, percent: 0 };
+  }
+
+  if (holidays?.has(date) && rules.holiday_surcharge_percent > 0) {
+    return { surcharge: 'holiday', percent: rules.holiday_surcharge_percent };
+  }
+
+  const weekday = new Date(`${date}T00:00:00`).getDay();
+  if ((weekday === 0 || weekday === 6) && rules.weekend_surcharge_percent > 0) {
+    return { surcharge: 'weekend', percent: rules.weekend_surcharge_percent };
+  }
+
+  return { surcharge: null, percent: 0 };
+}
+
+// Price of an event for the given number of guests on the given date
+// ("YYYY-MM-DD"; no surcharge when omitted). Services without pricing rules
+// scale linearly inside their price range by how much of max_guests the
+// event uses.
+export function calculatePrice(
+  rules: PricingRules,
+  guests: number,
+  date?: string,
+  holidays?: Set<string>
+): PriceBreakdown {
+  const { surcharge, percent } = getSurcharge(rules, date, holidays);
+
+  if (!hasPricingRules(rules)) {
+    const { price_from, price_to, max_guests } = rules;
+    const ratio =
+      price_to && price_to > price_from && max_guests > 0
+        ? Math.min(guests / max_guests, 1)
+        : 0;
+    const subtotal = Math.round(price_from + ((price_to || price_from) - price_from) * ratio);
+    const surchargeAmount = roundCurrency((subtotal * percent) / 100);
+
+    return {
+      guests,
+      baseFee: 0,
+      perGuest: 0,
+      guestsAmount: 0,
+      minimumApplied: false,
+      subtotal,
+      surcharge,
+      surchargePercent: percent,
+      surchargeAmount,
+      total: roundCurrency(subtotal + surchargeAmount),
+    };
+  }
+
+  const perGuest = pricePerGuest(rules, guests);
+  const guestsAmount = roundCurrency(perGuest * guests);
+  const rawSubtotal = roundCurrency(rules.base_fee + guestsAmount);
+  const minimumApplied = rawSubtotal < rules.minimum_charge;
+  const subtotal = minimumApplied ? rules.minimum_charge : rawSubtotal;
+  const surchargeAmount = roundCurrency((subtotal * percent) / 100);
+
+  return {
+    guests,
+    baseFee: rules.base_fee,
+    perGuest,
+    guestsAmount,
+    minimumApplied,
+    subtotal,
+    surcharge,
+    surchargePercent: percent,
+    surchargeAmount,
+    total: roundCurrency(subtotal + surchargeAmount),
+  };
+}
+
+// Cheapest and most expensive events the rules allow, from one guest on a
+// weekday up to max_guests with the highest surcharge.
+export function calculatePriceRange(rules: PricingRules) {
+  const maxSurcharge = Math.max(
+    rules.weekend_surcharge_percent,
+    rules.holiday_surcharge_percent
+  );
+  let min = Infinity;
+  let max = 0;
+
+  for (let guests = 1; guests <= Math.max(rules.max_guests, 1); guests++) {
+    const { subtotal } = calculatePrice(rules, guests);
+    min = Math.min(min, subtotal);
+    max = Math.max(max, roundCurrency(subtotal * (1 + maxSurcharge / 100)));
+  }
+
+  return { min, max };
+}
+
+export function formatCurrency(value: number) {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+}
+
+// "R$ X para N pessoas", for DEFAULT_GUEST_COUNT guests or the service's
+// maximum when that is lower
+export function formatServicePrice(rules: PricingRules, guests?: number) {
+  const count = guests ?? Math.min(DEFAULT_GUEST_COUNT, rules.max_guests);
+  const { total } = calculatePrice(rules, count);
+  return `${formatCurrency(total)} para ${count} ${count === 1 ? 'pessoa' : 'pessoas'}`;
+}
+
+export const SURCHARGE_LABELS: Record<Surcharge, string> = {
+  weekend: 'Acréscimo de fim de semana',
+  holiday: 'Acréscimo de feriado',
+};
+
+// One line per rule, for the service page and the service form
+export function describePricingRules(rules: PricingRules) {
+  if (!hasPricingRules(rules)) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  if (rules.base_fee > 0) {
+    lines.push(`Taxa base de ${formatCurrency(rules.base_fee)}`);
+  }
+  if (rules.price_per_guest > 0) {
+    lines.push(`${formatCurrency(rules.price_per_guest)} por pessoa`);
+  }
+  [...(rules.service_price_tiers || [])]
+    .sort((a, b) => a.min_guests - b.min_guests)
+    .forEach((tier) => {
+      lines.push(
+        `${formatCurrency(tier.price_per_guest)} por pessoa a partir de ${tier.min_guests} pessoas`
+      );
+    });
+  if (rules.minimum_charge > 0) {
+    lines.push(`Valor mínimo de ${formatCurrency(rules.minimum_charge)}`);
+  }
+  if (rules.weekend_surcharge_percent > 0) {
+    lines.push(`+${rules.weekend_surcharge_percent}% aos sábados e domingos`);
+  }
+  if (rules.holiday_surcharge_percent > 0) {
+    lines.push(`+${rules.holiday_surcharge_percent}% em feriados nacionais`);
+  }
+  return lines;
+}
+
+export async function fetchServicePricing(
+  serviceIds: string[]
+): Promise<Record<string, PricingRules>> {
+  if (serviceIds.length === 0) {
+    return {};
+  }
+
+  const { data, error } = await supabase
+    .from('services')
+    .select(`id, ${PRICING_SELECT}`)
+    .in('id', serviceIds);
+
+  if (error) {
+    throw error;
+  }
+
+  const pricing: Record<string, PricingRules> = {};
+  (data || []).forEach((row: PricingRules & { id: string }) => {
+    const { id, ...rules } = row;
+    pricing[id] = rules;
+  });
+  return pricing;
+}
+
+// Holiday dates ("YYYY-MM-DD") between two dates, inclusive
+export async function fetchHolidays(from: Date, to: Date) {
+  const { data, error } = await supabase
+    .from('holidays')
+    .select('holiday_date')
+    .gte('holiday_date', toDateKey(from))
+    .lte('holiday_date', toDateKey(to));
+
+  if (error) {
+    throw error;
+  }
+
+  return new Set((data || []).map((holiday) => holiday.holiday_date));
+}
@@ -0,0 +1,109 @@
+import { supabase, Database } from '@/lib/supabase';
+import { toBookingError } from '@/lib/bookings';
+
+type QuoteRow = Database['public']['Tables']['booking_quotes']['Row'];
+
+export type QuoteItem =
+  Database['public']['Tables']['booking_quote_items']['Row'];
+
+export type QuoteItemCategory = QuoteItem['category'];
+
+export interface Quote extends QuoteRow {
+  booking_quote_items?: QuoteItem[];
+}
+
+export const QUOTE_ITEM_CATEGORIES: QuoteItemCategory[] = [
+  'meat',
+  'labor',
+  'travel',
+  'extras',
+];
+
+export const QUOTE_ITEM_CATEGORY_LABELS: Record<QuoteItemCategory, string> = {
+  meat: 'Carnes',
+  labor: 'Mão de obra',
+  travel: 'Deslocamento',
+  extras: 'Extras',
+};
+
+// Validity options offered when sending a quote, in days
+export const QUOTE_VALIDITY_DAYS = [1, 3, 7];
+
+// Select fragment for embedding a booking's quotes next to it
+export const BOOKING_QUOTES_SELECT = `
+  booking_quotes (
+    *,
+    booking_quote_items (*)
+  )
+`;
+
+export function findLatestQuote(quotes?: Quote[]) {
+  return quotes?.reduce<Quote | undefined>(
+    (latest, quote) =>
+      !latest || quote.created_at > latest.created_at ? quote : latest,
+    undefined
+  );
+}
+
+export function isQuoteExpired(quote: Quote, now = new Date()) {
+  return new Date(quote.expires_at) <= now;
+}
+
+// The quote expires after the given number of days, but never after the
+// event starts.
+export function quoteExpiry(
+  days: number,
+  booking: { event_date: string; event_time: string },
+  now = new Date()
+) {
+  const expiresAt = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+  const eventStart = new Date(`${booking.event_date}T${booking.event_time}`);
+  return expiresAt < eventStart ? expiresAt : eventStart;
+}
+
+export function formatQuoteExpiry(expiresAt: string | Date) {
+  return new Date(expiresAt).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export async function sendQuote(
+  bookingId: string,
+  items: Pick<QuoteItem, 'category' | 'description' | 'amount'>[],
+  expiresAt: Date
+) {
+  const { data, error } = await supabase.rpc('send_quote', {
+    p_booking_id: bookingId,
+    p_items: items,
+    p_expires_at: expiresAt.toISOString(),
+  });
+
+  if (error) {
+    throw toBookingError(error);
+  }
+
+  return data as QuoteRow;
+}
+
+export async function approveQuote(quoteId: string) {
+  const { error } = await supabase.rpc('approve_quote', {
+    p_quote_id: quoteId,
+  });
+
+  if (error) {
+    throw toBookingError(error);
+  }
+}
+
+export async function declineQuote(quoteId: string) {
+  const { error } = await supabase.rpc('decline_quote', {
+    p_quote_id: quoteId,
+  });
+
+  if (error) {
+    throw toBookingError(error);
+  }
+}
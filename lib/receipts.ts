@@ -0,0 +1,389 @@
+import { Platform } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { supabase, Database } from '@/lib/supabase';
+import { toBookingError } from '@/lib/bookings';
+import { BookingLineItem, formatLineItem } from '@/lib/addons';
+import {
+  BookingCharge,
+  Payment,
+  PAYMENT_STATUS_LABELS,
+  PAYMENTS_SELECT,
+  amountPaid,
+  describeCharge,
+  describePayment,
+} from '@/lib/payments';
+import { formatCurrency } from '@/lib/pricing';
+import {
+  BOOKING_QUOTES_SELECT,
+  Quote,
+  QUOTE_ITEM_CATEGORY_LABELS,
+} from '@/lib/quotes';
+
+export type Receipt = Database['public']['Tables']['receipts']['Row'];
+
+export interface ReceiptBooking {
+  status: string;
+  event_date: string;
+  event_time: string;
+  location: string;
+  guests_count: number;
+  total_price: number;
+  cancelled_at?: string | null;
+  refund_amount?: number | null;
+  services?: {
+    title: string;
+  };
+  booking_line_items?: BookingLineItem[];
+  booking_quotes?: Quote[];
+  booking_charges?: BookingCharge[];
+  payments?: Payment[];
+}
+
+export interface ReceiptData extends Receipt {
+  bookings: ReceiptBooking;
+}
+
+export function taxIdDigits(taxId: string) {
+  return taxId.replace(/\D/g, '');
+}
+
+// 12345678909 -> 123.456.789-09, 11222333000181 -> 11.222.333/0001-81;
+// partial input is formatted as far as it goes
+export function formatTaxId(taxId: string) {
+  const digits = taxIdDigits(taxId).substring(0, 14);
+  if (digits.length <= 11) {
+    return digits
+      .replace(/(\d{3})(\d)/, '$1.$2')
+      .replace(/(\d{3})(\d)/, '$1.$2')
+      .replace(/(\d{3})(\d{1,2})$/, '$1-$2');
+  }
+  return digits
+    .replace(/(\d{2})(\d)/, '$1.$2')
+    .replace(/(\d{3})(\d)/, '$1.$2')
+    .replace(/(\d{3})(\d)/, '$1/$2')
+    .replace(/(\d{4})(\d{1,2})$/, '$1-$2');
+}
+
+// Check digit over the leading digits, with the CPF/CNPJ weights
+function checkDigit(digits: string, weights: number[]) {
+  const sum = weights.reduce(
+    (total, weight, i) => total + weight * Number(digits[i]),
+    0
+  );
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+function passesCheckDigits(digits: string) {
+  // 000.000.000-00 and the like pass the arithmetic but aren't issued
+  if (/^(\d)\1+$/.test(digits)) {
+    return false;
+  }
+
+  if (digits.length === 11) {
+    const first = checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+    const second = checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+    return first === Number(digits[9]) && second === Number(digits[10]);
+  }
+
+  const first = checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[12]) && second === Number(digits[13]);
+}
+
+// Problem with a CPF or CNPJ, or null when it looks valid
+export function validateTaxId(taxId: string) {
+  const digits = taxIdDigits(taxId);
+  if (digits.length !== 11 && digits.length !== 14) {
+    return 'Informe um CPF (11 dígitos) ou CNPJ (14 dígitos)';
+  }
+  if (!passesCheckDigits(digits)) {
+    return digits.length === 11 ? 'CPF inválido' : 'CNPJ inválido';
+  }
+  return null;
+}
+
+export async function fetchTaxId(profileId: string) {
+  const { data, error } = await supabase
+    .from('billing_details')
+    .select('tax_id')
+    .eq('profile_id', profileId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.tax_id ?? null;
+}
+
+export async function saveTaxId(profileId: string, taxId: string) {
+  const { error } = await supabase.from('billing_details').upsert({
+    profile_id: profileId,
+    tax_id: taxIdDigits(taxId),
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Paid or completed bookings have a receipt; issue_receipt has the final say
+export function canIssueReceipt(booking: {
+  status: string;
+  payments?: Pick<Payment, 'status' | 'amount'>[];
+}) {
+  return booking.status === 'completed' || amountPaid(booking.payments) > 0;
+}
+
+export function formatReceiptNumber(number: number) {
+  return String(number).padStart(4, '0');
+}
+
+export async function fetchReceipt(bookingId: string): Promise<ReceiptData> {
+  const { data: issued, error: issueError } = await supabase.rpc(
+    'issue_receipt',
+    { p_booking_id: bookingId }
+  );
+
+  if (issueError) {
+    throw toBookingError(issueError);
+  }
+
+  const { data, error } = await supabase
+    .from('receipts')
+    .select(`
+      *,
+      bookings (
+        status,
+        event_date,
+        event_time,
+        location,
+        guests_count,
+        total_price,
+        cancelled_at,
+        refund_amount,
+        services (
+          title
+        ),
+        booking_line_items (*),
+        ${BOOKING_QUOTES_SELECT},
+        ${PAYMENTS_SELECT}
+      )
+    `)
+    .eq('id', (issued as Receipt).id)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatReceiptDate = (date: string) =>
+  new Date(date.length === 10 ? `${date}T00:00:00` : date).toLocaleDateString(
+    'pt-BR'
+  );
+
+const describeParty = (name: string, taxId?: string) => {
+  const digits = taxId ? taxIdDigits(taxId) : '';
+  const label = digits.length === 14 ? 'CNPJ' : 'CPF';
+  return `${escapeHtml(name)}<br><span class="muted">${label}: ${
+    digits ? formatTaxId(digits) : 'não informado'
+  }</span>`;
+};
+
+const row = (label: string, amount: string, className = '') =>
+  `<tr class="${className}"><td>${label}</td><td class="amount">${amount}</td></tr>`;
+
+// Self-contained HTML for the receipt; expo-print lays it out as a PDF on
+// the device, so it has no network dependencies
+export function renderReceiptHtml(receipt: ReceiptData, now = new Date()) {
+  const booking = receipt.bookings;
+  const service = booking.services?.title || 'Serviço de Churrasco';
+  const lineItems = booking.booking_line_items || [];
+  const payments = (booking.payments || [])
+    .filter((payment) => payment.status === 'paid' || payment.status === 'refunded')
+    .sort((a, b) => (a.paid_at || a.created_at).localeCompare(b.paid_at || b.created_at));
+  const total = Number(booking.total_price);
+  const paidInApp = amountPaid(payments);
+  // Charges the professional recorded as paid to them directly
+  const offAppCharges = (booking.booking_charges || [])
+    .filter((charge) => charge.status === 'paid' && charge.settled_off_app)
+    .sort((a, b) => (a.paid_at || a.created_at).localeCompare(b.paid_at || b.created_at));
+  const paidDirectly = offAppCharges.reduce(
+    (sum, charge) => sum + Number(charge.amount),
+    0
+  );
+  const refunded =
+    booking.status === 'cancelled'
+      ? Math.min(Number(booking.refund_amount || 0), paidInApp)
+      : 0;
+  const received = paidInApp + paidDirectly - refunded;
+
+  // An approved quote replaced the requested price, add-ons included
+  const quote = booking.booking_quotes?.find(
+    (bookingQuote) => bookingQuote.status === 'approved'
+  );
+  const priceRows = quote
+    ? (quote.booking_quote_items || []).map((item) =>
+        row(
+          escapeHtml(
+            `${QUOTE_ITEM_CATEGORY_LABELS[item.category]}${
+              item.description ? ` • ${item.description}` : ''
+            }`
+          ),
+          formatCurrency(Number(item.amount))
+        )
+      )
+    : [
+        row(
+          escapeHtml(service),
+          formatCurrency(
+            total - lineItems.reduce((sum, item) => sum + Number(item.amount), 0)
+          )
+        ),
+        ...lineItems.map((item) =>
+          row(escapeHtml(formatLineItem(item)), formatCurrency(Number(item.amount)))
+        ),
+      ];
+
+  const itemRows = [
+    ...priceRows,
+    row('<strong>Total</strong>', `<strong>${formatCurrency(total)}</strong>`, 'total'),
+  ].join('');
+
+  const paymentRows = [
+    ...payments.map((payment) =>
+      row(
+        `${formatReceiptDate(payment.paid_at || payment.created_at)} • ${escapeHtml(
+          describePayment(payment)
+        )}${
+          payment.status === 'refunded'
+            ? ` (${PAYMENT_STATUS_LABELS.refunded.toLowerCase()})`
+            : ''
+        }`,
+        formatCurrency(payment.status === 'refunded' ? 0 : Number(payment.amount))
+      )
+    ),
+    ...offAppCharges.map((charge) =>
+      row(
+        `${formatReceiptDate(charge.paid_at || charge.created_at)} • ${escapeHtml(
+          describeCharge(charge)
+        )}`,
+        formatCurrency(Number(charge.amount))
+      )
+    ),
+    refunded > 0
+      ? row(
+          `${formatReceiptDate(booking.cancelled_at!)} • Reembolso do cancelamento`,
+          formatCurrency(-refunded)
+        )
+      : '',
+  ].join('') || row('Nenhum pagamento registrado', formatCurrency(0));
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>Recibo nº ${formatReceiptNumber(receipt.number)}</title>
+<style>
+  @page { size: A4; margin: 24mm 18mm; }
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 12px; color: #1c1b1f; }
+  h1 { font-size: 20px; margin: 0; }
+  h2 { font-size: 13px; margin: 20px 0 6px; text-transform: uppercase; color: #d32f2f; }
+  .header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 2px solid #d32f2f; padding-bottom: 8px; }
+  .parties { display: flex; gap: 24px; }
+  .parties div { flex: 1; }
+  .muted { color: #6b6b6b; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 6px 0; border-bottom: 1px solid #e0e0e0; }
+  .amount { text-align: right; white-space: nowrap; }
+  .total td { border-bottom: none; border-top: 2px solid #1c1b1f; }
+  .statement { margin-top: 24px; line-height: 1.6; }
+  .footer { margin-top: 48px; font-size: 10px; }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Recibo</h1>
+      <span class="muted">ChurrasJa</span>
+    </div>
+    <div class="amount">
+      <strong>Nº ${formatReceiptNumber(receipt.number)}</strong><br>
+      <span class="muted">Emitido em ${formatReceiptDate(receipt.issued_at)}</span>
+    </div>
+  </div>
+
+  <div class="parties">
+    <div>
+      <h2>Prestador</h2>
+      ${describeParty(receipt.professional_name, receipt.professional_tax_id)}
+    </div>
+    <div>
+      <h2>Cliente</h2>
+      ${describeParty(receipt.client_name, receipt.client_tax_id)}
+    </div>
+  </div>
+
+  <h2>Serviço</h2>
+  <p>
+    ${escapeHtml(service)} em ${formatReceiptDate(booking.event_date)} às ${booking.event_time.substring(0, 5)}<br>
+    <span class="muted">${escapeHtml(booking.location)} • ${booking.guests_count} pessoas</span>
+  </p>
+  <table>${itemRows}</table>
+
+  <h2>Pagamentos</h2>
+  <table>
+    ${paymentRows}
+    ${row('<strong>Total recebido</strong>', `<strong>${formatCurrency(received)}</strong>`, 'total')}
+    ${
+      booking.status !== 'cancelled' && received < total
+        ? row('Saldo a receber', formatCurrency(total - received))
+        : ''
+    }
+  </table>
+
+  <p class="statement">
+    Recebi de ${escapeHtml(receipt.client_name)} a importância de
+    <strong>${formatCurrency(received)}</strong>, referente ao serviço
+    descrito acima.
+  </p>
+
+  <p class="footer muted">
+    Documento gerado pelo ChurrasJa em ${now.toLocaleString('pt-BR')}.
+    Este recibo não substitui a nota fiscal.
+  </p>
+</body>
+</html>`;
+}
+
+// Renders the receipt to a PDF and opens the share sheet, where it can be
+// saved or sent. On the web the browser's print dialog saves the PDF.
+export async function shareReceipt(bookingId: string) {
+  const receipt = await fetchReceipt(bookingId);
+  const html = renderReceiptHtml(receipt);
+
+  if (Platform.OS === 'web') {
+    await Print.printAsync({ html });
+    return;
+  }
+
+  const { uri } = await Print.printToFileAsync({ html });
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/pdf',
+    UTI: 'com.adobe.pdf',
+    dialogTitle: `Recibo nº ${formatReceiptNumber(receipt.number)}`,
+  });
+}
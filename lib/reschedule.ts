@@ -0,0 +1,101 @@
+import { supabase, Database } from '@/lib/supabase';
+import { toBookingError } from '@/lib/bookings';
+
+export type RescheduleRequest =
+  Database['public']['Tables']['reschedule_requests']['Row'];
+
+// Select fragment for embedding a booking's proposals next to it
+export const RESCHEDULE_REQUESTS_SELECT = `
+  reschedule_requests (
+    id,
+    booking_id,
+    proposed_by,
+    event_date,
+    event_time,
+    status,
+    counter_of,
+    responded_at,
+    created_at
+  )
+`;
+
+// A booking has at most one proposal waiting for an answer
+export function findOpenRescheduleRequest(requests?: RescheduleRequest[]) {
+  return requests?.find((request) => request.status === 'pending');
+}
+
+// Inserts or replaces a proposal in a booking's list, e.g. from realtime
+export function mergeRescheduleRequest(
+  requests: RescheduleRequest[] | undefined,
+  request: RescheduleRequest
+) {
+  return [
+    ...(requests || []).filter((existing) => existing.id !== request.id),
+    request,
+  ];
+}
+
+export function formatRescheduleDate(request: {
+  event_date: string;
+  event_time: string;
+}) {
+  return `${new Date(`${request.event_date}T00:00:00`).toLocaleDateString(
+    'pt-BR'
+  )} às ${request.event_time.substring(0, 5)}`;
+}
+
+export function describeReschedule(
+  booking: { event_date: string; event_time: string },
+  title?: string
+) {
+  return `Agendamento${title ? ` de ${title}` : ''} remarcado para ${formatRescheduleDate(
+    booking
+  )}.`;
+}
+
+export async function requestReschedule(
+  bookingId: string,
+  eventDate: string,
+  eventTime: string
+) {
+  const { data, error } = await supabase.rpc('request_reschedule', {
+    p_booking_id: bookingId,
+    p_event_date: eventDate,
+    p_event_time: eventTime,
+  });
+
+  if (error) {
+    throw toBookingError(error);
+  }
+
+  return data as RescheduleRequest;
+}
+
+export async function respondToReschedule(requestId: string, accept: boolean) {
+  const { error } = await supabase.rpc('respond_to_reschedule', {
+    p_request_id: requestId,
+    p_accept: accept,
+  });
+
+  if (error) {
+    throw toBookingError(error);
+  }
+}
+
+export async function counterReschedule(
+  requestId: string,
+  eventDate: string,
+  eventTime: string
+) {
+  const { data, error } = await supabase.rpc('counter_reschedule', {
+    p_request_id: requestId,
+    p_event_date: eventDate,
+    p_event_time: eventTime,
+  });
+
+  if (error) {
+    throw toBookingError(error);
+  }
+
+  return data as RescheduleRequest;
+}
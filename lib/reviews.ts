@@ -0,0 +1,68 @@
+import { supabase } from '@/lib/supabase';
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+}
+
+export const EMPTY_RATING: RatingSummary = { average: 0, count: 0 };
+
+export async function fetchProfessionalRating(
+  professionalId: string
+): Promise<RatingSummary> {
+  const { data, error } = await supabase
+    .from('professional_ratings')
+    .select('average_rating, review_count')
+    .eq('professional_id', professionalId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return EMPTY_RATING;
+  }
+
+  return {
+    average: Number(data.average_rating),
+    count: Number(data.review_count),
+  };
+}
+
+export async function fetchServiceRatings(
+  serviceIds: string[]
+): Promise<Record<string, RatingSummary>> {
+  if (serviceIds.length === 0) {
+    return {};
+  }
+
+  const { data, error } = await supabase
+    .from('service_ratings')
+    .select('service_id, average_rating, review_count')
+    .in('service_id', serviceIds);
+
+  if (error) {
+    throw error;
+  }
+
+  const ratings: Record<string, RatingSummary> = {};
+  (data || []).forEach((row) => {
+    ratings[row.service_id] = {
+      average: Number(row.average_rating),
+      count: Number(row.review_count),
+    };
+  });
+  return ratings;
+}
+
+export function formatRating(rating?: RatingSummary) {
+  if (!rating || rating.count === 0) {
+    return 'Novo';
+  }
+  return rating.average.toFixed(1);
+}
+
+export function formatReviewCount(count: number) {
+  return count === 1 ? '1 avaliação' : `${count} avaliações`;
+}
@@ -0,0 +1,137 @@
+import { supabase, Database } from '@/lib/supabase';
+import { RatingSummary } from '@/lib/reviews';
+import { Coordinates } from '@/lib/location';
+import { toDateKey } from '@/lib/availability';
+import { PricingRules, fetchServicePricing } from '@/lib/pricing';
+
+export type SearchSort = NonNullable<
+  Database['public']['Functions']['search_services']['Args']['p_sort']
+>;
+
+export const SEARCH_SORT_LABELS: Record<SearchSort, string> = {
+  relevance: 'Relevância',
+  price: 'Menor preço',
+  rating: 'Melhor avaliados',
+  newest: 'Mais recentes',
+};
+
+type SearchServicesRow =
+  Database['public']['Functions']['search_services']['Returns'][number];
+
+export const SEARCH_PAGE_SIZE = 20;
+
+// Position of the last row of a page; pass it back to fetch the next one.
+export interface SearchCursor {
+  key: number;
+  id: string;
+}
+
+export interface ServiceSearchResult {
+  id: string;
+  title: string;
+  description: string;
+  price_from: number;
+  price_to?: number;
+  location: string;
+  max_guests: number;
+  distance_km?: number;
+  profiles: {
+    full_name: string;
+    avatar_url?: string;
+  };
+  rating: RatingSummary;
+  pricing: PricingRules;
+}
+
+export interface SearchServicesParams {
+  query?: string;
+  sort: SearchSort;
+  minPrice?: number;
+  maxPrice?: number;
+  // Distances are computed from here; radiusKm also drops anything farther.
+  coordinates?: Coordinates | null;
+  radiusKm?: number;
+  // Only services with an open slot on this day, starting after availableAfter
+  // ("HH:MM", local time) when given.
+  availableOn?: Date | null;
+  availableAfter?: string;
+  cursor?: SearchCursor | null;
+}
+
+export interface SearchServicesPage {
+  services: ServiceSearchResult[];
+  total: number;
+  nextCursor: SearchCursor | null;
+}
+
+export async function searchServices({
+  query,
+  sort,
+  minPrice,
+  maxPrice,
+  coordinates,
+  radiusKm,
+  availableOn,
+  availableAfter,
+  cursor,
+}: SearchServicesParams): Promise<SearchServicesPage> {
+  const { data, error } = await supabase.rpc('search_services', {
+    p_query: query?.trim() || null,
+    p_sort: sort,
+    p_min_price: minPrice ?? null,
+    p_max_price: maxPrice ?? null,
+    p_latitude: coordinates?.latitude ?? null,
+    p_longitude: coordinates?.longitude ?? null,
+    p_radius_km: radiusKm ?? null,
+    p_available_on: availableOn ? toDateKey(availableOn) : null,
+    p_available_after: availableAfter ?? null,
+    p_after_key: cursor?.key ?? null,
+    p_after_id: cursor?.id ?? null,
+    p_limit: SEARCH_PAGE_SIZE,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows: SearchServicesRow[] = data || [];
+  const last = rows[rows.length - 1];
+  // The search RPC only returns the price range; the cards quote with the
+  // full rules.
+  const pricing = await fetchServicePricing(rows.map((row) => row.id));
+
+  return {
+    services: rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      price_from: row.price_from,
+      price_to: row.price_to,
+      location: row.location,
+      max_guests: row.max_guests,
+      distance_km: row.distance_km ?? undefined,
+      profiles: {
+        full_name: row.professional_name,
+        avatar_url: row.professional_avatar_url,
+      },
+      rating: {
+        average: Number(row.average_rating ?? 0),
+        count: Number(row.review_count),
+      },
+      pricing: pricing[row.id] ?? {
+        price_from: row.price_from,
+        price_to: row.price_to,
+        max_guests: row.max_guests,
+        base_fee: 0,
+        price_per_guest: 0,
+        minimum_charge: 0,
+        weekend_surcharge_percent: 0,
+        holiday_surcharge_percent: 0,
+      },
+    })),
+    // Every row carries the count of all matches, not just this page.
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    nextCursor:
+      rows.length === SEARCH_PAGE_SIZE ? { key: last.sort_key, id: last.id } : null,
+  };
+}
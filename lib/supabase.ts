@@ -17,6 +17,11 @@ export type Database = {
           phone?: string;
           avatar_url?: string;
           location?: string;
+          max_events_per_day: number;
+          travel_buffer_minutes: number;
+          latitude?: number;
+          longitude?: number;
+          cancellation_policy: 'flexible' | 'moderate' | 'strict';
           created_at: string;
           updated_at: string;
         };
@@ -28,6 +33,11 @@ export type Database = {
           phone?: string;
           avatar_url?: string;
           location?: string;
+          max_events_per_day?: number;
+          travel_buffer_minutes?: number;
+          latitude?: number | null;
+          longitude?: number | null;
+          cancellation_policy?: 'flexible' | 'moderate' | 'strict';
           created_at?: string;
           updated_at?: string;
         };
@@ -39,6 +49,11 @@ export type Database = {
           phone?: string;
           avatar_url?: string;
           location?: string;
+          max_events_per_day?: number;
+          travel_buffer_minutes?: number;
+          latitude?: number | null;
+          longitude?: number | null;
+          cancellation_policy?: 'flexible' | 'moderate' | 'strict';
           created_at?: string;
           updated_at?: string;
         };
@@ -55,6 +70,15 @@ export type Database = {
           max_guests: number;
           location: string;
           images: string[];
+          latitude?: number;
+          longitude?: number;
+          cancellation_policy?: 'flexible' | 'moderate' | 'strict';
+          base_fee: number;
+          price_per_guest: number;
+          minimum_charge: number;
+          weekend_surcharge_percent: number;
+          holiday_surcharge_percent: number;
+          deposit_percent: number;
           created_at: string;
           updated_at: string;
         };
@@ -69,6 +93,15 @@ export type Database = {
           max_guests: number;
           location: string;
           images?: string[];
+          latitude?: number | null;
+          longitude?: number | null;
+          cancellation_policy?: 'flexible' | 'moderate' | 'strict' | null;
+          base_fee?: number;
+          price_per_guest?: number;
+          minimum_charge?: number;
+          weekend_surcharge_percent?: number;
+          holiday_surcharge_percent?: number;
+          deposit_percent?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -83,6 +116,15 @@ export type Database = {
           max_guests?: number;
           location?: string;
           images?: string[];
+          latitude?: number | null;
+          longitude?: number | null;
+          cancellation_policy?: 'flexible' | 'moderate' | 'strict' | null;
+          base_fee?: number;
+          price_per_guest?: number;
+          minimum_charge?: number;
+          weekend_surcharge_percent?: number;
+          holiday_surcharge_percent?: number;
+          deposit_percent?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -100,6 +142,15 @@ export type Database = {
           status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
           total_price: number;
           notes?: string;
+          event_period: string;
+          cancellation_reason?: string;
+          cancelled_by?: string;
+          cancelled_at?: string;
+          cancellation_policy?: 'flexible' | 'moderate' | 'strict';
+          refund_percent?: number;
+          refund_amount?: number;
+          menu_id?: string;
+          children_count: number;
           created_at: string;
           updated_at: string;
         };
@@ -115,6 +166,10 @@ export type Database = {
           status?: 'pending' | 'confirmed' | 'cancelled' | 'completed';
           total_price: number;
           notes?: string;
+          event_period?: string;
+          cancellation_reason?: string | null;
+          menu_id?: string | null;
+          children_count?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -130,6 +185,10 @@ export type Database = {
           status?: 'pending' | 'confirmed' | 'cancelled' | 'completed';
           total_price?: number;
           notes?: string;
+          event_period?: string;
+          cancellation_reason?: string | null;
+          menu_id?: string | null;
+          children_count?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -154,6 +213,849 @@ export type Database = {
           created_at?: string;
         };
       };
+      reviews: {
+        Row: {
+          id: string;
+          booking_id: string;
+          client_id: string;
+          professional_id: string;
+          service_id: string;
+          rating: number;
+          comment?: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          client_id: string;
+          professional_id: string;
+          service_id: string;
+          rating: number;
+          comment?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          booking_id?: string;
+          client_id?: string;
+          professional_id?: string;
+          service_id?: string;
+          rating?: number;
+          comment?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      booking_status_transitions: {
+        Row: {
+          from_status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
+          to_status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
+          actor: 'client' | 'professional';
+        };
+        Insert: {
+          from_status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
+          to_status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
+          actor: 'client' | 'professional';
+        };
+        Update: {
+          from_status?: 'pending' | 'confirmed' | 'cancelled' | 'completed';
+          to_status?: 'pending' | 'confirmed' | 'cancelled' | 'completed';
+          actor?: 'client' | 'professional';
+        };
+      };
+      booking_events: {
+        Row: {
+          id: string;
+          booking_id: string;
+          actor_id?: string;
+          event_type:
+            | 'created'
+            | 'status_changed'
+            | 'price_changed'
+            | 'rescheduled'
+            | 'notes_changed'
+            | 'details_changed'
+            | 'reschedule_requested'
+            | 'reschedule_declined'
+            | 'quote_sent'
+            | 'quote_declined'
+            | 'payment_received';
+          old_value?: Record<string, any>;
+          new_value?: Record<string, any>;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          actor_id?: string;
+          event_type:
+            | 'created'
+            | 'status_changed'
+            | 'price_changed'
+            | 'rescheduled'
+            | 'notes_changed'
+            | 'details_changed'
+            | 'reschedule_requested'
+            | 'reschedule_declined'
+            | 'quote_sent'
+            | 'quote_declined'
+            | 'payment_received';
+          old_value?: Record<string, any>;
+          new_value?: Record<string, any>;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          booking_id?: string;
+          actor_id?: string;
+          event_type?:
+            | 'created'
+            | 'status_changed'
+            | 'price_changed'
+            | 'rescheduled'
+            | 'notes_changed'
+            | 'details_changed'
+            | 'reschedule_requested'
+            | 'reschedule_declined'
+            | 'quote_sent'
+            | 'quote_declined'
+            | 'payment_received';
+          old_value?: Record<string, any>;
+          new_value?: Record<string, any>;
+          created_at?: string;
+        };
+      };
+      professional_working_hours: {
+        Row: {
+          id: string;
+          professional_id: string;
+          weekday: number;
+          start_time: string;
+          end_time: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          professional_id: string;
+          weekday: number;
+          start_time: string;
+          end_time: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          professional_id?: string;
+          weekday?: number;
+          start_time?: string;
+          end_time?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      professional_blackout_dates: {
+        Row: {
+          id: string;
+          professional_id: string;
+          blackout_date: string;
+          reason?: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          professional_id: string;
+          blackout_date: string;
+          reason?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          professional_id?: string;
+          blackout_date?: string;
+          reason?: string;
+          created_at?: string;
+        };
+      };
+      messages: {
+        Row: {
+          id: string;
+          booking_id: string;
+          sender_id: string;
+          body?: string;
+          image_path?: string;
+          read_at?: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          sender_id: string;
+          body?: string | null;
+          image_path?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          read_at?: string;
+        };
+      };
+      push_tokens: {
+        Row: {
+          id: string;
+          profile_id: string;
+          token: string;
+          platform: 'ios' | 'android' | 'web';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          profile_id: string;
+          token: string;
+          platform: 'ios' | 'android' | 'web';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          profile_id?: string;
+          platform?: 'ios' | 'android' | 'web';
+          updated_at?: string;
+        };
+      };
+      notifications: {
+        Row: {
+          id: string;
+          profile_id: string;
+          booking_id?: string;
+          type:
+            | 'booking_requested'
+            | 'booking_accepted'
+            | 'booking_refused'
+            | 'booking_cancelled'
+            | 'reminder_24h'
+            | 'reminder_2h'
+            | 'reschedule_requested'
+            | 'reschedule_accepted'
+            | 'reschedule_declined'
+            | 'quote_received'
+            | 'quote_approved'
+            | 'quote_declined'
+            | 'payment_received'
+            | 'payment_failed'
+            | 'payment_refund_due';
+          title: string;
+          body: string;
+          read_at?: string;
+          pushed_at?: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          profile_id: string;
+          booking_id?: string | null;
+          type:
+            | 'booking_requested'
+            | 'booking_accepted'
+            | 'booking_refused'
+            | 'booking_cancelled'
+            | 'reminder_24h'
+            | 'reminder_2h'
+            | 'reschedule_requested'
+            | 'reschedule_accepted'
+            | 'reschedule_declined'
+            | 'quote_received'
+            | 'quote_approved'
+            | 'quote_declined'
+            | 'payment_received'
+            | 'payment_failed'
+            | 'payment_refund_due';
+          title: string;
+          body: string;
+          created_at?: string;
+        };
+        Update: {
+          read_at?: string;
+          pushed_at?: string;
+        };
+      };
+      cancellation_policy_tiers: {
+        Row: {
+          policy: 'flexible' | 'moderate' | 'strict';
+          min_hours_before: number;
+          refund_percent: number;
+        };
+        Insert: {
+          policy: 'flexible' | 'moderate' | 'strict';
+          min_hours_before: number;
+          refund_percent: number;
+        };
+        Update: {
+          refund_percent?: number;
+        };
+      };
+      reschedule_requests: {
+        Row: {
+          id: string;
+          booking_id: string;
+          proposed_by: string;
+          event_date: string;
+          event_time: string;
+          status: 'pending' | 'accepted' | 'declined' | 'countered';
+          counter_of?: string;
+          responded_at?: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          proposed_by: string;
+          event_date: string;
+          event_time: string;
+          status?: 'pending' | 'accepted' | 'declined' | 'countered';
+          counter_of?: string | null;
+          responded_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          status?: 'pending' | 'accepted' | 'declined' | 'countered';
+          responded_at?: string | null;
+        };
+      };
+      booking_quotes: {
+        Row: {
+          id: string;
+          booking_id: string;
+          total: number;
+          expires_at: string;
+          status: 'pending' | 'approved' | 'declined' | 'superseded';
+          responded_at?: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          total: number;
+          expires_at: string;
+          status?: 'pending' | 'approved' | 'declined' | 'superseded';
+          responded_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          status?: 'pending' | 'approved' | 'declined' | 'superseded';
+          responded_at?: string | null;
+        };
+      };
+      service_price_tiers: {
+        Row: {
+          id: string;
+          service_id: string;
+          min_guests: number;
+          price_per_guest: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          service_id: string;
+          min_guests: number;
+          price_per_guest: number;
+          created_at?: string;
+        };
+        Update: {
+          min_guests?: number;
+          price_per_guest?: number;
+        };
+      };
+      holidays: {
+        Row: {
+          holiday_date: string;
+          name: string;
+        };
+        Insert: {
+          holiday_date: string;
+          name: string;
+        };
+        Update: {
+          name?: string;
+        };
+      };
+      service_addons: {
+        Row: {
+          id: string;
+          service_id: string;
+          name: string;
+          description?: string;
+          price: number;
+          pricing: 'flat' | 'per_guest';
+          max_quantity: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          service_id: string;
+          name: string;
+          description?: string | null;
+          price: number;
+          pricing?: 'flat' | 'per_guest';
+          max_quantity?: number;
+          created_at?: string;
+        };
+        Update: {
+          name?: string;
+          description?: string | null;
+          price?: number;
+          pricing?: 'flat' | 'per_guest';
+          max_quantity?: number;
+        };
+      };
+      booking_line_items: {
+        Row: {
+          id: string;
+          booking_id: string;
+          addon_id?: string;
+          name: string;
+          pricing: 'flat' | 'per_guest';
+          unit_price: number;
+          quantity: number;
+          amount: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          addon_id: string;
+          quantity: number;
+          created_at?: string;
+        };
+        Update: {
+          quantity?: number;
+        };
+      };
+      service_menus: {
+        Row: {
+          id: string;
+          service_id: string;
+          name: string;
+          description?: string;
+          tags: Array<'traditional' | 'premium' | 'vegetarian'>;
+          archived_at?: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          service_id: string;
+          name: string;
+          description?: string | null;
+          tags?: Array<'traditional' | 'premium' | 'vegetarian'>;
+          archived_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          name?: string;
+          description?: string | null;
+          tags?: Array<'traditional' | 'premium' | 'vegetarian'>;
+          archived_at?: string | null;
+        };
+      };
+      menu_items: {
+        Row: {
+          id: string;
+          menu_id: string;
+          kind: 'cut' | 'side' | 'vegetarian';
+          name: string;
+          grams_per_person: number;
+          position: number;
+        };
+        Insert: {
+          id?: string;
+          menu_id: string;
+          kind: 'cut' | 'side' | 'vegetarian';
+          name: string;
+          grams_per_person: number;
+          position?: number;
+        };
+        Update: {
+          kind?: 'cut' | 'side' | 'vegetarian';
+          name?: string;
+          grams_per_person?: number;
+          position?: number;
+        };
+      };
+      booking_charges: {
+        Row: {
+          id: string;
+          booking_id: string;
+          kind: 'deposit' | 'balance';
+          amount: number;
+          due_date: string;
+          status: 'open' | 'paid' | 'cancelled';
+          paid_at?: string;
+          settled_off_app: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          kind: 'deposit' | 'balance';
+          amount: number;
+          due_date: string;
+          status?: 'open' | 'paid' | 'cancelled';
+          paid_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          amount?: number;
+          due_date?: string;
+          status?: 'open' | 'paid' | 'cancelled';
+          paid_at?: string | null;
+        };
+      };
+      payments: {
+        Row: {
+          id: string;
+          booking_id: string;
+          charge_id?: string;
+          payer_id: string;
+          amount: number;
+          method: 'pix' | 'card';
+          status: 'pending' | 'paid' | 'failed' | 'expired' | 'refunded';
+          gateway: string;
+          gateway_reference?: string;
+          pix_code?: string;
+          pix_expires_at?: string;
+          card_brand?: string;
+          card_last4?: string;
+          failure_reason?: string;
+          paid_at?: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          charge_id?: string | null;
+          payer_id: string;
+          amount: number;
+          method: 'pix' | 'card';
+          status?: 'pending' | 'paid' | 'failed' | 'expired' | 'refunded';
+          gateway: string;
+          gateway_reference?: string | null;
+          pix_code?: string | null;
+          pix_expires_at?: string | null;
+          card_brand?: string | null;
+          card_last4?: string | null;
+          failure_reason?: string | null;
+          paid_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          status?: 'pending' | 'paid' | 'failed' | 'expired' | 'refunded';
+          gateway_reference?: string | null;
+          pix_code?: string | null;
+          pix_expires_at?: string | null;
+          card_brand?: string | null;
+          card_last4?: string | null;
+          failure_reason?: string | null;
+          paid_at?: string | null;
+          updated_at?: string;
+        };
+      };
+      billing_details: {
+        Row: {
+          profile_id: string;
+          tax_id: string;
+          updated_at: string;
+        };
+        Insert: {
+          profile_id: string;
+          tax_id: string;
+          updated_at?: string;
+        };
+        Update: {
+          tax_id?: string;
+          updated_at?: string;
+        };
+      };
+      receipts: {
+        Row: {
+          id: string;
+          booking_id: string;
+          professional_id: string;
+          number: number;
+          client_name: string;
+          client_tax_id?: string;
+          professional_name: string;
+          professional_tax_id?: string;
+          issued_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          booking_id: string;
+          professional_id: string;
+          number: number;
+          client_name: string;
+          client_tax_id?: string | null;
+          professional_name: string;
+          professional_tax_id?: string | null;
+          issued_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          client_name?: string;
+          client_tax_id?: string | null;
+          professional_name?: string;
+          professional_tax_id?: string | null;
+          updated_at?: string;
+        };
+      };
+      payouts: {
+        Row: {
+          id: string;
+          professional_id: string;
+          amount: number;
+          status: 'pending' | 'paid' | 'failed';
+          reference?: string;
+          failure_reason?: string;
+          paid_at?: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          professional_id: string;
+          amount: number;
+          status?: 'pending' | 'paid' | 'failed';
+          reference?: string | null;
+          failure_reason?: string | null;
+          paid_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          status?: 'pending' | 'paid' | 'failed';
+          reference?: string | null;
+          failure_reason?: string | null;
+          paid_at?: string | null;
+        };
+      };
+      booking_quote_items: {
+        Row: {
+          id: string;
+          quote_id: string;
+          category: 'meat' | 'labor' | 'travel' | 'extras';
+          description?: string;
+          amount: number;
+        };
+        Insert: {
+          id?: string;
+          quote_id: string;
+          category: 'meat' | 'labor' | 'travel' | 'extras';
+          description?: string | null;
+          amount: number;
+        };
+        Update: {
+          category?: 'meat' | 'labor' | 'travel' | 'extras';
+          description?: string | null;
+          amount?: number;
+        };
+      };
+    };
+    Views: {
+      professional_ratings: {
+        Row: {
+          professional_id: string;
+          average_rating: number;
+          review_count: number;
+        };
+      };
+      service_ratings: {
+        Row: {
+          service_id: string;
+          average_rating: number;
+          review_count: number;
+        };
+      };
+    };
+    Functions: {
+      get_available_slots: {
+        Args: {
+          p_service_id: string;
+          p_from: string;
+          p_to: string;
+          p_exclude_booking_id?: string | null;
+        };
+        Returns: Array<{
+          slot_date: string;
+          slot_time: string;
+        }>;
+      };
+      mark_messages_read: {
+        Args: {
+          p_booking_id: string;
+        };
+        Returns: void;
+      };
+      get_unread_message_counts: {
+        Args: Record<string, never>;
+        Returns: Array<{
+          booking_id: string;
+          unread_count: number;
+        }>;
+      };
+      register_push_token: {
+        Args: {
+          p_token: string;
+          p_platform: 'ios' | 'android' | 'web';
+        };
+        Returns: void;
+      };
+      mark_notifications_read: {
+        Args: {
+          p_ids?: string[] | null;
+        };
+        Returns: void;
+      };
+      request_reschedule: {
+        Args: {
+          p_booking_id: string;
+          p_event_date: string;
+          p_event_time: string;
+        };
+        Returns: Database['public']['Tables']['reschedule_requests']['Row'];
+      };
+      respond_to_reschedule: {
+        Args: {
+          p_request_id: string;
+          p_accept: boolean;
+        };
+        Returns: void;
+      };
+      counter_reschedule: {
+        Args: {
+          p_request_id: string;
+          p_event_date: string;
+          p_event_time: string;
+        };
+        Returns: Database['public']['Tables']['reschedule_requests']['Row'];
+      };
+      send_quote: {
+        Args: {
+          p_booking_id: string;
+          p_items: Array<{
+            category: 'meat' | 'labor' | 'travel' | 'extras';
+            description?: string | null;
+            amount: number;
+          }>;
+          p_expires_at: string;
+        };
+        Returns: Database['public']['Tables']['booking_quotes']['Row'];
+      };
+      approve_quote: {
+        Args: {
+          p_quote_id: string;
+        };
+        Returns: void;
+      };
+      decline_quote: {
+        Args: {
+          p_quote_id: string;
+        };
+        Returns: void;
+      };
+      start_payment: {
+        Args: {
+          p_booking_id: string;
+          p_method: 'pix' | 'card';
+          p_gateway: string;
+        };
+        Returns: Database['public']['Tables']['payments']['Row'];
+      };
+      settle_charge_off_app: {
+        Args: {
+          p_charge_id: string;
+        };
+        Returns: Database['public']['Tables']['booking_charges']['Row'];
+      };
+      create_booking: {
+        Args: {
+          p_service_id: string;
+          p_event_date: string;
+          p_event_time: string;
+          p_guests_count: number;
+          p_children_count: number;
+          p_location: string;
+          p_notes: string | null;
+          p_menu_id: string | null;
+          p_addons?: Array<{ addon_id: string; quantity: number }>;
+        };
+        Returns: Database['public']['Tables']['bookings']['Row'];
+      };
+      issue_receipt: {
+        Args: {
+          p_booking_id: string;
+        };
+        Returns: Database['public']['Tables']['receipts']['Row'];
+      };
+      get_professional_ledger: {
+        Args: {
+          p_from?: string | null;
+          p_to?: string | null;
+        };
+        Returns: {
+          entry_type: 'earning' | 'fee' | 'refund' | 'payout';
+          booking_id: string | null;
+          payout_id: string | null;
+          description: string | null;
+          amount: number;
+          payout_status: 'pending' | 'paid' | 'failed' | null;
+          occurred_at: string;
+        }[];
+      };
+      get_professional_balance: {
+        Args: Record<string, never>;
+        Returns: {
+          available: number;
+          receivable: number;
+          in_transit: number;
+        }[];
+      };
+      search_services: {
+        Args: {
+          p_query?: string | null;
+          p_sort?: 'relevance' | 'price' | 'rating' | 'newest';
+          p_min_price?: number | null;
+          p_max_price?: number | null;
+          p_latitude?: number | null;
+          p_longitude?: number | null;
+          p_radius_km?: number | null;
+          p_available_on?: string | null;
+          p_available_after?: string | null;
+          p_after_key?: number | null;
+          p_after_id?: string | null;
+          p_limit?: number;
+        };
+        Returns: Array<{
+          id: string;
+          professional_id: string;
+          title: string;
+          description: string;
+          price_from: number;
+          price_to?: number;
+          duration_hours: number;
+          max_guests: number;
+          location: string;
+          images?: string[];
+          created_at: string;
+          professional_name: string;
+          professional_avatar_url?: string;
+          average_rating?: number;
+          review_count: number;
+          distance_km?: number;
+          sort_key: number;
+          total_count: number;
+        }>;
+      };
     };
   };
 };
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { MenuItem, MenuItemKind, MENU_ITEM_KIND_LABELS } from '@/lib/menus';
+
+// Rules of thumb for a churrasco. Menus set grams per adult for a
+// STANDARD_DURATION_HOURS event; children eat CHILD_PORTION of that.
+export const STANDARD_DURATION_HOURS = 4;
+export const CHILD_PORTION = 0.5;
+// Meat per adult when the booking has no menu
+export const DEFAULT_MEAT_GRAMS = 400;
+// Charcoal and coarse salt per kg of meat
+export const CHARCOAL_KG_PER_MEAT_KG = 1;
+export const CHARCOAL_BAG_KG = 5;
+export const SALT_GRAMS_PER_MEAT_KG = 70;
+// Drinks per person per hour; children don't count towards beer
+export const BEER_LITERS_PER_ADULT_HOUR = 0.35;
+export const SOFT_DRINK_LITERS_PER_PERSON_HOUR = 0.25;
+export const WATER_LITERS_PER_PERSON_HOUR = 0.15;
+
+export interface SuppliesInput {
+  guests: number;
+  children: number;
+  durationHours: number;
+  menuItems?: Pick<MenuItem, 'kind' | 'name' | 'grams_per_person' | 'position'>[];
+}
+
+export interface SuppliesLine {
+  kind: MenuItemKind;
+  name: string;
+  kg: number;
+}
+
+export interface SuppliesEstimate {
+  adults: number;
+  children: number;
+  lines: SuppliesLine[];
+  meatKg: number;
+  charcoalKg: number;
+  charcoalBags: number;
+  saltKg: number;
+  beerLiters: number;
+  softDrinkLiters: number;
+  waterLiters: number;
+}
+
+const roundTenth = (value: number) => Math.ceil(value * 10) / 10;
+
+// Longer events eat a bit more: 10% per hour past the standard duration,
+// between 80% and 150% of the menu's grams.
+export function durationFactor(hours: number) {
+  return Math.min(
+    Math.max(1 + (hours - STANDARD_DURATION_HOURS) * 0.1, 0.8),
+    1.5
+  );
+}
+
+export function estimateSupplies({
+  guests,
+  children,
+  durationHours,
+  menuItems,
+}: SuppliesInput): SuppliesEstimate {
+  const kids = Math.min(Math.max(children, 0), guests);
+  const adults = guests - kids;
+  const portions = (adults + kids * CHILD_PORTION) * durationFactor(durationHours);
+
+  const items =
+    menuItems && menuItems.length > 0
+      ? [...menuItems].sort((a, b) => a.position - b.position)
+      : [{ kind: 'cut' as const, name: 'Carnes variadas', grams_per_person: DEFAULT_MEAT_GRAMS, position: 0 }];
+
+  const lines = items.map((item) => ({
+    kind: item.kind,
+    name: item.name,
+    kg: roundTenth((item.grams_per_person * portions) / 1000),
+  }));
+
+  // Vegetarian options go on the grill too, so they take charcoal
+  const grilledKg = lines
+    .filter((line) => line.kind !== 'side')
+    .reduce((sum, line) => sum + line.kg, 0);
+  const meatKg = roundTenth(
+    lines
+      .filter((line) => line.kind === 'cut')
+      .reduce((sum, line) => sum + line.kg, 0)
+  );
+  const charcoalKg = roundTenth(grilledKg * CHARCOAL_KG_PER_MEAT_KG);
+
+  return {
+    adults,
+    children: kids,
+    lines,
+    meatKg,
+    charcoalKg,
+    charcoalBags: Math.ceil(charcoalKg / CHARCOAL_BAG_KG),
+    saltKg: roundTenth((meatKg * SALT_GRAMS_PER_MEAT_KG) / 1000),
+    beerLiters: Math.ceil(adults * durationHours * BEER_LITERS_PER_ADULT_HOUR),
+    softDrinkLiters: Math.ceil(
+      guests * durationHours * SOFT_DRINK_LITERS_PER_PERSON_HOUR
+    ),
+    waterLiters: Math.ceil(guests * durationHours * WATER_LITERS_PER_PERSON_HOUR),
+  };
+}
+
+export function formatKg(kg: number) {
+  return `${kg.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} kg`;
+}
+
+// Plain-text list for the share sheet (WhatsApp, notes, e-mail)
+export function formatShoppingList(estimate: SuppliesEstimate, title?: string) {
+  const lines: string[] = [];
+
+  if (title) {
+    lines.push(title);
+  }
+  lines.push(
+    `Lista de compras para ${estimate.adults} adultos` +
+      (estimate.children > 0 ? ` e ${estimate.children} crianças` : '')
+  );
+
+  (['cut', 'vegetarian', 'side'] as MenuItemKind[]).forEach((kind) => {
+    const group = estimate.lines.filter((line) => line.kind === kind);
+    if (group.length === 0) return;
+    lines.push('', `${MENU_ITEM_KIND_LABELS[kind]}:`);
+    group.forEach((line) => lines.push(`- ${line.name}: ${formatKg(line.kg)}`));
+  });
+
+  lines.push(
+    '',
+    'Churrasqueira:',
+    `- Carvão: ${formatKg(estimate.charcoalKg)} (${estimate.charcoalBags} saco(s) de ${CHARCOAL_BAG_KG} kg)`,
+    `- Sal grosso: ${formatKg(estimate.saltKg)}`,
+    '',
+    'Bebidas:'
+  );
+  if (estimate.beerLiters > 0) {
+    lines.push(`- Cerveja: ${estimate.beerLiters} L`);
+  }
+  lines.push(
+    `- Refrigerante: ${estimate.softDrinkLiters} L`,
+    `- Água: ${estimate.waterLiters} L`
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,68 @@
+// PIX "copia e cola" codes in the Banco Central's BR Code format: EMV
+// merchant-presented QR fields, each written as ID + two-digit length +
+// value, closed by a CRC16 over the whole payload. The same string is what
+// the QR code encodes.
+
+export interface PixCodeInput {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount: number;
+  // Up to 25 letters and digits; identifies the charge in the payer's bank
+  txid: string;
+}
+
+const PIX_GUI = 'br.gov.bcb.pix';
+const CURRENCY_BRL = '986';
+
+function field(id: string, value: string) {
+  return id + String(value.length).padStart(2, '0') + value;
+}
+
+// Names and cities go out as plain upper-case ASCII, as banks expect
+function sanitize(value: string, maxLength: number) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 ]/g, '')
+    .trim()
+    .toUpperCase()
+    .substring(0, maxLength);
+}
+
+// CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF)
+export function crc16(payload: string) {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+export function buildPixCode({
+  key,
+  merchantName,
+  merchantCity,
+  amount,
+  txid,
+}: PixCodeInput) {
+  const payload =
+    field('00', '01') +
+    // 12: the code is for this charge only
+    field('01', '12') +
+    field('26', field('00', PIX_GUI) + field('01', key)) +
+    field('52', '0000') +
+    field('53', CURRENCY_BRL) +
+    field('54', amount.toFixed(2)) +
+    field('58', 'BR') +
+    field('59', sanitize(merchantName, 25)) +
+    field('60', sanitize(merchantCity, 15)) +
+    field('62', field('05', txid.replace(/[^A-Za-z0-9]/g, '').substring(0, 25))) +
+    '6304';
+
+  return payload + crc16(payload);
+}
@@ -0,0 +1,118 @@
+import { buildPixCode } from './brcode.ts';
+
+export const PAYMENT_STATUSES = [
+  'pending',
+  'paid',
+  'failed',
+  'expired',
+  'refunded',
+] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+export interface ChargeRequest {
+  paymentId: string;
+  amount: number;
+  description: string;
+}
+
+export interface PixCharge {
+  reference: string;
+  pixCode: string;
+  expiresAt: string;
+}
+
+export interface CardCharge {
+  reference: string;
+  // Cards usually settle right away; pending waits for a webhook
+  status: 'pending' | 'paid' | 'failed';
+  failureReason?: string;
+}
+
+export interface WebhookEvent {
+  reference: string;
+  status: PaymentStatus;
+  failureReason?: string;
+}
+
+export interface PaymentGateway {
+  name: string;
+  createPixCharge(charge: ChargeRequest): Promise<PixCharge>;
+  // cardToken comes from the gateway's tokenizer on the device; card
+  // numbers never reach this function
+  chargeCard(charge: ChargeRequest, cardToken: string): Promise<CardCharge>;
+  // The settled charge, or null when the request isn't a genuine webhook
+  parseWebhook(request: Request): Promise<WebhookEvent | null>;
+}
+
+const PIX_EXPIRY_MINUTES = 30;
+
+// Runs offline: PIX codes are built locally and nothing settles until the
+// webhook (or the function's simulate route) says so. Card tokens from the
+// app's mock tokenizer ending in "_declined" are refused.
+const mockGateway: PaymentGateway = {
+  name: 'mock',
+  async createPixCharge({ paymentId, amount }) {
+    return {
+      reference: `mock_pix_${paymentId}`,
+      pixCode: buildPixCode({
+        key: Deno.env.get('PIX_KEY') || 'pagamentos@churrasco.app',
+        merchantName: Deno.env.get('PIX_MERCHANT_NAME') || 'Churrasco App',
+        merchantCity: Deno.env.get('PIX_MERCHANT_CITY') || 'Sao Paulo',
+        amount,
+        txid: paymentId,
+      }),
+      expiresAt: new Date(
+        Date.now() + PIX_EXPIRY_MINUTES * 60 * 1000
+      ).toISOString(),
+    };
+  },
+  async chargeCard({ paymentId }, cardToken) {
+    const reference = `mock_card_${paymentId}`;
+    if (!cardToken.startsWith('tok_mock_')) {
+      return { reference, status: 'failed', failureReason: 'Invalid card token' };
+    }
+    return cardToken.endsWith('_declined')
+      ? { reference, status: 'failed', failureReason: 'Card declined' }
+      : { reference, status: 'paid' };
+  },
+  async parseWebhook(request) {
+    // Without a secret anyone could settle their own charge
+    const secret = Deno.env.get('PAYMENT_WEBHOOK_SECRET');
+    if (!secret || request.headers.get('x-webhook-secret') !== secret) {
+      return null;
+    }
+
+    const body = await request.json();
+    if (
+      typeof body?.reference !== 'string' ||
+      !PAYMENT_STATUSES.includes(body?.status)
+    ) {
+      return null;
+    }
+
+    return {
+      reference: body.reference,
+      status: body.status,
+      failureReason: body.failure_reason,
+    };
+  },
+};
+
+const GATEWAYS: Record<string, PaymentGateway> = {
+  mock: mockGateway,
+};
+
+// The gateway has to be chosen explicitly, so a deployment never ends up on
+// the mock gateway by omission
+export function getGateway(): PaymentGateway {
+  const name = Deno.env.get('PAYMENT_GATEWAY');
+  if (!name) {
+    throw new Error('PAYMENT_GATEWAY is not set');
+  }
+  const gateway = GATEWAYS[name];
+  if (!gateway) {
+    throw new Error(`Unknown PAYMENT_GATEWAY: ${name}`);
+  }
+  return gateway;
+}
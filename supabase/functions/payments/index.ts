@@ -0,0 +1,313 @@
+// Charges bookings through a payment gateway and settles them from the
+// gateway's webhooks.
+//
+// Routes (POST):
+//   /payments/charge    client starts a PIX or card charge for a booking
+//   /payments/webhook   gateway reports a charge's new status
+//   /payments/simulate  mock gateway only, with PAYMENTS_ALLOW_SIMULATE=true:
+//                       settle a charge by hand
+//
+// PAYMENT_GATEWAY selects the gateway (see gateways.ts) and must be set:
+//   mock  runs offline; PIX codes are real BR Codes but nothing moves money
+//
+// PIX_KEY, PIX_MERCHANT_NAME and PIX_MERCHANT_CITY go into the PIX codes.
+// PAYMENT_WEBHOOK_SECRET must be set and sent in x-webhook-secret; webhooks
+// are refused without it.
+//
+// Gateways don't send Supabase JWTs, so serve and deploy it with
+// --no-verify-jwt; charge and simulate run their queries with the caller's
+// token, which the database checks.
+//
+// Run it locally with `supabase functions serve payments --no-verify-jwt`.
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import {
+  CardCharge,
+  getGateway,
+  PaymentGateway,
+  PaymentStatus,
+} from './gateways.ts';
+
+const RECORD_ATTEMPTS = 3;
+
+interface Payment {
+  id: string;
+  booking_id: string;
+  payer_id: string;
+  amount: number;
+  method: 'pix' | 'card';
+  status: PaymentStatus;
+  pix_code: string | null;
+}
+
+interface ChargeBody {
+  booking_id: string;
+  method: 'pix' | 'card';
+  card?: {
+    token: string;
+    brand: string;
+    last4: string;
+  };
+}
+
+class HttpError extends Error {
+  status: number;
+  code?: string;
+  details?: string;
+
+  constructor(status: number, message: string, code?: string, details?: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+function serviceClient() {
+  return createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+}
+
+// Acts as the calling user, so RLS and auth.uid() apply
+function userClient(request: Request) {
+  const authorization = request.headers.get('Authorization');
+  if (!authorization) {
+    throw new HttpError(401, 'Missing Authorization header');
+  }
+
+  return createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authorization } } }
+  );
+}
+
+// Database errors keep their SQLSTATE so the app can explain them
+function databaseError(error: { code: string; message: string; details: string }) {
+  return new HttpError(400, error.message, error.code, error.details);
+}
+
+async function settle(
+  supabase: SupabaseClient,
+  gateway: PaymentGateway,
+  reference: string,
+  status: PaymentStatus,
+  failureReason?: string
+) {
+  const { data, error } = await supabase.rpc('apply_payment_status', {
+    p_gateway: gateway.name,
+    p_reference: reference,
+    p_status: status,
+    p_failure_reason: failureReason ?? null,
+  });
+
+  if (error) {
+    throw databaseError(error);
+  }
+
+  return data;
+}
+
+async function markFailed(supabase: SupabaseClient, paymentId: string) {
+  await supabase
+    .from('payments')
+    .update({
+      status: 'failed',
+      failure_reason: 'Gateway error',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', paymentId)
+    .eq('status', 'pending');
+}
+
+async function withRetries<T>(write: () => Promise<T>) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write();
+    } catch (error) {
+      if (attempt >= RECORD_ATTEMPTS) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, attempt * 500));
+    }
+  }
+}
+
+async function charge(request: Request, gateway: PaymentGateway) {
+  const body: ChargeBody = await request.json();
+  if (body.method !== 'pix' && body.method !== 'card') {
+    throw new HttpError(400, 'method must be pix or card');
+  }
+  if (body.method === 'card' && !body.card?.token) {
+    throw new HttpError(400, 'Card charges need a card token');
+  }
+
+  const { data: payment, error } = await userClient(request).rpc('start_payment', {
+    p_booking_id: body.booking_id,
+    p_method: body.method,
+    p_gateway: gateway.name,
+  });
+
+  if (error) {
+    throw databaseError(error);
+  }
+
+  // An open PIX charge is handed back as is
+  if ((payment as Payment).pix_code) {
+    return payment;
+  }
+
+  const supabase = serviceClient();
+  const chargeRequest = {
+    paymentId: payment.id,
+    amount: Number(payment.amount),
+    description: `Booking ${payment.booking_id}`,
+  };
+
+  if (body.method === 'pix') {
+    try {
+      const pix = await gateway.createPixCharge(chargeRequest);
+      const { data, error: updateError } = await supabase
+        .from('payments')
+        .update({
+          gateway_reference: pix.reference,
+          pix_code: pix.pixCode,
+          pix_expires_at: pix.expiresAt,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', payment.id)
+        .select()
+        .single();
+
+      if (updateError) {
+        throw updateError;
+      }
+      return data;
+    } catch (chargeError) {
+      console.error('Error charging payment:', chargeError);
+      await markFailed(supabase, payment.id);
+      throw new HttpError(502, 'The payment gateway is unavailable');
+    }
+  }
+
+  let card: CardCharge;
+  try {
+    card = await gateway.chargeCard(chargeRequest, body.card!.token);
+  } catch (chargeError) {
+    console.error('Error charging payment:', chargeError);
+    await markFailed(supabase, payment.id);
+    throw new HttpError(502, 'The payment gateway is unavailable');
+  }
+
+  // The gateway has answered, so the payment must not be marked failed
+  // from here on: the card may well have been charged. If recording the
+  // answer keeps failing the payment stays pending, which also keeps the
+  // client from paying again, until it's reconciled.
+  try {
+    const data = await withRetries(async () => {
+      const { data, error: updateError } = await supabase
+        .from('payments')
+        .update({
+          gateway_reference: card.reference,
+          card_brand: body.card!.brand,
+          card_last4: body.card!.last4,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', payment.id)
+        .select()
+        .single();
+
+      if (updateError) {
+        throw updateError;
+      }
+      return data;
+    });
+
+    if (card.status === 'pending') {
+      return data;
+    }
+    return await withRetries(() =>
+      settle(supabase, gateway, card.reference, card.status, card.failureReason)
+    );
+  } catch (recordError) {
+    console.error(
+      `Error recording card charge ${card.reference} for payment ${payment.id}:`,
+      recordError
+    );
+    throw new HttpError(
+      502,
+      'The card charge was processed but is not recorded yet',
+      'BK019',
+      `Payment ${payment.id} is still pending.`
+    );
+  }
+}
+
+async function webhook(request: Request, gateway: PaymentGateway) {
+  const event = await gateway.parseWebhook(request);
+  if (!event) {
+    throw new HttpError(401, 'Invalid webhook');
+  }
+
+  return await settle(
+    serviceClient(),
+    gateway,
+    event.reference,
+    event.status,
+    event.failureReason
+  );
+}
+
+// Stands in for the payer's bank during development. Any client may call it,
+// so it only exists where it's switched on explicitly.
+async function simulate(request: Request, gateway: PaymentGateway) {
+  if (
+    gateway.name !== 'mock' ||
+    Deno.env.get('PAYMENTS_ALLOW_SIMULATE') !== 'true'
+  ) {
+    throw new HttpError(404, 'Not found');
+  }
+
+  const { payment_id, status = 'paid' } = await request.json();
+  const { data: payment, error } = await userClient(request)
+    .from('payments')
+    .select('gateway_reference')
+    .eq('id', payment_id)
+    .single();
+
+  if (error || !payment.gateway_reference) {
+    throw new HttpError(404, 'Payment not found');
+  }
+
+  return await settle(serviceClient(), gateway, payment.gateway_reference, status);
+}
+
+const ROUTES: Record<
+  string,
+  (request: Request, gateway: PaymentGateway) => Promise<unknown>
+> = {
+  charge,
+  webhook,
+  simulate,
+};
+
+Deno.serve(async (request) => {
+  const route = ROUTES[new URL(request.url).pathname.split('/').pop() || ''];
+  if (request.method !== 'POST' || !route) {
+    return Response.json({ error: { message: 'Not found' } }, { status: 404 });
+  }
+
+  try {
+    return Response.json(await route(request, getGateway()));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return Response.json(
+        { error: { message: error.message, code: error.code, details: error.details } },
+        { status: error.status }
+      );
+    }
+    console.error('Error handling payment request:', error);
+    return Response.json({ error: { message: 'Internal error' } }, { status: 500 });
+  }
+});
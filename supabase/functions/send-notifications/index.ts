@@ -0,0 +1,171 @@
+// Delivers queued notifications (pushed_at is null) to the recipients'
+// devices and records every attempt in push_deliveries.
+//
+// PUSH_SENDER selects the transport:
+//   stub (default)  records what would have been pushed, sends nothing
+//   expo            Expo push service
+//
+// Run it locally with `supabase functions serve send-notifications` and POST
+// to it; in production pg_cron calls it every minute (see
+// 0025_schedule_push_delivery.sql).
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+const BATCH_SIZE = 100;
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+interface Notification {
+  id: string;
+  profile_id: string;
+  booking_id: string | null;
+  type: string;
+  title: string;
+  body: string;
+}
+
+interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  sound: 'default';
+  data: {
+    notificationId: string;
+    bookingId: string | null;
+    type: string;
+  };
+}
+
+interface PushResult {
+  status: 'recorded' | 'sent' | 'failed';
+  error?: string;
+}
+
+interface PushSender {
+  name: string;
+  send(messages: PushMessage[]): Promise<PushResult[]>;
+}
+
+const stubSender: PushSender = {
+  name: 'stub',
+  async send(messages) {
+    return messages.map(() => ({ status: 'recorded' }));
+  },
+};
+
+const expoSender: PushSender = {
+  name: 'expo',
+  async send(messages) {
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(messages),
+    });
+
+    if (!response.ok) {
+      const error = `Expo push service returned ${response.status}`;
+      return messages.map(() => ({ status: 'failed', error }));
+    }
+
+    const { data } = await response.json();
+    return messages.map((_, index) => {
+      const ticket = data?.[index];
+      return ticket?.status === 'ok'
+        ? { status: 'sent' }
+        : { status: 'failed', error: ticket?.message || 'Unknown error' };
+    });
+  },
+};
+
+function getSender(): PushSender {
+  return Deno.env.get('PUSH_SENDER') === 'expo' ? expoSender : stubSender;
+}
+
+async function deliver(
+  supabase: SupabaseClient,
+  sender: PushSender,
+  notification: Notification
+) {
+  const { data: tokens, error } = await supabase
+    .from('push_tokens')
+    .select('token')
+    .eq('profile_id', notification.profile_id);
+
+  if (error) {
+    throw error;
+  }
+
+  const messages: PushMessage[] = (tokens || []).map(({ token }) => ({
+    to: token,
+    title: notification.title,
+    body: notification.body,
+    sound: 'default',
+    data: {
+      notificationId: notification.id,
+      bookingId: notification.booking_id,
+      type: notification.type,
+    },
+  }));
+
+  if (messages.length > 0) {
+    const results = await sender.send(messages);
+    const { error: deliveryError } = await supabase.from('push_deliveries').insert(
+      messages.map((message, index) => ({
+        notification_id: notification.id,
+        token: message.to,
+        sender: sender.name,
+        payload: message,
+        status: results[index].status,
+        error: results[index].error ?? null,
+      }))
+    );
+
+    if (deliveryError) {
+      throw deliveryError;
+    }
+  }
+
+  // Users without a registered device still see it in the inbox
+  const { error: updateError } = await supabase
+    .from('notifications')
+    .update({ pushed_at: new Date().toISOString() })
+    .eq('id', notification.id);
+
+  if (updateError) {
+    throw updateError;
+  }
+}
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+  const sender = getSender();
+
+  const { data: notifications, error } = await supabase
+    .from('notifications')
+    .select('id, profile_id, booking_id, type, title, body')
+    .is('pushed_at', null)
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  let delivered = 0;
+  const failures: string[] = [];
+  for (const notification of notifications || []) {
+    try {
+      await deliver(supabase, sender, notification);
+      delivered++;
+    } catch (deliveryError) {
+      console.error('Error delivering notification:', deliveryError);
+      failures.push(notification.id);
+    }
+  }
+
+  return Response.json({ sender: sender.name, delivered, failures });
+});
@@ -0,0 +1,21 @@
+-- Validate service fields
+alter table public.services add constraint services_price_range_check check (price_to is null or price_to >= price_from);
+alter table public.services add constraint services_duration_hours_check check (duration_hours > 0);
+alter table public.services add constraint services_max_guests_check check (max_guests > 0);
+
+-- Create storage bucket for service images
+insert into storage.buckets (id, name, public)
+values ('service_images', 'service_images', true);
+
+-- Create policy for storage bucket
+create policy "Service images are accessible to everyone"
+on storage.objects for select
+using ( bucket_id = 'service_images' );
+
+create policy "Professionals can upload service images"
+on storage.objects for insert
+with check ( bucket_id = 'service_images' and auth.uid() = (storage.foldername(name))[1]::uuid );
+
+create policy "Professionals can delete their own service images"
+on storage.objects for delete
+using ( bucket_id = 'service_images' and auth.uid() = (storage.foldername(name))[1]::uuid );
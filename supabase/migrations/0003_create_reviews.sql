@@ -0,0 +1,59 @@
+-- Create reviews table
+create table public.reviews (
+  id uuid not null primary key default gen_random_uuid(),
+  booking_id uuid not null unique references public.bookings(id) on delete cascade,
+  client_id uuid not null references public.profiles(id) on delete cascade,
+  professional_id uuid not null references public.profiles(id) on delete cascade,
+  service_id uuid not null references public.services(id) on delete cascade,
+  rating integer not null check (rating between 1 and 5),
+  comment text,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create index reviews_professional_id_idx on public.reviews (professional_id);
+create index reviews_service_id_idx on public.reviews (service_id);
+
+-- Enable Row Level Security
+alter table public.reviews enable row level security;
+
+-- Policies for reviews
+create policy "Reviews are viewable by everyone." on public.reviews for select using (true);
+create policy "Clients can review their completed bookings." on public.reviews for insert with check (
+  auth.uid() = client_id
+  and exists (
+    select 1 from public.bookings b
+    where b.id = booking_id
+      and b.client_id = reviews.client_id
+      and b.professional_id = reviews.professional_id
+      and b.service_id = reviews.service_id
+      and b.status = 'completed'
+  )
+);
+create policy "Clients can update their own reviews." on public.reviews for update using (auth.uid() = client_id) with check (
+  auth.uid() = client_id
+  and exists (
+    select 1 from public.bookings b
+    where b.id = booking_id
+      and b.client_id = reviews.client_id
+      and b.professional_id = reviews.professional_id
+      and b.service_id = reviews.service_id
+  )
+);
+
+-- Create rating aggregates
+create view public.professional_ratings as
+select
+  professional_id,
+  round(avg(rating)::numeric, 1) as average_rating,
+  count(*) as review_count
+from public.reviews
+group by professional_id;
+
+create view public.service_ratings as
+select
+  service_id,
+  round(avg(rating)::numeric, 1) as average_rating,
+  count(*) as review_count
+from public.reviews
+group by service_id;
@@ -0,0 +1,148 @@
+-- Create booking_actor enum
+create type public.booking_actor as enum ('client', 'professional');
+
+-- Create booking_status_transitions table
+create table public.booking_status_transitions (
+  from_status public.booking_status not null,
+  to_status public.booking_status not null,
+  actor public.booking_actor not null,
+  primary key (from_status, to_status, actor)
+);
+
+-- cancelled and completed have no outgoing transitions, so they stay locked
+insert into public.booking_status_transitions (from_status, to_status, actor) values
+  ('pending', 'confirmed', 'professional'),
+  ('pending', 'cancelled', 'professional'),
+  ('pending', 'cancelled', 'client'),
+  ('confirmed', 'completed', 'professional'),
+  ('confirmed', 'cancelled', 'professional'),
+  ('confirmed', 'cancelled', 'client');
+
+-- Enable Row Level Security
+alter table public.booking_status_transitions enable row level security;
+
+-- Policies for booking_status_transitions
+create policy "Booking status transitions are viewable by everyone." on public.booking_status_transitions for select using (true);
+
+-- Error codes raised below:
+--   BK001 booking_locked          booking is cancelled or completed
+--   BK002 invalid_transition      no such transition exists
+--   BK003 transition_not_allowed  transition exists but not for this party
+--   BK004 column_not_editable     party tried to change a column it does not own
+--   BK005 not_a_party             caller is neither the client nor the professional
+
+-- Enforce booking inserts
+create or replace function public.enforce_booking_insert()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null and new.status <> 'pending' then
+    raise exception using
+      errcode = 'BK002',
+      message = 'invalid_transition',
+      detail = format('New bookings must start as pending, got %s.', new.status);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger enforce_booking_insert
+before insert on public.bookings
+for each row execute function public.enforce_booking_insert();
+
+-- Enforce booking updates
+create or replace function public.enforce_booking_update()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_actor public.booking_actor;
+begin
+  new.updated_at := now();
+
+  -- Service role and database jobs are trusted
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if auth.uid() = old.client_id then
+    v_actor := 'client';
+  elsif auth.uid() = old.professional_id then
+    v_actor := 'professional';
+  else
+    raise exception using
+      errcode = 'BK005',
+      message = 'not_a_party',
+      detail = 'Only the client or the professional can change this booking.';
+  end if;
+
+  if old.status in ('cancelled', 'completed') then
+    raise exception using
+      errcode = 'BK001',
+      message = 'booking_locked',
+      detail = format('Booking is %s and can no longer change.', old.status);
+  end if;
+
+  if new.client_id is distinct from old.client_id
+    or new.professional_id is distinct from old.professional_id
+    or new.service_id is distinct from old.service_id
+    or new.created_at is distinct from old.created_at then
+    raise exception using
+      errcode = 'BK004',
+      message = 'column_not_editable',
+      detail = 'client_id, professional_id, service_id and created_at cannot change.';
+  end if;
+
+  -- Clients own the event details, professionals own the price, and both
+  -- are frozen once the booking leaves pending.
+  if new.total_price is distinct from old.total_price
+    and (v_actor <> 'professional' or old.status <> 'pending') then
+    raise exception using
+      errcode = 'BK004',
+      message = 'column_not_editable',
+      detail = 'Only the professional can change total_price, and only while pending.';
+  end if;
+
+  if (new.event_date is distinct from old.event_date
+    or new.event_time is distinct from old.event_time
+    or new.guests_count is distinct from old.guests_count
+    or new.location is distinct from old.location
+    or new.notes is distinct from old.notes)
+    and (v_actor <> 'client' or old.status <> 'pending') then
+    raise exception using
+      errcode = 'BK004',
+      message = 'column_not_editable',
+      detail = 'Only the client can change event details, and only while pending.';
+  end if;
+
+  if new.status is distinct from old.status then
+    if not exists (
+      select 1 from public.booking_status_transitions t
+      where t.from_status = old.status and t.to_status = new.status
+    ) then
+      raise exception using
+        errcode = 'BK002',
+        message = 'invalid_transition',
+        detail = format('Cannot move a booking from %s to %s.', old.status, new.status);
+    end if;
+
+    if not exists (
+      select 1 from public.booking_status_transitions t
+      where t.from_status = old.status and t.to_status = new.status and t.actor = v_actor
+    ) then
+      raise exception using
+        errcode = 'BK003',
+        message = 'transition_not_allowed',
+        detail = format('The %s cannot move a booking from %s to %s.', v_actor, old.status, new.status);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger enforce_booking_update
+before update on public.bookings
+for each row execute function public.enforce_booking_update();
@@ -0,0 +1,125 @@
+-- Create booking_event_type enum
+create type public.booking_event_type as enum (
+  'created',
+  'status_changed',
+  'price_changed',
+  'rescheduled',
+  'notes_changed',
+  'details_changed'
+);
+
+-- Create booking_events table
+create table public.booking_events (
+  id uuid not null primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  actor_id uuid references public.profiles(id) on delete set null,
+  event_type public.booking_event_type not null,
+  old_value jsonb,
+  new_value jsonb,
+  created_at timestamp with time zone not null default clock_timestamp()
+);
+
+create index booking_events_booking_id_idx on public.booking_events (booking_id, created_at);
+
+-- Enable Row Level Security
+alter table public.booking_events enable row level security;
+
+-- Policies for booking_events
+-- There are no insert, update or delete policies: rows are only written by
+-- the trigger below, so the log cannot be edited from the app.
+create policy "Users can view events of their own bookings." on public.booking_events for select using (
+  exists (
+    select 1 from public.bookings b
+    where b.id = booking_id
+      and (auth.uid() = b.client_id or auth.uid() = b.professional_id)
+  )
+);
+
+-- Log booking changes
+create or replace function public.log_booking_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.booking_events (booking_id, actor_id, event_type, new_value)
+    values (
+      new.id,
+      auth.uid(),
+      'created',
+      jsonb_build_object(
+        'status', new.status,
+        'total_price', new.total_price,
+        'event_date', new.event_date,
+        'event_time', new.event_time
+      )
+    );
+    return new;
+  end if;
+
+  if new.status is distinct from old.status then
+    insert into public.booking_events (booking_id, actor_id, event_type, old_value, new_value)
+    values (
+      new.id,
+      auth.uid(),
+      'status_changed',
+      jsonb_build_object('status', old.status),
+      jsonb_build_object('status', new.status)
+    );
+  end if;
+
+  if new.total_price is distinct from old.total_price then
+    insert into public.booking_events (booking_id, actor_id, event_type, old_value, new_value)
+    values (
+      new.id,
+      auth.uid(),
+      'price_changed',
+      jsonb_build_object('total_price', old.total_price),
+      jsonb_build_object('total_price', new.total_price)
+    );
+  end if;
+
+  if new.event_date is distinct from old.event_date
+    or new.event_time is distinct from old.event_time then
+    insert into public.booking_events (booking_id, actor_id, event_type, old_value, new_value)
+    values (
+      new.id,
+      auth.uid(),
+      'rescheduled',
+      jsonb_build_object('event_date', old.event_date, 'event_time', old.event_time),
+      jsonb_build_object('event_date', new.event_date, 'event_time', new.event_time)
+    );
+  end if;
+
+  if new.notes is distinct from old.notes then
+    insert into public.booking_events (booking_id, actor_id, event_type, old_value, new_value)
+    values (
+      new.id,
+      auth.uid(),
+      'notes_changed',
+      jsonb_build_object('notes', old.notes),
+      jsonb_build_object('notes', new.notes)
+    );
+  end if;
+
+  if new.guests_count is distinct from old.guests_count
+    or new.location is distinct from old.location then
+    insert into public.booking_events (booking_id, actor_id, event_type, old_value, new_value)
+    values (
+      new.id,
+      auth.uid(),
+      'details_changed',
+      jsonb_build_object('guests_count', old.guests_count, 'location', old.location),
+      jsonb_build_object('guests_count', new.guests_count, 'location', new.location)
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger log_booking_events
+after insert or update on public.bookings
+for each row execute function public.log_booking_events();
@@ -0,0 +1,109 @@
+-- Add daily capacity to profiles
+alter table public.profiles add column max_events_per_day integer not null default 1 check (max_events_per_day > 0);
+
+-- Create professional_working_hours table
+create table public.professional_working_hours (
+  id uuid not null primary key default gen_random_uuid(),
+  professional_id uuid not null references public.profiles(id) on delete cascade,
+  weekday smallint not null check (weekday between 0 and 6),
+  start_time time not null,
+  end_time time not null,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  unique (professional_id, weekday),
+  check (end_time > start_time)
+);
+
+-- Create professional_blackout_dates table
+create table public.professional_blackout_dates (
+  id uuid not null primary key default gen_random_uuid(),
+  professional_id uuid not null references public.profiles(id) on delete cascade,
+  blackout_date date not null,
+  reason text,
+  created_at timestamp with time zone not null default now(),
+  unique (professional_id, blackout_date)
+);
+
+-- Enable Row Level Security
+alter table public.professional_working_hours enable row level security;
+alter table public.professional_blackout_dates enable row level security;
+
+-- Policies for professional_working_hours
+create policy "Working hours are viewable by everyone." on public.professional_working_hours for select using (true);
+create policy "Professionals can insert their own working hours." on public.professional_working_hours for insert with check (auth.uid() = professional_id);
+create policy "Professionals can update their own working hours." on public.professional_working_hours for update using (auth.uid() = professional_id);
+create policy "Professionals can delete their own working hours." on public.professional_working_hours for delete using (auth.uid() = professional_id);
+
+-- Policies for professional_blackout_dates
+create policy "Blackout dates are viewable by everyone." on public.professional_blackout_dates for select using (true);
+create policy "Professionals can insert their own blackout dates." on public.professional_blackout_dates for insert with check (auth.uid() = professional_id);
+create policy "Professionals can delete their own blackout dates." on public.professional_blackout_dates for delete using (auth.uid() = professional_id);
+
+-- List open start times for a service between two dates.
+-- Professionals who never set working hours are treated as open 10:00-22:00
+-- every day. Runs as definer because clients cannot read other clients'
+-- bookings; only the free slots are returned.
+create or replace function public.get_available_slots(
+  p_service_id uuid,
+  p_from date,
+  p_to date
+)
+returns table (slot_date date, slot_time time)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with service as (
+    select s.professional_id, s.duration_hours, p.max_events_per_day
+    from public.services s
+    join public.profiles p on p.id = s.professional_id
+    where s.id = p_service_id
+  ),
+  hours as (
+    select wh.weekday, wh.start_time, wh.end_time
+    from public.professional_working_hours wh
+    join service on wh.professional_id = service.professional_id
+    union all
+    select d::smallint, time '10:00', time '22:00'
+    from generate_series(0, 6) d
+    where not exists (
+      select 1 from public.professional_working_hours wh
+      join service on wh.professional_id = service.professional_id
+    )
+  ),
+  open_days as (
+    select day::date as day, hours.start_time, hours.end_time
+    from generate_series(p_from, p_to, interval '1 day') day
+    join hours on hours.weekday = extract(dow from day)
+    cross join service
+    where not exists (
+      select 1 from public.professional_blackout_dates bd
+      where bd.professional_id = service.professional_id
+        and bd.blackout_date = day::date
+    )
+    and (
+      select count(*) from public.bookings b
+      where b.professional_id = service.professional_id
+        and b.event_date = day::date
+        and b.status = 'confirmed'
+    ) < service.max_events_per_day
+  )
+  select slot::date as slot_date, slot::time as slot_time
+  from open_days
+  cross join service
+  cross join lateral generate_series(
+    open_days.day + open_days.start_time,
+    open_days.day + open_days.end_time - make_interval(hours => service.duration_hours),
+    interval '1 hour'
+  ) slot
+  where not exists (
+    select 1 from public.bookings b
+    join public.services bs on bs.id = b.service_id
+    where b.professional_id = service.professional_id
+      and b.status = 'confirmed'
+      and tsrange(b.event_date + b.event_time, b.event_date + b.event_time + make_interval(hours => bs.duration_hours))
+        && tsrange(slot, slot + make_interval(hours => service.duration_hours))
+  )
+  order by slot;
+$$;
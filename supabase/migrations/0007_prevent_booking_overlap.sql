@@ -0,0 +1,137 @@
+-- Enable btree_gist for the exclusion constraint
+create extension if not exists btree_gist;
+
+-- Add travel buffer to profiles
+alter table public.profiles add column travel_buffer_minutes integer not null default 60 check (travel_buffer_minutes >= 0);
+
+-- Add event_period to bookings: event start until the end of the service
+-- plus the professional's travel buffer
+alter table public.bookings add column event_period tsrange;
+
+-- Error codes raised below:
+--   BK006 booking_conflict  overlaps another confirmed booking; detail is its id
+
+-- Compute event_period and reject overlapping confirmed bookings.
+-- The exclusion constraint below is the backstop for concurrent writes; this
+-- trigger exists so the client learns which booking clashes.
+create or replace function public.prevent_booking_overlap()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_duration integer;
+  v_buffer integer;
+  v_conflict_id uuid;
+begin
+  select s.duration_hours, p.travel_buffer_minutes
+  into v_duration, v_buffer
+  from public.services s
+  join public.profiles p on p.id = s.professional_id
+  where s.id = new.service_id;
+
+  new.event_period := tsrange(
+    new.event_date + new.event_time,
+    new.event_date + new.event_time + make_interval(hours => v_duration, mins => v_buffer)
+  );
+
+  if new.status = 'confirmed' then
+    select b.id into v_conflict_id
+    from public.bookings b
+    where b.professional_id = new.professional_id
+      and b.status = 'confirmed'
+      and b.id <> new.id
+      and b.event_period && new.event_period
+    order by b.event_period
+    limit 1;
+
+    if v_conflict_id is not null then
+      raise exception using
+        errcode = 'BK006',
+        message = 'booking_conflict',
+        detail = v_conflict_id::text;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger prevent_booking_overlap
+before insert or update on public.bookings
+for each row execute function public.prevent_booking_overlap();
+
+-- Backfill existing bookings; the trigger computes event_period
+update public.bookings set event_period = null;
+
+alter table public.bookings alter column event_period set not null;
+
+alter table public.bookings add constraint bookings_no_overlap
+exclude using gist (professional_id with =, event_period with &&)
+where (status = 'confirmed');
+
+-- Use event_period, and with it the travel buffer, when listing open slots
+create or replace function public.get_available_slots(
+  p_service_id uuid,
+  p_from date,
+  p_to date
+)
+returns table (slot_date date, slot_time time)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with service as (
+    select s.professional_id, s.duration_hours, p.max_events_per_day, p.travel_buffer_minutes
+    from public.services s
+    join public.profiles p on p.id = s.professional_id
+    where s.id = p_service_id
+  ),
+  hours as (
+    select wh.weekday, wh.start_time, wh.end_time
+    from public.professional_working_hours wh
+    join service on wh.professional_id = service.professional_id
+    union all
+    select d::smallint, time '10:00', time '22:00'
+    from generate_series(0, 6) d
+    where not exists (
+      select 1 from public.professional_working_hours wh
+      join service on wh.professional_id = service.professional_id
+    )
+  ),
+  open_days as (
+    select day::date as day, hours.start_time, hours.end_time
+    from generate_series(p_from, p_to, interval '1 day') day
+    join hours on hours.weekday = extract(dow from day)
+    cross join service
+    where not exists (
+      select 1 from public.professional_blackout_dates bd
+      where bd.professional_id = service.professional_id
+        and bd.blackout_date = day::date
+    )
+    and (
+      select count(*) from public.bookings b
+      where b.professional_id = service.professional_id
+        and b.event_date = day::date
+        and b.status = 'confirmed'
+    ) < service.max_events_per_day
+  )
+  select slot::date as slot_date, slot::time as slot_time
+  from open_days
+  cross join service
+  cross join lateral generate_series(
+    open_days.day + open_days.start_time,
+    open_days.day + open_days.end_time - make_interval(hours => service.duration_hours),
+    interval '1 hour'
+  ) slot
+  where not exists (
+    select 1 from public.bookings b
+    where b.professional_id = service.professional_id
+      and b.status = 'confirmed'
+      and b.event_period && tsrange(
+        slot,
+        slot + make_interval(hours => service.duration_hours, mins => service.travel_buffer_minutes)
+      )
+  )
+  order by slot;
+$$;
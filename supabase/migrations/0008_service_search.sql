@@ -0,0 +1,198 @@
+-- Enable unaccent so "gaúcho" and "gaucho" match
+create extension if not exists unaccent with schema extensions;
+
+-- unaccent() is only stable; index expressions and generated values need an
+-- immutable wrapper pinned to the default dictionary
+create or replace function public.immutable_unaccent(value text)
+returns text
+language sql
+immutable
+parallel safe
+strict
+as $$
+  select extensions.unaccent('extensions.unaccent'::regdictionary, value);
+$$;
+
+create or replace function public.build_service_search_vector(
+  p_title text,
+  p_description text,
+  p_location text,
+  p_professional_name text
+)
+returns tsvector
+language sql
+immutable
+parallel safe
+as $$
+  select
+    setweight(to_tsvector('portuguese', public.immutable_unaccent(coalesce(p_title, ''))), 'A') ||
+    setweight(to_tsvector('portuguese', public.immutable_unaccent(coalesce(p_professional_name, ''))), 'B') ||
+    setweight(to_tsvector('portuguese', public.immutable_unaccent(coalesce(p_location, ''))), 'B') ||
+    setweight(to_tsvector('portuguese', public.immutable_unaccent(coalesce(p_description, ''))), 'C');
+$$;
+
+-- Add search_vector to services
+alter table public.services add column search_vector tsvector;
+
+create index services_search_vector_idx on public.services using gin (search_vector);
+
+-- Keep search_vector in sync with the service
+create or replace function public.set_service_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector := public.build_service_search_vector(
+    new.title,
+    new.description,
+    new.location,
+    (select full_name from public.profiles where id = new.professional_id)
+  );
+  return new;
+end;
+$$;
+
+create trigger set_service_search_vector
+before insert or update of title, description, location, professional_id on public.services
+for each row execute function public.set_service_search_vector();
+
+-- ...and with the professional's name
+create or replace function public.refresh_service_search_vectors()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.services
+  set search_vector = public.build_service_search_vector(
+    title,
+    description,
+    location,
+    new.full_name
+  )
+  where professional_id = new.id;
+  return new;
+end;
+$$;
+
+create trigger refresh_service_search_vectors
+after update of full_name on public.profiles
+for each row
+when (old.full_name is distinct from new.full_name)
+execute function public.refresh_service_search_vectors();
+
+-- Backfill existing services
+update public.services s
+set search_vector = public.build_service_search_vector(
+  s.title,
+  s.description,
+  s.location,
+  p.full_name
+)
+from public.profiles p
+where p.id = s.professional_id;
+
+-- Search services with keyset pagination.
+-- Every sort is expressed as an ascending sort_key (descending sorts are
+-- negated) so a page continues from (p_after_key, p_after_id) whatever the
+-- ordering. Words are prefix-matched, so partial input finds results while
+-- the client is still typing.
+create or replace function public.search_services(
+  p_query text default null,
+  p_sort text default 'relevance',
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_after_key double precision default null,
+  p_after_id uuid default null,
+  p_limit integer default 20
+)
+returns table (
+  id uuid,
+  professional_id uuid,
+  title text,
+  description text,
+  price_from numeric,
+  price_to numeric,
+  duration_hours integer,
+  max_guests integer,
+  location text,
+  images text[],
+  created_at timestamp with time zone,
+  professional_name text,
+  professional_avatar_url text,
+  average_rating numeric,
+  review_count bigint,
+  sort_key double precision,
+  total_count bigint
+)
+language plpgsql
+stable
+as $$
+declare
+  v_query tsquery;
+begin
+  if p_sort not in ('relevance', 'price', 'rating', 'newest') then
+    raise exception 'Unknown sort: %', p_sort;
+  end if;
+
+  select to_tsquery('portuguese', string_agg(word || ':*', ' & '))
+  into v_query
+  from regexp_split_to_table(
+    trim(regexp_replace(public.immutable_unaccent(lower(coalesce(p_query, ''))), '[^[:alnum:]]+', ' ', 'g')),
+    ' '
+  ) word
+  where word <> '';
+
+  return query
+  with matches as (
+    select
+      s.*,
+      p.full_name as professional_name,
+      p.avatar_url as professional_avatar_url,
+      r.average_rating,
+      coalesce(r.review_count, 0) as review_count,
+      case p_sort
+        when 'relevance' then
+          case
+            when v_query is null then -extract(epoch from s.created_at)::double precision
+            else -ts_rank(s.search_vector, v_query)::double precision
+          end
+        when 'price' then s.price_from::double precision
+        when 'rating' then -coalesce(r.average_rating, 0)::double precision
+        when 'newest' then -extract(epoch from s.created_at)::double precision
+      end as sort_key
+    from public.services s
+    join public.profiles p on p.id = s.professional_id
+    left join public.service_ratings r on r.service_id = s.id
+    where (v_query is null or s.search_vector @@ v_query)
+      and (p_min_price is null or s.price_from >= p_min_price)
+      and (p_max_price is null or s.price_from <= p_max_price)
+  ),
+  counted as (
+    select m.*, count(*) over () as total_count
+    from matches m
+  )
+  select
+    c.id,
+    c.professional_id,
+    c.title,
+    c.description,
+    c.price_from,
+    c.price_to,
+    c.duration_hours,
+    c.max_guests,
+    c.location,
+    c.images,
+    c.created_at,
+    c.professional_name,
+    c.professional_avatar_url,
+    c.average_rating,
+    c.review_count,
+    c.sort_key,
+    c.total_count
+  from counted c
+  where p_after_key is null
+    or (c.sort_key, c.id) > (p_after_key, p_after_id)
+  order by c.sort_key, c.id
+  limit p_limit;
+end;
+$$;
@@ -0,0 +1,144 @@
+-- Add coordinates to services and profiles
+alter table public.services
+  add column latitude double precision check (latitude between -90 and 90),
+  add column longitude double precision check (longitude between -180 and 180);
+
+alter table public.profiles
+  add column latitude double precision check (latitude between -90 and 90),
+  add column longitude double precision check (longitude between -180 and 180);
+
+-- Great-circle distance in kilometres (haversine); null when either point is unknown
+create or replace function public.distance_km(
+  p_lat1 double precision,
+  p_lon1 double precision,
+  p_lat2 double precision,
+  p_lon2 double precision
+)
+returns double precision
+language sql
+immutable
+parallel safe
+as $$
+  select 2 * 6371 * asin(least(1, sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2) +
+    cos(radians(p_lat1)) * cos(radians(p_lat2)) *
+    power(sin(radians(p_lon2 - p_lon1) / 2), 2)
+  )));
+$$;
+
+-- Recreate search_services with distance filtering.
+-- Services without coordinates are left out when a radius is given.
+drop function public.search_services(text, text, numeric, numeric, double precision, uuid, integer);
+
+create or replace function public.search_services(
+  p_query text default null,
+  p_sort text default 'relevance',
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_latitude double precision default null,
+  p_longitude double precision default null,
+  p_radius_km double precision default null,
+  p_after_key double precision default null,
+  p_after_id uuid default null,
+  p_limit integer default 20
+)
+returns table (
+  id uuid,
+  professional_id uuid,
+  title text,
+  description text,
+  price_from numeric,
+  price_to numeric,
+  duration_hours integer,
+  max_guests integer,
+  location text,
+  images text[],
+  created_at timestamp with time zone,
+  professional_name text,
+  professional_avatar_url text,
+  average_rating numeric,
+  review_count bigint,
+  distance_km double precision,
+  sort_key double precision,
+  total_count bigint
+)
+language plpgsql
+stable
+as $$
+declare
+  v_query tsquery;
+begin
+  if p_sort not in ('relevance', 'price', 'rating', 'newest') then
+    raise exception 'Unknown sort: %', p_sort;
+  end if;
+
+  select to_tsquery('portuguese', string_agg(word || ':*', ' & '))
+  into v_query
+  from regexp_split_to_table(
+    trim(regexp_replace(public.immutable_unaccent(lower(coalesce(p_query, ''))), '[^[:alnum:]]+', ' ', 'g')),
+    ' '
+  ) word
+  where word <> '';
+
+  return query
+  with matches as (
+    select
+      s.*,
+      p.full_name as professional_name,
+      p.avatar_url as professional_avatar_url,
+      r.average_rating,
+      coalesce(r.review_count, 0) as review_count,
+      public.distance_km(p_latitude, p_longitude, s.latitude, s.longitude) as distance_km,
+      case p_sort
+        when 'relevance' then
+          case
+            when v_query is null then -extract(epoch from s.created_at)::double precision
+            else -ts_rank(s.search_vector, v_query)::double precision
+          end
+        when 'price' then s.price_from::double precision
+        when 'rating' then -coalesce(r.average_rating, 0)::double precision
+        when 'newest' then -extract(epoch from s.created_at)::double precision
+      end as sort_key
+    from public.services s
+    join public.profiles p on p.id = s.professional_id
+    left join public.service_ratings r on r.service_id = s.id
+    where (v_query is null or s.search_vector @@ v_query)
+      and (p_min_price is null or s.price_from >= p_min_price)
+      and (p_max_price is null or s.price_from <= p_max_price)
+  ),
+  nearby as (
+    select m.*
+    from matches m
+    where p_radius_km is null
+      or m.distance_km <= p_radius_km
+  ),
+  counted as (
+    select n.*, count(*) over () as total_count
+    from nearby n
+  )
+  select
+    c.id,
+    c.professional_id,
+    c.title,
+    c.description,
+    c.price_from,
+    c.price_to,
+    c.duration_hours,
+    c.max_guests,
+    c.location,
+    c.images,
+    c.created_at,
+    c.professional_name,
+    c.professional_avatar_url,
+    c.average_rating,
+    c.review_count,
+    c.distance_km,
+    c.sort_key,
+    c.total_count
+  from counted c
+  where p_after_key is null
+    or (c.sort_key, c.id) > (p_after_key, p_after_id)
+  order by c.sort_key, c.id
+  limit p_limit;
+end;
+$$;
@@ -0,0 +1,98 @@
+-- Create messages table
+create table public.messages (
+  id uuid not null primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  sender_id uuid not null references public.profiles(id) on delete cascade,
+  body text,
+  image_path text,
+  read_at timestamp with time zone,
+  created_at timestamp with time zone not null default now(),
+  constraint messages_content_check check (
+    nullif(trim(body), '') is not null or image_path is not null
+  )
+);
+
+create index messages_booking_id_created_at_idx on public.messages (booking_id, created_at);
+
+-- Enable Row Level Security
+alter table public.messages enable row level security;
+
+-- Policies for messages
+create policy "Booking parties can view their messages." on public.messages for select using (
+  exists (
+    select 1 from public.bookings b
+    where b.id = booking_id
+      and (auth.uid() = b.client_id or auth.uid() = b.professional_id)
+  )
+);
+create policy "Booking parties can send messages." on public.messages for insert with check (
+  auth.uid() = sender_id
+  and read_at is null
+  and exists (
+    select 1 from public.bookings b
+    where b.id = booking_id
+      and (auth.uid() = b.client_id or auth.uid() = b.professional_id)
+  )
+);
+
+-- Mark the other party's messages in a booking as read.
+-- There is no update policy on messages; read receipts only change through
+-- here so nobody can edit a message after it was sent.
+create or replace function public.mark_messages_read(p_booking_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.messages m
+  set read_at = now()
+  from public.bookings b
+  where b.id = m.booking_id
+    and m.booking_id = p_booking_id
+    and m.sender_id <> auth.uid()
+    and m.read_at is null
+    and (auth.uid() = b.client_id or auth.uid() = b.professional_id);
+$$;
+
+-- Unread messages addressed to the current user, per booking
+create or replace function public.get_unread_message_counts()
+returns table (booking_id uuid, unread_count bigint)
+language sql
+stable
+as $$
+  select m.booking_id, count(*) as unread_count
+  from public.messages m
+  where m.sender_id <> auth.uid()
+    and m.read_at is null
+  group by m.booking_id;
+$$;
+
+-- Broadcast new messages and read receipts
+alter publication supabase_realtime add table public.messages;
+
+-- Create storage bucket for message attachments.
+-- Files live under the booking id, so only its parties can read or add them.
+insert into storage.buckets (id, name, public)
+values ('message_attachments', 'message_attachments', false);
+
+create policy "Booking parties can view message attachments"
+on storage.objects for select
+using (
+  bucket_id = 'message_attachments'
+  and exists (
+    select 1 from public.bookings b
+    where b.id = (storage.foldername(name))[1]::uuid
+      and (auth.uid() = b.client_id or auth.uid() = b.professional_id)
+  )
+);
+
+create policy "Booking parties can upload message attachments"
+on storage.objects for insert
+with check (
+  bucket_id = 'message_attachments'
+  and exists (
+    select 1 from public.bookings b
+    where b.id = (storage.foldername(name))[1]::uuid
+      and (auth.uid() = b.client_id or auth.uid() = b.professional_id)
+  )
+);
@@ -0,0 +1,2 @@
+-- Broadcast booking changes; RLS limits each subscriber to their own bookings
+alter publication supabase_realtime add table public.bookings;
@@ -0,0 +1,211 @@
+-- Create push_tokens table
+create table public.push_tokens (
+  id uuid not null primary key default gen_random_uuid(),
+  profile_id uuid not null references public.profiles(id) on delete cascade,
+  token text not null unique,
+  platform text not null check (platform in ('ios', 'android', 'web')),
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+-- Create notification_type enum
+create type public.notification_type as enum (
+  'booking_requested',
+  'booking_accepted',
+  'booking_refused',
+  'booking_cancelled',
+  'reminder_24h',
+  'reminder_2h'
+);
+
+-- Create notifications table (the in-app inbox; pushed_at is set once the
+-- sender has delivered it to the recipient's devices)
+create table public.notifications (
+  id uuid not null primary key default gen_random_uuid(),
+  profile_id uuid not null references public.profiles(id) on delete cascade,
+  booking_id uuid references public.bookings(id) on delete cascade,
+  type public.notification_type not null,
+  title text not null,
+  body text not null,
+  read_at timestamp with time zone,
+  pushed_at timestamp with time zone,
+  created_at timestamp with time zone not null default now()
+);
+
+create index notifications_profile_id_created_at_idx on public.notifications (profile_id, created_at desc);
+create index notifications_unpushed_idx on public.notifications (created_at) where pushed_at is null;
+
+-- Each reminder goes out once per booking and recipient
+create unique index notifications_reminder_once_idx on public.notifications (profile_id, booking_id, type)
+where type in ('reminder_24h', 'reminder_2h');
+
+-- Create push_deliveries table: one row per token a notification was sent
+-- (or, with the stub sender, would have been sent) to
+create table public.push_deliveries (
+  id uuid not null primary key default gen_random_uuid(),
+  notification_id uuid not null references public.notifications(id) on delete cascade,
+  token text not null,
+  sender text not null,
+  payload jsonb not null,
+  status text not null check (status in ('recorded', 'sent', 'failed')),
+  error text,
+  created_at timestamp with time zone not null default now()
+);
+
+-- Enable Row Level Security
+alter table public.push_tokens enable row level security;
+alter table public.notifications enable row level security;
+alter table public.push_deliveries enable row level security;
+
+-- Policies for push_tokens (registration goes through register_push_token)
+create policy "Users can view their own push tokens." on public.push_tokens for select using (auth.uid() = profile_id);
+create policy "Users can delete their own push tokens." on public.push_tokens for delete using (auth.uid() = profile_id);
+
+-- Policies for notifications (read receipts go through mark_notifications_read)
+create policy "Users can view their own notifications." on public.notifications for select using (auth.uid() = profile_id);
+
+-- push_deliveries has no policies; only the sender (service role) uses it
+
+-- Register this device for the current user. A token that was registered by
+-- someone else (shared device, new login) moves to the current user.
+create or replace function public.register_push_token(p_token text, p_platform text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.push_tokens (profile_id, token, platform)
+  values (auth.uid(), p_token, p_platform)
+  on conflict (token) do update
+  set profile_id = excluded.profile_id,
+      platform = excluded.platform,
+      updated_at = now();
+$$;
+
+-- Mark the current user's notifications as read; all of them when p_ids is null
+create or replace function public.mark_notifications_read(p_ids uuid[] default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.notifications
+  set read_at = now()
+  where profile_id = auth.uid()
+    and read_at is null
+    and (p_ids is null or id = any(p_ids));
+$$;
+
+-- Notify the parties of booking lifecycle events
+create or replace function public.notify_booking_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_service text;
+  v_client text;
+  v_professional text;
+  v_when text;
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  select title into v_service from public.services where id = new.service_id;
+  select full_name into v_client from public.profiles where id = new.client_id;
+  select full_name into v_professional from public.profiles where id = new.professional_id;
+  v_when := to_char(new.event_date, 'DD/MM/YYYY') || ' às ' || to_char(new.event_time, 'HH24:MI');
+
+  if tg_op = 'INSERT' then
+    if new.status = 'pending' then
+      insert into public.notifications (profile_id, booking_id, type, title, body)
+      values (
+        new.professional_id, new.id, 'booking_requested', 'Nova solicitação',
+        format('%s quer agendar %s em %s.', v_client, v_service, v_when)
+      );
+    end if;
+    return new;
+  end if;
+
+  if old.status = 'pending' and new.status = 'confirmed' then
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      new.client_id, new.id, 'booking_accepted', 'Agendamento confirmado',
+      format('%s confirmou %s em %s.', v_professional, v_service, v_when)
+    );
+  elsif old.status = 'pending' and new.status = 'cancelled' and auth.uid() = new.professional_id then
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      new.client_id, new.id, 'booking_refused', 'Solicitação recusada',
+      format('%s não poderá atender %s em %s.', v_professional, v_service, v_when)
+    );
+  elsif new.status = 'cancelled' then
+    -- Tell whoever did not cancel; both parties when the system did
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    select party, new.id, 'booking_cancelled', 'Agendamento cancelado',
+      format('%s em %s foi cancelado.', v_service, v_when)
+    from unnest(array[new.client_id, new.professional_id]) party
+    where party is distinct from auth.uid();
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger notify_booking_changes
+after insert or update of status on public.bookings
+for each row execute function public.notify_booking_changes();
+
+-- Queue 24h and 2h reminders for confirmed bookings. Safe to run repeatedly:
+-- each reminder is sent once. A booking confirmed less than 2 hours ahead
+-- only gets the 2h reminder.
+create or replace function public.queue_booking_reminders()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- event_date/event_time are the local time of the event
+  v_now timestamp := now() at time zone 'America/Sao_Paulo';
+  v_count integer;
+begin
+  insert into public.notifications (profile_id, booking_id, type, title, body)
+  select
+    party,
+    b.id,
+    r.type,
+    r.title,
+    format(r.body, s.title, to_char(b.event_date + b.event_time, r.time_format))
+  from public.bookings b
+  join public.services s on s.id = b.service_id
+  cross join (
+    values
+      ('reminder_24h'::public.notification_type, 'Lembrete de evento', '%s está marcado para %s.', 'DD/MM "às" HH24:MI', interval '2 hours', interval '24 hours'),
+      ('reminder_2h'::public.notification_type, 'Evento em breve', '%s começa às %s.', 'HH24:MI', interval '0 hours', interval '2 hours')
+  ) as r(type, title, body, time_format, window_start, window_end)
+  cross join unnest(array[b.client_id, b.professional_id]) party
+  where b.status = 'confirmed'
+    and b.event_date + b.event_time > v_now + r.window_start
+    and b.event_date + b.event_time <= v_now + r.window_end
+  on conflict (profile_id, booking_id, type) where type in ('reminder_24h', 'reminder_2h')
+  do nothing;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+-- Check for due reminders every 15 minutes
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'queue-booking-reminders',
+  '*/15 * * * *',
+  $$select public.queue_booking_reminders()$$
+);
+
+-- Broadcast new notifications for the inbox badge
+alter publication supabase_realtime add table public.notifications;
@@ -0,0 +1,133 @@
+-- Create cancellation_policy enum
+create type public.cancellation_policy as enum ('flexible', 'moderate', 'strict');
+
+-- Create cancellation_policy_tiers table: refund_percent applies when the
+-- client cancels at least min_hours_before the event starts
+create table public.cancellation_policy_tiers (
+  policy public.cancellation_policy not null,
+  min_hours_before integer not null check (min_hours_before >= 0),
+  refund_percent integer not null check (refund_percent between 0 and 100),
+  primary key (policy, min_hours_before)
+);
+
+-- Every policy has a 0-hour tier, so a tier always matches
+insert into public.cancellation_policy_tiers (policy, min_hours_before, refund_percent) values
+  ('flexible', 24, 100),
+  ('flexible', 0, 50),
+  ('moderate', 120, 100),
+  ('moderate', 48, 50),
+  ('moderate', 0, 0),
+  ('strict', 336, 100),
+  ('strict', 168, 50),
+  ('strict', 0, 0);
+
+-- Enable Row Level Security
+alter table public.cancellation_policy_tiers enable row level security;
+
+-- Policies for cancellation_policy_tiers
+create policy "Cancellation policy tiers are viewable by everyone." on public.cancellation_policy_tiers for select using (true);
+
+-- Add cancellation policy to profiles and services (null on a service means
+-- the professional's policy applies)
+alter table public.profiles add column cancellation_policy public.cancellation_policy not null default 'flexible';
+alter table public.services add column cancellation_policy public.cancellation_policy;
+
+-- Add cancellation details to bookings
+alter table public.bookings
+  add column cancellation_reason text,
+  add column cancelled_by uuid references public.profiles(id),
+  add column cancelled_at timestamp with time zone,
+  add column cancellation_policy public.cancellation_policy,
+  add column refund_percent integer check (refund_percent between 0 and 100),
+  add column refund_amount numeric check (refund_amount >= 0);
+
+-- Error codes raised below:
+--   BK004 column_not_editable  cancellation details are set by this trigger only
+--   BK007 event_started        the event already started
+--   BK008 reason_required      clients must say why they cancel
+
+-- Apply the cancellation policy when a booking is cancelled.
+-- Pending bookings and cancellations by the professional are refunded in
+-- full; a client cancelling a confirmed booking gets the refund of the
+-- policy tier matching how far ahead of the event they cancel.
+create or replace function public.enforce_cancellation_policy()
+returns trigger
+language plpgsql
+as $$
+declare
+  -- event_date/event_time are the local time of the event
+  v_now timestamp := now() at time zone 'America/Sao_Paulo';
+  v_hours_before numeric;
+  v_policy public.cancellation_policy;
+  v_refund_percent integer;
+begin
+  -- Service role and database jobs are trusted
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' or new.status <> 'cancelled' or old.status = 'cancelled' then
+    if new.cancellation_reason is distinct from (case when tg_op = 'UPDATE' then old.cancellation_reason end)
+      or new.cancelled_by is distinct from (case when tg_op = 'UPDATE' then old.cancelled_by end)
+      or new.cancelled_at is distinct from (case when tg_op = 'UPDATE' then old.cancelled_at end)
+      or new.cancellation_policy is distinct from (case when tg_op = 'UPDATE' then old.cancellation_policy end)
+      or new.refund_percent is distinct from (case when tg_op = 'UPDATE' then old.refund_percent end)
+      or new.refund_amount is distinct from (case when tg_op = 'UPDATE' then old.refund_amount end) then
+      raise exception using
+        errcode = 'BK004',
+        message = 'column_not_editable',
+        detail = 'Cancellation details can only be set while cancelling.';
+    end if;
+    return new;
+  end if;
+
+  v_hours_before := extract(epoch from (new.event_date + new.event_time) - v_now) / 3600;
+
+  if v_hours_before <= 0 then
+    raise exception using
+      errcode = 'BK007',
+      message = 'event_started',
+      detail = 'The event already started and can no longer be cancelled.';
+  end if;
+
+  select coalesce(s.cancellation_policy, p.cancellation_policy)
+  into v_policy
+  from public.services s
+  join public.profiles p on p.id = s.professional_id
+  where s.id = new.service_id;
+
+  if auth.uid() = new.client_id then
+    if nullif(trim(new.cancellation_reason), '') is null then
+      raise exception using
+        errcode = 'BK008',
+        message = 'reason_required',
+        detail = 'Clients must give a reason to cancel.';
+    end if;
+
+    if old.status = 'confirmed' then
+      select t.refund_percent
+      into v_refund_percent
+      from public.cancellation_policy_tiers t
+      where t.policy = v_policy
+        and t.min_hours_before <= v_hours_before
+      order by t.min_hours_before desc
+      limit 1;
+    end if;
+  end if;
+
+  new.cancelled_by := auth.uid();
+  new.cancelled_at := now();
+  new.cancellation_reason := nullif(trim(new.cancellation_reason), '');
+  new.cancellation_policy := v_policy;
+  new.refund_percent := coalesce(v_refund_percent, 100);
+  new.refund_amount := round(new.total_price * new.refund_percent / 100.0, 2);
+
+  return new;
+end;
+$$;
+
+-- Runs after enforce_booking_update (triggers fire in name order), so the
+-- transition itself has already been validated
+create trigger enforce_cancellation_policy
+before insert or update on public.bookings
+for each row execute function public.enforce_cancellation_policy();
@@ -0,0 +1,527 @@
+-- Create reschedule_status enum
+create type public.reschedule_status as enum ('pending', 'accepted', 'declined', 'countered');
+
+-- Record reschedule proposals in the booking history and the inbox
+alter type public.booking_event_type add value 'reschedule_requested';
+alter type public.booking_event_type add value 'reschedule_declined';
+alter type public.notification_type add value 'reschedule_requested';
+alter type public.notification_type add value 'reschedule_accepted';
+alter type public.notification_type add value 'reschedule_declined';
+
+-- Create reschedule_requests table: a proposal from either party to move a
+-- booking. Countering closes the proposal and opens a new one from the
+-- other party, linked through counter_of.
+create table public.reschedule_requests (
+  id uuid not null primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  proposed_by uuid not null references public.profiles(id) on delete cascade,
+  event_date date not null,
+  event_time time not null,
+  status public.reschedule_status not null default 'pending',
+  counter_of uuid references public.reschedule_requests(id) on delete set null,
+  responded_at timestamp with time zone,
+  created_at timestamp with time zone not null default now()
+);
+
+create index reschedule_requests_booking_id_idx on public.reschedule_requests (booking_id, created_at);
+
+-- A booking has at most one open proposal at a time
+create unique index reschedule_requests_one_pending_idx on public.reschedule_requests (booking_id)
+where status = 'pending';
+
+-- Enable Row Level Security
+alter table public.reschedule_requests enable row level security;
+
+-- Policies for reschedule_requests
+-- There are no insert or update policies: proposals only change through the
+-- functions below, which check availability and apply accepted dates.
+create policy "Booking parties can view reschedule requests." on public.reschedule_requests for select using (
+  exists (
+    select 1 from public.bookings b
+    where b.id = booking_id
+      and (auth.uid() = b.client_id or auth.uid() = b.professional_id)
+  )
+);
+
+-- Let get_available_slots ignore one booking, so a booking being moved does
+-- not block its own new slot or count against the day's capacity
+drop function public.get_available_slots(uuid, date, date);
+
+create or replace function public.get_available_slots(
+  p_service_id uuid,
+  p_from date,
+  p_to date,
+  p_exclude_booking_id uuid default null
+)
+returns table (slot_date date, slot_time time)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with service as (
+    select s.professional_id, s.duration_hours, p.max_events_per_day, p.travel_buffer_minutes
+    from public.services s
+    join public.profiles p on p.id = s.professional_id
+    where s.id = p_service_id
+  ),
+  hours as (
+    select wh.weekday, wh.start_time, wh.end_time
+    from public.professional_working_hours wh
+    join service on wh.professional_id = service.professional_id
+    union all
+    select d::smallint, time '10:00', time '22:00'
+    from generate_series(0, 6) d
+    where not exists (
+      select 1 from public.professional_working_hours wh
+      join service on wh.professional_id = service.professional_id
+    )
+  ),
+  open_days as (
+    select day::date as day, hours.start_time, hours.end_time
+    from generate_series(p_from, p_to, interval '1 day') day
+    join hours on hours.weekday = extract(dow from day)
+    cross join service
+    where not exists (
+      select 1 from public.professional_blackout_dates bd
+      where bd.professional_id = service.professional_id
+        and bd.blackout_date = day::date
+    )
+    and (
+      select count(*) from public.bookings b
+      where b.professional_id = service.professional_id
+        and b.event_date = day::date
+        and b.status = 'confirmed'
+        and b.id is distinct from p_exclude_booking_id
+    ) < service.max_events_per_day
+  )
+  select slot::date as slot_date, slot::time as slot_time
+  from open_days
+  cross join service
+  cross join lateral generate_series(
+    open_days.day + open_days.start_time,
+    open_days.day + open_days.end_time - make_interval(hours => service.duration_hours),
+    interval '1 hour'
+  ) slot
+  where not exists (
+    select 1 from public.bookings b
+    where b.professional_id = service.professional_id
+      and b.status = 'confirmed'
+      and b.id is distinct from p_exclude_booking_id
+      and b.event_period && tsrange(
+        slot,
+        slot + make_interval(hours => service.duration_hours, mins => service.travel_buffer_minutes)
+      )
+  )
+  order by slot;
+$$;
+
+-- Error codes raised below:
+--   BK001 booking_locked          booking is cancelled or completed
+--   BK003 transition_not_allowed  answering your own proposal
+--   BK005 not_a_party             caller is neither the client nor the professional
+--   BK007 event_started           the event already started
+--   BK009 slot_unavailable        the professional is not available at the proposed time
+--   BK010 reschedule_pending      the booking already has an open proposal
+--   BK011 reschedule_closed       the proposal was already answered
+
+-- Lock a booking that the caller is about to reschedule
+create or replace function public.lock_reschedulable_booking(p_booking_id uuid)
+returns public.bookings
+language plpgsql
+as $$
+declare
+  -- event_date/event_time are the local time of the event
+  v_now timestamp := now() at time zone 'America/Sao_Paulo';
+  v_booking public.bookings;
+begin
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id
+  for update;
+
+  if v_booking.id is null
+    or auth.uid() is distinct from v_booking.client_id
+    and auth.uid() is distinct from v_booking.professional_id then
+    raise exception using
+      errcode = 'BK005',
+      message = 'not_a_party',
+      detail = 'Only the client or the professional can reschedule this booking.';
+  end if;
+
+  if v_booking.status in ('cancelled', 'completed') then
+    raise exception using
+      errcode = 'BK001',
+      message = 'booking_locked',
+      detail = format('Booking is %s and can no longer change.', v_booking.status);
+  end if;
+
+  if v_booking.event_date + v_booking.event_time <= v_now then
+    raise exception using
+      errcode = 'BK007',
+      message = 'event_started',
+      detail = 'The event already started and can no longer be rescheduled.';
+  end if;
+
+  return v_booking;
+end;
+$$;
+
+-- Check a proposed date against the professional's current availability
+create or replace function public.assert_reschedule_slot_available(
+  p_booking public.bookings,
+  p_event_date date,
+  p_event_time time
+)
+returns void
+language plpgsql
+as $$
+begin
+  if p_event_date + p_event_time <= now() at time zone 'America/Sao_Paulo'
+    or not exists (
+      select 1
+      from public.get_available_slots(p_booking.service_id, p_event_date, p_event_date, p_booking.id) slot
+      where slot.slot_time = p_event_time
+    ) then
+    raise exception using
+      errcode = 'BK009',
+      message = 'slot_unavailable',
+      detail = format('The professional is not available on %s at %s.', p_event_date, p_event_time);
+  end if;
+end;
+$$;
+
+-- Lock an open proposal that the caller, the other party, is answering
+create or replace function public.lock_reschedule_request(p_request_id uuid)
+returns public.reschedule_requests
+language plpgsql
+as $$
+declare
+  v_request public.reschedule_requests;
+begin
+  select * into v_request
+  from public.reschedule_requests
+  where id = p_request_id
+  for update;
+
+  -- Also checks that the caller is a party to the booking
+  perform public.lock_reschedulable_booking(v_request.booking_id);
+
+  if v_request.status <> 'pending' then
+    raise exception using
+      errcode = 'BK011',
+      message = 'reschedule_closed',
+      detail = format('This proposal was already %s.', v_request.status);
+  end if;
+
+  if v_request.proposed_by = auth.uid() then
+    raise exception using
+      errcode = 'BK003',
+      message = 'transition_not_allowed',
+      detail = 'Only the other party can answer this proposal.';
+  end if;
+
+  return v_request;
+end;
+$$;
+
+-- Open a proposal, log it and tell the other party
+create or replace function public.open_reschedule_request(
+  p_booking public.bookings,
+  p_event_date date,
+  p_event_time time,
+  p_counter_of uuid
+)
+returns public.reschedule_requests
+language plpgsql
+as $$
+declare
+  v_request public.reschedule_requests;
+  v_service text;
+  v_proposer text;
+begin
+  if exists (
+    select 1 from public.reschedule_requests r
+    where r.booking_id = p_booking.id and r.status = 'pending'
+  ) then
+    raise exception using
+      errcode = 'BK010',
+      message = 'reschedule_pending',
+      detail = 'This booking already has an open reschedule proposal.';
+  end if;
+
+  perform public.assert_reschedule_slot_available(p_booking, p_event_date, p_event_time);
+
+  insert into public.reschedule_requests (booking_id, proposed_by, event_date, event_time, counter_of)
+  values (p_booking.id, auth.uid(), p_event_date, p_event_time, p_counter_of)
+  returning * into v_request;
+
+  insert into public.booking_events (booking_id, actor_id, event_type, old_value, new_value)
+  values (
+    p_booking.id,
+    auth.uid(),
+    'reschedule_requested',
+    jsonb_build_object('event_date', p_booking.event_date, 'event_time', p_booking.event_time),
+    jsonb_build_object('event_date', p_event_date, 'event_time', p_event_time)
+  );
+
+  select title into v_service from public.services where id = p_booking.service_id;
+  select full_name into v_proposer from public.profiles where id = auth.uid();
+
+  insert into public.notifications (profile_id, booking_id, type, title, body)
+  select party, p_booking.id, 'reschedule_requested',
+    case when p_counter_of is null then 'Pedido de nova data' else 'Nova proposta de data' end,
+    format(
+      '%s propôs mudar %s para %s às %s.',
+      v_proposer, v_service, to_char(p_event_date, 'DD/MM/YYYY'), to_char(p_event_time, 'HH24:MI')
+    )
+  from unnest(array[p_booking.client_id, p_booking.professional_id]) party
+  where party <> auth.uid();
+
+  return v_request;
+end;
+$$;
+
+-- Propose a new date and time for a booking
+create or replace function public.request_reschedule(
+  p_booking_id uuid,
+  p_event_date date,
+  p_event_time time
+)
+returns public.reschedule_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return public.open_reschedule_request(
+    public.lock_reschedulable_booking(p_booking_id),
+    p_event_date,
+    p_event_time,
+    null
+  );
+end;
+$$;
+
+-- Accept or decline the other party's proposal. Accepting re-checks
+-- availability and moves the booking; its id and history stay the same.
+create or replace function public.respond_to_reschedule(
+  p_request_id uuid,
+  p_accept boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.reschedule_requests := public.lock_reschedule_request(p_request_id);
+  v_booking public.bookings := public.lock_reschedulable_booking(v_request.booking_id);
+  v_service text;
+  v_responder text;
+  v_when text := to_char(v_request.event_date, 'DD/MM/YYYY') || ' às ' || to_char(v_request.event_time, 'HH24:MI');
+begin
+  select title into v_service from public.services where id = v_booking.service_id;
+  select full_name into v_responder from public.profiles where id = auth.uid();
+
+  if not p_accept then
+    update public.reschedule_requests
+    set status = 'declined', responded_at = now()
+    where id = v_request.id;
+
+    insert into public.booking_events (booking_id, actor_id, event_type, new_value)
+    values (
+      v_booking.id,
+      auth.uid(),
+      'reschedule_declined',
+      jsonb_build_object('event_date', v_request.event_date, 'event_time', v_request.event_time)
+    );
+
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      v_request.proposed_by, v_booking.id, 'reschedule_declined', 'Nova data recusada',
+      format('%s recusou mudar %s para %s.', v_responder, v_service, v_when)
+    );
+    return;
+  end if;
+
+  perform public.assert_reschedule_slot_available(v_booking, v_request.event_date, v_request.event_time);
+
+  -- enforce_booking_update lets the date change through because this
+  -- request was accepted in the same transaction
+  update public.reschedule_requests
+  set status = 'accepted', responded_at = now()
+  where id = v_request.id;
+
+  update public.bookings
+  set event_date = v_request.event_date, event_time = v_request.event_time
+  where id = v_booking.id;
+
+  -- Reminders already sent were for the old date
+  delete from public.notifications
+  where booking_id = v_booking.id
+    and type in ('reminder_24h', 'reminder_2h');
+
+  insert into public.notifications (profile_id, booking_id, type, title, body)
+  values (
+    v_request.proposed_by, v_booking.id, 'reschedule_accepted', 'Nova data confirmada',
+    format('%s aceitou mudar %s para %s.', v_responder, v_service, v_when)
+  );
+end;
+$$;
+
+-- Answer the other party's proposal with a different date and time
+create or replace function public.counter_reschedule(
+  p_request_id uuid,
+  p_event_date date,
+  p_event_time time
+)
+returns public.reschedule_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.reschedule_requests := public.lock_reschedule_request(p_request_id);
+begin
+  update public.reschedule_requests
+  set status = 'countered', responded_at = now()
+  where id = v_request.id;
+
+  return public.open_reschedule_request(
+    public.lock_reschedulable_booking(v_request.booking_id),
+    p_event_date,
+    p_event_time,
+    v_request.id
+  );
+end;
+$$;
+
+-- Let accepted reschedule requests move confirmed bookings
+create or replace function public.enforce_booking_update()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_actor public.booking_actor;
+  v_rescheduled boolean;
+begin
+  new.updated_at := now();
+
+  -- Service role and database jobs are trusted
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if auth.uid() = old.client_id then
+    v_actor := 'client';
+  elsif auth.uid() = old.professional_id then
+    v_actor := 'professional';
+  else
+    raise exception using
+      errcode = 'BK005',
+      message = 'not_a_party',
+      detail = 'Only the client or the professional can change this booking.';
+  end if;
+
+  if old.status in ('cancelled', 'completed') then
+    raise exception using
+      errcode = 'BK001',
+      message = 'booking_locked',
+      detail = format('Booking is %s and can no longer change.', old.status);
+  end if;
+
+  if new.client_id is distinct from old.client_id
+    or new.professional_id is distinct from old.professional_id
+    or new.service_id is distinct from old.service_id
+    or new.created_at is distinct from old.created_at then
+    raise exception using
+      errcode = 'BK004',
+      message = 'column_not_editable',
+      detail = 'client_id, professional_id, service_id and created_at cannot change.';
+  end if;
+
+  -- Clients own the event details, professionals own the price, and both
+  -- are frozen once the booking leaves pending.
+  if new.total_price is distinct from old.total_price
+    and (v_actor <> 'professional' or old.status <> 'pending') then
+    raise exception using
+      errcode = 'BK004',
+      message = 'column_not_editable',
+      detail = 'Only the professional can change total_price, and only while pending.';
+  end if;
+
+  -- Either party may move the date by accepting the other's reschedule
+  -- request; respond_to_reschedule marks it accepted in this transaction.
+  v_rescheduled := exists (
+    select 1 from public.reschedule_requests r
+    where r.booking_id = new.id
+      and r.status = 'accepted'
+      and r.responded_at = now()
+      and r.event_date = new.event_date
+      and r.event_time = new.event_time
+  );
+
+  if ((new.event_date is distinct from old.event_date
+    or new.event_time is distinct from old.event_time) and not v_rescheduled
+    or new.guests_count is distinct from old.guests_count
+    or new.location is distinct from old.location
+    or new.notes is distinct from old.notes)
+    and (v_actor <> 'client' or old.status <> 'pending') then
+    raise exception using
+      errcode = 'BK004',
+      message = 'column_not_editable',
+      detail = 'Only the client can change event details, and only while pending.';
+  end if;
+
+  if new.status is distinct from old.status then
+    if not exists (
+      select 1 from public.booking_status_transitions t
+      where t.from_status = old.status and t.to_status = new.status
+    ) then
+      raise exception using
+        errcode = 'BK002',
+        message = 'invalid_transition',
+        detail = format('Cannot move a booking from %s to %s.', old.status, new.status);
+    end if;
+
+    if not exists (
+      select 1 from public.booking_status_transitions t
+      where t.from_status = old.status and t.to_status = new.status and t.actor = v_actor
+    ) then
+      raise exception using
+        errcode = 'BK003',
+        message = 'transition_not_allowed',
+        detail = format('The %s cannot move a booking from %s to %s.', v_actor, old.status, new.status);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- A cancelled or completed booking has nothing left to reschedule
+create or replace function public.close_reschedule_requests()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.reschedule_requests
+  set status = 'declined', responded_at = now()
+  where booking_id = new.id
+    and status = 'pending';
+
+  return new;
+end;
+$$;
+
+create trigger close_reschedule_requests
+after update of status on public.bookings
+for each row
+when (new.status in ('cancelled', 'completed'))
+execute function public.close_reschedule_requests();
+
+-- Broadcast proposals so the other party sees them without refreshing
+alter publication supabase_realtime add table public.reschedule_requests;
@@ -0,0 +1,494 @@
+-- Create quote_status enum
+create type public.quote_status as enum ('pending', 'approved', 'declined', 'superseded');
+
+-- Create quote_item_category enum
+create type public.quote_item_category as enum ('meat', 'labor', 'travel', 'extras');
+
+-- Record quotes in the booking history and the inbox
+alter type public.booking_event_type add value 'quote_sent';
+alter type public.booking_event_type add value 'quote_declined';
+alter type public.notification_type add value 'quote_received';
+alter type public.notification_type add value 'quote_approved';
+alter type public.notification_type add value 'quote_declined';
+
+-- Create booking_quotes table: the professional's itemized price for a
+-- pending booking. Approving it sets total_price and confirms the booking;
+-- a quote past expires_at can no longer be approved.
+create table public.booking_quotes (
+  id uuid not null primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  total numeric not null check (total > 0),
+  expires_at timestamp with time zone not null,
+  status public.quote_status not null default 'pending',
+  responded_at timestamp with time zone,
+  created_at timestamp with time zone not null default now()
+);
+
+create index booking_quotes_booking_id_idx on public.booking_quotes (booking_id, created_at);
+
+-- A booking has at most one quote waiting for the client
+create unique index booking_quotes_one_pending_idx on public.booking_quotes (booking_id)
+where status = 'pending';
+
+-- Create booking_quote_items table
+create table public.booking_quote_items (
+  id uuid not null primary key default gen_random_uuid(),
+  quote_id uuid not null references public.booking_quotes(id) on delete cascade,
+  category public.quote_item_category not null,
+  description text,
+  amount numeric not null check (amount >= 0)
+);
+
+create index booking_quote_items_quote_id_idx on public.booking_quote_items (quote_id);
+
+-- Enable Row Level Security
+alter table public.booking_quotes enable row level security;
+alter table public.booking_quote_items enable row level security;
+
+-- Policies for booking_quotes and booking_quote_items
+-- There are no insert or update policies: quotes only change through the
+-- functions below, so the total always matches the items.
+create policy "Booking parties can view quotes." on public.booking_quotes for select using (
+  exists (
+    select 1 from public.bookings b
+    where b.id = booking_id
+      and (auth.uid() = b.client_id or auth.uid() = b.professional_id)
+  )
+);
+create policy "Booking parties can view quote items." on public.booking_quote_items for select using (
+  exists (
+    select 1 from public.booking_quotes q
+    join public.bookings b on b.id = q.booking_id
+    where q.id = quote_id
+      and (auth.uid() = b.client_id or auth.uid() = b.professional_id)
+  )
+);
+
+-- Error codes raised below:
+--   BK001 booking_locked          booking is no longer pending
+--   BK003 transition_not_allowed  only the professional quotes, only the client answers
+--   BK005 not_a_party             caller is neither the client nor the professional
+--   BK012 quote_expired           the quote is past expires_at
+--   BK013 invalid_quote           no items, a negative amount, or a bad expiry
+--   BK014 quote_closed            the quote was already answered or replaced
+
+-- Lock a pending booking for quoting, checking the caller's role
+create or replace function public.lock_quotable_booking(
+  p_booking_id uuid,
+  p_actor public.booking_actor
+)
+returns public.bookings
+language plpgsql
+as $$
+declare
+  v_booking public.bookings;
+begin
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id
+  for update;
+
+  if v_booking.id is null
+    or auth.uid() is distinct from v_booking.client_id
+    and auth.uid() is distinct from v_booking.professional_id then
+    raise exception using
+      errcode = 'BK005',
+      message = 'not_a_party',
+      detail = 'Only the client or the professional can see this quote.';
+  end if;
+
+  if auth.uid() is distinct from (
+    case p_actor when 'client' then v_booking.client_id else v_booking.professional_id end
+  ) then
+    raise exception using
+      errcode = 'BK003',
+      message = 'transition_not_allowed',
+      detail = format('Only the %s can do this.', p_actor);
+  end if;
+
+  if v_booking.status <> 'pending' then
+    raise exception using
+      errcode = 'BK001',
+      message = 'booking_locked',
+      detail = format('Booking is %s; quotes only apply to pending bookings.', v_booking.status);
+  end if;
+
+  return v_booking;
+end;
+$$;
+
+-- Send an itemized quote, replacing any quote still waiting for the client.
+-- p_items is an array of {category, description, amount}.
+create or replace function public.send_quote(
+  p_booking_id uuid,
+  p_items jsonb,
+  p_expires_at timestamp with time zone
+)
+returns public.booking_quotes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.bookings := public.lock_quotable_booking(p_booking_id, 'professional');
+  v_quote public.booking_quotes;
+  v_total numeric;
+  v_service text;
+  v_professional text;
+begin
+  select sum(item.amount) into v_total
+  from jsonb_to_recordset(p_items) as item(category public.quote_item_category, description text, amount numeric);
+
+  if v_total is null or v_total <= 0 or exists (
+    select 1
+    from jsonb_to_recordset(p_items) as item(category public.quote_item_category, description text, amount numeric)
+    where item.category is null or item.amount is null or item.amount < 0
+  ) then
+    raise exception using
+      errcode = 'BK013',
+      message = 'invalid_quote',
+      detail = 'A quote needs items with a category and a non-negative amount, and a positive total.';
+  end if;
+
+  -- event_date/event_time are the local time of the event
+  if p_expires_at <= now()
+    or p_expires_at > (v_booking.event_date + v_booking.event_time) at time zone 'America/Sao_Paulo' then
+    raise exception using
+      errcode = 'BK013',
+      message = 'invalid_quote',
+      detail = 'A quote must expire in the future and before the event starts.';
+  end if;
+
+  update public.booking_quotes
+  set status = 'superseded', responded_at = now()
+  where booking_id = v_booking.id
+    and status = 'pending';
+
+  insert into public.booking_quotes (booking_id, total, expires_at)
+  values (v_booking.id, v_total, p_expires_at)
+  returning * into v_quote;
+
+  insert into public.booking_quote_items (quote_id, category, description, amount)
+  select v_quote.id, item.category, nullif(trim(item.description), ''), item.amount
+  from jsonb_to_recordset(p_items) as item(category public.quote_item_category, description text, amount numeric);
+
+  insert into public.booking_events (booking_id, actor_id, event_type, old_value, new_value)
+  values (
+    v_booking.id,
+    auth.uid(),
+    'quote_sent',
+    jsonb_build_object('total_price', v_booking.total_price),
+    jsonb_build_object('total_price', v_total, 'expires_at', p_expires_at)
+  );
+
+  select title into v_service from public.services where id = v_booking.service_id;
+  select full_name into v_professional from public.profiles where id = v_booking.professional_id;
+
+  insert into public.notifications (profile_id, booking_id, type, title, body)
+  values (
+    v_booking.client_id, v_booking.id, 'quote_received', 'Orçamento recebido',
+    format(
+      '%s enviou um orçamento de R$ %s para %s. Válido até %s.',
+      v_professional, v_total, v_service,
+      to_char(p_expires_at at time zone 'America/Sao_Paulo', 'DD/MM "às" HH24:MI')
+    )
+  );
+
+  return v_quote;
+end;
+$$;
+
+-- Lock a quote the client is answering
+create or replace function public.lock_pending_quote(p_quote_id uuid)
+returns public.booking_quotes
+language plpgsql
+as $$
+declare
+  v_quote public.booking_quotes;
+begin
+  select * into v_quote
+  from public.booking_quotes
+  where id = p_quote_id
+  for update;
+
+  -- Also checks that the caller is the booking's client
+  perform public.lock_quotable_booking(v_quote.booking_id, 'client');
+
+  if v_quote.status <> 'pending' then
+    raise exception using
+      errcode = 'BK014',
+      message = 'quote_closed',
+      detail = format('This quote was already %s.', v_quote.status);
+  end if;
+
+  return v_quote;
+end;
+$$;
+
+-- Approve a quote: the booking takes the quoted total and is confirmed
+create or replace function public.approve_quote(p_quote_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quote public.booking_quotes := public.lock_pending_quote(p_quote_id);
+begin
+  if v_quote.expires_at <= now() then
+    raise exception using
+      errcode = 'BK012',
+      message = 'quote_expired',
+      detail = 'This quote expired; ask the professional for a new one.';
+  end if;
+
+  -- enforce_booking_update lets the client set the price and confirm
+  -- because this quote was approved in the same transaction
+  update public.booking_quotes
+  set status = 'approved', responded_at = now()
+  where id = v_quote.id;
+
+  update public.bookings
+  set total_price = v_quote.total, status = 'confirmed'
+  where id = v_quote.booking_id;
+end;
+$$;
+
+-- Decline a quote; the booking stays pending for a new quote
+create or replace function public.decline_quote(p_quote_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quote public.booking_quotes := public.lock_pending_quote(p_quote_id);
+  v_booking public.bookings;
+  v_client text;
+  v_service text;
+begin
+  update public.booking_quotes
+  set status = 'declined', responded_at = now()
+  where id = v_quote.id;
+
+  select * into v_booking from public.bookings where id = v_quote.booking_id;
+
+  insert into public.booking_events (booking_id, actor_id, event_type, new_value)
+  values (v_booking.id, auth.uid(), 'quote_declined', jsonb_build_object('total_price', v_quote.total));
+
+  select full_name into v_client from public.profiles where id = v_booking.client_id;
+  select title into v_service from public.services where id = v_booking.service_id;
+
+  insert into public.notifications (profile_id, booking_id, type, title, body)
+  values (
+    v_booking.professional_id, v_booking.id, 'quote_declined', 'Orçamento recusado',
+    format('%s recusou o orçamento de R$ %s para %s.', v_client, v_quote.total, v_service)
+  );
+end;
+$$;
+
+-- Let approved quotes set the price and confirm on the client's behalf
+create or replace function public.enforce_booking_update()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_actor public.booking_actor;
+  v_rescheduled boolean;
+  v_quote_approved boolean;
+begin
+  new.updated_at := now();
+
+  -- Service role and database jobs are trusted
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if auth.uid() = old.client_id then
+    v_actor := 'client';
+  elsif auth.uid() = old.professional_id then
+    v_actor := 'professional';
+  else
+    raise exception using
+      errcode = 'BK005',
+      message = 'not_a_party',
+      detail = 'Only the client or the professional can change this booking.';
+  end if;
+
+  if old.status in ('cancelled', 'completed') then
+    raise exception using
+      errcode = 'BK001',
+      message = 'booking_locked',
+      detail = format('Booking is %s and can no longer change.', old.status);
+  end if;
+
+  if new.client_id is distinct from old.client_id
+    or new.professional_id is distinct from old.professional_id
+    or new.service_id is distinct from old.service_id
+    or new.created_at is distinct from old.created_at then
+    raise exception using
+      errcode = 'BK004',
+      message = 'column_not_editable',
+      detail = 'client_id, professional_id, service_id and created_at cannot change.';
+  end if;
+
+  -- The client approving a quote sets its total and confirms the booking;
+  -- approve_quote marks it approved in this transaction.
+  v_quote_approved := old.status = 'pending' and exists (
+    select 1 from public.booking_quotes q
+    where q.booking_id = new.id
+      and q.status = 'approved'
+      and q.responded_at = now()
+      and q.total = new.total_price
+  );
+
+  -- Clients own the event details, professionals own the price, and both
+  -- are frozen once the booking leaves pending.
+  if new.total_price is distinct from old.total_price and not v_quote_approved
+    and (v_actor <> 'professional' or old.status <> 'pending') then
+    raise exception using
+      errcode = 'BK004',
+      message = 'column_not_editable',
+      detail = 'Only the professional can change total_price, and only while pending.';
+  end if;
+
+  -- Either party may move the date by accepting the other's reschedule
+  -- request; respond_to_reschedule marks it accepted in this transaction.
+  v_rescheduled := exists (
+    select 1 from public.reschedule_requests r
+    where r.booking_id = new.id
+      and r.status = 'accepted'
+      and r.responded_at = now()
+      and r.event_date = new.event_date
+      and r.event_time = new.event_time
+  );
+
+  if ((new.event_date is distinct from old.event_date
+    or new.event_time is distinct from old.event_time) and not v_rescheduled
+    or new.guests_count is distinct from old.guests_count
+    or new.location is distinct from old.location
+    or new.notes is distinct from old.notes)
+    and (v_actor <> 'client' or old.status <> 'pending') then
+    raise exception using
+      errcode = 'BK004',
+      message = 'column_not_editable',
+      detail = 'Only the client can change event details, and only while pending.';
+  end if;
+
+  if new.status is distinct from old.status
+    and not (v_quote_approved and new.status = 'confirmed') then
+    if not exists (
+      select 1 from public.booking_status_transitions t
+      where t.from_status = old.status and t.to_status = new.status
+    ) then
+      raise exception using
+        errcode = 'BK002',
+        message = 'invalid_transition',
+        detail = format('Cannot move a booking from %s to %s.', old.status, new.status);
+    end if;
+
+    if not exists (
+      select 1 from public.booking_status_transitions t
+      where t.from_status = old.status and t.to_status = new.status and t.actor = v_actor
+    ) then
+      raise exception using
+        errcode = 'BK003',
+        message = 'transition_not_allowed',
+        detail = format('The %s cannot move a booking from %s to %s.', v_actor, old.status, new.status);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- A booking confirmed by the client approving a quote notifies the
+-- professional instead of the client
+create or replace function public.notify_booking_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_service text;
+  v_client text;
+  v_professional text;
+  v_when text;
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  select title into v_service from public.services where id = new.service_id;
+  select full_name into v_client from public.profiles where id = new.client_id;
+  select full_name into v_professional from public.profiles where id = new.professional_id;
+  v_when := to_char(new.event_date, 'DD/MM/YYYY') || ' às ' || to_char(new.event_time, 'HH24:MI');
+
+  if tg_op = 'INSERT' then
+    if new.status = 'pending' then
+      insert into public.notifications (profile_id, booking_id, type, title, body)
+      values (
+        new.professional_id, new.id, 'booking_requested', 'Nova solicitação',
+        format('%s quer agendar %s em %s.', v_client, v_service, v_when)
+      );
+    end if;
+    return new;
+  end if;
+
+  if old.status = 'pending' and new.status = 'confirmed' and auth.uid() = new.client_id then
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      new.professional_id, new.id, 'quote_approved', 'Orçamento aprovado',
+      format('%s aprovou R$ %s para %s em %s.', v_client, new.total_price, v_service, v_when)
+    );
+  elsif old.status = 'pending' and new.status = 'confirmed' then
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      new.client_id, new.id, 'booking_accepted', 'Agendamento confirmado',
+      format('%s confirmou %s em %s.', v_professional, v_service, v_when)
+    );
+  elsif old.status = 'pending' and new.status = 'cancelled' and auth.uid() = new.professional_id then
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      new.client_id, new.id, 'booking_refused', 'Solicitação recusada',
+      format('%s não poderá atender %s em %s.', v_professional, v_service, v_when)
+    );
+  elsif new.status = 'cancelled' then
+    -- Tell whoever did not cancel; both parties when the system did
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    select party, new.id, 'booking_cancelled', 'Agendamento cancelado',
+      format('%s em %s foi cancelado.', v_service, v_when)
+    from unnest(array[new.client_id, new.professional_id]) party
+    where party is distinct from auth.uid();
+  end if;
+
+  return new;
+end;
+$$;
+
+-- A booking that leaves pending has no quote left to answer
+create or replace function public.close_booking_quotes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.booking_quotes
+  set status = 'superseded', responded_at = now()
+  where booking_id = new.id
+    and status = 'pending';
+
+  return new;
+end;
+$$;
+
+create trigger close_booking_quotes
+after update of status on public.bookings
+for each row
+when (old.status = 'pending' and new.status <> 'pending')
+execute function public.close_booking_quotes();
+
+-- Broadcast quotes so the client sees them without refreshing
+alter publication supabase_realtime add table public.booking_quotes;
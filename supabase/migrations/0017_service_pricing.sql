@@ -0,0 +1,83 @@
+-- Add pricing rules to services. A service without a base fee, a price per
+-- guest or tiers keeps being estimated from its price_from/price_to range.
+alter table public.services
+  add column base_fee numeric not null default 0 check (base_fee >= 0),
+  add column price_per_guest numeric not null default 0 check (price_per_guest >= 0),
+  add column minimum_charge numeric not null default 0 check (minimum_charge >= 0),
+  add column weekend_surcharge_percent integer not null default 0 check (weekend_surcharge_percent between 0 and 100),
+  add column holiday_surcharge_percent integer not null default 0 check (holiday_surcharge_percent between 0 and 100);
+
+-- Create service_price_tiers table: from min_guests guests on, every guest
+-- costs the tier's price_per_guest instead of the service's
+create table public.service_price_tiers (
+  id uuid not null primary key default gen_random_uuid(),
+  service_id uuid not null references public.services(id) on delete cascade,
+  min_guests integer not null check (min_guests > 1),
+  price_per_guest numeric not null check (price_per_guest >= 0),
+  created_at timestamp with time zone not null default now(),
+  unique (service_id, min_guests)
+);
+
+-- Create holidays table: national holidays, when holiday_surcharge_percent
+-- applies instead of weekend_surcharge_percent. Later years are seeded by
+-- seed_holidays (0035_compute_holidays.sql).
+create table public.holidays (
+  holiday_date date not null primary key,
+  name text not null
+);
+
+insert into public.holidays (holiday_date, name) values
+  ('2026-01-01', 'Confraternização Universal'),
+  ('2026-02-16', 'Carnaval'),
+  ('2026-02-17', 'Carnaval'),
+  ('2026-04-03', 'Sexta-feira Santa'),
+  ('2026-04-21', 'Tiradentes'),
+  ('2026-05-01', 'Dia do Trabalho'),
+  ('2026-06-04', 'Corpus Christi'),
+  ('2026-09-07', 'Independência do Brasil'),
+  ('2026-10-12', 'Nossa Senhora Aparecida'),
+  ('2026-11-02', 'Finados'),
+  ('2026-11-15', 'Proclamação da República'),
+  ('2026-11-20', 'Dia Nacional de Zumbi e da Consciência Negra'),
+  ('2026-12-25', 'Natal'),
+  ('2027-01-01', 'Confraternização Universal'),
+  ('2027-02-08', 'Carnaval'),
+  ('2027-02-09', 'Carnaval'),
+  ('2027-03-26', 'Sexta-feira Santa'),
+  ('2027-04-21', 'Tiradentes'),
+  ('2027-05-01', 'Dia do Trabalho'),
+  ('2027-05-27', 'Corpus Christi'),
+  ('2027-09-07', 'Independência do Brasil'),
+  ('2027-10-12', 'Nossa Senhora Aparecida'),
+  ('2027-11-02', 'Finados'),
+  ('2027-11-15', 'Proclamação da República'),
+  ('2027-11-20', 'Dia Nacional de Zumbi e da Consciência Negra'),
+  ('2027-12-25', 'Natal');
+
+-- Enable Row Level Security
+alter table public.service_price_tiers enable row level security;
+alter table public.holidays enable row level security;
+
+-- Policies for service_price_tiers
+create policy "Service price tiers are viewable by everyone." on public.service_price_tiers for select using (true);
+create policy "Professionals can insert tiers for their own services." on public.service_price_tiers for insert with check (
+  exists (
+    select 1 from public.services s
+    where s.id = service_id and s.professional_id = auth.uid()
+  )
+);
+create policy "Professionals can update tiers of their own services." on public.service_price_tiers for update using (
+  exists (
+    select 1 from public.services s
+    where s.id = service_id and s.professional_id = auth.uid()
+  )
+);
+create policy "Professionals can delete tiers of their own services." on public.service_price_tiers for delete using (
+  exists (
+    select 1 from public.services s
+    where s.id = service_id and s.professional_id = auth.uid()
+  )
+);
+
+-- Policies for holidays
+create policy "Holidays are viewable by everyone." on public.holidays for select using (true);
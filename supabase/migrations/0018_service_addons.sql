@@ -0,0 +1,123 @@
+-- Create addon_pricing enum
+create type public.addon_pricing as enum ('flat', 'per_guest');
+
+-- Create service_addons table: optional extras a professional sells with a
+-- service (drinks bar, side dishes, grill rental, cleanup crew, extra hours).
+-- A per-guest add-on costs price for every guest of the booking.
+create table public.service_addons (
+  id uuid not null primary key default gen_random_uuid(),
+  service_id uuid not null references public.services(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  description text,
+  price numeric not null check (price >= 0),
+  pricing public.addon_pricing not null default 'flat',
+  max_quantity integer not null default 1 check (max_quantity >= 1),
+  created_at timestamp with time zone not null default now()
+);
+
+create index service_addons_service_id_idx on public.service_addons (service_id);
+
+-- Create booking_line_items table: the add-ons chosen for a booking. Name
+-- and price are copied from the add-on so later edits don't rewrite past
+-- bookings; addon_id is cleared if the add-on is deleted.
+create table public.booking_line_items (
+  id uuid not null primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  addon_id uuid references public.service_addons(id) on delete set null,
+  name text not null,
+  pricing public.addon_pricing not null,
+  unit_price numeric not null check (unit_price >= 0),
+  quantity integer not null check (quantity >= 1),
+  amount numeric not null check (amount >= 0),
+  created_at timestamp with time zone not null default now()
+);
+
+create index booking_line_items_booking_id_idx on public.booking_line_items (booking_id);
+
+-- Enable Row Level Security
+alter table public.service_addons enable row level security;
+alter table public.booking_line_items enable row level security;
+
+-- Policies for service_addons
+create policy "Service add-ons are viewable by everyone." on public.service_addons for select using (true);
+create policy "Professionals can insert add-ons for their own services." on public.service_addons for insert with check (
+  exists (
+    select 1 from public.services s
+    where s.id = service_id and s.professional_id = auth.uid()
+  )
+);
+create policy "Professionals can update add-ons of their own services." on public.service_addons for update using (
+  exists (
+    select 1 from public.services s
+    where s.id = service_id and s.professional_id = auth.uid()
+  )
+);
+create policy "Professionals can delete add-ons of their own services." on public.service_addons for delete using (
+  exists (
+    select 1 from public.services s
+    where s.id = service_id and s.professional_id = auth.uid()
+  )
+);
+
+-- Policies for booking_line_items
+-- Line items are never updated or deleted; the client adds them while the
+-- booking is still pending.
+create policy "Booking parties can view line items." on public.booking_line_items for select using (
+  exists (
+    select 1 from public.bookings b
+    where b.id = booking_id
+      and (auth.uid() = b.client_id or auth.uid() = b.professional_id)
+  )
+);
+create policy "Clients can add line items to their pending bookings." on public.booking_line_items for insert with check (
+  exists (
+    select 1 from public.bookings b
+    where b.id = booking_id
+      and b.client_id = auth.uid()
+      and b.status = 'pending'
+  )
+);
+
+-- Error codes raised below:
+--   BK015 invalid_addon  the add-on isn't offered with the booked service,
+--                        or the quantity is above its max_quantity
+
+-- Fill in a line item from its add-on, so the amount can't be made up by
+-- the client
+create or replace function public.price_booking_line_item()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_addon public.service_addons;
+  v_booking public.bookings;
+begin
+  select * into v_booking from public.bookings where id = new.booking_id;
+  select * into v_addon from public.service_addons where id = new.addon_id;
+
+  if v_addon.id is null or v_addon.service_id <> v_booking.service_id then
+    raise exception using
+      errcode = 'BK015',
+      message = 'invalid_addon',
+      detail = 'This add-on is not offered with the booked service.';
+  end if;
+
+  if new.quantity > v_addon.max_quantity then
+    raise exception using
+      errcode = 'BK015',
+      message = 'invalid_addon',
+      detail = format('At most %s of this add-on can be booked.', v_addon.max_quantity);
+  end if;
+
+  new.name := v_addon.name;
+  new.pricing := v_addon.pricing;
+  new.unit_price := v_addon.price;
+  new.amount := v_addon.price * new.quantity
+    * case when v_addon.pricing = 'per_guest' then v_booking.guests_count else 1 end;
+  return new;
+end;
+$$;
+
+create trigger price_booking_line_item
+before insert on public.booking_line_items
+for each row execute function public.price_booking_line_item();
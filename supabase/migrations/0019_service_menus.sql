@@ -0,0 +1,124 @@
+-- Create menu_item_kind enum
+create type public.menu_item_kind as enum ('cut', 'side', 'vegetarian');
+
+-- Create menu_tag enum: the categories clients filter services by
+create type public.menu_tag as enum ('traditional', 'premium', 'vegetarian');
+
+-- Create service_menus table: the menu variants a service offers. The
+-- client picks one when booking. Menus are archived instead of deleted so
+-- bookings keep pointing at the menu they were made with.
+create table public.service_menus (
+  id uuid not null primary key default gen_random_uuid(),
+  service_id uuid not null references public.services(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  description text,
+  tags public.menu_tag[] not null default '{}',
+  archived_at timestamp with time zone,
+  created_at timestamp with time zone not null default now()
+);
+
+create index service_menus_service_id_idx on public.service_menus (service_id);
+create index service_menus_tags_idx on public.service_menus using gin (tags);
+
+-- Create menu_items table: cuts, sides and vegetarian options with the
+-- amount served per person
+create table public.menu_items (
+  id uuid not null primary key default gen_random_uuid(),
+  menu_id uuid not null references public.service_menus(id) on delete cascade,
+  kind public.menu_item_kind not null,
+  name text not null check (length(trim(name)) > 0),
+  grams_per_person integer not null check (grams_per_person > 0),
+  position integer not null default 0
+);
+
+create index menu_items_menu_id_idx on public.menu_items (menu_id, position);
+
+-- The menu variant the client picked
+alter table public.bookings
+  add column menu_id uuid references public.service_menus(id);
+
+-- Enable Row Level Security
+alter table public.service_menus enable row level security;
+alter table public.menu_items enable row level security;
+
+-- Policies for service_menus
+create policy "Service menus are viewable by everyone." on public.service_menus for select using (true);
+create policy "Professionals can insert menus for their own services." on public.service_menus for insert with check (
+  exists (
+    select 1 from public.services s
+    where s.id = service_id and s.professional_id = auth.uid()
+  )
+);
+create policy "Professionals can update menus of their own services." on public.service_menus for update using (
+  exists (
+    select 1 from public.services s
+    where s.id = service_id and s.professional_id = auth.uid()
+  )
+);
+
+-- Policies for menu_items
+create policy "Menu items are viewable by everyone." on public.menu_items for select using (true);
+create policy "Professionals can insert items into their own menus." on public.menu_items for insert with check (
+  exists (
+    select 1 from public.service_menus m
+    join public.services s on s.id = m.service_id
+    where m.id = menu_id and s.professional_id = auth.uid()
+  )
+);
+create policy "Professionals can update items of their own menus." on public.menu_items for update using (
+  exists (
+    select 1 from public.service_menus m
+    join public.services s on s.id = m.service_id
+    where m.id = menu_id and s.professional_id = auth.uid()
+  )
+);
+create policy "Professionals can delete items of their own menus." on public.menu_items for delete using (
+  exists (
+    select 1 from public.service_menus m
+    join public.services s on s.id = m.service_id
+    where m.id = menu_id and s.professional_id = auth.uid()
+  )
+);
+
+-- Error codes raised below:
+--   BK004 column_not_editable  only the client picks the menu, only while pending
+--   BK016 invalid_menu         the menu isn't offered with the booked service,
+--                              or was archived
+
+-- Check the menu picked for a booking. Kept apart from
+-- enforce_booking_update, which doesn't know about menu_id.
+create or replace function public.check_booking_menu()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' and auth.uid() is not null
+    and new.menu_id is distinct from old.menu_id
+    and (auth.uid() <> old.client_id or old.status <> 'pending') then
+    raise exception using
+      errcode = 'BK004',
+      message = 'column_not_editable',
+      detail = 'Only the client can change the menu, and only while pending.';
+  end if;
+
+  if new.menu_id is not null
+    and (tg_op = 'INSERT' or new.menu_id is distinct from old.menu_id)
+    and not exists (
+      select 1 from public.service_menus m
+      where m.id = new.menu_id
+        and m.service_id = new.service_id
+        and m.archived_at is null
+    ) then
+    raise exception using
+      errcode = 'BK016',
+      message = 'invalid_menu',
+      detail = 'This menu is not offered with the booked service.';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger check_booking_menu
+before insert or update of menu_id on public.bookings
+for each row execute function public.check_booking_menu();
@@ -0,0 +1,35 @@
+-- How many of the guests are children; the supplies estimate counts them
+-- as half a portion and leaves them out of the beer
+alter table public.bookings
+  add column children_count integer not null default 0;
+
+alter table public.bookings
+  add constraint bookings_children_count_check
+  check (children_count >= 0 and children_count <= guests_count);
+
+-- Error codes raised below:
+--   BK004 column_not_editable  only the client changes the split, only while pending
+
+-- Guard children_count like the other event details. Kept apart from
+-- enforce_booking_update, which doesn't know about the column.
+create or replace function public.check_booking_children()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null
+    and new.children_count is distinct from old.children_count
+    and (auth.uid() <> old.client_id or old.status <> 'pending') then
+    raise exception using
+      errcode = 'BK004',
+      message = 'column_not_editable',
+      detail = 'Only the client can change children_count, and only while pending.';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger check_booking_children
+before update of children_count on public.bookings
+for each row execute function public.check_booking_children();
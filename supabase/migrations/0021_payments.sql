@@ -0,0 +1,204 @@
+-- Create payment_method enum
+create type public.payment_method as enum ('pix', 'card');
+
+-- Create payment_status enum
+create type public.payment_status as enum ('pending', 'paid', 'failed', 'expired', 'refunded');
+
+-- Record payments in the booking history and the inbox
+alter type public.booking_event_type add value 'payment_received';
+alter type public.notification_type add value 'payment_received';
+alter type public.notification_type add value 'payment_failed';
+
+-- Create payments table: one row per charge the client started. The
+-- payments edge function creates the charge with the gateway and fills in
+-- gateway_reference (and the PIX code); the gateway's webhooks move it out
+-- of pending through apply_payment_status.
+create table public.payments (
+  id uuid not null primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  payer_id uuid not null references public.profiles(id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  method public.payment_method not null,
+  status public.payment_status not null default 'pending',
+  gateway text not null,
+  gateway_reference text,
+  pix_code text,
+  pix_expires_at timestamp with time zone,
+  card_brand text,
+  card_last4 text check (card_last4 ~ '^[0-9]{4}$'),
+  failure_reason text,
+  paid_at timestamp with time zone,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  unique (gateway, gateway_reference)
+);
+
+create index payments_booking_id_idx on public.payments (booking_id, created_at);
+create index payments_payer_id_idx on public.payments (payer_id, created_at desc);
+
+-- Enable Row Level Security
+alter table public.payments enable row level security;
+
+-- Policies for payments
+-- There are no insert, update or delete policies: charges start through
+-- start_payment and only the edge function (service role) changes them.
+create policy "Booking parties can view payments." on public.payments for select using (
+  exists (
+    select 1 from public.bookings b
+    where b.id = booking_id
+      and (auth.uid() = b.client_id or auth.uid() = b.professional_id)
+  )
+);
+
+-- Error codes raised below:
+--   BK003 transition_not_allowed  only the client pays; only the gateway settles
+--   BK005 not_a_party             caller is not the booking's client
+--   BK017 payment_not_due         booking isn't confirmed or is already paid
+
+-- Start a charge for what is still owed on a confirmed booking. A PIX
+-- charge that is still open is handed back instead of opening another.
+create or replace function public.start_payment(
+  p_booking_id uuid,
+  p_method public.payment_method,
+  p_gateway text
+)
+returns public.payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+  v_payment public.payments;
+  v_due numeric;
+begin
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id
+  for update;
+
+  if v_booking.id is null or auth.uid() is distinct from v_booking.client_id then
+    raise exception using
+      errcode = 'BK005',
+      message = 'not_a_party',
+      detail = 'Only the booking''s client can pay for it.';
+  end if;
+
+  update public.payments
+  set status = 'expired', updated_at = now()
+  where booking_id = v_booking.id
+    and status = 'pending'
+    and pix_expires_at <= now();
+
+  select * into v_payment
+  from public.payments
+  where booking_id = v_booking.id
+    and status = 'pending'
+    and method = 'pix'
+    and pix_code is not null
+  order by created_at desc
+  limit 1;
+
+  if p_method = 'pix' and v_payment.id is not null then
+    return v_payment;
+  end if;
+
+  select v_booking.total_price - coalesce(sum(amount), 0) into v_due
+  from public.payments
+  where booking_id = v_booking.id
+    and status = 'paid';
+
+  if v_booking.status <> 'confirmed' or v_due <= 0 then
+    raise exception using
+      errcode = 'BK017',
+      message = 'payment_not_due',
+      detail = format('Booking is %s with R$ %s due.', v_booking.status, greatest(v_due, 0));
+  end if;
+
+  insert into public.payments (booking_id, payer_id, amount, method, gateway)
+  values (v_booking.id, v_booking.client_id, v_due, p_method, p_gateway)
+  returning * into v_payment;
+
+  return v_payment;
+end;
+$$;
+
+-- Settle a charge from a gateway webhook (or a synchronous card result).
+-- Repeated or out-of-order deliveries are harmless: a paid charge only
+-- moves on to refunded, and failed or expired charges stay closed.
+create or replace function public.apply_payment_status(
+  p_gateway text,
+  p_reference text,
+  p_status public.payment_status,
+  p_failure_reason text default null
+)
+returns public.payments
+language plpgsql
+as $$
+declare
+  v_payment public.payments;
+  v_booking public.bookings;
+  v_client text;
+  v_service text;
+begin
+  if auth.uid() is not null then
+    raise exception using
+      errcode = 'BK003',
+      message = 'transition_not_allowed',
+      detail = 'Only the payment gateway can settle a charge.';
+  end if;
+
+  select * into v_payment
+  from public.payments
+  where gateway = p_gateway
+    and gateway_reference = p_reference
+  for update;
+
+  if v_payment.id is null
+    or v_payment.status = p_status
+    or v_payment.status in ('failed', 'expired', 'refunded')
+    or v_payment.status = 'paid' and p_status <> 'refunded'
+    or v_payment.status = 'pending' and p_status = 'refunded' then
+    return v_payment;
+  end if;
+
+  update public.payments
+  set status = p_status,
+      failure_reason = case when p_status = 'failed' then p_failure_reason end,
+      paid_at = case when p_status = 'paid' then now() else paid_at end,
+      updated_at = now()
+  where id = v_payment.id
+  returning * into v_payment;
+
+  select * into v_booking from public.bookings where id = v_payment.booking_id;
+  select full_name into v_client from public.profiles where id = v_booking.client_id;
+  select title into v_service from public.services where id = v_booking.service_id;
+
+  if p_status = 'paid' then
+    insert into public.booking_events (booking_id, actor_id, event_type, new_value)
+    values (
+      v_booking.id,
+      v_payment.payer_id,
+      'payment_received',
+      jsonb_build_object('amount', v_payment.amount, 'method', v_payment.method)
+    );
+
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      v_booking.professional_id, v_booking.id, 'payment_received', 'Pagamento recebido',
+      format('%s pagou R$ %s por %s.', v_client, v_payment.amount, v_service)
+    );
+  elsif p_status = 'failed' then
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      v_booking.client_id, v_booking.id, 'payment_failed', 'Pagamento não aprovado',
+      format('O pagamento de R$ %s por %s não foi aprovado.', v_payment.amount, v_service)
+    );
+  end if;
+
+  return v_payment;
+end;
+$$;
+
+-- Broadcast payments so the PIX screen updates once the webhook lands
+alter publication supabase_realtime add table public.payments;
@@ -0,0 +1,289 @@
+-- Share of the price the client pays to reserve the date; 0 means the
+-- whole price is paid as the balance
+alter table public.services
+  add column deposit_percent integer not null default 0 check (deposit_percent between 0 and 100);
+
+-- Create charge_kind enum
+create type public.charge_kind as enum ('deposit', 'balance');
+
+-- Create charge_status enum
+create type public.charge_status as enum ('open', 'paid', 'cancelled');
+
+-- Create booking_charges table: what the client owes on a confirmed
+-- booking. Confirming creates the deposit (due right away) and the balance
+-- (due on event_date); each closes once a payment for it is paid.
+create table public.booking_charges (
+  id uuid not null primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  kind public.charge_kind not null,
+  amount numeric not null check (amount > 0),
+  due_date date not null,
+  status public.charge_status not null default 'open',
+  paid_at timestamp with time zone,
+  created_at timestamp with time zone not null default now(),
+  unique (booking_id, kind)
+);
+
+-- Payments now pay one charge; older payments have none
+alter table public.payments
+  add column charge_id uuid references public.booking_charges(id);
+
+create index payments_charge_id_idx on public.payments (charge_id);
+
+-- Enable Row Level Security
+alter table public.booking_charges enable row level security;
+
+-- Policies for booking_charges
+-- There are no insert, update or delete policies: charges follow the
+-- booking and its payments through the functions below.
+create policy "Booking parties can view charges." on public.booking_charges for select using (
+  exists (
+    select 1 from public.bookings b
+    where b.id = booking_id
+      and (auth.uid() = b.client_id or auth.uid() = b.professional_id)
+  )
+);
+
+-- Split a newly confirmed booking into deposit and balance, using the
+-- service's deposit_percent at the time of confirmation
+create or replace function public.create_booking_charges()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_percent integer;
+  v_deposit numeric;
+begin
+  select deposit_percent into v_percent from public.services where id = new.service_id;
+  v_deposit := round(new.total_price * coalesce(v_percent, 0) / 100.0, 2);
+
+  if v_deposit > 0 then
+    insert into public.booking_charges (booking_id, kind, amount, due_date)
+    values (new.id, 'deposit', v_deposit, current_date);
+  end if;
+
+  if new.total_price - v_deposit > 0 then
+    insert into public.booking_charges (booking_id, kind, amount, due_date)
+    values (new.id, 'balance', new.total_price - v_deposit, new.event_date);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger create_booking_charges
+after update of status on public.bookings
+for each row
+when (old.status = 'pending' and new.status = 'confirmed')
+execute function public.create_booking_charges();
+
+-- Keep open charges in step with the booking: a new date moves the
+-- balance's due date, and cancelling drops whatever wasn't paid
+create or replace function public.sync_booking_charges()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'cancelled' then
+    update public.booking_charges
+    set status = 'cancelled'
+    where booking_id = new.id
+      and status = 'open';
+  elsif new.event_date is distinct from old.event_date then
+    update public.booking_charges
+    set due_date = new.event_date
+    where booking_id = new.id
+      and kind = 'balance'
+      and status = 'open';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger sync_booking_charges
+after update of status, event_date on public.bookings
+for each row execute function public.sync_booking_charges();
+
+-- Bookings confirmed before deposits existed owe their unpaid remainder as
+-- the balance
+insert into public.booking_charges (booking_id, kind, amount, due_date)
+select b.id, 'balance', b.total_price - coalesce(paid.amount, 0), b.event_date
+from public.bookings b
+left join lateral (
+  select sum(p.amount) as amount
+  from public.payments p
+  where p.booking_id = b.id
+    and p.status = 'paid'
+) paid on true
+where b.status = 'confirmed'
+  and b.total_price - coalesce(paid.amount, 0) > 0;
+
+-- Error codes raised below:
+--   BK003 transition_not_allowed  only the client pays; only the gateway settles
+--   BK005 not_a_party             caller is not the booking's client
+--   BK017 payment_not_due         booking has no open charge left
+
+-- Start a charge for the booking's next open charge: the deposit first,
+-- then the balance. A PIX charge still open for it is handed back instead.
+create or replace function public.start_payment(
+  p_booking_id uuid,
+  p_method public.payment_method,
+  p_gateway text
+)
+returns public.payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+  v_charge public.booking_charges;
+  v_payment public.payments;
+begin
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id
+  for update;
+
+  if v_booking.id is null or auth.uid() is distinct from v_booking.client_id then
+    raise exception using
+      errcode = 'BK005',
+      message = 'not_a_party',
+      detail = 'Only the booking''s client can pay for it.';
+  end if;
+
+  select * into v_charge
+  from public.booking_charges
+  where booking_id = v_booking.id
+    and status = 'open'
+  order by kind, due_date
+  limit 1;
+
+  if v_charge.id is null then
+    raise exception using
+      errcode = 'BK017',
+      message = 'payment_not_due',
+      detail = format('Booking is %s with nothing left to pay.', v_booking.status);
+  end if;
+
+  update public.payments
+  set status = 'expired', updated_at = now()
+  where booking_id = v_booking.id
+    and status = 'pending'
+    and pix_expires_at <= now();
+
+  select * into v_payment
+  from public.payments
+  where charge_id = v_charge.id
+    and status = 'pending'
+    and method = 'pix'
+    and pix_code is not null
+  order by created_at desc
+  limit 1;
+
+  if p_method = 'pix' and v_payment.id is not null then
+    return v_payment;
+  end if;
+
+  insert into public.payments (booking_id, charge_id, payer_id, amount, method, gateway)
+  values (v_booking.id, v_charge.id, v_booking.client_id, v_charge.amount, p_method, p_gateway)
+  returning * into v_payment;
+
+  return v_payment;
+end;
+$$;
+
+-- Settling a payment also closes (or, on a refund, reopens) its charge
+create or replace function public.apply_payment_status(
+  p_gateway text,
+  p_reference text,
+  p_status public.payment_status,
+  p_failure_reason text default null
+)
+returns public.payments
+language plpgsql
+as $$
+declare
+  v_payment public.payments;
+  v_booking public.bookings;
+  v_kind public.charge_kind;
+  v_what text;
+  v_client text;
+  v_service text;
+begin
+  if auth.uid() is not null then
+    raise exception using
+      errcode = 'BK003',
+      message = 'transition_not_allowed',
+      detail = 'Only the payment gateway can settle a charge.';
+  end if;
+
+  select * into v_payment
+  from public.payments
+  where gateway = p_gateway
+    and gateway_reference = p_reference
+  for update;
+
+  if v_payment.id is null
+    or v_payment.status = p_status
+    or v_payment.status in ('failed', 'expired', 'refunded')
+    or v_payment.status = 'paid' and p_status <> 'refunded'
+    or v_payment.status = 'pending' and p_status = 'refunded' then
+    return v_payment;
+  end if;
+
+  update public.payments
+  set status = p_status,
+      failure_reason = case when p_status = 'failed' then p_failure_reason end,
+      paid_at = case when p_status = 'paid' then now() else paid_at end,
+      updated_at = now()
+  where id = v_payment.id
+  returning * into v_payment;
+
+  select * into v_booking from public.bookings where id = v_payment.booking_id;
+  select kind into v_kind from public.booking_charges where id = v_payment.charge_id;
+  select full_name into v_client from public.profiles where id = v_booking.client_id;
+  select title into v_service from public.services where id = v_booking.service_id;
+  v_what := case v_kind when 'deposit' then 'o sinal' when 'balance' then 'o saldo' else 'o pagamento' end;
+
+  if p_status = 'paid' then
+    update public.booking_charges
+    set status = 'paid', paid_at = now()
+    where id = v_payment.charge_id
+      and status = 'open';
+
+    insert into public.booking_events (booking_id, actor_id, event_type, new_value)
+    values (
+      v_booking.id,
+      v_payment.payer_id,
+      'payment_received',
+      jsonb_build_object('amount', v_payment.amount, 'method', v_payment.method, 'kind', v_kind)
+    );
+
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      v_booking.professional_id, v_booking.id, 'payment_received', 'Pagamento recebido',
+      format('%s pagou %s de R$ %s por %s.', v_client, v_what, v_payment.amount, v_service)
+    );
+  elsif p_status = 'refunded' then
+    update public.booking_charges
+    set status = case when v_booking.status = 'cancelled' then 'cancelled' else 'open' end::public.charge_status,
+        paid_at = null
+    where id = v_payment.charge_id
+      and status = 'paid';
+  elsif p_status = 'failed' then
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      v_booking.client_id, v_booking.id, 'payment_failed', 'Pagamento não aprovado',
+      format('O pagamento de %s (R$ %s) por %s não foi aprovado.', v_what, v_payment.amount, v_service)
+    );
+  end if;
+
+  return v_payment;
+end;
+$$;
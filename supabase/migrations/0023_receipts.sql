@@ -0,0 +1,137 @@
+-- Create billing_details table: the CPF or CNPJ printed on receipts. Kept
+-- apart from profiles, which everyone can read.
+create table public.billing_details (
+  profile_id uuid not null primary key references public.profiles(id) on delete cascade,
+  -- digits only: 11 for a CPF, 14 for a CNPJ
+  tax_id text not null check (tax_id ~ '^([0-9]{11}|[0-9]{14})$'),
+  updated_at timestamp with time zone not null default now()
+);
+
+-- Create receipts table: one per booking, numbered per professional. The
+-- parties' names and tax IDs are copied in when the receipt is issued, so
+-- each side only sees the other's document on the receipt itself.
+create table public.receipts (
+  id uuid not null primary key default gen_random_uuid(),
+  booking_id uuid not null unique references public.bookings(id) on delete cascade,
+  professional_id uuid not null references public.profiles(id) on delete cascade,
+  number integer not null check (number > 0),
+  client_name text not null,
+  client_tax_id text,
+  professional_name text not null,
+  professional_tax_id text,
+  issued_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  unique (professional_id, number)
+);
+
+-- Enable Row Level Security
+alter table public.billing_details enable row level security;
+alter table public.receipts enable row level security;
+
+-- Policies for billing_details
+create policy "Users can view their own billing details." on public.billing_details for select using (auth.uid() = profile_id);
+create policy "Users can insert their own billing details." on public.billing_details for insert with check (auth.uid() = profile_id);
+create policy "Users can update their own billing details." on public.billing_details for update using (auth.uid() = profile_id);
+
+-- Policies for receipts
+-- There are no insert, update or delete policies: receipts are issued
+-- through issue_receipt below.
+create policy "Booking parties can view receipts." on public.receipts for select using (
+  exists (
+    select 1 from public.bookings b
+    where b.id = booking_id
+      and (auth.uid() = b.client_id or auth.uid() = b.professional_id)
+  )
+);
+
+-- Error codes raised below:
+--   BK005 not_a_party             caller is not one of the booking's parties
+--   BK018 receipt_not_available   booking is neither completed nor paid in part
+
+-- Issue the booking's receipt, or hand back the one already issued with the
+-- parties' current names and tax IDs. Numbers run per professional and are
+-- never reused.
+create or replace function public.issue_receipt(p_booking_id uuid)
+returns public.receipts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+  v_client_name text;
+  v_client_tax_id text;
+  v_professional_name text;
+  v_professional_tax_id text;
+  v_receipt public.receipts;
+begin
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id;
+
+  if v_booking.id is null
+    or auth.uid() is distinct from v_booking.client_id
+    and auth.uid() is distinct from v_booking.professional_id then
+    raise exception using
+      errcode = 'BK005',
+      message = 'not_a_party',
+      detail = 'Only the booking''s client or professional can get its receipt.';
+  end if;
+
+  if v_booking.status <> 'completed' and not exists (
+    select 1 from public.payments
+    where booking_id = v_booking.id
+      and status = 'paid'
+  ) then
+    raise exception using
+      errcode = 'BK018',
+      message = 'receipt_not_available',
+      detail = format('Booking is %s with no payment received.', v_booking.status);
+  end if;
+
+  select p.full_name, d.tax_id into v_client_name, v_client_tax_id
+  from public.profiles p
+  left join public.billing_details d on d.profile_id = p.id
+  where p.id = v_booking.client_id;
+
+  select p.full_name, d.tax_id into v_professional_name, v_professional_tax_id
+  from public.profiles p
+  left join public.billing_details d on d.profile_id = p.id
+  where p.id = v_booking.professional_id
+  -- Serializes numbering for this professional
+  for update of p;
+
+  update public.receipts
+  set client_name = v_client_name,
+      client_tax_id = v_client_tax_id,
+      professional_name = v_professional_name,
+      professional_tax_id = v_professional_tax_id,
+      updated_at = now()
+  where booking_id = v_booking.id
+  returning * into v_receipt;
+
+  if v_receipt.id is not null then
+    return v_receipt;
+  end if;
+
+  insert into public.receipts (
+    booking_id, professional_id, number,
+    client_name, client_tax_id, professional_name, professional_tax_id
+  )
+  values (
+    v_booking.id,
+    v_booking.professional_id,
+    coalesce((
+      select max(number) from public.receipts
+      where professional_id = v_booking.professional_id
+    ), 0) + 1,
+    v_client_name,
+    v_client_tax_id,
+    v_professional_name,
+    v_professional_tax_id
+  )
+  returning * into v_receipt;
+
+  return v_receipt;
+end;
+$$;
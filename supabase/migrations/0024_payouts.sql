@@ -0,0 +1,120 @@
+-- Create payout_status enum
+create type public.payout_status as enum ('pending', 'paid', 'failed');
+
+-- Create ledger_entry_type enum
+create type public.ledger_entry_type as enum ('earning', 'fee', 'refund', 'payout');
+
+-- Create payouts table: transfers of a professional's balance to their
+-- bank account, recorded by the platform
+create table public.payouts (
+  id uuid not null primary key default gen_random_uuid(),
+  professional_id uuid not null references public.profiles(id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  status public.payout_status not null default 'pending',
+  -- the bank or PIX transfer's id, once sent
+  reference text,
+  failure_reason text,
+  paid_at timestamp with time zone,
+  created_at timestamp with time zone not null default now()
+);
+
+create index payouts_professional_id_idx on public.payouts (professional_id, created_at desc);
+
+-- Enable Row Level Security
+alter table public.payouts enable row level security;
+
+-- Policies for payouts
+-- There are no insert, update or delete policies: payouts are recorded and
+-- settled with the service role.
+create policy "Professionals can view their own payouts." on public.payouts for select using (auth.uid() = professional_id);
+
+-- The platform's cut of a payment: 10%, rounded to the cent
+create or replace function public.platform_fee(p_amount numeric)
+returns numeric
+language sql
+immutable
+as $$
+  select round(p_amount * 0.10, 2);
+$$;
+
+-- The current professional's ledger between p_from (inclusive) and p_to
+-- (exclusive), newest first. Every paid payment is an earning with its fee;
+-- a refund takes the payment back and returns the fee; payouts that didn't
+-- fail leave the balance as soon as they're requested.
+create or replace function public.get_professional_ledger(
+  p_from timestamp with time zone default null,
+  p_to timestamp with time zone default null
+)
+returns table (
+  entry_type public.ledger_entry_type,
+  booking_id uuid,
+  payout_id uuid,
+  description text,
+  amount numeric,
+  payout_status public.payout_status,
+  occurred_at timestamp with time zone
+)
+language sql
+stable
+as $$
+  with received as (
+    select p.booking_id, p.amount, p.status, p.paid_at, p.updated_at, s.title
+    from public.payments p
+    join public.bookings b on b.id = p.booking_id
+    join public.services s on s.id = b.service_id
+    where b.professional_id = auth.uid()
+      and p.status in ('paid', 'refunded')
+      and p.paid_at is not null
+  ),
+  entries as (
+    select 'earning'::public.ledger_entry_type as entry_type, booking_id, null::uuid as payout_id,
+      title as description, amount, null::public.payout_status as payout_status, paid_at as occurred_at
+    from received
+    union all
+    select 'fee', booking_id, null, title, -public.platform_fee(amount), null, paid_at
+    from received
+    union all
+    select 'refund', booking_id, null, title, -amount, null, updated_at
+    from received
+    where status = 'refunded'
+    union all
+    select 'fee', booking_id, null, title, public.platform_fee(amount), null, updated_at
+    from received
+    where status = 'refunded'
+    union all
+    select 'payout', null, id, reference, -amount, status, coalesce(paid_at, created_at)
+    from public.payouts
+    where professional_id = auth.uid()
+      and status <> 'failed'
+  )
+  select *
+  from entries
+  where (p_from is null or occurred_at >= p_from)
+    and (p_to is null or occurred_at < p_to)
+  order by occurred_at desc;
+$$;
+
+-- The current professional's totals: what the ledger leaves available, what
+-- confirmed bookings still owe (net of the fee), and payouts on their way
+create or replace function public.get_professional_balance()
+returns table (available numeric, receivable numeric, in_transit numeric)
+language sql
+stable
+as $$
+  select
+    coalesce((select sum(l.amount) from public.get_professional_ledger() l), 0),
+    coalesce((
+      select sum(c.amount - public.platform_fee(c.amount))
+      from public.booking_charges c
+      join public.bookings b on b.id = c.booking_id
+      where b.professional_id = auth.uid()
+        and b.status = 'confirmed'
+        and c.status = 'open'
+    ), 0),
+    coalesce((
+      select sum(amount)
+      from public.payouts
+      where professional_id = auth.uid()
+        and status = 'pending'
+    ), 0);
+$$;
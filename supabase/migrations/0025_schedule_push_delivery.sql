@@ -0,0 +1,24 @@
+-- Deliver queued notifications every minute by calling the
+-- send-notifications function. The project's URL and service role key are
+-- read from the Vault secrets 'project_url' and 'service_role_key':
+--   select vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'send-notifications',
+  '* * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/send-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key'
+      )
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
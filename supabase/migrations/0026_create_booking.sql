@@ -0,0 +1,45 @@
+-- Create a booking request together with its add-ons, so a rejected add-on
+-- doesn't leave a pending booking behind. Runs as the caller: the bookings
+-- and booking_line_items policies and triggers apply as before.
+-- p_addons is a list of { addon_id, quantity }.
+create or replace function public.create_booking(
+  p_service_id uuid,
+  p_event_date date,
+  p_event_time time,
+  p_guests_count integer,
+  p_children_count integer,
+  p_location text,
+  p_notes text,
+  p_total_price numeric,
+  p_menu_id uuid,
+  p_addons jsonb default '[]'
+)
+returns public.bookings
+language plpgsql
+as $$
+declare
+  v_booking public.bookings;
+begin
+  insert into public.bookings (
+    client_id, professional_id, service_id, event_date, event_time,
+    guests_count, children_count, location, notes, total_price, menu_id, status
+  )
+  select
+    auth.uid(), s.professional_id, s.id, p_event_date, p_event_time,
+    p_guests_count, p_children_count, p_location, p_notes, p_total_price, p_menu_id, 'pending'
+  from public.services s
+  where s.id = p_service_id
+  returning * into v_booking;
+
+  if v_booking.id is null then
+    raise exception 'Service % not found', p_service_id;
+  end if;
+
+  insert into public.booking_line_items (booking_id, addon_id, quantity)
+  select v_booking.id, a.addon_id, a.quantity
+  from jsonb_to_recordset(p_addons) as a (addon_id uuid, quantity integer)
+  where a.quantity > 0;
+
+  return v_booking;
+end;
+$$;
@@ -0,0 +1,32 @@
+-- Error codes raised below:
+--   BK004 column_not_editable  guests_count can't change once per-guest
+--                              add-ons are priced for it
+
+-- Per-guest add-ons are priced for the guest count at booking time, and
+-- the client can't reprice the booking's total; a new guest count needs a
+-- new booking request instead
+create or replace function public.check_booking_guest_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (
+    select 1 from public.booking_line_items
+    where booking_id = new.id
+      and pricing = 'per_guest'
+  ) then
+    raise exception using
+      errcode = 'BK004',
+      message = 'column_not_editable',
+      detail = 'guests_count cannot change on a booking with per-guest add-ons.';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger check_booking_guest_change
+before update of guests_count on public.bookings
+for each row
+when (new.guests_count is distinct from old.guests_count)
+execute function public.check_booking_guest_change();
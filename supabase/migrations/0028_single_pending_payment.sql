@@ -0,0 +1,189 @@
+-- Error codes raised below:
+--   BK003 transition_not_allowed  only the gateway settles
+--   BK005 not_a_party             caller is not the booking's client
+--   BK017 payment_not_due         booking has no open charge left, or the
+--                                 charge was already paid
+--   BK019 payment_in_progress     another payment for the booking is pending
+
+-- Start a charge for the booking's next open charge: the deposit first,
+-- then the balance. A booking has at most one pending payment: a PIX charge
+-- still open is handed back for another PIX request, and anything else
+-- pending refuses a new charge, so the client can't pay twice.
+create or replace function public.start_payment(
+  p_booking_id uuid,
+  p_method public.payment_method,
+  p_gateway text
+)
+returns public.payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+  v_charge public.booking_charges;
+  v_payment public.payments;
+begin
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id
+  for update;
+
+  if v_booking.id is null or auth.uid() is distinct from v_booking.client_id then
+    raise exception using
+      errcode = 'BK005',
+      message = 'not_a_party',
+      detail = 'Only the booking''s client can pay for it.';
+  end if;
+
+  select * into v_charge
+  from public.booking_charges
+  where booking_id = v_booking.id
+    and status = 'open'
+  order by kind, due_date
+  limit 1;
+
+  if v_charge.id is null then
+    raise exception using
+      errcode = 'BK017',
+      message = 'payment_not_due',
+      detail = format('Booking is %s with nothing left to pay.', v_booking.status);
+  end if;
+
+  update public.payments
+  set status = 'expired', updated_at = now()
+  where booking_id = v_booking.id
+    and status = 'pending'
+    and pix_expires_at <= now();
+
+  select * into v_payment
+  from public.payments
+  where booking_id = v_booking.id
+    and status = 'pending'
+  order by created_at desc
+  limit 1;
+
+  if v_payment.id is not null then
+    if p_method = 'pix'
+      and v_payment.method = 'pix'
+      and v_payment.charge_id = v_charge.id
+      and v_payment.pix_code is not null then
+      return v_payment;
+    end if;
+
+    raise exception using
+      errcode = 'BK019',
+      message = 'payment_in_progress',
+      detail = format('Payment %s is still pending.', v_payment.id);
+  end if;
+
+  insert into public.payments (booking_id, charge_id, payer_id, amount, method, gateway)
+  values (v_booking.id, v_charge.id, v_booking.client_id, v_charge.amount, p_method, p_gateway)
+  returning * into v_payment;
+
+  return v_payment;
+end;
+$$;
+
+-- Settling a payment also closes (or, on a refund, reopens) its charge. A
+-- charge is paid once: a second payment for it is refused rather than
+-- recorded, and has to be refunded at the gateway.
+create or replace function public.apply_payment_status(
+  p_gateway text,
+  p_reference text,
+  p_status public.payment_status,
+  p_failure_reason text default null
+)
+returns public.payments
+language plpgsql
+as $$
+declare
+  v_payment public.payments;
+  v_booking public.bookings;
+  v_kind public.charge_kind;
+  v_what text;
+  v_client text;
+  v_service text;
+begin
+  if auth.uid() is not null then
+    raise exception using
+      errcode = 'BK003',
+      message = 'transition_not_allowed',
+      detail = 'Only the payment gateway can settle a charge.';
+  end if;
+
+  select * into v_payment
+  from public.payments
+  where gateway = p_gateway
+    and gateway_reference = p_reference
+  for update;
+
+  if v_payment.id is null
+    or v_payment.status = p_status
+    or v_payment.status in ('failed', 'expired', 'refunded')
+    or v_payment.status = 'paid' and p_status <> 'refunded'
+    or v_payment.status = 'pending' and p_status = 'refunded' then
+    return v_payment;
+  end if;
+
+  if p_status = 'paid' and exists (
+    select 1 from public.booking_charges
+    where id = v_payment.charge_id
+      and status = 'paid'
+  ) then
+    raise exception using
+      errcode = 'BK017',
+      message = 'payment_not_due',
+      detail = format('Charge %s is already paid.', v_payment.charge_id);
+  end if;
+
+  update public.payments
+  set status = p_status,
+      failure_reason = case when p_status = 'failed' then p_failure_reason end,
+      paid_at = case when p_status = 'paid' then now() else paid_at end,
+      updated_at = now()
+  where id = v_payment.id
+  returning * into v_payment;
+
+  select * into v_booking from public.bookings where id = v_payment.booking_id;
+  select kind into v_kind from public.booking_charges where id = v_payment.charge_id;
+  select full_name into v_client from public.profiles where id = v_booking.client_id;
+  select title into v_service from public.services where id = v_booking.service_id;
+  v_what := case v_kind when 'deposit' then 'o sinal' when 'balance' then 'o saldo' else 'o pagamento' end;
+
+  if p_status = 'paid' then
+    update public.booking_charges
+    set status = 'paid', paid_at = now()
+    where id = v_payment.charge_id
+      and status = 'open';
+
+    insert into public.booking_events (booking_id, actor_id, event_type, new_value)
+    values (
+      v_booking.id,
+      v_payment.payer_id,
+      'payment_received',
+      jsonb_build_object('amount', v_payment.amount, 'method', v_payment.method, 'kind', v_kind)
+    );
+
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      v_booking.professional_id, v_booking.id, 'payment_received', 'Pagamento recebido',
+      format('%s pagou %s de R$ %s por %s.', v_client, v_what, v_payment.amount, v_service)
+    );
+  elsif p_status = 'refunded' then
+    update public.booking_charges
+    set status = case when v_booking.status = 'cancelled' then 'cancelled' else 'open' end::public.charge_status,
+        paid_at = null
+    where id = v_payment.charge_id
+      and status = 'paid';
+  elsif p_status = 'failed' then
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      v_booking.client_id, v_booking.id, 'payment_failed', 'Pagamento não aprovado',
+      format('O pagamento de %s (R$ %s) por %s não foi aprovado.', v_what, v_payment.amount, v_service)
+    );
+  end if;
+
+  return v_payment;
+end;
+$$;
@@ -0,0 +1,217 @@
+-- Tell both parties when a payment arrives for a cancelled booking
+alter type public.notification_type add value 'payment_refund_due';
+
+-- Error codes raised below:
+--   BK003 transition_not_allowed  only the gateway settles
+--   BK004 column_not_editable     cancellation details are set by this trigger only
+--   BK007 event_started           the event already started
+--   BK008 reason_required         clients must say why they cancel
+--   BK017 payment_not_due         the charge was already paid
+
+-- Apply the cancellation policy when a booking is cancelled.
+-- Pending bookings and cancellations by the professional are refunded in
+-- full; a client cancelling a confirmed booking gets the refund of the
+-- policy tier matching how far ahead of the event they cancel. The refund
+-- is a share of what the client has paid so far, not of the price.
+create or replace function public.enforce_cancellation_policy()
+returns trigger
+language plpgsql
+as $$
+declare
+  -- event_date/event_time are the local time of the event
+  v_now timestamp := now() at time zone 'America/Sao_Paulo';
+  v_hours_before numeric;
+  v_policy public.cancellation_policy;
+  v_refund_percent integer;
+  v_paid numeric;
+begin
+  -- Service role and database jobs are trusted
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' or new.status <> 'cancelled' or old.status = 'cancelled' then
+    if new.cancellation_reason is distinct from (case when tg_op = 'UPDATE' then old.cancellation_reason end)
+      or new.cancelled_by is distinct from (case when tg_op = 'UPDATE' then old.cancelled_by end)
+      or new.cancelled_at is distinct from (case when tg_op = 'UPDATE' then old.cancelled_at end)
+      or new.cancellation_policy is distinct from (case when tg_op = 'UPDATE' then old.cancellation_policy end)
+      or new.refund_percent is distinct from (case when tg_op = 'UPDATE' then old.refund_percent end)
+      or new.refund_amount is distinct from (case when tg_op = 'UPDATE' then old.refund_amount end) then
+      raise exception using
+        errcode = 'BK004',
+        message = 'column_not_editable',
+        detail = 'Cancellation details can only be set while cancelling.';
+    end if;
+    return new;
+  end if;
+
+  v_hours_before := extract(epoch from (new.event_date + new.event_time) - v_now) / 3600;
+
+  if v_hours_before <= 0 then
+    raise exception using
+      errcode = 'BK007',
+      message = 'event_started',
+      detail = 'The event already started and can no longer be cancelled.';
+  end if;
+
+  select coalesce(s.cancellation_policy, p.cancellation_policy)
+  into v_policy
+  from public.services s
+  join public.profiles p on p.id = s.professional_id
+  where s.id = new.service_id;
+
+  if auth.uid() = new.client_id then
+    if nullif(trim(new.cancellation_reason), '') is null then
+      raise exception using
+        errcode = 'BK008',
+        message = 'reason_required',
+        detail = 'Clients must give a reason to cancel.';
+    end if;
+
+    if old.status = 'confirmed' then
+      select t.refund_percent
+      into v_refund_percent
+      from public.cancellation_policy_tiers t
+      where t.policy = v_policy
+        and t.min_hours_before <= v_hours_before
+      order by t.min_hours_before desc
+      limit 1;
+    end if;
+  end if;
+
+  new.cancelled_by := auth.uid();
+  new.cancelled_at := now();
+  new.cancellation_reason := nullif(trim(new.cancellation_reason), '');
+  new.cancellation_policy := v_policy;
+  new.refund_percent := coalesce(v_refund_percent, 100);
+
+  select coalesce(sum(amount), 0) into v_paid
+  from public.payments
+  where booking_id = new.id
+    and status = 'paid';
+
+  new.refund_amount := round(v_paid * new.refund_percent / 100.0, 2);
+
+  return new;
+end;
+$$;
+
+-- Settling a payment also closes (or, on a refund, reopens) its charge. A
+-- charge is paid once: a second payment for it is refused rather than
+-- recorded, and has to be refunded at the gateway. A payment arriving after
+-- the booking was cancelled (a PIX code paid late) is owed back in full, so
+-- it's added to the booking's refund and both parties are told.
+create or replace function public.apply_payment_status(
+  p_gateway text,
+  p_reference text,
+  p_status public.payment_status,
+  p_failure_reason text default null
+)
+returns public.payments
+language plpgsql
+as $$
+declare
+  v_payment public.payments;
+  v_booking public.bookings;
+  v_kind public.charge_kind;
+  v_what text;
+  v_client text;
+  v_service text;
+begin
+  if auth.uid() is not null then
+    raise exception using
+      errcode = 'BK003',
+      message = 'transition_not_allowed',
+      detail = 'Only the payment gateway can settle a charge.';
+  end if;
+
+  select * into v_payment
+  from public.payments
+  where gateway = p_gateway
+    and gateway_reference = p_reference
+  for update;
+
+  if v_payment.id is null
+    or v_payment.status = p_status
+    or v_payment.status in ('failed', 'expired', 'refunded')
+    or v_payment.status = 'paid' and p_status <> 'refunded'
+    or v_payment.status = 'pending' and p_status = 'refunded' then
+    return v_payment;
+  end if;
+
+  if p_status = 'paid' and exists (
+    select 1 from public.booking_charges
+    where id = v_payment.charge_id
+      and status = 'paid'
+  ) then
+    raise exception using
+      errcode = 'BK017',
+      message = 'payment_not_due',
+      detail = format('Charge %s is already paid.', v_payment.charge_id);
+  end if;
+
+  update public.payments
+  set status = p_status,
+      failure_reason = case when p_status = 'failed' then p_failure_reason end,
+      paid_at = case when p_status = 'paid' then now() else paid_at end,
+      updated_at = now()
+  where id = v_payment.id
+  returning * into v_payment;
+
+  select * into v_booking from public.bookings where id = v_payment.booking_id;
+  select kind into v_kind from public.booking_charges where id = v_payment.charge_id;
+  select full_name into v_client from public.profiles where id = v_booking.client_id;
+  select title into v_service from public.services where id = v_booking.service_id;
+  v_what := case v_kind when 'deposit' then 'o sinal' when 'balance' then 'o saldo' else 'o pagamento' end;
+
+  if p_status = 'paid' and v_booking.status = 'cancelled' then
+    update public.bookings
+    set refund_amount = coalesce(refund_amount, 0) + v_payment.amount
+    where id = v_booking.id;
+
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values
+      (
+        v_booking.client_id, v_booking.id, 'payment_refund_due', 'Pagamento será reembolsado',
+        format('Seu pagamento de R$ %s por %s chegou depois do cancelamento e será reembolsado.', v_payment.amount, v_service)
+      ),
+      (
+        v_booking.professional_id, v_booking.id, 'payment_refund_due', 'Reembolso pendente',
+        format('%s pagou R$ %s por %s depois do cancelamento; o valor será reembolsado.', v_client, v_payment.amount, v_service)
+      );
+  elsif p_status = 'paid' then
+    update public.booking_charges
+    set status = 'paid', paid_at = now()
+    where id = v_payment.charge_id
+      and status = 'open';
+
+    insert into public.booking_events (booking_id, actor_id, event_type, new_value)
+    values (
+      v_booking.id,
+      v_payment.payer_id,
+      'payment_received',
+      jsonb_build_object('amount', v_payment.amount, 'method', v_payment.method, 'kind', v_kind)
+    );
+
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      v_booking.professional_id, v_booking.id, 'payment_received', 'Pagamento recebido',
+      format('%s pagou %s de R$ %s por %s.', v_client, v_what, v_payment.amount, v_service)
+    );
+  elsif p_status = 'refunded' then
+    update public.booking_charges
+    set status = case when v_booking.status = 'cancelled' then 'cancelled' else 'open' end::public.charge_status,
+        paid_at = null
+    where id = v_payment.charge_id
+      and status = 'paid';
+  elsif p_status = 'failed' then
+    insert into public.notifications (profile_id, booking_id, type, title, body)
+    values (
+      v_booking.client_id, v_booking.id, 'payment_failed', 'Pagamento não aprovado',
+      format('O pagamento de %s (R$ %s) por %s não foi aprovado.', v_what, v_payment.amount, v_service)
+    );
+  end if;
+
+  return v_payment;
+end;
+$$;
@@ -0,0 +1,115 @@
+-- Create receipt_counters table: the last receipt number issued to each
+-- professional. Unlike max(number) + 1 it doesn't go back when a receipt
+-- is deleted along with its booking.
+create table public.receipt_counters (
+  professional_id uuid not null primary key references public.profiles(id) on delete cascade,
+  last_number integer not null check (last_number > 0)
+);
+
+-- Enable Row Level Security
+alter table public.receipt_counters enable row level security;
+
+-- There are no policies for receipt_counters: only issue_receipt below
+-- reads and advances it.
+
+-- Continue from the receipts issued so far
+insert into public.receipt_counters (professional_id, last_number)
+select professional_id, max(number)
+from public.receipts
+group by professional_id;
+
+-- Error codes raised below:
+--   BK005 not_a_party             caller is not one of the booking's parties
+--   BK018 receipt_not_available   booking is neither completed nor paid in part
+
+-- Issue the booking's receipt, or hand back the one already issued with the
+-- parties' current names and tax IDs. Numbers run per professional and come
+-- from receipt_counters, so they're never reused.
+create or replace function public.issue_receipt(p_booking_id uuid)
+returns public.receipts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+  v_client_name text;
+  v_client_tax_id text;
+  v_professional_name text;
+  v_professional_tax_id text;
+  v_receipt public.receipts;
+  v_number integer;
+begin
+  select * into v_booking
+  from public.bookings
+  where id = p_booking_id;
+
+  if v_booking.id is null
+    or auth.uid() is distinct from v_booking.client_id
+    and auth.uid() is distinct from v_booking.professional_id then
+    raise exception using
+      errcode = 'BK005',
+      message = 'not_a_party',
+      detail = 'Only the booking''s client or professional can get its receipt.';
+  end if;
+
+  if v_booking.status <> 'completed' and not exists (
+    select 1 from public.payments
+    where booking_id = v_booking.id
+      and status = 'paid'
+  ) then
+    raise exception using
+      errcode = 'BK018',
+      message = 'receipt_not_available',
+      detail = format('Booking is %s with no payment received.', v_booking.status);
+  end if;
+
+  select p.full_name, d.tax_id into v_client_name, v_client_tax_id
+  from public.profiles p
+  left join public.billing_details d on d.profile_id = p.id
+  where p.id = v_booking.client_id;
+
+  select p.full_name, d.tax_id into v_professional_name, v_professional_tax_id
+  from public.profiles p
+  left join public.billing_details d on d.profile_id = p.id
+  where p.id = v_booking.professional_id
+  -- Serializes issuing for this professional
+  for update of p;
+
+  update public.receipts
+  set client_name = v_client_name,
+      client_tax_id = v_client_tax_id,
+      professional_name = v_professional_name,
+      professional_tax_id = v_professional_tax_id,
+      updated_at = now()
+  where booking_id = v_booking.id
+  returning * into v_receipt;
+
+  if v_receipt.id is not null then
+    return v_receipt;
+  end if;
+
+  insert into public.receipt_counters as c (professional_id, last_number)
+  values (v_booking.professional_id, 1)
+  on conflict (professional_id) do update
+  set last_number = c.last_number + 1
+  returning last_number into v_number;
+
+  insert into public.receipts (
+    booking_id, professional_id, number,
+    client_name, client_tax_id, professional_name, professional_tax_id
+  )
+  values (
+    v_booking.id,
+    v_booking.professional_id,
+    v_number,
+    v_client_name,
+    v_client_tax_id,
+    v_professional_name,
+    v_professional_tax_id
+  )
+  returning * into v_receipt;
+
+  return v_receipt;
+end;
+$$;
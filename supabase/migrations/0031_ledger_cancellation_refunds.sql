@@ -0,0 +1,72 @@
+-- The current professional's ledger between p_from (inclusive) and p_to
+-- (exclusive), newest first. Every paid payment is an earning with its fee.
+-- A cancelled booking refunds its refund_amount, capped at what was paid
+-- for it; elsewhere a refunded payment is taken back whole. Either way the
+-- fee on the refunded amount is returned. Payouts that didn't fail leave
+-- the balance as soon as they're requested.
+create or replace function public.get_professional_ledger(
+  p_from timestamp with time zone default null,
+  p_to timestamp with time zone default null
+)
+returns table (
+  entry_type public.ledger_entry_type,
+  booking_id uuid,
+  payout_id uuid,
+  description text,
+  amount numeric,
+  payout_status public.payout_status,
+  occurred_at timestamp with time zone
+)
+language sql
+stable
+as $$
+  with received as (
+    select p.booking_id, p.amount, p.status, p.paid_at, p.updated_at, s.title,
+      b.status as booking_status, b.refund_amount, b.cancelled_at
+    from public.payments p
+    join public.bookings b on b.id = p.booking_id
+    join public.services s on s.id = b.service_id
+    where b.professional_id = auth.uid()
+      and p.status in ('paid', 'refunded')
+      and p.paid_at is not null
+  ),
+  refunds as (
+    -- A payment that arrived after the cancellation is refunded when it does
+    select booking_id, title,
+      least(coalesce(refund_amount, 0), sum(amount)) as amount,
+      greatest(cancelled_at, max(paid_at)) as refunded_at
+    from received
+    where booking_status = 'cancelled'
+    group by booking_id, title, refund_amount, cancelled_at
+    having least(coalesce(refund_amount, 0), sum(amount)) > 0
+    union all
+    select booking_id, title, amount, updated_at
+    from received
+    where booking_status <> 'cancelled'
+      and status = 'refunded'
+  ),
+  entries as (
+    select 'earning'::public.ledger_entry_type as entry_type, booking_id, null::uuid as payout_id,
+      title as description, amount, null::public.payout_status as payout_status, paid_at as occurred_at
+    from received
+    union all
+    select 'fee', booking_id, null, title, -public.platform_fee(amount), null, paid_at
+    from received
+    union all
+    select 'refund', booking_id, null, title, -amount, null, refunded_at
+    from refunds
+    union all
+    select 'fee', booking_id, null, title, public.platform_fee(amount), null, refunded_at
+    from refunds
+    union all
+    select 'payout', null, id, reference, -amount, status, coalesce(paid_at, created_at)
+    from public.payouts
+    where professional_id = auth.uid()
+      and status <> 'failed'
+  )
+  select *
+  from entries
+  where (p_from is null or occurred_at >= p_from)
+    and (p_to is null or occurred_at < p_to)
+  order by occurred_at desc;
+$$;
@@ -0,0 +1,12 @@
+-- Payments and receipts are financial records: deleting a booking (or the
+-- service or profile it cascades from) no longer takes them along, and is
+-- refused instead while the booking has any
+alter table public.payments
+  drop constraint payments_booking_id_fkey,
+  add constraint payments_booking_id_fkey
+    foreign key (booking_id) references public.bookings(id) on delete restrict;
+
+alter table public.receipts
+  drop constraint receipts_booking_id_fkey,
+  add constraint receipts_booking_id_fkey
+    foreign key (booking_id) references public.bookings(id) on delete restrict;
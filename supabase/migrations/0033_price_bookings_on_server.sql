@@ -0,0 +1,132 @@
+-- Price of an event for p_guests guests on p_date, before add-ons. Mirrors
+-- calculatePrice in lib/pricing.ts, which shows the client the same number
+-- while they fill in the booking form.
+create or replace function public.calculate_event_price(
+  p_service_id uuid,
+  p_guests integer,
+  p_date date
+)
+returns numeric
+language plpgsql
+stable
+as $$
+declare
+  v_service public.services;
+  v_percent integer := 0;
+  v_per_guest numeric;
+  v_subtotal numeric;
+begin
+  select * into v_service from public.services where id = p_service_id;
+
+  if v_service.id is null then
+    return null;
+  end if;
+
+  -- Holidays take precedence over weekends; the two never add up
+  if v_service.holiday_surcharge_percent > 0
+    and exists (select 1 from public.holidays where holiday_date = p_date) then
+    v_percent := v_service.holiday_surcharge_percent;
+  elsif extract(isodow from p_date) in (6, 7) then
+    v_percent := v_service.weekend_surcharge_percent;
+  end if;
+
+  if v_service.base_fee > 0
+    or v_service.price_per_guest > 0
+    or exists (select 1 from public.service_price_tiers where service_id = v_service.id) then
+    select t.price_per_guest into v_per_guest
+    from public.service_price_tiers t
+    where t.service_id = v_service.id
+      and t.min_guests <= p_guests
+    order by t.min_guests desc
+    limit 1;
+
+    v_subtotal := greatest(
+      round(v_service.base_fee + round(coalesce(v_per_guest, v_service.price_per_guest) * p_guests, 2), 2),
+      v_service.minimum_charge
+    );
+  else
+    -- Without pricing rules the price scales inside price_from..price_to
+    v_subtotal := round(
+      v_service.price_from
+      + (coalesce(v_service.price_to, v_service.price_from) - v_service.price_from)
+        * case
+            when v_service.price_to > v_service.price_from
+              then least(p_guests::numeric / v_service.max_guests, 1)
+            else 0
+          end
+    );
+  end if;
+
+  return round(v_subtotal + round(v_subtotal * v_percent / 100.0, 2), 2);
+end;
+$$;
+
+-- create_booking no longer takes the client's total
+drop function public.create_booking(uuid, date, time, integer, integer, text, text, numeric, uuid, jsonb);
+
+-- Create a booking request together with its add-ons, so a rejected add-on
+-- doesn't leave a pending booking behind. The total is priced here from the
+-- service and the add-ons, never taken from the client; this is the only
+-- way to create a booking or add line items to it.
+-- p_addons is a list of { addon_id, quantity }.
+create or replace function public.create_booking(
+  p_service_id uuid,
+  p_event_date date,
+  p_event_time time,
+  p_guests_count integer,
+  p_children_count integer,
+  p_location text,
+  p_notes text,
+  p_menu_id uuid,
+  p_addons jsonb default '[]'
+)
+returns public.bookings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_price numeric;
+  v_addons_amount numeric;
+  v_booking public.bookings;
+begin
+  v_price := public.calculate_event_price(p_service_id, p_guests_count, p_event_date);
+
+  if v_price is null then
+    raise exception 'Service % not found', p_service_id;
+  end if;
+
+  -- Same amounts price_booking_line_item fills in below, which also rejects
+  -- add-ons the service doesn't offer
+  select coalesce(sum(
+    s.price * a.quantity
+    * case when s.pricing = 'per_guest' then p_guests_count else 1 end
+  ), 0)
+  into v_addons_amount
+  from jsonb_to_recordset(p_addons) as a (addon_id uuid, quantity integer)
+  join public.service_addons s on s.id = a.addon_id and s.service_id = p_service_id
+  where a.quantity > 0;
+
+  insert into public.bookings (
+    client_id, professional_id, service_id, event_date, event_time,
+    guests_count, children_count, location, notes, total_price, menu_id, status
+  )
+  select
+    auth.uid(), s.professional_id, s.id, p_event_date, p_event_time,
+    p_guests_count, p_children_count, p_location, p_notes, v_price + v_addons_amount, p_menu_id, 'pending'
+  from public.services s
+  where s.id = p_service_id
+  returning * into v_booking;
+
+  insert into public.booking_line_items (booking_id, addon_id, quantity)
+  select v_booking.id, a.addon_id, a.quantity
+  from jsonb_to_recordset(p_addons) as a (addon_id uuid, quantity integer)
+  where a.quantity > 0;
+
+  return v_booking;
+end;
+$$;
+
+-- Bookings and their line items are only created through create_booking
+drop policy "Clients can create bookings." on public.bookings;
+drop policy "Clients can add line items to their pending bookings." on public.booking_line_items;
@@ -0,0 +1,108 @@
+-- A completed booking keeps its open charges: the client can still pay
+-- them in the app, and they stay in the professional's receivable until
+-- they're paid or the professional records them as received off the app
+alter table public.booking_charges
+  add column settled_off_app boolean not null default false;
+
+-- Error codes raised below:
+--   BK001 booking_locked       booking is pending or cancelled
+--   BK005 not_a_party          caller is not the booking's professional
+--   BK017 payment_not_due      the charge isn't open
+--   BK019 payment_in_progress  a payment in the app is still pending
+
+-- Close a charge the client paid to the professional directly (cash, a
+-- transfer), so it's no longer payable in the app
+create or replace function public.settle_charge_off_app(p_charge_id uuid)
+returns public.booking_charges
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_charge public.booking_charges;
+  v_booking public.bookings;
+begin
+  select * into v_charge
+  from public.booking_charges
+  where id = p_charge_id;
+
+  select * into v_booking
+  from public.bookings
+  where id = v_charge.booking_id
+  for update;
+
+  if v_booking.id is null or auth.uid() is distinct from v_booking.professional_id then
+    raise exception using
+      errcode = 'BK005',
+      message = 'not_a_party',
+      detail = 'Only the booking''s professional can record a payment off the app.';
+  end if;
+
+  if v_booking.status not in ('confirmed', 'completed') then
+    raise exception using
+      errcode = 'BK001',
+      message = 'booking_locked',
+      detail = format('Booking is %s.', v_booking.status);
+  end if;
+
+  if v_charge.status <> 'open' then
+    raise exception using
+      errcode = 'BK017',
+      message = 'payment_not_due',
+      detail = format('Charge is %s.', v_charge.status);
+  end if;
+
+  if exists (
+    select 1 from public.payments
+    where booking_id = v_booking.id
+      and status = 'pending'
+      and (pix_expires_at is null or pix_expires_at > now())
+  ) then
+    raise exception using
+      errcode = 'BK019',
+      message = 'payment_in_progress',
+      detail = 'A payment in the app is still pending.';
+  end if;
+
+  update public.booking_charges
+  set status = 'paid', paid_at = now(), settled_off_app = true
+  where id = v_charge.id
+  returning * into v_charge;
+
+  insert into public.booking_events (booking_id, actor_id, event_type, new_value)
+  values (
+    v_booking.id,
+    auth.uid(),
+    'payment_received',
+    jsonb_build_object('amount', v_charge.amount, 'kind', v_charge.kind, 'off_app', true)
+  );
+
+  return v_charge;
+end;
+$$;
+
+-- The current professional's totals: what the ledger leaves available, what
+-- confirmed and completed bookings still owe (net of the fee), and payouts
+-- on their way
+create or replace function public.get_professional_balance()
+returns table (available numeric, receivable numeric, in_transit numeric)
+language sql
+stable
+as $$
+  select
+    coalesce((select sum(l.amount) from public.get_professional_ledger() l), 0),
+    coalesce((
+      select sum(c.amount - public.platform_fee(c.amount))
+      from public.booking_charges c
+      join public.bookings b on b.id = c.booking_id
+      where b.professional_id = auth.uid()
+        and b.status in ('confirmed', 'completed')
+        and c.status = 'open'
+    ), 0),
+    coalesce((
+      select sum(amount)
+      from public.payouts
+      where professional_id = auth.uid()
+        and status = 'pending'
+    ), 0);
+$$;
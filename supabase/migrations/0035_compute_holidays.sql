@@ -0,0 +1,61 @@
+-- Brazil's national holidays in p_year. Carnaval, Sexta-feira Santa and
+-- Corpus Christi move with Easter, computed with the anonymous Gregorian
+-- algorithm; the rest fall on the same date every year.
+create or replace function public.national_holidays(p_year integer)
+returns table (holiday_date date, name text)
+language plpgsql
+immutable
+as $$
+declare
+  a integer := p_year % 19;
+  b integer := p_year / 100;
+  c integer := p_year % 100;
+  h integer;
+  l integer;
+  m integer;
+  v_easter date;
+begin
+  h := (19 * a + b - b / 4 - (b - (b + 8) / 25 + 1) / 3 + 15) % 30;
+  l := (32 + 2 * (b % 4) + 2 * (c / 4) - h - c % 4) % 7;
+  m := (a + 11 * h + 22 * l) / 451;
+  v_easter := make_date(p_year, (h + l - 7 * m + 114) / 31, (h + l - 7 * m + 114) % 31 + 1);
+
+  return query values
+    (make_date(p_year, 1, 1), 'Confraternização Universal'),
+    (v_easter - 48, 'Carnaval'),
+    (v_easter - 47, 'Carnaval'),
+    (v_easter - 2, 'Sexta-feira Santa'),
+    (make_date(p_year, 4, 21), 'Tiradentes'),
+    (make_date(p_year, 5, 1), 'Dia do Trabalho'),
+    (v_easter + 60, 'Corpus Christi'),
+    (make_date(p_year, 9, 7), 'Independência do Brasil'),
+    (make_date(p_year, 10, 12), 'Nossa Senhora Aparecida'),
+    (make_date(p_year, 11, 2), 'Finados'),
+    (make_date(p_year, 11, 15), 'Proclamação da República'),
+    (make_date(p_year, 11, 20), 'Dia Nacional de Zumbi e da Consciência Negra'),
+    (make_date(p_year, 12, 25), 'Natal');
+end;
+$$;
+
+-- Fill in the holidays table for p_from_year through p_to_year; years
+-- already there are left alone
+create or replace function public.seed_holidays(p_from_year integer, p_to_year integer)
+returns void
+language sql
+as $$
+  insert into public.holidays (holiday_date, name)
+  select h.holiday_date, h.name
+  from generate_series(p_from_year, p_to_year) as y (year)
+  cross join lateral public.national_holidays(y.year) h
+  on conflict (holiday_date) do nothing;
+$$;
+
+select public.seed_holidays(2026, extract(year from now())::integer + 2);
+
+-- Keep the table two years ahead, so the holiday surcharge and the booking
+-- form's holiday dates never run out
+select cron.schedule(
+  'seed-holidays',
+  '0 3 1 1 *',
+  $$select public.seed_holidays(extract(year from now())::integer, extract(year from now())::integer + 2)$$
+);
@@ -0,0 +1,35 @@
+-- Error codes raised below:
+--   BK020 too_many_guests  guests_count is above the service's max_guests
+
+-- Hold guests_count to what the service takes. Kept apart from
+-- enforce_booking_insert and enforce_booking_update, which don't know about
+-- the service. A later, lower max_guests doesn't affect bookings already made.
+create or replace function public.check_booking_guests()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_max_guests integer;
+begin
+  if tg_op = 'UPDATE' and new.guests_count is not distinct from old.guests_count then
+    return new;
+  end if;
+
+  select max_guests into v_max_guests
+  from public.services
+  where id = new.service_id;
+
+  if new.guests_count > v_max_guests then
+    raise exception using
+      errcode = 'BK020',
+      message = 'too_many_guests',
+      detail = format('This service takes at most %s guests.', v_max_guests);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger check_booking_guests
+before insert or update of guests_count on public.bookings
+for each row execute function public.check_booking_guests();